@@ -0,0 +1,130 @@
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { DispatchStrategy } from '../../core/types';
+import { DISPATCH_STRATEGY_NAMES } from '../../core/battery';
+import { NumberField } from '../ControlFields';
+
+export function BatteryControls() {
+  const { batteryEnabled, setBatteryEnabled, batteryConfig, setBatteryConfig, annualBattery } = useSimulatorStore();
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between text-sm font-medium text-gray-700" style={{ minHeight: '44px' }}>
+        Battery storage
+        <input
+          type="checkbox"
+          checked={batteryEnabled}
+          onChange={(e) => setBatteryEnabled(e.target.checked)}
+          className="w-5 h-5 accent-solar-500"
+        />
+      </label>
+
+      {batteryEnabled && (
+        <>
+          <div className="flex gap-2 text-xs">
+            {(Object.keys(DISPATCH_STRATEGY_NAMES) as DispatchStrategy[]).map((strategy) => (
+              <button
+                key={strategy}
+                onClick={() => setBatteryConfig({ strategy })}
+                className={`flex-1 px-2 py-1.5 rounded transition-colors ${
+                  batteryConfig.strategy === strategy
+                    ? 'bg-solar-500 text-white font-medium'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:border-solar-400'
+                }`}
+                style={{ minHeight: '32px' }}
+              >
+                {DISPATCH_STRATEGY_NAMES[strategy]}
+              </button>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField
+                label="Capacity (kWh)"
+                step={0.5}
+                value={batteryConfig.capacity}
+                onChange={(capacity) => setBatteryConfig({ capacity })}
+              />
+              <NumberField
+                label="Usable (%)"
+                value={Number((batteryConfig.depthOfDischarge * 100).toFixed(1))}
+                onChange={(value) => setBatteryConfig({ depthOfDischarge: value / 100 })}
+              />
+              <NumberField
+                label="Charge (kW)"
+                step={0.5}
+                value={batteryConfig.maxChargePower}
+                onChange={(maxChargePower) => setBatteryConfig({ maxChargePower })}
+              />
+              <NumberField
+                label="Discharge (kW)"
+                step={0.5}
+                value={batteryConfig.maxDischargePower}
+                onChange={(maxDischargePower) => setBatteryConfig({ maxDischargePower })}
+              />
+              <NumberField
+                label="Round trip (%)"
+                value={Number((batteryConfig.roundTripEfficiency * 100).toFixed(1))}
+                onChange={(value) => setBatteryConfig({ roundTripEfficiency: value / 100 })}
+              />
+              <NumberField
+                label="Cycle life"
+                step={500}
+                value={batteryConfig.cycleLife}
+                onChange={(cycleLife) => setBatteryConfig({ cycleLife })}
+              />
+              <NumberField
+                label="Age fade (%/yr)"
+                step={0.1}
+                value={batteryConfig.calendarFade}
+                onChange={(calendarFade) => setBatteryConfig({ calendarFade })}
+              />
+            </div>
+
+            {batteryConfig.strategy === 'time-of-use' && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <NumberField
+                    label="Peak from (h)"
+                    value={batteryConfig.peakStart}
+                    onChange={(peakStart) => setBatteryConfig({ peakStart })}
+                  />
+                  <NumberField
+                    label="Peak to (h)"
+                    value={batteryConfig.peakEnd}
+                    onChange={(peakEnd) => setBatteryConfig({ peakEnd })}
+                  />
+                </div>
+                <label className="flex items-center justify-between font-medium text-gray-700" style={{ minHeight: '32px' }}>
+                  Charge from grid off-peak
+                  <input
+                    type="checkbox"
+                    checked={batteryConfig.gridCharging}
+                    onChange={(e) => setBatteryConfig({ gridCharging: e.target.checked })}
+                    className="w-5 h-5 accent-solar-500"
+                  />
+                </label>
+              </>
+            )}
+
+            {batteryConfig.strategy === 'backup' && (
+              <NumberField
+                label="Backup reserve (%)"
+                step={5}
+                value={Number((batteryConfig.backupReserve * 100).toFixed(1))}
+                onChange={(value) => setBatteryConfig({ backupReserve: value / 100 })}
+              />
+            )}
+          </div>
+
+          {annualBattery && (
+            <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+              Self-sufficiency this year: <span className="font-semibold text-gray-700">{(annualBattery.selfSufficiency * 100).toFixed(0)}%</span>
+              {' '}with {annualBattery.cycles.toFixed(0)} cycles
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
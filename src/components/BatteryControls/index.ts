@@ -0,0 +1 @@
+export { BatteryControls } from './BatteryControls';
@@ -0,0 +1,22 @@
+export function NumberField({ label, value, step = 1, onChange }: {
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      {label}
+      <input
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (Number.isFinite(parsed)) onChange(parsed);
+        }}
+        className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+      />
+    </label>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useRef, useEffect } from 'react';
+
+// Stepper Button Component
+interface StepperButtonProps {
+  onClick: () => void;
+  disabled?: boolean;
+  direction: 'minus' | 'plus';
+}
+
+function StepperButton({ onClick, disabled, direction }: StepperButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex items-center justify-center
+        w-11 h-11
+        bg-white border-2 border-gray-300 rounded-lg
+        text-gray-700 font-bold text-lg
+        transition-colors
+        disabled:opacity-30 disabled:cursor-not-allowed
+        active:bg-gray-100
+        hover:border-solar-400 hover:text-solar-600
+      `}
+      style={{
+        // Ensure 44px minimum tap target
+        minWidth: '44px',
+        minHeight: '44px',
+      }}
+      aria-label={direction === 'minus' ? 'Decrease' : 'Increase'}
+    >
+      {direction === 'minus' ? '−' : '+'}
+    </button>
+  );
+}
+
+// Slider with Steppers Component
+interface SliderWithSteppersProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (value: number) => void;
+  formatValue?: (value: number) => string;
+  optimalValue?: number;
+  onSetOptimal?: () => void;
+}
+
+export function SliderWithSteppers({
+  label,
+  value,
+  min,
+  max,
+  step,
+  unit,
+  onChange,
+  formatValue,
+  optimalValue,
+  onSetOptimal,
+}: SliderWithSteppersProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [localValue, setLocalValue] = useState(value);
+  const throttleTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Sync local value when prop changes (but not during drag)
+  useEffect(() => {
+    if (!isDragging) {
+      setLocalValue(value);
+    }
+  }, [value, isDragging]);
+
+  const handleSliderChange = (newValue: number) => {
+    setLocalValue(newValue);
+
+    // Throttle updates during drag for smoother UX
+    if (throttleTimerRef.current) {
+      clearTimeout(throttleTimerRef.current);
+    }
+
+    throttleTimerRef.current = setTimeout(() => {
+      onChange(newValue);
+    }, 50); // 50ms throttle
+  };
+
+  const handlePointerDown = () => {
+    setIsDragging(true);
+  };
+
+  const handlePointerUp = () => {
+    setIsDragging(false);
+    // Apply final value on release
+    if (throttleTimerRef.current) {
+      clearTimeout(throttleTimerRef.current);
+    }
+    onChange(localValue);
+  };
+
+  const handleDecrement = () => {
+    const newValue = Math.max(min, value - step);
+    onChange(newValue);
+  };
+
+  const handleIncrement = () => {
+    const newValue = Math.min(max, value + step);
+    onChange(newValue);
+  };
+
+  const displayValue = formatValue ? formatValue(value) : `${value.toFixed(0)}${unit}`;
+
+  const isOptimal = optimalValue !== undefined && Math.abs(value - optimalValue) <= step;
+
+  return (
+    <div>
+      {/* Label and value */}
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-sm font-medium text-gray-700">
+          {label}: <span className="text-solar-600 font-semibold">{displayValue}</span>
+        </label>
+        {optimalValue !== undefined && onSetOptimal && (
+          <button
+            onClick={onSetOptimal}
+            className={`text-xs px-3 py-1.5 rounded transition-colors ${
+              isOptimal
+                ? 'bg-green-100 text-green-700 font-medium'
+                : 'bg-solar-50 text-solar-600 hover:bg-solar-100 font-medium'
+            }`}
+            style={{ minHeight: '32px' }}
+          >
+            {isOptimal ? '✓ Optimal' : `→${optimalValue.toFixed(0)}${unit}`}
+          </button>
+        )}
+      </div>
+
+      {/* Slider + Steppers */}
+      <div className="flex items-center gap-2 group">
+        <StepperButton onClick={handleDecrement} disabled={value <= min} direction="minus" />
+
+        <div className="flex-1 relative">
+          <span
+            className="absolute -top-6 left-1/2 -translate-x-1/2 text-xs px-2 py-0.5 rounded bg-gray-800 text-white opacity-0 transition-opacity pointer-events-none group-hover:opacity-100 group-focus-within:opacity-100"
+            aria-hidden="true"
+          >
+            {displayValue}
+          </span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={localValue}
+            onChange={(e) => handleSliderChange(parseFloat(e.target.value))}
+            onPointerDown={handlePointerDown}
+            onPointerUp={handlePointerUp}
+            aria-valuetext={displayValue}
+            className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-solar-500"
+            style={{
+              // Prevent vertical scroll when dragging horizontally
+              touchAction: 'pan-y',
+              // Increase hit area vertically
+              padding: '8px 0',
+            }}
+          />
+        </div>
+
+        <StepperButton onClick={handleIncrement} disabled={value >= max} direction="plus" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { SliderWithSteppers } from './SliderWithSteppers';
+export { NumberField } from './NumberField';
+export { MONTH_LABELS, MOUNTING_TYPES } from './labels';
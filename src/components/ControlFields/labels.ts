@@ -0,0 +1,12 @@
+import { MountingType } from '../../core/types';
+
+export const MOUNTING_TYPES: { id: MountingType; label: string }[] = [
+  { id: 'roof', label: 'Roof (fixed tilt)' },
+  { id: 'ground', label: 'Ground (fixed tilt)' },
+  { id: 'tracking', label: 'Single-axis tracker' },
+  { id: 'dual-axis', label: 'Dual-axis tracker' },
+];
+
+export const MONTH_LABELS = Array.from({ length: 12 }, (_, month) =>
+  new Date(2000, month, 1).toLocaleString('en-US', { month: 'short' })
+);
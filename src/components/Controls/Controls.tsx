@@ -10,11 +10,46 @@
  * - Reset button with confirmation
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useSimulatorStore, selectOptimalTilt, selectOptimalAzimuth, selectSystemSize } from '../../store/simulatorStore';
 import { panelPresets } from '../../models/panelPresets';
+import { inverterPresets } from '../../models/inverterPresets';
+import { TIMESTEP_OPTIONS } from '../../core/panelOutput';
+import {
+  AllSkySeries,
+  DecompositionModel,
+  DegradationModel,
+  IrradianceSource,
+  ModuleLayout,
+  MountingType,
+  Obstacle,
+  SpectralModel,
+  ThermalModel,
+  ThermalMounting,
+  TimestepMinutes,
+} from '../../core/types';
+import { calculateDailyClearnessIndex, DECOMPOSITION_MODEL_NAMES, parseAllSkySeries } from '../../core/decomposition';
+import { DEFAULT_BIFACIALITY } from '../../core/bifacial';
+import { MODULE_TECHNOLOGY_NAMES, SPECTRAL_MODEL_NAMES } from '../../core/spectral';
+import { THERMAL_MODEL_NAMES, THERMAL_MOUNTING_NAMES } from '../../core/thermal';
+import { DEFAULT_DEGRADATION_RATE, DEGRADATION_MODEL_NAMES } from '../../core/degradation';
+import { INVERTER_CURVE_LOADS, calculateWeightedEfficiency, getInverterCount, getInverterNightTare } from '../../core/inverter';
+import { skyPresets, getSkyPresetForClearness } from '../../models/skyPresets';
+import { obstaclePresets, getObstaclePreset } from '../../models/obstaclePresets';
 import { useCompactMode } from '../../hooks/usePanelState';
 import { useIsMobile } from '../../hooks/useMediaQuery';
+import { NumberField, SliderWithSteppers, MOUNTING_TYPES } from '../ControlFields';
+import { WeatherImport } from '../WeatherImport';
+import { HorizonImport } from '../HorizonImport';
+import { SnowControls } from '../SnowControls';
+import { SoilingControls } from '../SoilingControls';
+import { StringSizingControls } from '../StringSizingControls';
+import { SubArrayControls } from '../SubArrayControls';
+import { LoadControls } from '../LoadControls';
+import { BatteryControls } from '../BatteryControls';
+import { TariffControls } from '../TariffControls';
+import { FinanceControls } from '../FinanceControls';
+import { EmissionControls } from '../EmissionControls';
 
 // Storage key for mode state (versioned)
 // Progressive disclosure: Simple (default) vs Pro mode
@@ -55,171 +90,856 @@ function saveConfigState(state: ConfigState) {
   }
 }
 
-// Stepper Button Component
-interface StepperButtonProps {
-  onClick: () => void;
-  disabled?: boolean;
-  direction: 'minus' | 'plus';
-}
+// Near-Shading Obstacles Component
+type ObstacleDimension = keyof Pick<Obstacle, 'east' | 'north' | 'width' | 'depth' | 'height' | 'rotation'>;
+
+const OBSTACLE_FIELDS: { key: ObstacleDimension; label: string; step: number; boxOnly?: boolean }[] = [
+  { key: 'east', label: 'East (m)', step: 0.5 },
+  { key: 'north', label: 'North (m)', step: 0.5 },
+  { key: 'width', label: 'Width (m)', step: 0.1 },
+  { key: 'depth', label: 'Depth (m)', step: 0.1, boxOnly: true },
+  { key: 'height', label: 'Height (m)', step: 0.1 },
+  { key: 'rotation', label: 'Rotation (°)', step: 5, boxOnly: true },
+];
+
+function ObstacleControls() {
+  const { obstacles, addObstacle, updateObstacle, removeObstacle, panelShading } = useSimulatorStore();
+
+  const arrayShading = panelShading.length > 0
+    ? panelShading.reduce((sum, f) => sum + f, 0) / panelShading.length
+    : 0;
 
-function StepperButton({ onClick, disabled, direction }: StepperButtonProps) {
   return (
-    <button
-      onClick={onClick}
-      disabled={disabled}
-      className={`
-        flex items-center justify-center
-        w-11 h-11
-        bg-white border-2 border-gray-300 rounded-lg
-        text-gray-700 font-bold text-lg
-        transition-colors
-        disabled:opacity-30 disabled:cursor-not-allowed
-        active:bg-gray-100
-        hover:border-solar-400 hover:text-solar-600
-      `}
-      style={{
-        // Ensure 44px minimum tap target
-        minWidth: '44px',
-        minHeight: '44px',
-      }}
-      aria-label={direction === 'minus' ? 'Decrease' : 'Increase'}
-    >
-      {direction === 'minus' ? '−' : '+'}
-    </button>
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Obstacles</label>
+
+      <div className="grid grid-cols-4 gap-1 mb-2">
+        {obstaclePresets.map((preset) => (
+          <button
+            key={preset.type}
+            onClick={() => addObstacle(preset.type)}
+            className="px-2 py-2 rounded-lg text-xs font-medium bg-white border border-gray-300 text-gray-700 hover:border-solar-300 transition-colors"
+            style={{ minHeight: '44px' }}
+            aria-label={`Add ${preset.name.toLowerCase()}`}
+          >
+            + {preset.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {obstacles.map((obstacle) => (
+          <div key={obstacle.id} className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <p className="font-medium text-gray-700">
+                {getObstaclePreset(obstacle.type).name} · {obstacle.shape === 'cylinder' ? 'Cylinder' : 'Box'}
+              </p>
+              <button
+                onClick={() => removeObstacle(obstacle.id)}
+                className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+                style={{ minHeight: '32px' }}
+                aria-label={`Remove ${getObstaclePreset(obstacle.type).name.toLowerCase()}`}
+              >
+                ✕
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {OBSTACLE_FIELDS.filter((field) => !field.boxOnly || obstacle.shape === 'box').map((field) => (
+                <label key={field.key} className="flex flex-col gap-1">
+                  {field.label}
+                  <input
+                    type="number"
+                    step={field.step}
+                    value={obstacle[field.key]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (Number.isFinite(value)) updateObstacle(obstacle.id, { [field.key]: value });
+                    }}
+                    className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {obstacles.length > 0 ? (
+        <p className="text-xs text-gray-500 mt-1">
+          Shaded now: {(arrayShading * 100).toFixed(0)}% of the array · replaces the flat shading loss
+        </p>
+      ) : (
+        <p className="text-xs text-gray-400 mt-1">Trees, chimneys and buildings cast shade on the panels</p>
+      )}
+    </div>
   );
 }
 
-// Slider with Steppers Component
-interface SliderWithSteppersProps {
-  label: string;
-  value: number;
-  min: number;
-  max: number;
-  step: number;
-  unit: string;
-  onChange: (value: number) => void;
-  formatValue?: (value: number) => string;
-  optimalValue?: number;
-  onSetOptimal?: () => void;
-}
+// Sky Conditions Component
+const IRRADIANCE_SOURCES: { id: IrradianceSource; label: string }[] = [
+  { id: 'clear-sky', label: 'Clear Sky' },
+  { id: 'all-sky', label: 'All-Sky' },
+  { id: 'weather', label: 'Weather File' },
+];
 
-function SliderWithSteppers({
-  label,
-  value,
-  min,
-  max,
-  step,
-  unit,
-  onChange,
-  formatValue,
-  optimalValue,
-  onSetOptimal,
-}: SliderWithSteppersProps) {
-  const [isDragging, setIsDragging] = useState(false);
-  const [localValue, setLocalValue] = useState(value);
-  const throttleTimerRef = useRef<ReturnType<typeof setTimeout>>();
-
-  // Sync local value when prop changes (but not during drag)
-  useEffect(() => {
-    if (!isDragging) {
-      setLocalValue(value);
-    }
-  }, [value, isDragging]);
+const SKY_SERIES_UNITS: Record<AllSkySeries['kind'], Record<AllSkySeries['resolution'], string>> = {
+  ghi: { daily: 'Daily GHI (kWh/m²)', hourly: 'Hourly GHI (W/m²)' },
+  clearness: { daily: 'Daily KT', hourly: 'Hourly kt' },
+};
 
-  const handleSliderChange = (newValue: number) => {
-    setLocalValue(newValue);
+function SkyConditions() {
+  const {
+    irradianceSource,
+    setIrradianceSource,
+    weatherData,
+    allSkyConfig,
+    setAllSkyConfig,
+    date,
+    location,
+  } = useSimulatorStore();
+  const [dailyInsolation, setDailyInsolation] = useState('');
+  const [seriesError, setSeriesError] = useState<string | null>(null);
+  const seriesInputRef = useRef<HTMLInputElement>(null);
+  const activePreset = getSkyPresetForClearness(allSkyConfig.clearnessIndex);
+  const series = allSkyConfig.series ?? null;
 
-    // Throttle updates during drag for smoother UX
-    if (throttleTimerRef.current) {
-      clearTimeout(throttleTimerRef.current);
+  const handleSeriesFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setAllSkyConfig({ series: parseAllSkySeries(await file.text(), file.name) });
+      setSeriesError(null);
+    } catch (e) {
+      setSeriesError(e instanceof Error ? e.message : 'Failed to read sky series');
+    } finally {
+      if (seriesInputRef.current) seriesInputRef.current.value = '';
     }
-
-    throttleTimerRef.current = setTimeout(() => {
-      onChange(newValue);
-    }, 50); // 50ms throttle
-  };
-
-  const handlePointerDown = () => {
-    setIsDragging(true);
   };
 
-  const handlePointerUp = () => {
-    setIsDragging(false);
-    // Apply final value on release
-    if (throttleTimerRef.current) {
-      clearTimeout(throttleTimerRef.current);
+  const handleDailyInsolation = (value: string) => {
+    setDailyInsolation(value);
+    const insolation = parseFloat(value);
+    if (Number.isFinite(insolation) && insolation >= 0) {
+      setAllSkyConfig({ clearnessIndex: calculateDailyClearnessIndex(insolation, date, location.latitude) });
     }
-    onChange(localValue);
   };
 
-  const handleDecrement = () => {
-    const newValue = Math.max(min, value - step);
-    onChange(newValue);
-  };
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Sky Conditions</label>
+        <div className="flex gap-2 text-xs">
+          {IRRADIANCE_SOURCES.map((source) => (
+            <button
+              key={source.id}
+              onClick={() => setIrradianceSource(source.id)}
+              disabled={source.id === 'weather' && !weatherData}
+              className={`flex-1 px-2 py-1.5 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                irradianceSource === source.id
+                  ? 'bg-solar-500 text-white font-medium'
+                  : 'bg-white border border-gray-300 text-gray-700 hover:border-solar-400'
+              }`}
+              style={{ minHeight: '32px' }}
+            >
+              {source.label}
+            </button>
+          ))}
+        </div>
+      </div>
 
-  const handleIncrement = () => {
-    const newValue = Math.min(max, value + step);
-    onChange(newValue);
-  };
+      {irradianceSource === 'all-sky' && (
+        <div className="space-y-3 bg-gray-50 rounded-lg p-3">
+          {series ? (
+            <div className="text-xs text-gray-500 bg-white border border-gray-200 rounded-lg p-3 flex items-start justify-between gap-2">
+              <div>
+                <p className="font-medium text-gray-700">{series.name}</p>
+                <p>{SKY_SERIES_UNITS[series.kind][series.resolution]} · replaces the clearness index</p>
+              </div>
+              <button
+                onClick={() => setAllSkyConfig({ series: null })}
+                className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+                style={{ minHeight: '32px' }}
+                aria-label="Remove sky series"
+              >
+                ✕
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                {skyPresets.map((preset) => (
+                  <button
+                    key={preset.id}
+                    onClick={() => {
+                      setDailyInsolation('');
+                      setAllSkyConfig({ clearnessIndex: preset.clearnessIndex });
+                    }}
+                    title={preset.description}
+                    className={`px-2 py-1.5 rounded transition-colors ${
+                      activePreset?.id === preset.id
+                        ? 'bg-sky-100 text-sky-700 font-medium'
+                        : 'bg-white border border-gray-300 text-gray-700 hover:border-sky-400'
+                    }`}
+                    style={{ minHeight: '32px' }}
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+
+              <SliderWithSteppers
+                label="Clearness Index"
+                value={allSkyConfig.clearnessIndex}
+                min={0}
+                max={1}
+                step={0.05}
+                unit=""
+                onChange={(v) => {
+                  setDailyInsolation('');
+                  setAllSkyConfig({ clearnessIndex: v });
+                }}
+                formatValue={(v) => `kt ${v.toFixed(2)}`}
+              />
+
+              <label className="flex flex-col gap-1 text-xs font-medium text-gray-700">
+                Daily GHI (kWh/m²)
+                <input
+                  type="number"
+                  min={0}
+                  max={12}
+                  step={0.1}
+                  value={dailyInsolation}
+                  placeholder="Sets kt for the selected date"
+                  onChange={(e) => handleDailyInsolation(e.target.value)}
+                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+                />
+              </label>
+
+              <input
+                ref={seriesInputRef}
+                type="file"
+                accept=".csv,.txt"
+                onChange={(e) => handleSeriesFile(e.target.files?.[0])}
+                className="block w-full text-xs text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-solar-50 file:text-solar-700 hover:file:bg-solar-100"
+                aria-label="Import sky series"
+              />
+              {seriesError ? (
+                <p className="text-xs text-red-600">{seriesError}</p>
+              ) : (
+                <p className="text-xs text-gray-400">365 daily or 8760 hourly values of GHI or kt</p>
+              )}
+            </>
+          )}
 
-  const displayValue = formatValue ? formatValue(value) : `${value.toFixed(0)}${unit}`;
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-700">
+            Decomposition Model
+            <select
+              value={allSkyConfig.model}
+              onChange={(e) => setAllSkyConfig({ model: e.target.value as DecompositionModel })}
+              className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+              style={{ minHeight: '44px' }}
+            >
+              {(Object.keys(DECOMPOSITION_MODEL_NAMES) as DecompositionModel[]).map((model) => (
+                <option key={model} value={model}>{DECOMPOSITION_MODEL_NAMES[model]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <WeatherImport />
+    </div>
+  );
+}
 
-  const isOptimal = optimalValue !== undefined && Math.abs(value - optimalValue) <= step;
+// Tracker Components
+function TrackerControls() {
+  const { trackerConfig, setTrackerConfig, trackerRotation } = useSimulatorStore();
+
+  return (
+    <div className="space-y-3">
+      <SliderWithSteppers
+        label="Axis Azimuth"
+        value={trackerConfig.axisAzimuth}
+        min={0}
+        max={359}
+        step={1}
+        unit="°"
+        onChange={(axisAzimuth) => setTrackerConfig({ axisAzimuth })}
+      />
+
+      <SliderWithSteppers
+        label="Axis Tilt"
+        value={trackerConfig.axisTilt}
+        min={0}
+        max={30}
+        step={1}
+        unit="°"
+        onChange={(axisTilt) => setTrackerConfig({ axisTilt })}
+      />
+
+      <SliderWithSteppers
+        label="Max Rotation"
+        value={trackerConfig.maxRotation}
+        min={0}
+        max={90}
+        step={5}
+        unit="°"
+        onChange={(maxRotation) => setTrackerConfig({ maxRotation })}
+        formatValue={(v) => `±${v.toFixed(0)}°`}
+      />
+
+      <SliderWithSteppers
+        label="Ground Coverage"
+        value={trackerConfig.gcr}
+        min={0.1}
+        max={0.9}
+        step={0.05}
+        unit=""
+        onChange={(gcr) => setTrackerConfig({ gcr })}
+        formatValue={(v) => `${(v * 100).toFixed(0)}%`}
+      />
+
+      <label className="flex items-center justify-between text-sm font-medium text-gray-700" style={{ minHeight: '44px' }}>
+        Backtracking
+        <input
+          type="checkbox"
+          checked={trackerConfig.backtrack}
+          onChange={(e) => setTrackerConfig({ backtrack: e.target.checked })}
+          className="w-5 h-5 accent-solar-500"
+        />
+      </label>
+
+      {trackerRotation !== null && (
+        <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+          Current rotation: <span className="font-semibold text-gray-700">{trackerRotation.toFixed(1)}°</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DualAxisControls() {
+  const { dualAxisConfig, setDualAxisConfig, orientation, setOrientation, trackerStowed } = useSimulatorStore();
+
+  return (
+    <div className="space-y-3">
+      <SliderWithSteppers
+        label="Home Azimuth"
+        value={orientation.azimuth}
+        min={0}
+        max={359}
+        step={1}
+        unit="°"
+        onChange={(azimuth) => setOrientation({ azimuth })}
+      />
+
+      <SliderWithSteppers
+        label="Azimuth Range"
+        value={dualAxisConfig.azimuthRange}
+        min={0}
+        max={360}
+        step={10}
+        unit="°"
+        onChange={(azimuthRange) => setDualAxisConfig({ azimuthRange })}
+        formatValue={(v) => `±${(v / 2).toFixed(0)}°`}
+      />
+
+      <SliderWithSteppers
+        label="Min Elevation"
+        value={dualAxisConfig.minElevation}
+        min={0}
+        max={dualAxisConfig.maxElevation}
+        step={1}
+        unit="°"
+        onChange={(minElevation) => setDualAxisConfig({ minElevation })}
+      />
+
+      <SliderWithSteppers
+        label="Max Elevation"
+        value={dualAxisConfig.maxElevation}
+        min={dualAxisConfig.minElevation}
+        max={90}
+        step={1}
+        unit="°"
+        onChange={(maxElevation) => setDualAxisConfig({ maxElevation })}
+      />
+
+      <SliderWithSteppers
+        label="Stow Wind Speed"
+        value={dualAxisConfig.stowWindSpeed}
+        min={5}
+        max={30}
+        step={1}
+        unit=" m/s"
+        onChange={(stowWindSpeed) => setDualAxisConfig({ stowWindSpeed })}
+      />
+
+      <SliderWithSteppers
+        label="Stow Tilt"
+        value={dualAxisConfig.stowTilt}
+        min={0}
+        max={90}
+        step={5}
+        unit="°"
+        onChange={(stowTilt) => setDualAxisConfig({ stowTilt })}
+      />
+
+      <SliderWithSteppers
+        label="Drive Power"
+        value={dualAxisConfig.drivePower}
+        min={0}
+        max={200}
+        step={5}
+        unit=" W"
+        onChange={(drivePower) => setDualAxisConfig({ drivePower })}
+      />
+
+      <SliderWithSteppers
+        label="Availability"
+        value={Number((dualAxisConfig.availability * 100).toFixed(1))}
+        min={90}
+        max={100}
+        step={0.5}
+        unit="%"
+        onChange={(availability) => setDualAxisConfig({ availability: availability / 100 })}
+      />
+
+      {trackerStowed && (
+        <div className="text-xs text-amber-700 bg-amber-50 rounded-lg p-3">
+          Stowed for high wind
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Bifacial Rear-Side Component
+function BifacialControls() {
+  const { panelConfig, bifacialConfig, setBifacialConfig, rowSpacing, setRowSpacing } = useSimulatorStore();
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">
+        Bifacial Rear Side
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          {((panelConfig.bifacialityFactor ?? DEFAULT_BIFACIALITY) * 100).toFixed(0)}% bifaciality
+        </span>
+      </label>
+
+      <SliderWithSteppers
+        label="Ground Clearance"
+        value={bifacialConfig.groundClearance}
+        min={0}
+        max={3}
+        step={0.1}
+        unit=" m"
+        onChange={(groundClearance) => setBifacialConfig({ groundClearance })}
+        formatValue={(v) => `${v.toFixed(1)} m`}
+      />
+
+      <SliderWithSteppers
+        label="Row Spacing"
+        value={rowSpacing}
+        min={2}
+        max={15}
+        step={0.5}
+        unit=" m"
+        onChange={setRowSpacing}
+        formatValue={(v) => `${v.toFixed(1)} m`}
+      />
+
+      <SliderWithSteppers
+        label="Rear Mismatch"
+        value={bifacialConfig.rearMismatch}
+        min={0}
+        max={0.2}
+        step={0.01}
+        unit=""
+        onChange={(rearMismatch) => setBifacialConfig({ rearMismatch })}
+        formatValue={(v) => `${(v * 100).toFixed(0)}%`}
+      />
+
+      <SliderWithSteppers
+        label="Rear Shading"
+        value={bifacialConfig.rearShading}
+        min={0}
+        max={0.2}
+        step={0.01}
+        unit=""
+        onChange={(rearShading) => setBifacialConfig({ rearShading })}
+        formatValue={(v) => `${(v * 100).toFixed(0)}%`}
+      />
+    </div>
+  );
+}
+
+// Row-to-Row Shading Component
+const MODULE_LAYOUTS: { id: ModuleLayout; label: string }[] = [
+  { id: 'portrait', label: 'Portrait' },
+  { id: 'landscape', label: 'Landscape' },
+];
+
+function RowShadingControls() {
+  const {
+    rowShadingEnabled,
+    setRowShadingEnabled,
+    rowShadingConfig,
+    setRowShadingConfig,
+    rowSpacing,
+    setRowSpacing,
+    poaIrradiance,
+  } = useSimulatorStore();
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between text-sm font-medium text-gray-700" style={{ minHeight: '44px' }}>
+        Row-to-row shading
+        <input
+          type="checkbox"
+          checked={rowShadingEnabled}
+          onChange={(e) => setRowShadingEnabled(e.target.checked)}
+          className="w-5 h-5 accent-solar-500"
+        />
+      </label>
+
+      {rowShadingEnabled && (
+        <>
+          <SliderWithSteppers
+            label="Row Spacing"
+            value={rowSpacing}
+            min={2}
+            max={15}
+            step={0.5}
+            unit=" m"
+            onChange={setRowSpacing}
+            formatValue={(v) => `${v.toFixed(1)} m`}
+          />
+
+          <SliderWithSteppers
+            label="Modules per Row"
+            value={rowShadingConfig.modulesHigh}
+            min={1}
+            max={4}
+            step={1}
+            unit=""
+            onChange={(modulesHigh) => setRowShadingConfig({ modulesHigh })}
+            formatValue={(v) => `${v} high`}
+          />
+
+          <div className="flex gap-2 text-xs">
+            {MODULE_LAYOUTS.map((layout) => (
+              <button
+                key={layout.id}
+                onClick={() => setRowShadingConfig({ layout: layout.id })}
+                className={`flex-1 px-2 py-1.5 rounded transition-colors ${
+                  rowShadingConfig.layout === layout.id
+                    ? 'bg-solar-500 text-white font-medium'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:border-solar-400'
+                }`}
+                style={{ minHeight: '32px' }}
+              >
+                {layout.label}
+              </button>
+            ))}
+          </div>
+
+          <SliderWithSteppers
+            label="Bypass Diodes"
+            value={rowShadingConfig.bypassDiodes}
+            min={1}
+            max={6}
+            step={1}
+            unit=""
+            onChange={(bypassDiodes) => setRowShadingConfig({ bypassDiodes })}
+          />
+
+          {poaIrradiance?.shadedFraction !== undefined && (
+            <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+              Row shaded now: <span className="font-semibold text-gray-700">{(poaIrradiance.shadedFraction * 100).toFixed(0)}%</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Spectral Correction Component
+function SpectralControls() {
+  const { panelConfig, spectralConfig, setSpectralConfig, currentLosses } = useSimulatorStore();
 
   return (
     <div>
-      {/* Label and value */}
-      <div className="flex justify-between items-center mb-2">
-        <label className="text-sm font-medium text-gray-700">
-          {label}: <span className="text-solar-600 font-semibold">{displayValue}</span>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Spectral Model
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          {MODULE_TECHNOLOGY_NAMES[panelConfig.technology ?? 'mono-si']}
+        </span>
+      </label>
+      <select
+        value={spectralConfig.model}
+        onChange={(e) => setSpectralConfig({ model: e.target.value as SpectralModel })}
+        className="w-full px-3 py-3 bg-white border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+        style={{ minHeight: '44px' }}
+      >
+        {(Object.keys(SPECTRAL_MODEL_NAMES) as SpectralModel[]).map((model) => (
+          <option key={model} value={model}>{SPECTRAL_MODEL_NAMES[model]}</option>
+        ))}
+      </select>
+
+      {spectralConfig.model === 'first-solar' && (
+        <label className="flex items-center justify-between gap-2 text-xs text-gray-500 mt-2">
+          Precipitable water (cm)
+          <input
+            type="number"
+            min={0}
+            max={8}
+            step={0.1}
+            value={spectralConfig.precipitableWater ?? ''}
+            placeholder="Auto"
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              setSpectralConfig({ precipitableWater: Number.isFinite(value) ? value : null });
+            }}
+            className="w-20 px-2 py-1.5 bg-white border border-gray-300 rounded text-xs focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+            aria-label="Precipitable water"
+          />
         </label>
-        {optimalValue !== undefined && onSetOptimal && (
+      )}
+
+      {currentLosses && spectralConfig.model !== 'none' && (
+        <p className="text-xs text-gray-500 mt-1">
+          Spectral factor now: {currentLosses.spectral.toFixed(3)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Cell Temperature Component
+function ThermalControls() {
+  const { thermalConfig, setThermalConfig, cellTemperature, currentAmbientTemp, isNight } = useSimulatorStore();
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Cell Temperature Model</label>
+      <select
+        value={thermalConfig.model}
+        onChange={(e) => setThermalConfig({ model: e.target.value as ThermalModel })}
+        className="w-full px-3 py-3 bg-white border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+        style={{ minHeight: '44px' }}
+      >
+        {(Object.keys(THERMAL_MODEL_NAMES) as ThermalModel[]).map((model) => (
+          <option key={model} value={model}>{THERMAL_MODEL_NAMES[model]}</option>
+        ))}
+      </select>
+
+      <div className="flex gap-2 text-xs mt-2">
+        {(Object.keys(THERMAL_MOUNTING_NAMES) as ThermalMounting[]).map((mounting) => (
           <button
-            onClick={onSetOptimal}
-            className={`text-xs px-3 py-1.5 rounded transition-colors ${
-              isOptimal
-                ? 'bg-green-100 text-green-700 font-medium'
-                : 'bg-solar-50 text-solar-600 hover:bg-solar-100 font-medium'
+            key={mounting}
+            onClick={() => setThermalConfig({ mounting })}
+            className={`flex-1 px-2 py-1.5 rounded transition-colors ${
+              thermalConfig.mounting === mounting
+                ? 'bg-solar-500 text-white font-medium'
+                : 'bg-white border border-gray-300 text-gray-700 hover:border-solar-400'
             }`}
             style={{ minHeight: '32px' }}
           >
-            {isOptimal ? '✓ Optimal' : `→${optimalValue.toFixed(0)}${unit}`}
+            {THERMAL_MOUNTING_NAMES[mounting]}
           </button>
-        )}
+        ))}
       </div>
 
-      {/* Slider + Steppers */}
-      <div className="flex items-center gap-2 group">
-        <StepperButton onClick={handleDecrement} disabled={value <= min} direction="minus" />
+      {!isNight && (
+        <p className="text-xs text-gray-500 mt-1">
+          Cells now: {cellTemperature.toFixed(1)}°C (+{(cellTemperature - currentAmbientTemp).toFixed(1)}°C over ambient)
+        </p>
+      )}
+    </div>
+  );
+}
 
-        <div className="flex-1 relative">
-          <span
-            className="absolute -top-6 left-1/2 -translate-x-1/2 text-xs px-2 py-0.5 rounded bg-gray-800 text-white opacity-0 transition-opacity pointer-events-none group-hover:opacity-100 group-focus-within:opacity-100"
-            aria-hidden="true"
-          >
-            {displayValue}
-          </span>
+// Inverter Model Component
+function InverterControls() {
+  const {
+    inverterPresetId,
+    setInverterPreset,
+    inverterConfig,
+    setInverterConfig,
+    panelCount,
+    currentLosses,
+    isNight,
+  } = useSimulatorStore();
+  const { sandia, efficiencyCurve } = inverterConfig;
+  const units = getInverterCount(inverterConfig, panelCount);
+  const nightTare = getInverterNightTare(inverterConfig, panelCount);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Inverter</label>
+      <select
+        value={inverterPresetId}
+        onChange={(e) => setInverterPreset(e.target.value)}
+        className="w-full px-3 py-3 bg-white border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+        style={{ minHeight: '44px' }}
+      >
+        {inverterPresetId === 'custom' && <option value="custom">Custom</option>}
+        {inverterPresets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}{preset.type === 'micro' ? ' · micro' : ''}
+          </option>
+        ))}
+      </select>
+
+      {efficiencyCurve && (
+        <div className="grid grid-cols-3 gap-2 text-xs text-gray-500 mt-2">
+          {INVERTER_CURVE_LOADS.map((load, i) => (
+            <NumberField
+              key={load}
+              label={`η at ${load * 100}% (%)`}
+              step={0.1}
+              value={Number((efficiencyCurve.efficiencies[i] * 100).toFixed(2))}
+              onChange={(value) => {
+                const efficiencies = [...efficiencyCurve.efficiencies];
+                efficiencies[i] = Math.max(1, Math.min(100, value)) / 100;
+                setInverterConfig({ efficiencyCurve: { ...efficiencyCurve, efficiencies } });
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-1">
+        {sandia
+          ? `${units} × ${(sandia.paco / 1000).toFixed(sandia.paco < 1000 ? 2 : 1)} kW AC · Sandia model`
+          : efficiencyCurve
+            ? `CEC weighted ${(calculateWeightedEfficiency(efficiencyCurve) * 100).toFixed(1)}%`
+            : `Flat ${(inverterConfig.efficiency * 100).toFixed(1)}%`}
+        {nightTare > 0 && ` · ${nightTare.toFixed(1)} W night tare`}
+      </p>
+      {!isNight && currentLosses?.inverterEfficiency !== undefined && (
+        <p className="text-xs text-gray-500">
+          Conversion now: {(currentLosses.inverterEfficiency * 100).toFixed(1)}%
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Lifetime Projection Component
+function LifetimeControls() {
+  const { lifetimeConfig, setLifetimeConfig, panelConfig } = useSimulatorStore();
+  const { degradationRate, availabilitySteps } = lifetimeConfig;
+  const moduleRate = panelConfig.degradation?.annualRate ?? DEFAULT_DEGRADATION_RATE;
+  const [replacementText, setReplacementText] = useState(lifetimeConfig.inverterReplacementYears.join(', '));
+
+  useEffect(() => {
+    setReplacementText(lifetimeConfig.inverterReplacementYears.join(', '));
+  }, [lifetimeConfig.inverterReplacementYears]);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Lifetime Projection</label>
+      <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label="Years"
+            value={lifetimeConfig.years}
+            onChange={(years) => setLifetimeConfig({ years })}
+          />
+          <label className="flex flex-col gap-1">
+            Degradation
+            <select
+              value={lifetimeConfig.degradationModel}
+              onChange={(e) => setLifetimeConfig({ degradationModel: e.target.value as DegradationModel })}
+              className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs"
+            >
+              {(Object.keys(DEGRADATION_MODEL_NAMES) as DegradationModel[]).map((model) => (
+                <option key={model} value={model}>{DEGRADATION_MODEL_NAMES[model]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="flex items-center justify-between font-medium text-gray-700" style={{ minHeight: '32px' }}>
+          Use module datasheet rate ({moduleRate}%/yr)
           <input
-            type="range"
-            min={min}
-            max={max}
-            step={step}
-            value={localValue}
-            onChange={(e) => handleSliderChange(parseFloat(e.target.value))}
-            onPointerDown={handlePointerDown}
-            onPointerUp={handlePointerUp}
-            aria-valuetext={displayValue}
-            className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-solar-500"
-            style={{
-              // Prevent vertical scroll when dragging horizontally
-              touchAction: 'pan-y',
-              // Increase hit area vertically
-              padding: '8px 0',
-            }}
+            type="checkbox"
+            checked={degradationRate === null}
+            onChange={(e) => setLifetimeConfig({ degradationRate: e.target.checked ? null : moduleRate })}
+            className="w-5 h-5 accent-solar-500"
+          />
+        </label>
+        {degradationRate !== null && (
+          <NumberField
+            label="Rate (%/yr)"
+            step={0.05}
+            value={degradationRate}
+            onChange={(rate) => setLifetimeConfig({ degradationRate: rate })}
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            Inverter swaps (years)
+            <input
+              type="text"
+              inputMode="numeric"
+              value={replacementText}
+              placeholder="e.g. 12, 24"
+              onChange={(e) => setReplacementText(e.target.value)}
+              onBlur={() => setLifetimeConfig({
+                inverterReplacementYears: replacementText
+                  .split(/[\s,;]+/)
+                  .map((value) => parseInt(value, 10))
+                  .filter((value) => Number.isFinite(value)),
+              })}
+              className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+            />
+          </label>
+          <NumberField
+            label="Downtime (days)"
+            value={lifetimeConfig.replacementDowntimeDays}
+            onChange={(replacementDowntimeDays) => setLifetimeConfig({ replacementDowntimeDays })}
           />
         </div>
 
-        <StepperButton onClick={handleIncrement} disabled={value >= max} direction="plus" />
+        {availabilitySteps.map((step, i) => (
+          <div key={i} className="flex items-end gap-2">
+            <NumberField
+              label="From year"
+              value={step.fromYear}
+              onChange={(fromYear) => setLifetimeConfig({
+                availabilitySteps: availabilitySteps.map((s, j) => (j === i ? { ...s, fromYear } : s)),
+              })}
+            />
+            <NumberField
+              label="Downtime loss (%)"
+              step={0.1}
+              value={Number((step.loss * 100).toFixed(2))}
+              onChange={(value) => setLifetimeConfig({
+                availabilitySteps: availabilitySteps.map((s, j) => (j === i ? { ...s, loss: value / 100 } : s)),
+              })}
+            />
+            <button
+              onClick={() => setLifetimeConfig({ availabilitySteps: availabilitySteps.filter((_, j) => j !== i) })}
+              className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+              style={{ minHeight: '32px' }}
+              aria-label="Remove availability change"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setLifetimeConfig({
+            availabilitySteps: [...availabilitySteps, { fromYear: Math.min(lifetimeConfig.years, 11), loss: 0.01 }],
+          })}
+          className="w-full px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-700 hover:border-solar-300 transition-colors"
+        >
+          + Availability change
+        </button>
       </div>
     </div>
   );
@@ -244,10 +964,17 @@ export function Controls({ variant = 'full' }: ControlsProps) {
     setOrientation,
     panelCount,
     setPanelCount,
+    mountingType,
+    setMountingType,
     ambientTemp,
     setAmbientTemp,
+    windSpeed,
+    setWindSpeed,
+    irradianceSource,
     albedo,
     setAlbedo,
+    timestepMinutes,
+    setTimestepMinutes,
     isOptimal,
     setOptimalOrientation,
     location,
@@ -319,52 +1046,77 @@ export function Controls({ variant = 'full' }: ControlsProps) {
         formatValue={(v) => `${v} (${systemSize.toFixed(1)} kW)`}
       />
 
-      {/* Tilt Angle with Stepper */}
-      <SliderWithSteppers
-        label="Tilt"
-        value={orientation.tilt}
-        min={0}
-        max={90}
-        step={1}
-        unit="°"
-        onChange={(tilt) => setOrientation({ tilt })}
-        optimalValue={optimalTilt}
-        onSetOptimal={() => setOrientation({ tilt: optimalTilt })}
-      />
+      {/* Mounting Type */}
+      {!isQuick && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Mounting</label>
+          <select
+            value={mountingType}
+            onChange={(e) => setMountingType(e.target.value as MountingType)}
+            className="w-full px-3 py-3 bg-white border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+            style={{ minHeight: '44px' }}
+          >
+            {MOUNTING_TYPES.map((type) => (
+              <option key={type.id} value={type.id}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
 
-      {/* Azimuth Angle with Stepper */}
-      <SliderWithSteppers
-        label="Azimuth"
-        value={orientation.azimuth}
-        min={0}
-        max={360}
-        step={1}
-        unit="°"
-        onChange={(azimuth) => setOrientation({ azimuth })}
-        optimalValue={optimalAzimuth}
-        onSetOptimal={() => setOrientation({ azimuth: optimalAzimuth })}
-      />
-      {/* Compass labels for azimuth */}
-      <div className="flex justify-between text-xs text-gray-400 -mt-2 px-11">
-        <span>N</span><span>E</span><span>S</span><span>W</span><span>N</span>
-      </div>
+      {mountingType === 'tracking' ? (
+        <TrackerControls />
+      ) : mountingType === 'dual-axis' ? (
+        <DualAxisControls />
+      ) : (
+        <>
+          {/* Tilt Angle with Stepper */}
+          <SliderWithSteppers
+            label="Tilt"
+            value={orientation.tilt}
+            min={0}
+            max={90}
+            step={1}
+            unit="°"
+            onChange={(tilt) => setOrientation({ tilt })}
+            optimalValue={optimalTilt}
+            onSetOptimal={() => setOrientation({ tilt: optimalTilt })}
+          />
 
-      {/* Apply Optimal Button */}
-      <button
-        onClick={setOptimalOrientation}
-        disabled={isOptimal}
-        className={`w-full py-3 font-medium rounded-lg transition-all text-sm ${
-          isOptimal
-            ? 'bg-green-100 text-green-700 cursor-default'
-            : 'bg-solar-500 hover:bg-solar-600 active:bg-solar-700 text-white'
-        }`}
-        style={{
-          // Ensure 44px minimum tap target
-          minHeight: '44px',
-        }}
-      >
-        {isOptimal ? '✓ Optimal Orientation' : 'Apply Optimal Orientation'}
-      </button>
+          {/* Azimuth Angle with Stepper */}
+          <SliderWithSteppers
+            label="Azimuth"
+            value={orientation.azimuth}
+            min={0}
+            max={360}
+            step={1}
+            unit="°"
+            onChange={(azimuth) => setOrientation({ azimuth })}
+            optimalValue={optimalAzimuth}
+            onSetOptimal={() => setOrientation({ azimuth: optimalAzimuth })}
+          />
+          {/* Compass labels for azimuth */}
+          <div className="flex justify-between text-xs text-gray-400 -mt-2 px-11">
+            <span>N</span><span>E</span><span>S</span><span>W</span><span>N</span>
+          </div>
+
+          {/* Apply Optimal Button */}
+          <button
+            onClick={setOptimalOrientation}
+            disabled={isOptimal}
+            className={`w-full py-3 font-medium rounded-lg transition-all text-sm ${
+              isOptimal
+                ? 'bg-green-100 text-green-700 cursor-default'
+                : 'bg-solar-500 hover:bg-solar-600 active:bg-solar-700 text-white'
+            }`}
+            style={{
+              // Ensure 44px minimum tap target
+              minHeight: '44px',
+            }}
+          >
+            {isOptimal ? '✓ Optimal Orientation' : 'Apply Optimal Orientation'}
+          </button>
+        </>
+      )}
     </div>
   );
 
@@ -426,6 +1178,23 @@ export function Controls({ variant = 'full' }: ControlsProps) {
               onChange={setAmbientTemp}
             />
 
+            {/* Wind Speed with Stepper (weather files supply their own) */}
+            {irradianceSource !== 'weather' && (
+              <SliderWithSteppers
+                label="Wind Speed"
+                value={windSpeed}
+                min={0}
+                max={15}
+                step={0.5}
+                unit=" m/s"
+                onChange={setWindSpeed}
+                formatValue={(v) => `${v.toFixed(1)} m/s`}
+              />
+            )}
+
+            {/* Thermal model and mounting */}
+            <ThermalControls />
+
             {/* Ground Albedo with Stepper */}
             <SliderWithSteppers
               label="Ground Reflectance"
@@ -438,6 +1207,74 @@ export function Controls({ variant = 'full' }: ControlsProps) {
               formatValue={(v) => `${(v * 100).toFixed(0)}%`}
             />
 
+            {/* Row-to-row shading (fixed mounts only) */}
+            {(mountingType === 'roof' || mountingType === 'ground') && <RowShadingControls />}
+
+            {/* Bifacial geometry (bifacial panels only) */}
+            {panelConfig.bifacial && <BifacialControls />}
+
+            {/* Terrain and skyline obstructions */}
+            <HorizonImport />
+
+            {/* Nearby trees, chimneys and buildings */}
+            <ObstacleControls />
+
+            {/* Simulation Timestep */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Time Resolution</label>
+              <select
+                value={timestepMinutes}
+                onChange={(e) => setTimestepMinutes(Number(e.target.value) as TimestepMinutes)}
+                className="w-full px-3 py-3 bg-white border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+                style={{ minHeight: '44px' }}
+              >
+                {TIMESTEP_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes === 60 ? 'Hourly' : `${minutes} min`}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Sky Conditions & Weather File Import */}
+            <SkyConditions />
+
+            {/* Snowfall and snow sliding off the modules */}
+            <SnowControls />
+
+            {/* Dust build-up between rain and manual washes */}
+            <SoilingControls />
+
+            {/* Spectral mismatch by cell technology */}
+            <SpectralControls />
+
+            {/* Inverter model and part-load efficiency */}
+            <InverterControls />
+
+            {/* Series/parallel wiring against inverter limits */}
+            <StringSizingControls />
+
+            {/* Extra arrays with their own orientation and panels */}
+            <SubArrayControls />
+
+            {/* Degradation, inverter swaps and availability over the system life */}
+            <LifetimeControls />
+
+            {/* Synthetic or imported household consumption */}
+            <LoadControls />
+
+            {/* Battery dispatch against the household load */}
+            <BatteryControls />
+
+            {/* Retail tariff the savings are billed against */}
+            <TariffControls />
+
+            {/* Costs, incentives and financing for payback and returns */}
+            <FinanceControls />
+
+            {/* Grid carbon intensity behind the CO2 offset */}
+            <EmissionControls />
+
             {/* Location Info */}
             <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
               <p className="font-medium text-gray-700 mb-1">Location</p>
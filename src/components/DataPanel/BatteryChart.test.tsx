@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BatteryChart } from './BatteryChart';
+
+vi.mock('recharts', () => ({
+  ComposedChart: ({ children, data }: any) => <div data-testid="ComposedChart" data-points={data.length}>{children}</div>,
+  Area: ({ dataKey }: any) => <div data-testid={`Area-${dataKey}`} />,
+  Line: ({ dataKey }: any) => <div data-testid={`Line-${dataKey}`} />,
+  XAxis: () => <div data-testid="XAxis" />,
+  YAxis: () => <div data-testid="YAxis" />,
+  CartesianGrid: () => <div data-testid="Grid" />,
+  Tooltip: () => <div data-testid="Tooltip" />,
+  ResponsiveContainer: ({ children }: any) => <div data-testid="Responsive">{children}</div>,
+  ReferenceLine: () => <div data-testid="ReferenceLine" />,
+}));
+
+vi.mock('../../store/simulatorStore', () => ({
+  useSimulatorStore: () => ({
+    animationHour: 12,
+    dailyOutput: {
+      hourlyData: Array.from({ length: 25 }, (_, hour) => ({ localHour: hour })),
+    },
+    dailyBattery: {
+      steps: Array.from({ length: 24 }, (_, hour) => ({
+        soc: hour / 24,
+        pv: 0,
+        load: 500,
+        batteryPower: hour < 12 ? 1000 : -500,
+        gridImport: 0,
+        gridExport: 0,
+      })),
+    },
+  }),
+}));
+
+describe('BatteryChart', () => {
+  it('should plot the charge from midnight with grid flows', () => {
+    render(<BatteryChart />);
+
+    expect(screen.getByTestId('ComposedChart')).toHaveAttribute('data-points', '25');
+    expect(screen.getByTestId('Line-soc')).toBeInTheDocument();
+    expect(screen.getByTestId('Area-importKw')).toBeInTheDocument();
+    expect(screen.getByTestId('Area-exportKw')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,117 @@
+import { useMemo, memo } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { formatLocalHour } from '../../core/timezone';
+
+const SERIES_LABELS: Record<string, string> = {
+  loadKw: 'Load',
+  batteryKw: 'Battery',
+  importKw: 'Grid import',
+  exportKw: 'Grid export',
+  soc: 'Charge',
+};
+
+function BatteryChartInner() {
+  const { dailyBattery, dailyOutput, animationHour } = useSimulatorStore();
+
+  // One point at the end of each dispatch step, plus the charge at midnight
+  const data = useMemo(() => {
+    if (!dailyBattery || !dailyOutput) return [];
+    const samples = dailyOutput.hourlyData;
+    const last = dailyBattery.steps[dailyBattery.steps.length - 1];
+    return [
+      { hour: 0, loadKw: null, batteryKw: null, importKw: null, exportKw: null, soc: (last?.soc ?? 0) * 100 },
+      ...dailyBattery.steps.map((step, i) => ({
+        hour: samples[i + 1]?.localHour ?? i + 1,
+        loadKw: step.load / 1000,
+        batteryKw: step.batteryPower / 1000,
+        importKw: step.gridImport / 1000,
+        exportKw: step.gridExport / 1000,
+        soc: step.soc * 100,
+      })),
+    ];
+  }, [dailyBattery, dailyOutput]);
+
+  if (data.length === 0) return null;
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 0, left: -15, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+
+          <XAxis
+            dataKey="hour"
+            type="number"
+            domain={[0, 24]}
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            tickFormatter={(h) => `${h}`}
+            ticks={[0, 6, 12, 18, 24]}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+          <YAxis
+            yAxisId="power"
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            tickFormatter={(v) => `${v.toFixed(1)}`}
+            axisLine={{ stroke: '#d1d5db' }}
+            label={{ value: 'kW', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#6b7280', dx: 15 }}
+          />
+          <YAxis
+            yAxisId="soc"
+            orientation="right"
+            domain={[0, 100]}
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            tickFormatter={(v) => `${v}`}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+
+          <Tooltip
+            formatter={(value: number, name: string) => [
+              name === 'soc' ? `${value.toFixed(0)}%` : `${value.toFixed(2)} kW`,
+              SERIES_LABELS[name] ?? name,
+            ]}
+            labelFormatter={(hour: number) => formatLocalHour(hour)}
+            contentStyle={{
+              backgroundColor: 'rgba(255, 255, 255, 0.95)',
+              border: 'none',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+              fontSize: '12px',
+            }}
+          />
+
+          <ReferenceLine yAxisId="power" y={0} stroke="#9ca3af" />
+          <ReferenceLine yAxisId="power" x={animationHour} stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 5" />
+
+          <Area yAxisId="power" type="stepAfter" dataKey="importKw" stroke="#ef4444" fill="#fecaca" fillOpacity={0.6} />
+          <Area yAxisId="power" type="stepAfter" dataKey="exportKw" stroke="#10b981" fill="#a7f3d0" fillOpacity={0.6} />
+          <Line yAxisId="power" type="stepAfter" dataKey="loadKw" stroke="#6b7280" strokeWidth={1.5} dot={false} />
+          <Line yAxisId="power" type="stepAfter" dataKey="batteryKw" stroke="#3b82f6" strokeWidth={1.5} dot={false} />
+          <Line yAxisId="soc" type="monotone" dataKey="soc" stroke="#7c3aed" strokeWidth={2} dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="flex justify-between items-center mt-1 px-1 text-xs text-gray-500">
+        <span>Local Hour</span>
+        <span>
+          <span className="text-violet-600">— Charge %</span>
+          <span className="text-blue-500 ml-2">— Battery</span>
+          <span className="text-red-500 ml-2">■ Import</span>
+          <span className="text-emerald-500 ml-2">■ Export</span>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export const BatteryChart = memo(BatteryChartInner);
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { CashFlowChart } from './CashFlowChart';
+
+vi.mock('recharts', () => ({
+  ComposedChart: ({ children, data }: any) => <div data-testid="ComposedChart" data-points={data.length}>{children}</div>,
+  Bar: ({ dataKey }: any) => <div data-testid={`Bar-${dataKey}`} />,
+  Line: ({ dataKey }: any) => <div data-testid={`Line-${dataKey}`} />,
+  XAxis: () => <div data-testid="XAxis" />,
+  YAxis: () => <div data-testid="YAxis" />,
+  CartesianGrid: () => <div data-testid="Grid" />,
+  Tooltip: () => <div data-testid="Tooltip" />,
+  ResponsiveContainer: ({ children }: any) => <div data-testid="Responsive">{children}</div>,
+  ReferenceLine: () => <div data-testid="ReferenceLine" />,
+}));
+
+vi.mock('../../store/simulatorStore', () => ({
+  useSimulatorStore: () => ({
+    financeOutput: {
+      years: Array.from({ length: 26 }, (_, year) => ({
+        year,
+        netCashFlow: year === 0 ? -10000 : 1000,
+        cumulativeCashFlow: -10000 + year * 1000,
+        cumulativeDiscountedCashFlow: -10000 + year * 800,
+      })),
+    },
+    tariffs: [{ id: 'tariff-default', currency: 'EUR' }],
+    activeTariffId: 'tariff-default',
+  }),
+}));
+
+describe('CashFlowChart', () => {
+  it('should plot yearly net cash flow with cumulative balances', () => {
+    render(<CashFlowChart />);
+
+    expect(screen.getByTestId('ComposedChart')).toHaveAttribute('data-points', '26');
+    expect(screen.getByTestId('Bar-net')).toBeInTheDocument();
+    expect(screen.getByTestId('Line-cumulative')).toBeInTheDocument();
+    expect(screen.getByTestId('Line-discounted')).toBeInTheDocument();
+  });
+});
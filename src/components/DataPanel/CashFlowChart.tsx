@@ -0,0 +1,102 @@
+import { useMemo, memo } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { CURRENCY_SYMBOLS } from '../../core/tariff';
+
+const SERIES_NAMES: Record<string, string> = {
+  net: 'Net cash flow',
+  cumulative: 'Cumulative',
+  discounted: 'Cumulative (discounted)',
+};
+
+function CashFlowChartInner() {
+  const { financeOutput, tariffs, activeTariffId } = useSimulatorStore();
+  const symbol = CURRENCY_SYMBOLS[tariffs.find((t) => t.id === activeTariffId)?.currency ?? 'USD'];
+
+  // Yearly net cash flow as bars, running balances as lines (thousands)
+  const data = useMemo(() => {
+    if (!financeOutput) return [];
+    return financeOutput.years.map((y) => ({
+      year: y.year,
+      net: y.netCashFlow / 1000,
+      cumulative: y.cumulativeCashFlow / 1000,
+      discounted: y.cumulativeDiscountedCashFlow / 1000,
+    }));
+  }, [financeOutput]);
+
+  if (data.length === 0) return null;
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 0, left: -15, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+
+          <XAxis
+            dataKey="year"
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+          <YAxis
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            tickFormatter={(v) => `${v.toFixed(0)}`}
+            axisLine={{ stroke: '#d1d5db' }}
+            label={{ value: `${symbol}k`, angle: -90, position: 'insideLeft', fontSize: 10, fill: '#6b7280', dx: 15 }}
+          />
+
+          <Tooltip
+            formatter={(value: number, name: string) => [`${symbol}${(value * 1000).toFixed(0)}`, SERIES_NAMES[name] ?? name]}
+            labelFormatter={(year: number) => (year === 0 ? 'Installation' : `Year ${year}`)}
+            contentStyle={{
+              backgroundColor: 'rgba(255, 255, 255, 0.95)',
+              border: 'none',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+              fontSize: '12px',
+            }}
+          />
+
+          <ReferenceLine y={0} stroke="#9ca3af" />
+
+          <Bar dataKey="net" fill="#3b82f6" fillOpacity={0.6} />
+          <Line
+            type="monotone"
+            dataKey="cumulative"
+            stroke="#1d4ed8"
+            strokeWidth={2}
+            dot={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="discounted"
+            stroke="#10b981"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            dot={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="flex justify-between items-center mt-1 px-1 text-xs text-gray-500">
+        <span>Year</span>
+        <span>
+          <span className="text-blue-500">■ Net</span>
+          <span className="text-blue-700 ml-2">— Cumulative</span>
+          <span className="text-emerald-600 ml-2">- - Discounted</span>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export const CashFlowChart = memo(CashFlowChartInner);
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import { DataPanel } from './DataPanel';
 import { useSimulatorStore } from '../../store/simulatorStore';
-import { Irradiance, POAIrradiance, SolarPosition, LossFactors, HourlyData, PowerOutput } from '../../core/types';
+import { Irradiance, POAIrradiance, SolarPosition, LossFactors, HourlyData, PowerOutput, AnnualOutput } from '../../core/types';
 
 vi.mock('./PowerChart', () => ({
   PowerChart: () => <div data-testid="power-chart" />,
@@ -58,6 +58,7 @@ const baseLosses: LossFactors = {
 
 const hourlyData: HourlyData[] = Array.from({ length: 24 }, (_, hour) => ({
   hour,
+  localHour: hour,
   localTime: new Date('2024-01-15T00:00:00Z'),
   solarPosition: baseSolarPosition,
   irradiance: baseIrradiance,
@@ -74,10 +75,28 @@ const dailyOutput: PowerOutput = {
   peakHour: 12,
   dailyEnergy: 2000,
   hourlyData,
+  timestepMinutes: 60,
   capacityFactor: 0.5,
   performanceRatio: 0.8,
 };
 
+const annualOutput: AnnualOutput = {
+  year: 2024,
+  monthly: Array.from({ length: 12 }, (_, month) => ({
+    month,
+    days: 31,
+    energy: 500000,
+    poaInsolation: 600000,
+  })),
+  hourly: [],
+  annualEnergy: 6000000,
+  poaInsolation: 7200000,
+  specificYield: 1500,
+  capacityFactor: 0.17,
+  performanceRatio: 0.8,
+  stowHours: 0,
+};
+
 describe('DataPanel', () => {
   beforeEach(() => {
     useSimulatorStore.setState(initialState, true);
@@ -101,6 +120,7 @@ describe('DataPanel', () => {
       },
       solarPosition: baseSolarPosition,
       dailyOutput,
+      annualOutput,
       instantPower: 1000,
       currentTimeLocal: '12:00 PM',
     });
@@ -112,6 +132,37 @@ describe('DataPanel', () => {
       expect(screen.getByText(/2,?000 Wh/)).toBeInTheDocument();
     });
 
-    expect(screen.getByText(/€|EUR/)).toBeInTheDocument();
+    expect(screen.getAllByText(/€|EUR/).length).toBeGreaterThan(0);
+    expect(screen.queryByText(/\$/)).not.toBeInTheDocument();
+  });
+
+  it('should break the energy down by array when sub-arrays are set', async () => {
+    useSimulatorStore.setState({
+      solarPosition: baseSolarPosition,
+      dailyOutput: {
+        ...dailyOutput,
+        arrays: [
+          { id: 'main', name: 'Main array', capacity: 4000, energy: 1500 },
+          { id: 'array-1', name: 'Garage', capacity: 2000, energy: 500 },
+        ],
+      },
+      annualOutput: {
+        ...annualOutput,
+        arrays: [
+          { id: 'main', name: 'Main array', capacity: 4000, energy: 4800000 },
+          { id: 'array-1', name: 'Garage', capacity: 2000, energy: 1200000 },
+        ],
+      },
+      currentTimeLocal: '12:00 PM',
+    });
+
+    render(<DataPanel />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Array Breakdown')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Garage')).toBeInTheDocument();
+    expect(screen.getByText('1200')).toBeInTheDocument();
+    expect(screen.getByText('600')).toBeInTheDocument();
   });
 });
@@ -14,9 +14,19 @@
 import { useEffect, useId, useMemo, useRef, useState, lazy, Suspense, memo } from 'react';
 import { useSolarCalculation } from '../../hooks/useSolarCalculation';
 import { useCompactMode } from '../../hooks/usePanelState';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { Currency } from '../../core/types';
+import { DECOMPOSITION_MODEL_NAMES } from '../../core/decomposition';
+import { CURRENCY_SYMBOLS } from '../../core/tariff';
 
 const LazyPowerChart = lazy(() => import('./PowerChart').then((mod) => ({ default: mod.PowerChart })));
 const LazyEnergyChart = lazy(() => import('./EnergyChart').then((mod) => ({ default: mod.EnergyChart })));
+const LazySunPathChart = lazy(() => import('./SunPathChart').then((mod) => ({ default: mod.SunPathChart })));
+const LazyIVCurveChart = lazy(() => import('./IVCurveChart').then((mod) => ({ default: mod.IVCurveChart })));
+const LazyLifetimeChart = lazy(() => import('./LifetimeChart').then((mod) => ({ default: mod.LifetimeChart })));
+const LazyBatteryChart = lazy(() => import('./BatteryChart').then((mod) => ({ default: mod.BatteryChart })));
+const LazySoilingChart = lazy(() => import('./SoilingChart').then((mod) => ({ default: mod.SoilingChart })));
+const LazyCashFlowChart = lazy(() => import('./CashFlowChart').then((mod) => ({ default: mod.CashFlowChart })));
 
 // Tooltip component
 function Tooltip({ text }: { text: string }) {
@@ -54,15 +64,20 @@ function Tooltip({ text }: { text: string }) {
 }
 
 function DataPanelInner() {
-  const { summary, solarPosition, poaIrradiance, irradiance, currentLosses, cellTemperature, isNight, currentTimeLocal, location } = useSolarCalculation();
+  const { summary, solarPosition, poaIrradiance, irradiance, currentLosses, cellTemperature, currentAmbientTemp, isNight, currentTimeLocal, location, weatherData, irradianceSource, allSkyConfig, dailyOutput, annualOutput, fixedAnnualOutput, annualPending, lifetimeOutput, dailyEnergyBalance, annualEnergyBalance, dailyBattery, annualBattery, tariffSavings, tariff, financeOutput, lossBreakdown } = useSolarCalculation();
   const isCompact = useCompactMode();
   const [showCharts, setShowCharts] = useState(!isCompact);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showDisplaySettings, setShowDisplaySettings] = useState(false);
+  const [showLifetimeTable, setShowLifetimeTable] = useState(false);
+  const [showCashFlowTable, setShowCashFlowTable] = useState(false);
   const [powerUnit, setPowerUnit] = useState<'kW' | 'W'>('kW');
   const [energyUnit, setEnergyUnit] = useState<'kWh' | 'Wh'>('kWh');
   const [decimals, setDecimals] = useState<0 | 1 | 2>(1);
-  const [currency, setCurrency] = useState<'USD' | 'EUR' | 'GBP'>('USD');
+  // The display currency is the active tariff's, so amounts and symbol agree
+  const updateTariff = useSimulatorStore((state) => state.updateTariff);
+  const currency = tariff.currency;
+  const setCurrency = (value: Currency) => updateTariff(tariff.id, { currency: value });
   const hasStoredPrefsRef = useRef(false);
 
   useEffect(() => {
@@ -90,7 +105,7 @@ function DataPanelInner() {
       if (storedDecimals === '0' || storedDecimals === '1' || storedDecimals === '2') {
         setDecimals(Number(storedDecimals) as 0 | 1 | 2);
       }
-      if (storedCurrency === 'USD' || storedCurrency === 'EUR' || storedCurrency === 'GBP') {
+      if ((storedCurrency === 'USD' || storedCurrency === 'EUR' || storedCurrency === 'GBP') && storedCurrency !== currency) {
         setCurrency(storedCurrency);
       }
     } catch {
@@ -198,6 +213,15 @@ function DataPanelInner() {
   };
 
   const formatCurrency = (value: number) => currencyFormatter.format(value);
+  const irradianceInfo = irradianceSource === 'weather' && weatherData
+    ? { label: 'Weather file', title: `Weather file: ${weatherData.name}`, projection: 'using the imported weather file' }
+    : irradianceSource === 'all-sky'
+      ? {
+          label: allSkyConfig.series ? `All-sky ${allSkyConfig.series.name}` : `All-sky kt ${allSkyConfig.clearnessIndex.toFixed(2)}`,
+          title: `${allSkyConfig.series ? 'Imported sky series' : 'Clearness index'} split with the ${DECOMPOSITION_MODEL_NAMES[allSkyConfig.model]} model`,
+          projection: allSkyConfig.series ? 'using the imported sky series' : 'at the selected clearness index',
+        }
+      : { label: 'Clear sky', title: 'Ineichen clear-sky model', projection: 'under clear-sky conditions' };
 
   // Dynamic sizing based on compact mode
   const panelWidth = isCompact ? 'w-80' : 'w-96';
@@ -207,7 +231,17 @@ function DataPanelInner() {
   return (
     <div className={`bg-white/95 backdrop-blur-sm rounded-xl shadow-xl ${padding} ${panelWidth} max-h-[calc(100vh-180px)] overflow-y-auto`}>
       <div className="flex items-center justify-between mb-4">
-        <h2 className="text-lg font-semibold text-gray-800">Output Data</h2>
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold text-gray-800">Output Data</h2>
+          <span
+            className={`text-xs px-2 py-0.5 rounded-full ${
+              irradianceSource === 'clear-sky' ? 'bg-gray-100 text-gray-600' : 'bg-sky-100 text-sky-700'
+            }`}
+            title={irradianceInfo.title}
+          >
+            {irradianceInfo.label}
+          </span>
+        </div>
         <button
           type="button"
           onClick={() => setShowDisplaySettings((prev) => !prev)}
@@ -264,12 +298,12 @@ function DataPanelInner() {
               Currency
               <select
                 value={currency}
-                onChange={(e) => setCurrency(e.target.value as 'USD' | 'EUR' | 'GBP')}
+                onChange={(e) => setCurrency(e.target.value as Currency)}
                 className="px-2 py-2 bg-white border border-gray-300 rounded-md text-sm"
               >
-                <option value="USD">USD</option>
-                <option value="EUR">EUR</option>
-                <option value="GBP">GBP</option>
+                {(Object.keys(CURRENCY_SYMBOLS) as Currency[]).map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
               </select>
             </label>
           </div>
@@ -340,13 +374,26 @@ function DataPanelInner() {
             <div>
               <div className="flex items-center mb-2">
                 <h3 className="text-sm font-medium text-gray-700">Power Output</h3>
-                <Tooltip text="Hourly AC power output throughout the day" />
+                <Tooltip text="AC power output throughout the day at the selected time resolution" />
               </div>
               <Suspense fallback={<div className="h-48 rounded-lg bg-gray-100 animate-pulse" />}>
                 <LazyPowerChart />
               </Suspense>
             </div>
 
+            {/* Battery Chart */}
+            {dailyBattery && (
+              <div>
+                <div className="flex items-center mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">Battery &amp; Grid</h3>
+                  <Tooltip text="Battery charge, household load and grid import/export through the day" />
+                </div>
+                <Suspense fallback={<div className="h-48 rounded-lg bg-gray-100 animate-pulse" />}>
+                  <LazyBatteryChart />
+                </Suspense>
+              </div>
+            )}
+
             {/* Energy Chart */}
             <div>
               <div className="flex items-center mb-2">
@@ -357,6 +404,28 @@ function DataPanelInner() {
                 <LazyEnergyChart />
               </Suspense>
             </div>
+
+            {/* Sun Path Chart */}
+            <div>
+              <div className="flex items-center mb-2">
+                <h3 className="text-sm font-medium text-gray-700">Sun Path</h3>
+                <Tooltip text="Sun elevation by azimuth at the solstices, equinox and selected day, with the horizon profile overlaid" />
+              </div>
+              <Suspense fallback={<div className="h-48 rounded-lg bg-gray-100 animate-pulse" />}>
+                <LazySunPathChart />
+              </Suspense>
+            </div>
+
+            {/* I-V Curve Chart */}
+            <div>
+              <div className="flex items-center mb-2">
+                <h3 className="text-sm font-medium text-gray-700">I-V Curve</h3>
+                <Tooltip text="Module current and power against voltage at the current irradiance and cell temperature (single-diode model)" />
+              </div>
+              <Suspense fallback={<div className="h-48 rounded-lg bg-gray-100 animate-pulse" />}>
+                <LazyIVCurveChart />
+              </Suspense>
+            </div>
           </div>
         )}
       </div>
@@ -394,18 +463,22 @@ function DataPanelInner() {
       <div className={`border-t border-gray-200 pt-3 ${marginBottom}`}>
         <div className="flex items-center mb-2">
           <h3 className="text-sm font-medium text-gray-700">Energy Projections</h3>
-          <Tooltip text="Estimates based on today's conditions. Actual values vary with weather." />
+          <Tooltip text={`Hourly simulation of the full year ${irradianceInfo.projection}`} />
+          {annualPending && <span className="ml-auto text-xs text-gray-400">Updating…</span>}
         </div>
         <div className="grid grid-cols-3 gap-2 text-center">
           <div>
             <div className="flex items-center justify-center">
               <span className="text-xs text-gray-500">Weekly</span>
-              <Tooltip text="7 days × 24 hours = 168 hour projection" />
+              <Tooltip text="Average week in the selected month" />
             </div>
             <p className="text-sm font-semibold text-emerald-600">{formatEnergy(summary.weeklyEnergy)}</p>
           </div>
           <div>
-            <span className="text-xs text-gray-500">Monthly</span>
+            <div className="flex items-center justify-center">
+              <span className="text-xs text-gray-500">Monthly</span>
+              <Tooltip text="Total for the selected month" />
+            </div>
             <p className="text-sm font-semibold text-emerald-600">{formatEnergy(summary.monthlyEnergy)}</p>
           </div>
           <div>
@@ -413,23 +486,354 @@ function DataPanelInner() {
             <p className="text-sm font-semibold text-emerald-600">{formatEnergy(summary.yearlyEnergy)}</p>
           </div>
         </div>
+        {annualOutput?.snowLoss !== undefined && annualOutput.snowLoss > 0 && (
+          <p className="text-xs text-gray-500 mt-2 text-center">
+            Snow cover: −{formatEnergy(annualOutput.snowLoss)} DC/yr
+            ({((annualOutput.snowLossFraction ?? 0) * 100).toFixed(1)}%)
+          </p>
+        )}
       </div>
 
+      {/* Per-array breakdown when sub-arrays are set */}
+      {dailyOutput?.arrays && annualOutput?.arrays && (
+        <div className={`border-t border-gray-200 pt-3 ${marginBottom}`}>
+          <div className="flex items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Array Breakdown</h3>
+            <Tooltip text="AC energy of each array; arrays on a shared inverter split its output by DC input" />
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal pb-1">Array</th>
+                <th className="text-right font-normal pb-1">kWp</th>
+                <th className="text-right font-normal pb-1">Today</th>
+                <th className="text-right font-normal pb-1">Year</th>
+                <th className="text-right font-normal pb-1">kWh/kWp</th>
+              </tr>
+            </thead>
+            <tbody>
+              {annualOutput.arrays.map((array) => {
+                const today = dailyOutput.arrays?.find((daily) => daily.id === array.id);
+                return (
+                  <tr key={array.id} className="text-gray-800">
+                    <td className="py-0.5 truncate max-w-[6rem]" title={array.name}>{array.name}</td>
+                    <td className="py-0.5 text-right">{(array.capacity / 1000).toFixed(2)}</td>
+                    <td className="py-0.5 text-right">{today ? formatEnergy(today.energy) : '—'}</td>
+                    <td className="py-0.5 text-right font-semibold text-emerald-600">{formatEnergy(array.energy)}</td>
+                    <td className="py-0.5 text-right">
+                      {array.capacity > 0 ? (array.energy / array.capacity).toFixed(0) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Tracking Gain vs the fixed-tilt orientation */}
+      {annualOutput && fixedAnnualOutput && (
+        <div className={`border-t border-gray-200 pt-3 ${marginBottom}`}>
+          <div className="flex items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Tracking Gain</h3>
+            <Tooltip text="Yearly energy compared with the fixed tilt and azimuth" />
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <span className="text-xs text-gray-500">Tracked</span>
+              <p className="text-sm font-semibold text-emerald-600">{formatEnergy(annualOutput.annualEnergy)}</p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Fixed</span>
+              <p className="text-sm font-semibold text-gray-800">{formatEnergy(fixedAnnualOutput.annualEnergy)}</p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Gain</span>
+              <p className="text-sm font-semibold text-emerald-600">
+                {fixedAnnualOutput.annualEnergy > 0
+                  ? `${annualOutput.annualEnergy >= fixedAnnualOutput.annualEnergy ? '+' : ''}${((annualOutput.annualEnergy / fixedAnnualOutput.annualEnergy - 1) * 100).toFixed(1)}%`
+                  : '—'}
+              </p>
+            </div>
+          </div>
+          {annualOutput.stowHours > 0 && (
+            <p className="text-xs text-gray-500 mt-2 text-center">
+              Wind stow: {annualOutput.stowHours.toFixed(0)} daylight hours/year
+            </p>
+          )}
+          {annualOutput.trackerDriveEnergy !== undefined && (
+            <p className="text-xs text-gray-500 mt-1 text-center">
+              Drives: −{formatEnergy(annualOutput.trackerDriveEnergy)}/yr · Downtime: −{formatEnergy(annualOutput.trackerAvailabilityLoss ?? 0)}/yr
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Household load netted against PV */}
+      {annualEnergyBalance && (
+        <div className={`border-t border-gray-200 pt-3 ${marginBottom}`}>
+          <div className="flex items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Energy Balance</h3>
+            <Tooltip text="PV covers the household load first; the rest is exported, and any shortfall is imported" />
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center mb-2">
+            <div>
+              <span className="text-xs text-gray-500">Self-Consumed</span>
+              <p className="text-sm font-semibold text-emerald-600">{formatEnergy(annualEnergyBalance.selfConsumed)}</p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Exported</span>
+              <p className="text-sm font-semibold text-gray-800">{formatEnergy(annualEnergyBalance.gridExport)}</p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Imported</span>
+              <p className="text-sm font-semibold text-red-600">{formatEnergy(annualEnergyBalance.gridImport)}</p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 text-center">
+            {formatEnergy(annualEnergyBalance.loadEnergy)} load/yr · {(annualEnergyBalance.selfConsumption * 100).toFixed(0)}% of PV used on site · {(annualEnergyBalance.selfSufficiency * 100).toFixed(0)}% self-sufficient
+            {dailyEnergyBalance && (
+              <> · today {formatEnergy(dailyEnergyBalance.selfConsumed)} self-consumed</>
+            )}
+          </p>
+        </div>
+      )}
+
+      {/* Battery dispatch over the year */}
+      {annualBattery && (
+        <div className={`border-t border-gray-200 pt-3 ${marginBottom}`}>
+          <div className="flex items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Battery Storage</h3>
+            <Tooltip text="Hour-by-hour dispatch over the year against the household load" />
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-center mb-2">
+            <div>
+              <span className="text-xs text-gray-500">Self-Consumption</span>
+              <p className="text-sm font-semibold text-gray-800">{(annualBattery.selfConsumption * 100).toFixed(0)}%</p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Self-Sufficiency</span>
+              <p className="text-sm font-semibold text-emerald-600">{(annualBattery.selfSufficiency * 100).toFixed(0)}%</p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Grid Import</span>
+              <p className="text-sm font-semibold text-red-600">{formatEnergy(annualBattery.gridImport)}</p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Grid Export</span>
+              <p className="text-sm font-semibold text-gray-800">{formatEnergy(annualBattery.gridExport)}</p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 text-center">
+            {annualBattery.cycles.toFixed(0)} cycles · {(annualBattery.health * 100).toFixed(1)}% capacity after a year
+          </p>
+        </div>
+      )}
+
+      {/* Daily soiling between rain and manual washes */}
+      {annualOutput?.soiling && annualOutput.soilingLoss !== undefined && (
+        <div className={`border-t border-gray-200 pt-3 ${marginBottom}`}>
+          <div className="flex items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Soiling</h3>
+            <Tooltip text="Dust builds up each dry day and washes off in heavy rain or a manual wash" />
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center mb-2">
+            <div>
+              <span className="text-xs text-gray-500">Lost (DC)</span>
+              <p className="text-sm font-semibold text-amber-700">{formatEnergy(annualOutput.soilingLoss)}</p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Average Ratio</span>
+              <p className="text-sm font-semibold text-gray-800">
+                {(100 - (annualOutput.soiling.reduce((sum, day) => sum + day.loss, 0) / annualOutput.soiling.length) * 100).toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Cleanings</span>
+              <p className="text-sm font-semibold text-gray-800">{annualOutput.soiling.filter((day) => day.washed).length}</p>
+            </div>
+          </div>
+          {showCharts && (
+            <Suspense fallback={<div className="h-48 rounded-lg bg-gray-100 animate-pulse" />}>
+              <LazySoilingChart />
+            </Suspense>
+          )}
+        </div>
+      )}
+
+      {/* Lifetime production with module degradation */}
+      {lifetimeOutput && lifetimeOutput.years.length > 0 && (
+        <div className={`border-t border-gray-200 pt-3 ${marginBottom}`}>
+          <div className="flex items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Lifetime Production</h3>
+            <Tooltip text="Simulated year projected with module degradation, inverter replacements and availability" />
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center mb-2">
+            {[...new Set([Math.min(10, lifetimeOutput.years.length), lifetimeOutput.years.length])].map((year) => (
+              <div key={year}>
+                <span className="text-xs text-gray-500">Year {year}</span>
+                <p className="text-sm font-semibold text-emerald-600">{formatEnergy(lifetimeOutput.years[year - 1].energy)}</p>
+                <p className="text-xs text-gray-400">{(lifetimeOutput.years[year - 1].degradation * 100).toFixed(1)}% of year 1</p>
+              </div>
+            ))}
+            <div>
+              <span className="text-xs text-gray-500">{lifetimeOutput.years.length}-Year Total</span>
+              <p className="text-sm font-semibold text-emerald-600">{formatEnergy(lifetimeOutput.totalEnergy)}</p>
+            </div>
+          </div>
+          {showCharts && (
+            <Suspense fallback={<div className="h-48 rounded-lg bg-gray-100 animate-pulse" />}>
+              <LazyLifetimeChart />
+            </Suspense>
+          )}
+          <button
+            onClick={() => setShowLifetimeTable(!showLifetimeTable)}
+            className="w-full text-xs text-gray-500 hover:text-gray-700 py-1"
+          >
+            {showLifetimeTable ? 'Hide' : 'Show'} year-by-year table
+          </button>
+          {showLifetimeTable && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal pb-1">Year</th>
+                  <th className="text-right font-normal pb-1">Energy</th>
+                  <th className="text-right font-normal pb-1">Cumulative</th>
+                  <th className="text-right font-normal pb-1">Warranty</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lifetimeOutput.years.map((year) => (
+                  <tr key={year.year} className="text-gray-800">
+                    <td className="py-0.5">
+                      {year.year}
+                      {year.inverterReplaced && <span className="text-amber-600" title="Inverter replaced"> ⟳</span>}
+                    </td>
+                    <td className="py-0.5 text-right">{formatEnergy(year.energy)}</td>
+                    <td className="py-0.5 text-right">{formatEnergy(year.cumulativeEnergy)}</td>
+                    <td className={`py-0.5 text-right ${year.warrantyEnergy !== null && year.energy < year.warrantyEnergy ? 'text-red-600' : 'text-gray-500'}`}>
+                      {year.warrantyEnergy === null ? '—' : formatEnergy(year.warrantyEnergy)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
       {/* Savings */}
       <div className={`grid grid-cols-2 gap-2 ${marginBottom}`}>
         <div className="bg-blue-50 rounded-lg p-2 text-center">
-          <span className="text-xs text-blue-600">Yearly Savings</span>
+          <div className="flex items-center justify-center">
+            <span className="text-xs text-blue-600">Yearly Savings</span>
+            <Tooltip text={`Bill without PV less bill with PV on the ${tariff.name} tariff`} />
+          </div>
           <p className="text-lg font-bold text-blue-700">{formatCurrency(summary.yearlySavings)}</p>
+          {tariffSavings && (
+            <p className="text-xs text-blue-600">
+              {formatCurrency(tariffSavings.baseline.total)} → {formatCurrency(tariffSavings.bill.total)}
+            </p>
+          )}
         </div>
         <div className="bg-green-50 rounded-lg p-2 text-center">
           <div className="flex items-center justify-center">
             <span className="text-xs text-green-600">CO₂ Offset/Year</span>
-            <Tooltip text="Based on US average grid emissions (0.42 kg/kWh)" />
+            <Tooltip text={`Grid emissions avoided by the PV output. ${summary.co2Basis}`} />
           </div>
           <p className="text-lg font-bold text-green-700">{(summary.yearlyCO2Offset / 1000).toFixed(1)}t</p>
+          <p className="text-xs text-green-600 truncate" title={summary.co2Basis}>{summary.co2Basis}</p>
         </div>
       </div>
 
+      {/* Investment returns over the lifetime projection */}
+      {financeOutput && financeOutput.years.length > 1 && (
+        <div className={`border-t border-gray-200 pt-3 ${marginBottom}`}>
+          <div className="flex items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Investment</h3>
+            <Tooltip text={`Net cost ${formatCurrency(financeOutput.netCost)} against escalating bill savings, O&M, inverter replacements and loan payments`} />
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center mb-2">
+            <div>
+              <span className="text-xs text-gray-500">Payback</span>
+              <p className="text-sm font-semibold text-blue-700">
+                {financeOutput.simplePayback === null ? '—' : `${financeOutput.simplePayback.toFixed(1)} yr`}
+              </p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Discounted</span>
+              <p className="text-sm font-semibold text-gray-800">
+                {financeOutput.discountedPayback === null ? '—' : `${financeOutput.discountedPayback.toFixed(1)} yr`}
+              </p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">NPV</span>
+              <p className={`text-sm font-semibold ${financeOutput.npv >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                {formatCurrency(financeOutput.npv)}
+              </p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">IRR</span>
+              <p className="text-sm font-semibold text-gray-800">
+                {financeOutput.irr === null ? '—' : `${(financeOutput.irr * 100).toFixed(1)}%`}
+              </p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">LCOE</span>
+              <p className="text-sm font-semibold text-gray-800">
+                {financeOutput.lcoe === null ? '—' : `${CURRENCY_SYMBOLS[currency]}${financeOutput.lcoe.toFixed(3)}/kWh`}
+              </p>
+            </div>
+            <div>
+              <span className="text-xs text-gray-500">Up Front</span>
+              <p className="text-sm font-semibold text-gray-800">{formatCurrency(financeOutput.equity)}</p>
+            </div>
+          </div>
+          {showCharts && (
+            <Suspense fallback={<div className="h-48 rounded-lg bg-gray-100 animate-pulse" />}>
+              <LazyCashFlowChart />
+            </Suspense>
+          )}
+          <button
+            onClick={() => setShowCashFlowTable(!showCashFlowTable)}
+            className="w-full text-xs text-gray-500 hover:text-gray-700 py-1"
+          >
+            {showCashFlowTable ? 'Hide' : 'Show'} cash-flow table
+          </button>
+          {showCashFlowTable && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal pb-1">Year</th>
+                  <th className="text-right font-normal pb-1">Savings</th>
+                  <th className="text-right font-normal pb-1">Costs</th>
+                  <th className="text-right font-normal pb-1">Net</th>
+                  <th className="text-right font-normal pb-1">Cumulative</th>
+                </tr>
+              </thead>
+              <tbody>
+                {financeOutput.years.map((year) => (
+                  <tr key={year.year} className="text-gray-800">
+                    <td className="py-0.5">
+                      {year.year}
+                      {year.inverterCost > 0 && <span className="text-amber-600" title="Inverter replaced"> ⟳</span>}
+                    </td>
+                    <td className="py-0.5 text-right">{formatCurrency(year.savings + year.incentives)}</td>
+                    <td className="py-0.5 text-right text-gray-500">
+                      {formatCurrency(year.savings + year.incentives - year.netCashFlow)}
+                    </td>
+                    <td className={`py-0.5 text-right ${year.netCashFlow < 0 ? 'text-red-600' : ''}`}>{formatCurrency(year.netCashFlow)}</td>
+                    <td className={`py-0.5 text-right ${year.cumulativeCashFlow < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                      {formatCurrency(year.cumulativeCashFlow)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
       {/* PRIORITY 4: Advanced Metrics - Collapsible */}
       <button
         onClick={() => setShowAdvanced(!showAdvanced)}
@@ -525,6 +929,22 @@ function DataPanelInner() {
                   <p className="text-xs text-gray-400">{((poaIrradiance.reflected / poaIrradiance.total) * 100).toFixed(0)}%</p>
                 </div>
               </div>
+              {poaIrradiance.rear !== undefined && (
+                <div className="bg-gray-50 rounded-lg p-2 mt-2 flex items-center justify-between">
+                  <div className="flex items-center">
+                    <span className="text-xs text-gray-500">Rear Side</span>
+                    <Tooltip text="Bifacial rear irradiance, before rear mismatch and shading" />
+                  </div>
+                  <p className="text-sm font-semibold text-gray-800">
+                    {poaIrradiance.rear.toFixed(0)} W/m²
+                    {currentLosses?.bifacialGain !== undefined && (
+                      <span className="ml-2 text-xs font-normal text-emerald-600">
+                        +{(currentLosses.bifacialGain * 100).toFixed(1)}% gain
+                      </span>
+                    )}
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
@@ -538,6 +958,7 @@ function DataPanelInner() {
                   <Tooltip text="Estimated cell temperature (affects efficiency)" />
                 </div>
                 <p className="text-sm font-semibold text-gray-800">{cellTemperature.toFixed(1)}°C</p>
+                <p className="text-xs text-gray-400">Air {currentAmbientTemp.toFixed(1)}°C</p>
               </div>
               <div className="bg-gray-50 rounded-lg p-2">
                 <div className="flex items-center">
@@ -561,6 +982,18 @@ function DataPanelInner() {
                 <p className="text-sm font-semibold text-gray-800">{(currentLosses?.incidenceAngle || 1).toFixed(3)}</p>
               </div>
             </div>
+            {lossBreakdown.length > 0 && (
+              <table className="w-full text-xs mt-2">
+                <tbody>
+                  {lossBreakdown.map((loss) => (
+                    <tr key={loss.name} className="text-gray-800" title={loss.description}>
+                      <td className="py-0.5 text-gray-500">{loss.name}</td>
+                      <td className="py-0.5 text-right font-semibold">{loss.percentage.toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
           </div>
 
           {/* Performance Metrics */}
@@ -581,6 +1014,20 @@ function DataPanelInner() {
                 </div>
                 <p className="text-sm font-semibold text-gray-800">{(summary.performanceRatio * 100).toFixed(1)}%</p>
               </div>
+              <div className="bg-gray-50 rounded-lg p-2">
+                <div className="flex items-center">
+                  <span className="text-xs text-gray-500">Specific Yield</span>
+                  <Tooltip text="Annual energy per installed kWp" />
+                </div>
+                <p className="text-sm font-semibold text-gray-800">{summary.specificYield.toFixed(0)} kWh/kWp</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-2">
+                <div className="flex items-center">
+                  <span className="text-xs text-gray-500">Annual PR</span>
+                  <Tooltip text="Performance ratio over the full simulated year" />
+                </div>
+                <p className="text-sm font-semibold text-gray-800">{(summary.annualPerformanceRatio * 100).toFixed(1)}%</p>
+              </div>
             </div>
           </div>
         </div>
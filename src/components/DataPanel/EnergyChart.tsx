@@ -13,6 +13,7 @@ import {
 } from 'recharts';
 import { useSolarCalculation } from '../../hooks/useSolarCalculation';
 import { useSimulatorStore, selectSystemSize } from '../../store/simulatorStore';
+import { formatLocalHour } from '../../core/timezone';
 
 function EnergyChartInner() {
   const { cumulativeEnergyData, dailyOutput, isNight, hourlyPowerData } = useSolarCalculation();
@@ -24,7 +25,7 @@ function EnergyChartInner() {
     return cumulativeEnergyData.map((d) => ({
       hour: d.hour,
       energyKwh: d.energy / 1000, // Convert Wh to kWh
-      label: `${d.hour}:00`,
+      label: formatLocalHour(d.hour),
     }));
   }, [cumulativeEnergyData]);
 
@@ -43,17 +44,24 @@ function EnergyChartInner() {
   // Find sunrise/sunset hours for shading
   const nightHours = useMemo(() => {
     if (!hourlyPowerData.length) return { morningEnd: 6, eveningStart: 18 };
-    const morningEnd = hourlyPowerData.findIndex((d) => !d.isNight);
-    const eveningStart = hourlyPowerData.findLastIndex((d) => !d.isNight) + 1;
-    return { morningEnd: morningEnd > 0 ? morningEnd : 0, eveningStart: eveningStart < 24 ? eveningStart : 24 };
+    const firstDay = hourlyPowerData.findIndex((d) => !d.isNight);
+    const lastDay = hourlyPowerData.findLastIndex((d) => !d.isNight);
+    const morningEnd = firstDay >= 0 ? hourlyPowerData[firstDay].hour : 24;
+    const eveningStart = lastDay >= 0 && lastDay + 1 < hourlyPowerData.length
+      ? hourlyPowerData[lastDay + 1].hour
+      : 24;
+    return { morningEnd, eveningStart };
   }, [hourlyPowerData]);
 
-  // Current cumulative energy at animation hour (in kWh)
-  const currentEnergyKwh = useMemo(() => {
-    const hourIndex = Math.floor(animationHour);
-    return data[hourIndex]?.energyKwh || 0;
+  // Sample nearest to the animation hour
+  const currentSample = useMemo(() => {
+    const stepHours = data.length > 1 ? data[1].hour - data[0].hour : 1;
+    return data[Math.round(animationHour / stepHours)];
   }, [data, animationHour]);
 
+  // Current cumulative energy at animation hour (in kWh)
+  const currentEnergyKwh = currentSample?.energyKwh || 0;
+
   if (!dailyOutput) return null;
 
   return (
@@ -83,7 +91,7 @@ function EnergyChartInner() {
           {nightHours.eveningStart < 24 && (
             <ReferenceArea
               x1={nightHours.eveningStart}
-              x2={23}
+              x2={24}
               fill="#1e1b4b"
               fillOpacity={0.1}
             />
@@ -91,6 +99,8 @@ function EnergyChartInner() {
 
           <XAxis
             dataKey="hour"
+            type="number"
+            domain={[0, 24]}
             tick={{ fontSize: 10, fill: '#6b7280' }}
             tickFormatter={(h) => `${h}`}
             ticks={[0, 6, 12, 18, 24]}
@@ -106,7 +116,7 @@ function EnergyChartInner() {
 
           <Tooltip
             formatter={(value: number) => [`${value.toFixed(2)} kWh`, 'Cumulative Energy']}
-            labelFormatter={(hour) => `${hour}:00`}
+            labelFormatter={(hour: number) => formatLocalHour(hour)}
             contentStyle={{
               backgroundColor: 'rgba(255, 255, 255, 0.95)',
               border: 'none',
@@ -126,7 +136,7 @@ function EnergyChartInner() {
 
           {/* Current time indicator - dot */}
           <ReferenceDot
-            x={Math.floor(animationHour)}
+            x={currentSample?.hour ?? animationHour}
             y={currentEnergyKwh}
             r={6}
             fill={isNight ? '#6366f1' : '#10b981'}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { IVCurveChart } from './IVCurveChart';
+import { getPanelPreset } from '../../models/panelPresets';
+
+vi.mock('recharts', () => ({
+  ComposedChart: ({ children }: any) => <div data-testid="ComposedChart">{children}</div>,
+  Line: () => <div data-testid="Line" />,
+  XAxis: () => <div data-testid="XAxis" />,
+  YAxis: () => <div data-testid="YAxis" />,
+  CartesianGrid: () => <div data-testid="Grid" />,
+  ResponsiveContainer: ({ children }: any) => <div data-testid="Responsive">{children}</div>,
+  ReferenceDot: () => <div data-testid="ReferenceDot" />,
+}));
+
+const storeState = vi.hoisted(() => ({ current: {} as Record<string, unknown> }));
+
+vi.mock('../../store/simulatorStore', () => ({
+  useSimulatorStore: () => storeState.current,
+}));
+
+const poaIrradiance = { total: 800, beam: 600, diffuse: 180, reflected: 20, effectiveIrradiance: 780 };
+
+describe('IVCurveChart', () => {
+  beforeEach(() => {
+    storeState.current = {
+      panelConfig: getPanelPreset('generic-400')!.config,
+      poaIrradiance,
+      cellTemperature: 45,
+      currentLosses: { spectral: 1 },
+    };
+  });
+
+  it('should draw I-V and P-V curves with the maximum power point', () => {
+    render(<IVCurveChart />);
+
+    expect(screen.getAllByTestId('Line')).toHaveLength(2);
+    expect(screen.getByTestId('ReferenceDot')).toBeInTheDocument();
+    expect(screen.getByText(/MPP \d+ W @ [\d.]+ V · 780 W\/m² · 45°C/)).toBeInTheDocument();
+  });
+
+  it('should ask for datasheet values when the panel has none', () => {
+    const { electrical: _electrical, ...config } = getPanelPreset('generic-400')!.config;
+    storeState.current = { ...storeState.current, panelConfig: config };
+    render(<IVCurveChart />);
+
+    expect(screen.queryByTestId('ComposedChart')).not.toBeInTheDocument();
+    expect(screen.getByText(/datasheet Voc/)).toBeInTheDocument();
+  });
+
+  it('should show an empty state in the dark', () => {
+    storeState.current = { ...storeState.current, poaIrradiance: { ...poaIrradiance, effectiveIrradiance: 0 } };
+    render(<IVCurveChart />);
+
+    expect(screen.getByText('No light on the panels')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,138 @@
+import { useMemo, memo } from 'react';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  ReferenceDot,
+} from 'recharts';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { getModuleIrradiance } from '../../core/panelOutput';
+import { fitSingleDiodeParameters, calculateIVCurve, calculateOperatingPoint } from '../../core/singleDiode';
+
+const CURRENT_COLOR = '#3b82f6';
+const POWER_COLOR = '#f59e0b';
+
+function IVCurveChartInner() {
+  const { panelConfig, poaIrradiance, cellTemperature, currentLosses } = useSimulatorStore();
+
+  const moduleIrradiance = poaIrradiance
+    ? getModuleIrradiance(poaIrradiance, panelConfig, currentLosses?.spectral ?? 1)
+    : 0;
+
+  const params = useMemo(
+    () => panelConfig.electrical
+      ? fitSingleDiodeParameters(panelConfig.electrical, panelConfig.technology)
+      : null,
+    [panelConfig.electrical, panelConfig.technology]
+  );
+
+  const { curve, mpp } = useMemo(() => {
+    if (!params || moduleIrradiance <= 0) return { curve: [], mpp: null };
+    return {
+      curve: calculateIVCurve(params, moduleIrradiance, cellTemperature),
+      mpp: calculateOperatingPoint(params, moduleIrradiance, cellTemperature),
+    };
+  }, [params, moduleIrradiance, cellTemperature]);
+
+  if (!params) {
+    return (
+      <div className="h-48 flex items-center justify-center text-xs text-gray-400 bg-gray-50 rounded-lg px-4 text-center">
+        Add datasheet Voc, Isc, Vmp and Imp to draw I-V curves
+      </div>
+    );
+  }
+
+  if (curve.length === 0 || !mpp) {
+    return (
+      <div className="h-48 flex items-center justify-center text-xs text-gray-400 bg-gray-50 rounded-lg">
+        No light on the panels
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={curve} margin={{ top: 10, right: 0, left: -15, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+
+          <XAxis
+            dataKey="voltage"
+            type="number"
+            domain={[0, 'dataMax']}
+            tickFormatter={(v) => `${Math.round(v)}`}
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+          <YAxis
+            yAxisId="current"
+            tick={{ fontSize: 10, fill: CURRENT_COLOR }}
+            axisLine={{ stroke: '#d1d5db' }}
+            tickFormatter={(i) => i.toFixed(0)}
+          />
+          <YAxis
+            yAxisId="power"
+            orientation="right"
+            tick={{ fontSize: 10, fill: POWER_COLOR }}
+            axisLine={{ stroke: '#d1d5db' }}
+            tickFormatter={(p) => p.toFixed(0)}
+          />
+
+          <Line
+            yAxisId="current"
+            dataKey="current"
+            name="Current"
+            type="monotone"
+            stroke={CURRENT_COLOR}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            yAxisId="power"
+            dataKey="power"
+            name="Power"
+            type="monotone"
+            stroke={POWER_COLOR}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+
+          {/* Maximum power point */}
+          <ReferenceDot
+            yAxisId="power"
+            x={mpp.voltage}
+            y={mpp.power}
+            r={5}
+            fill={POWER_COLOR}
+            stroke="white"
+            strokeWidth={2}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {/* Legend and operating conditions */}
+      <div className="flex justify-between items-center mt-1 px-1 gap-2 text-xs text-gray-500">
+        <div className="flex gap-x-2">
+          <span className="flex items-center">
+            <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: CURRENT_COLOR }} />
+            I (A)
+          </span>
+          <span className="flex items-center">
+            <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: POWER_COLOR }} />
+            P (W)
+          </span>
+        </div>
+        <span className="whitespace-nowrap">
+          MPP {mpp.power.toFixed(0)} W @ {mpp.voltage.toFixed(1)} V · {moduleIrradiance.toFixed(0)} W/m² · {cellTemperature.toFixed(0)}°C
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export const IVCurveChart = memo(IVCurveChartInner);
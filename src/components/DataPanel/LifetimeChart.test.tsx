@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { LifetimeChart } from './LifetimeChart';
+
+vi.mock('recharts', () => ({
+  ComposedChart: ({ children }: any) => <div data-testid="ComposedChart">{children}</div>,
+  Bar: () => <div data-testid="Bar" />,
+  Line: ({ dataKey }: any) => <div data-testid={`Line-${dataKey}`} />,
+  XAxis: () => <div data-testid="XAxis" />,
+  YAxis: () => <div data-testid="YAxis" />,
+  CartesianGrid: () => <div data-testid="Grid" />,
+  Tooltip: () => <div data-testid="Tooltip" />,
+  ResponsiveContainer: ({ children }: any) => <div data-testid="Responsive">{children}</div>,
+  ReferenceLine: () => <div data-testid="ReferenceLine" />,
+}));
+
+vi.mock('../../store/simulatorStore', () => ({
+  useSimulatorStore: () => ({
+    lifetimeOutput: {
+      years: Array.from({ length: 25 }, (_, i) => ({
+        year: i + 1,
+        degradation: 1 - 0.005 * i,
+        availabilityLoss: 0.003,
+        inverterReplaced: i === 11,
+        energy: 6e6 * (1 - 0.005 * i),
+        cumulativeEnergy: 6e6 * (i + 1),
+        warrantyEnergy: 5.9e6 * (1 - 0.0055 * i),
+      })),
+      totalEnergy: 1.4e8,
+      averageEnergy: 5.6e6,
+      finalDegradation: 0.88,
+    },
+  }),
+}));
+
+describe('LifetimeChart', () => {
+  it('should render yearly bars with warranty and cumulative lines', () => {
+    render(<LifetimeChart />);
+
+    expect(screen.getByTestId('ComposedChart')).toBeInTheDocument();
+    expect(screen.getByTestId('Line-warrantyMwh')).toBeInTheDocument();
+    expect(screen.getByTestId('Line-cumulativeMwh')).toBeInTheDocument();
+    expect(screen.getAllByTestId('ReferenceLine')).toHaveLength(1);
+  });
+});
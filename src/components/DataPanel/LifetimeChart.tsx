@@ -0,0 +1,120 @@
+import { useMemo, memo } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { useSimulatorStore } from '../../store/simulatorStore';
+
+const SERIES_NAMES: Record<string, string> = {
+  energyMwh: 'Expected',
+  warrantyMwh: 'Warranty',
+  cumulativeMwh: 'Cumulative',
+};
+
+function LifetimeChartInner() {
+  const { lifetimeOutput } = useSimulatorStore();
+
+  // Yearly bars and the warranty line in MWh; cumulative on the right axis
+  const data = useMemo(() => {
+    if (!lifetimeOutput) return [];
+    return lifetimeOutput.years.map((y) => ({
+      year: y.year,
+      energyMwh: y.energy / 1e6,
+      warrantyMwh: y.warrantyEnergy === null ? null : y.warrantyEnergy / 1e6,
+      cumulativeMwh: y.cumulativeEnergy / 1e6,
+    }));
+  }, [lifetimeOutput]);
+
+  if (!lifetimeOutput || data.length === 0) return null;
+
+  const hasWarranty = data.some((d) => d.warrantyMwh !== null);
+  const replacements = lifetimeOutput.years.filter((y) => y.inverterReplaced);
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 0, left: -15, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+
+          <XAxis
+            dataKey="year"
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+          <YAxis
+            yAxisId="year"
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            tickFormatter={(v) => `${v.toFixed(1)}`}
+            domain={[0, 'auto']}
+            axisLine={{ stroke: '#d1d5db' }}
+            label={{ value: 'MWh/yr', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#6b7280', dx: 15 }}
+          />
+          <YAxis
+            yAxisId="cumulative"
+            orientation="right"
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            tickFormatter={(v) => `${v.toFixed(0)}`}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+
+          <Tooltip
+            formatter={(value: number, name: string) => [`${value.toFixed(2)} MWh`, SERIES_NAMES[name] ?? name]}
+            labelFormatter={(year: number) => `Year ${year}`}
+            contentStyle={{
+              backgroundColor: 'rgba(255, 255, 255, 0.95)',
+              border: 'none',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+              fontSize: '12px',
+            }}
+          />
+
+          {/* Inverter replacement years */}
+          {replacements.map((y) => (
+            <ReferenceLine key={y.year} yAxisId="year" x={y.year} stroke="#f59e0b" strokeDasharray="3 3" />
+          ))}
+
+          <Bar yAxisId="year" dataKey="energyMwh" fill="#10b981" fillOpacity={0.7} />
+          {hasWarranty && (
+            <Line
+              yAxisId="year"
+              type="linear"
+              dataKey="warrantyMwh"
+              stroke="#ef4444"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              dot={false}
+              connectNulls={false}
+            />
+          )}
+          <Line
+            yAxisId="cumulative"
+            type="monotone"
+            dataKey="cumulativeMwh"
+            stroke="#6366f1"
+            strokeWidth={2}
+            dot={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="flex justify-between items-center mt-1 px-1 text-xs text-gray-500">
+        <span>Operating Year</span>
+        <span>
+          <span className="text-emerald-600">■ Expected</span>
+          {hasWarranty && <span className="text-red-500 ml-2">- - Warranty</span>}
+          <span className="text-indigo-500 ml-2">— Cumulative</span>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export const LifetimeChart = memo(LifetimeChartInner);
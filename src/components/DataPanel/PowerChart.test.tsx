@@ -4,7 +4,7 @@ import { PowerChart } from './PowerChart';
 
 vi.mock('recharts', () => ({
   LineChart: ({ children }: any) => <div data-testid="LineChart">{children}</div>,
-  Line: () => <div data-testid="Line" />,
+  Line: ({ dataKey }: any) => <div data-testid={`Line-${dataKey}`} />,
   XAxis: () => <div data-testid="XAxis" />,
   YAxis: () => <div data-testid="YAxis" />,
   CartesianGrid: () => <div data-testid="Grid" />,
@@ -21,6 +21,7 @@ vi.mock('../../hooks/useSolarCalculation', () => ({
       hour,
       power: hour * 100,
       dcPower: hour * 120,
+      load: 400,
       irradiance: 200,
       temperature: 25,
       isNight: hour < 6 || hour > 18,
@@ -49,4 +50,11 @@ describe('PowerChart', () => {
     expect(screen.getByTestId('LineChart')).toBeInTheDocument();
     expect(screen.getByText(/Now:/)).toBeInTheDocument();
   });
+
+  it('should overlay the household load on production', () => {
+    render(<PowerChart />);
+
+    expect(screen.getByTestId('Line-powerKw')).toBeInTheDocument();
+    expect(screen.getByTestId('Line-loadKw')).toBeInTheDocument();
+  });
 });
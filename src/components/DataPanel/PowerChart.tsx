@@ -13,6 +13,7 @@ import {
 } from 'recharts';
 import { useSolarCalculation } from '../../hooks/useSolarCalculation';
 import { useSimulatorStore, selectSystemSize } from '../../store/simulatorStore';
+import { formatLocalHour } from '../../core/timezone';
 
 function PowerChartInner() {
   const { hourlyPowerData, dailyOutput, isNight } = useSolarCalculation();
@@ -24,14 +25,15 @@ function PowerChartInner() {
     return hourlyPowerData.map((h) => ({
       hour: h.hour,
       powerKw: h.power / 1000, // Convert W to kW
+      loadKw: h.load / 1000,
       isNight: h.isNight,
-      label: `${h.hour}:00`,
+      label: formatLocalHour(h.hour),
     }));
   }, [hourlyPowerData]);
 
   // Calculate Y-axis domain based on system capacity and peak power
   const yAxisDomain = useMemo(() => {
-    const peakKw = Math.max(...data.map(d => d.powerKw), 0);
+    const peakKw = Math.max(...data.map(d => Math.max(d.powerKw, d.loadKw)), 0);
     // yMax = max(peak * 1.1, systemCapacity * 1.05) rounded up to nice number
     const maxValue = Math.max(peakKw * 1.1, systemSizeKw * 1.05);
     // Round up to nearest 0.5 kW for cleaner axis
@@ -41,17 +43,22 @@ function PowerChartInner() {
 
   // Find sunrise/sunset hours for shading
   const nightHours = useMemo(() => {
-    const morningEnd = data.findIndex((d) => !d.isNight);
-    const eveningStart = data.findLastIndex((d) => !d.isNight) + 1;
+    const firstDay = data.findIndex((d) => !d.isNight);
+    const lastDay = data.findLastIndex((d) => !d.isNight);
+    const morningEnd = firstDay >= 0 ? data[firstDay].hour : 24;
+    const eveningStart = lastDay >= 0 && lastDay + 1 < data.length ? data[lastDay + 1].hour : 24;
     return { morningEnd, eveningStart };
   }, [data]);
 
-  // Current power at animation hour (in kW)
-  const currentPowerKw = useMemo(() => {
-    const hourIndex = Math.floor(animationHour);
-    return data[hourIndex]?.powerKw || 0;
+  // Sample nearest to the animation hour
+  const currentSample = useMemo(() => {
+    const stepHours = data.length > 1 ? data[1].hour - data[0].hour : 1;
+    return data[Math.round(animationHour / stepHours)];
   }, [data, animationHour]);
 
+  // Current power at animation hour (in kW)
+  const currentPowerKw = currentSample?.powerKw || 0;
+
   if (!dailyOutput) return null;
 
   return (
@@ -81,7 +88,7 @@ function PowerChartInner() {
           {nightHours.eveningStart < 24 && (
             <ReferenceArea
               x1={nightHours.eveningStart}
-              x2={23}
+              x2={24}
               fill="#1e1b4b"
               fillOpacity={0.1}
             />
@@ -89,6 +96,8 @@ function PowerChartInner() {
 
           <XAxis
             dataKey="hour"
+            type="number"
+            domain={[0, 24]}
             tick={{ fontSize: 10, fill: '#6b7280' }}
             tickFormatter={(h) => `${h}`}
             ticks={[0, 6, 12, 18, 24]}
@@ -103,8 +112,8 @@ function PowerChartInner() {
           />
 
           <Tooltip
-            formatter={(value: number) => [`${value.toFixed(2)} kW`, 'Power']}
-            labelFormatter={(hour) => `${hour}:00`}
+            formatter={(value: number, name: string) => [`${value.toFixed(2)} kW`, name === 'loadKw' ? 'Load' : 'Power']}
+            labelFormatter={(hour: number) => formatLocalHour(hour)}
             contentStyle={{
               backgroundColor: 'rgba(255, 255, 255, 0.95)',
               border: 'none',
@@ -124,7 +133,7 @@ function PowerChartInner() {
 
           {/* Current time indicator - dot */}
           <ReferenceDot
-            x={Math.floor(animationHour)}
+            x={currentSample?.hour ?? animationHour}
             y={currentPowerKw}
             r={6}
             fill={isNight ? '#6366f1' : '#f59e0b'}
@@ -132,6 +141,17 @@ function PowerChartInner() {
             strokeWidth={2}
           />
 
+          {/* Household load overlay */}
+          <Line
+            type="stepAfter"
+            dataKey="loadKw"
+            stroke="#6b7280"
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+            dot={false}
+            activeDot={false}
+          />
+
           {/* Power line */}
           <Line
             type="monotone"
@@ -146,7 +166,9 @@ function PowerChartInner() {
 
       {/* Current power indicator */}
       <div className="flex justify-between items-center mt-1 px-1">
-        <span className="text-xs text-gray-500">Local Hour</span>
+        <span className="text-xs text-gray-500">
+          Local Hour <span className="text-gray-400 ml-1">- - Load</span>
+        </span>
         <div className={`flex items-center px-2 py-0.5 rounded ${isNight ? 'bg-indigo-100' : 'bg-solar-100'}`}>
           <div className={`w-2 h-2 rounded-full mr-1 ${isNight ? 'bg-indigo-500' : 'bg-solar-500'}`} />
           <span className={`text-xs font-medium ${isNight ? 'text-indigo-700' : 'text-solar-700'}`}>
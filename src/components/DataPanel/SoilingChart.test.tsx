@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { SoilingChart } from './SoilingChart';
+
+vi.mock('recharts', () => ({
+  ComposedChart: ({ children, data }: any) => <div data-testid="ComposedChart" data-points={data.length}>{children}</div>,
+  Bar: ({ dataKey }: any) => <div data-testid={`Bar-${dataKey}`} />,
+  Line: ({ dataKey }: any) => <div data-testid={`Line-${dataKey}`} />,
+  XAxis: () => <div data-testid="XAxis" />,
+  YAxis: () => <div data-testid="YAxis" />,
+  CartesianGrid: () => <div data-testid="Grid" />,
+  Tooltip: () => <div data-testid="Tooltip" />,
+  ResponsiveContainer: ({ children }: any) => <div data-testid="Responsive">{children}</div>,
+  ReferenceLine: () => <div data-testid="ReferenceLine" />,
+}));
+
+vi.mock('../../store/simulatorStore', () => ({
+  useSimulatorStore: () => ({
+    annualOutput: {
+      soiling: Array.from({ length: 365 }, (_, i) => ({
+        rainfall: i % 30 === 0 ? 8 : 0,
+        loss: (i % 30) * 0.0015,
+        washed: i % 30 === 0,
+        dcEnergy: 20000,
+      })),
+    },
+    soilingConfig: { washDays: [100, 200] },
+  }),
+}));
+
+describe('SoilingChart', () => {
+  it('should plot the daily soiling ratio, rain and manual washes', () => {
+    render(<SoilingChart />);
+
+    expect(screen.getByTestId('ComposedChart')).toHaveAttribute('data-points', '365');
+    expect(screen.getByTestId('Line-ratio')).toBeInTheDocument();
+    expect(screen.getByTestId('Bar-rainfall')).toBeInTheDocument();
+    expect(screen.getAllByTestId('ReferenceLine')).toHaveLength(2);
+  });
+});
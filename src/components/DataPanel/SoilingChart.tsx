@@ -0,0 +1,109 @@
+import { useMemo, memo } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { useSimulatorStore } from '../../store/simulatorStore';
+
+// Day of year (1-based) of the first of each month in a common year
+const MONTH_TICKS = [1, 32, 60, 91, 121, 152, 182, 213, 244, 274, 305, 335];
+
+function SoilingChartInner() {
+  const { annualOutput, soilingConfig } = useSimulatorStore();
+
+  // Soiling ratio (output kept) in percent, with daily rainfall on the right axis
+  const data = useMemo(() => {
+    if (!annualOutput?.soiling) return [];
+    return annualOutput.soiling.map((day, i) => ({
+      day: i + 1,
+      ratio: (1 - day.loss) * 100,
+      rainfall: day.rainfall,
+    }));
+  }, [annualOutput]);
+
+  if (data.length === 0) return null;
+
+  const minRatio = Math.min(...data.map((d) => d.ratio));
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 0, left: -15, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+
+          <XAxis
+            dataKey="day"
+            type="number"
+            domain={[1, data.length]}
+            ticks={MONTH_TICKS}
+            tickFormatter={(day) => new Date(Date.UTC(2001, 0, day)).toLocaleString('en-US', { month: 'narrow', timeZone: 'UTC' })}
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+          <YAxis
+            yAxisId="ratio"
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            tickFormatter={(v) => `${v.toFixed(0)}`}
+            domain={[Math.floor(Math.min(95, minRatio) - 1), 100]}
+            axisLine={{ stroke: '#d1d5db' }}
+            label={{ value: '%', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#6b7280', dx: 15 }}
+          />
+          <YAxis
+            yAxisId="rain"
+            orientation="right"
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            tickFormatter={(v) => `${v.toFixed(0)}`}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+
+          <Tooltip
+            formatter={(value: number, name: string) =>
+              name === 'rainfall' ? [`${value.toFixed(1)} mm`, 'Rain'] : [`${value.toFixed(1)}%`, 'Soiling ratio']
+            }
+            labelFormatter={(day: number) => `Day ${day}`}
+            contentStyle={{
+              backgroundColor: 'rgba(255, 255, 255, 0.95)',
+              border: 'none',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+              fontSize: '12px',
+            }}
+          />
+
+          {/* Manual washes */}
+          {soilingConfig.washDays.map((day) => (
+            <ReferenceLine key={day} yAxisId="ratio" x={day} stroke="#0ea5e9" strokeDasharray="3 3" />
+          ))}
+
+          <Bar yAxisId="rain" dataKey="rainfall" fill="#93c5fd" fillOpacity={0.7} />
+          <Line
+            yAxisId="ratio"
+            type="stepAfter"
+            dataKey="ratio"
+            stroke="#b45309"
+            strokeWidth={2}
+            dot={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="flex justify-between items-center mt-1 px-1 text-xs text-gray-500">
+        <span>Day of Year</span>
+        <span>
+          <span className="text-amber-700">— Soiling ratio</span>
+          <span className="text-blue-400 ml-2">■ Rain (mm)</span>
+          {soilingConfig.washDays.length > 0 && <span className="text-sky-500 ml-2">- - Wash</span>}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export const SoilingChart = memo(SoilingChartInner);
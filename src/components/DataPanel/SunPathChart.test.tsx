@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { SunPathChart } from './SunPathChart';
+
+vi.mock('recharts', () => ({
+  ComposedChart: ({ children }: any) => <div data-testid="ComposedChart">{children}</div>,
+  Area: () => <div data-testid="Area" />,
+  Line: () => <div data-testid="Line" />,
+  XAxis: () => <div data-testid="XAxis" />,
+  YAxis: () => <div data-testid="YAxis" />,
+  CartesianGrid: () => <div data-testid="Grid" />,
+  ResponsiveContainer: ({ children }: any) => <div data-testid="Responsive">{children}</div>,
+  ReferenceDot: () => <div data-testid="ReferenceDot" />,
+}));
+
+vi.mock('../../store/simulatorStore', () => ({
+  useSimulatorStore: () => ({
+    location: { latitude: 37.77, longitude: -122.42, timezone: 'America/Los_Angeles' },
+    date: new Date(2024, 5, 21, 12),
+    solarPosition: { elevation: 10, azimuth: 180, zenith: 80 },
+    horizonProfile: {
+      id: 'horizon:Ridge',
+      name: 'Ridge',
+      points: [{ azimuth: 90, elevation: 0 }, { azimuth: 180, elevation: 20 }],
+    },
+    sunBehindHorizon: true,
+  }),
+}));
+
+describe('SunPathChart', () => {
+  it('should draw the day paths, horizon overlay and sun position', () => {
+    render(<SunPathChart />);
+
+    expect(screen.getByTestId('ComposedChart')).toBeInTheDocument();
+    expect(screen.getAllByTestId('Line')).toHaveLength(4);
+    expect(screen.getByTestId('Area')).toBeInTheDocument();
+    expect(screen.getByTestId('ReferenceDot')).toBeInTheDocument();
+    expect(screen.getByText('Behind horizon')).toBeInTheDocument();
+  });
+});
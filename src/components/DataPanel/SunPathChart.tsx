@@ -0,0 +1,168 @@
+import { useMemo, memo } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  ReferenceDot,
+} from 'recharts';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { calculateSolarPosition } from '../../core/solarPosition';
+import { createLocalDateTime } from '../../core/timezone';
+import { getHorizonElevation } from '../../core/horizon';
+
+type PathPoint = { azimuth: number; elevation: number | null };
+
+// Local-time sampling of each day's path (minutes)
+const PATH_STEP_MINUTES = 10;
+const HORIZON_STEP = 2;
+const COMPASS_LABELS: Record<number, string> = { 0: 'N', 90: 'E', 180: 'S', 270: 'W', 360: 'N' };
+
+const REFERENCE_DAYS = [
+  { label: 'Jun 21', month: 5, day: 21, color: '#f59e0b' },
+  { label: 'Equinox', month: 2, day: 20, color: '#10b981' },
+  { label: 'Dec 21', month: 11, day: 21, color: '#6366f1' },
+];
+
+/**
+ * Sun elevation against azimuth over one day, above the horizontal only
+ *
+ * Breaks the line where the path wraps through north so it is not drawn
+ * across the whole chart.
+ */
+function getSunPath(date: Date, latitude: number, longitude: number, timezone: string): PathPoint[] {
+  const path: PathPoint[] = [];
+  for (let minutes = 0; minutes <= 24 * 60; minutes += PATH_STEP_MINUTES) {
+    const time = createLocalDateTime(date, minutes / 60, timezone);
+    const position = calculateSolarPosition(time, latitude, longitude);
+    if (position.elevation <= 0) continue;
+
+    const previous = path[path.length - 1];
+    if (previous && Math.abs(position.azimuth - previous.azimuth) > 180) {
+      path.push({ azimuth: previous.azimuth, elevation: null });
+    }
+    path.push({ azimuth: position.azimuth, elevation: position.elevation });
+  }
+  return path;
+}
+
+function SunPathChartInner() {
+  const { location, date, solarPosition, horizonProfile, sunBehindHorizon } = useSimulatorStore();
+
+  const paths = useMemo(() => {
+    const year = date.getFullYear();
+    const reference = REFERENCE_DAYS.map((day) => ({
+      ...day,
+      points: getSunPath(new Date(year, day.month, day.day), location.latitude, location.longitude, location.timezone),
+    }));
+    return [
+      ...reference,
+      {
+        label: 'Today',
+        color: '#ef4444',
+        points: getSunPath(date, location.latitude, location.longitude, location.timezone),
+      },
+    ];
+  }, [date, location.latitude, location.longitude, location.timezone]);
+
+  const horizonData = useMemo(() => {
+    if (!horizonProfile) return [];
+    return Array.from({ length: 360 / HORIZON_STEP + 1 }, (_, i) => ({
+      azimuth: i * HORIZON_STEP,
+      elevation: getHorizonElevation(horizonProfile, i * HORIZON_STEP),
+    }));
+  }, [horizonProfile]);
+
+  const sunVisible = solarPosition !== null && solarPosition.elevation > 0;
+
+  return (
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart margin={{ top: 10, right: 10, left: -15, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+
+          <XAxis
+            dataKey="azimuth"
+            type="number"
+            domain={[0, 360]}
+            ticks={[0, 90, 180, 270, 360]}
+            tickFormatter={(az) => COMPASS_LABELS[az] ?? `${az}`}
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            axisLine={{ stroke: '#d1d5db' }}
+          />
+          <YAxis
+            type="number"
+            domain={[0, 90]}
+            ticks={[0, 30, 60, 90]}
+            tick={{ fontSize: 10, fill: '#6b7280' }}
+            axisLine={{ stroke: '#d1d5db' }}
+            label={{ value: '°', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#6b7280', dx: 15 }}
+          />
+
+          {/* Horizon overlay */}
+          {horizonData.length > 0 && (
+            <Area
+              data={horizonData}
+              dataKey="elevation"
+              type="linear"
+              stroke="#4b5563"
+              fill="#4b5563"
+              fillOpacity={0.35}
+              isAnimationActive={false}
+            />
+          )}
+
+          {/* Solstice, equinox and selected-day paths */}
+          {paths.map((path) => (
+            <Line
+              key={path.label}
+              data={path.points}
+              dataKey="elevation"
+              name={path.label}
+              type="monotone"
+              stroke={path.color}
+              strokeWidth={path.label === 'Today' ? 2 : 1.5}
+              strokeDasharray={path.label === 'Today' ? undefined : '4 3'}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+
+          {/* Current sun position */}
+          {sunVisible && (
+            <ReferenceDot
+              x={solarPosition.azimuth}
+              y={solarPosition.elevation}
+              r={6}
+              fill={sunBehindHorizon ? '#6b7280' : '#f59e0b'}
+              stroke="white"
+              strokeWidth={2}
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {/* Legend and current sun indicator */}
+      <div className="flex justify-between items-center mt-1 px-1 gap-2">
+        <div className="flex flex-wrap gap-x-2 text-xs text-gray-500">
+          {paths.map((path) => (
+            <span key={path.label} className="flex items-center">
+              <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: path.color }} />
+              {path.label}
+            </span>
+          ))}
+        </div>
+        <div className={`flex items-center px-2 py-0.5 rounded ${sunBehindHorizon || !sunVisible ? 'bg-gray-100' : 'bg-solar-100'}`}>
+          <span className={`text-xs font-medium whitespace-nowrap ${sunBehindHorizon || !sunVisible ? 'text-gray-600' : 'text-solar-700'}`}>
+            {!sunVisible ? 'Sun down' : sunBehindHorizon ? 'Behind horizon' : `Sun: ${solarPosition.elevation.toFixed(0)}°`}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const SunPathChart = memo(SunPathChartInner);
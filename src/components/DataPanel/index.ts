@@ -1,3 +1,9 @@
 export { DataPanel } from './DataPanel';
 export { PowerChart } from './PowerChart';
 export { EnergyChart } from './EnergyChart';
+export { SunPathChart } from './SunPathChart';
+export { IVCurveChart } from './IVCurveChart';
+export { LifetimeChart } from './LifetimeChart';
+export { SoilingChart } from './SoilingChart';
+export { BatteryChart } from './BatteryChart';
+export { CashFlowChart } from './CashFlowChart';
@@ -8,7 +8,8 @@
  * - Power at each stage
  */
 
-import { useSimulatorStore, selectSystemSize } from '../../store/simulatorStore';
+import { useSimulatorStore, selectSystemSize, selectCurrentHourData } from '../../store/simulatorStore';
+import { formatLocalHour } from '../../core/timezone';
 
 // Only show in development mode
 const DEV_MODE = import.meta.env.DEV;
@@ -35,6 +36,7 @@ export function DebugPanel() {
   } = useSimulatorStore();
 
   const systemSize = useSimulatorStore(selectSystemSize);
+  const currentHourData = useSimulatorStore(selectCurrentHourData);
 
   if (!solarPosition || !irradiance || !poaIrradiance) {
     return (
@@ -51,10 +53,6 @@ export function DebugPanel() {
   const irradianceRatio = poaIrradiance.effectiveIrradiance / stcIrradiance;
   const expectedDC = theoreticalMaxDC * irradianceRatio;
 
-  // Get current hour's data from daily output
-  const hourIndex = Math.floor(animationHour);
-  const currentHourData = dailyOutput?.hourlyData[hourIndex];
-
   return (
     <div className="bg-black/90 text-green-400 font-mono text-xs p-3 rounded-lg max-w-md overflow-auto max-h-[80vh]">
       <div className="text-yellow-400 font-bold mb-2 flex items-center gap-2">
@@ -144,9 +142,10 @@ export function DebugPanel() {
       {/* Daily Summary */}
       {dailyOutput && (
         <Section title="Daily Output">
+          <Row label="Timestep" value={`${dailyOutput.timestepMinutes} min`} />
           <Row label="Daily Energy" value={`${(dailyOutput.dailyEnergy / 1000).toFixed(2)} kWh`} />
           <Row label="Peak Power" value={`${(dailyOutput.peakPower / 1000).toFixed(2)} kW`} />
-          <Row label="Peak Hour" value={`${dailyOutput.peakHour}:00`} />
+          <Row label="Peak Hour" value={formatLocalHour(dailyOutput.peakHour)} />
           <Row label="Capacity Factor" value={`${(dailyOutput.capacityFactor * 100).toFixed(1)}%`} />
           <Row label="Performance Ratio" value={`${(dailyOutput.performanceRatio * 100).toFixed(1)}%`} />
         </Section>
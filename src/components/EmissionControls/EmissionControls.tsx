@@ -0,0 +1,93 @@
+import { useState, useRef } from 'react';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { parseEmissionProfile } from '../../core/emissions';
+import { NumberField } from '../ControlFields';
+
+export function EmissionControls() {
+  const {
+    gridEmissionFactor,
+    emissionOverride,
+    setEmissionOverride,
+    emissionProfile,
+    setEmissionProfile,
+  } = useSimulatorStore();
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setEmissionProfile(parseEmissionProfile(text, file.name));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read emission profile');
+    } finally {
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">Grid Emissions</label>
+
+      <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+        <p>
+          <span className="font-medium text-gray-700">{gridEmissionFactor.region}</span> ·{' '}
+          {gridEmissionFactor.factor.toFixed(2)} kg CO₂/kWh ({gridEmissionFactor.source})
+        </p>
+        <label className="flex items-center justify-between" style={{ minHeight: '32px' }}>
+          Use my own factor
+          <input
+            type="checkbox"
+            checked={emissionOverride !== null}
+            onChange={(e) => setEmissionOverride(e.target.checked ? gridEmissionFactor.factor : null)}
+            className="w-4 h-4 accent-solar-500"
+          />
+        </label>
+        {emissionOverride !== null && (
+          <NumberField
+            label="Grid factor (kg CO₂/kWh)"
+            step={0.01}
+            value={emissionOverride}
+            onChange={(factor) => setEmissionOverride(factor)}
+          />
+        )}
+      </div>
+
+      {emissionProfile ? (
+        <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 flex items-start justify-between gap-2">
+          <div>
+            <p className="font-medium text-gray-700">{emissionProfile.name}</p>
+            <p>Marginal · {emissionProfile.average.toFixed(2)} kg CO₂/kWh average · replaces the flat factor</p>
+          </div>
+          <button
+            onClick={() => {
+              setEmissionProfile(null);
+              setError(null);
+            }}
+            className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+            style={{ minHeight: '32px' }}
+            aria-label="Remove emission profile"
+          >
+            ✕
+          </button>
+        </div>
+      ) : (
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.txt"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-xs text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-solar-50 file:text-solar-700 hover:file:bg-solar-100"
+          aria-label="Import marginal emission profile"
+        />
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {!emissionProfile && !error && (
+        <p className="text-xs text-gray-400">Hourly marginal rates CSV (8760, 12×24 or 24 values) for avoided emissions</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { EmissionControls } from './EmissionControls';
@@ -0,0 +1,94 @@
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { CURRENCY_SYMBOLS } from '../../core/tariff';
+import { NumberField } from '../ControlFields';
+
+export function FinanceControls() {
+  const { financeConfig, setFinanceConfig, financeOutput, tariffs, activeTariffId } = useSimulatorStore();
+  const symbol = CURRENCY_SYMBOLS[tariffs.find((t) => t.id === activeTariffId)?.currency ?? 'USD'];
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">Project Finance</label>
+
+      <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label={`Installed (${symbol}/Wp)`}
+            step={0.05}
+            value={financeConfig.installedCost}
+            onChange={(installedCost) => setFinanceConfig({ installedCost })}
+          />
+          <NumberField
+            label={`O&M (${symbol}/kWp/yr)`}
+            value={financeConfig.omCost}
+            onChange={(omCost) => setFinanceConfig({ omCost })}
+          />
+          <NumberField
+            label={`Inverter swap (${symbol}/Wp)`}
+            step={0.01}
+            value={financeConfig.inverterCost}
+            onChange={(inverterCost) => setFinanceConfig({ inverterCost })}
+          />
+          <NumberField
+            label="Cost inflation (%/yr)"
+            step={0.5}
+            value={financeConfig.omEscalation}
+            onChange={(omEscalation) => setFinanceConfig({ omEscalation })}
+          />
+          <NumberField
+            label={`Rebate (${symbol})`}
+            step={100}
+            value={financeConfig.incentive}
+            onChange={(incentive) => setFinanceConfig({ incentive })}
+          />
+          <NumberField
+            label="Tax credit (%)"
+            value={financeConfig.taxCredit}
+            onChange={(taxCredit) => setFinanceConfig({ taxCredit })}
+          />
+          <NumberField
+            label="Price rise (%/yr)"
+            step={0.5}
+            value={financeConfig.priceEscalation}
+            onChange={(priceEscalation) => setFinanceConfig({ priceEscalation })}
+          />
+          <NumberField
+            label="Discount rate (%)"
+            step={0.5}
+            value={financeConfig.discountRate}
+            onChange={(discountRate) => setFinanceConfig({ discountRate })}
+          />
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+        <p className="font-medium text-gray-700">Loan</p>
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField
+            label="Financed (%)"
+            step={5}
+            value={Number((financeConfig.loanShare * 100).toFixed(1))}
+            onChange={(value) => setFinanceConfig({ loanShare: value / 100 })}
+          />
+          <NumberField
+            label="Rate (%)"
+            step={0.25}
+            value={financeConfig.loanRate}
+            onChange={(loanRate) => setFinanceConfig({ loanRate })}
+          />
+          <NumberField
+            label="Term (yr)"
+            value={financeConfig.loanTerm}
+            onChange={(loanTerm) => setFinanceConfig({ loanTerm })}
+          />
+        </div>
+      </div>
+
+      {financeOutput && (
+        <p className="text-xs text-gray-400">
+          Over the {financeOutput.years.length - 1}-year lifetime projection, with its inverter replacement years
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { FinanceControls } from './FinanceControls';
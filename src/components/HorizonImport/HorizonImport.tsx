@@ -0,0 +1,99 @@
+import { useState, useRef } from 'react';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { parseHorizonFile } from '../../core/horizon';
+
+export function HorizonImport() {
+  const { horizonProfile, setHorizonProfile, sunBehindHorizon } = useSimulatorStore();
+  const [error, setError] = useState<string | null>(null);
+  const [manualText, setManualText] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setHorizonProfile(parseHorizonFile(text, file.name));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read horizon file');
+    } finally {
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleManual = () => {
+    try {
+      setHorizonProfile(parseHorizonFile(manualText, 'Manual'));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Invalid horizon profile');
+    }
+  };
+
+  const handleClear = () => {
+    setHorizonProfile(null);
+    setError(null);
+  };
+
+  const maxElevation = horizonProfile
+    ? Math.max(...horizonProfile.points.map((p) => p.elevation))
+    : 0;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Horizon Profile</label>
+
+      {horizonProfile ? (
+        <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 flex items-start justify-between gap-2">
+          <div>
+            <p className="font-medium text-gray-700">{horizonProfile.name}</p>
+            <p>{horizonProfile.points.length} points · up to {maxElevation.toFixed(1)}° elevation</p>
+            {sunBehindHorizon && (
+              <p className="text-amber-600 mt-1">Sun is behind the horizon</p>
+            )}
+          </div>
+          <button
+            onClick={handleClear}
+            className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+            style={{ minHeight: '32px' }}
+            aria-label="Remove horizon profile"
+          >
+            ✕
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.txt"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-xs text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-solar-50 file:text-solar-700 hover:file:bg-solar-100"
+            aria-label="Import horizon file"
+          />
+          <textarea
+            value={manualText}
+            onChange={(e) => setManualText(e.target.value)}
+            rows={3}
+            placeholder={'azimuth, elevation\n90, 12\n180, 5\n270, 15'}
+            className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+            aria-label="Horizon points"
+          />
+          <button
+            onClick={handleManual}
+            disabled={manualText.trim() === ''}
+            className="w-full px-3 py-2 rounded-lg text-sm font-medium bg-white border border-gray-300 text-gray-700 hover:border-solar-300 disabled:opacity-50 transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            Apply Horizon
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      {!horizonProfile && !error && (
+        <p className="text-xs text-gray-400 mt-1">PVGIS horizon file or azimuth, elevation CSV (degrees from north)</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { HorizonImport } from './HorizonImport';
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { LoadControls } from './LoadControls';
+import { useSimulatorStore } from '../../store/simulatorStore';
+
+const initialState = useSimulatorStore.getState();
+
+describe('LoadControls', () => {
+  const setLoadConfig = vi.fn();
+  const setLoadProfile = vi.fn();
+
+  beforeEach(() => {
+    setLoadConfig.mockClear();
+    setLoadProfile.mockClear();
+    useSimulatorStore.setState(initialState, true);
+    useSimulatorStore.setState({ setLoadConfig, setLoadProfile, loadProfile: null });
+  });
+
+  it('should edit the synthetic load', () => {
+    render(<LoadControls />);
+
+    fireEvent.change(screen.getByLabelText('Annual use (kWh)'), { target: { value: '6500' } });
+    expect(setLoadConfig).toHaveBeenLastCalledWith({ annualConsumption: 6500 });
+
+    fireEvent.change(screen.getByLabelText('Household'), { target: { value: 'ev-charging' } });
+    expect(setLoadConfig).toHaveBeenLastCalledWith({ archetype: 'ev-charging' });
+  });
+
+  it('should report a file that cannot be read as a load profile', async () => {
+    render(<LoadControls />);
+
+    // jsdom files have no text()
+    const content = 'not,a,load\nprofile';
+    const file = Object.assign(new File([content], 'meter.csv', { type: 'text/csv' }), {
+      text: async () => content,
+    });
+    await userEvent.upload(screen.getByLabelText('Import load profile'), file);
+
+    await waitFor(() => expect(screen.getByText('No timestamped readings found in load CSV')).toBeInTheDocument());
+    expect(setLoadProfile).not.toHaveBeenCalled();
+  });
+
+  it('should show and remove an imported profile', async () => {
+    useSimulatorStore.setState({
+      loadProfile: {
+        id: 'csv:meter',
+        name: 'meter.csv',
+        format: 'csv',
+        hourly: new Array(8760).fill(600),
+        annualConsumption: 5400,
+        coverage: 0.5,
+      },
+    });
+    render(<LoadControls />);
+
+    expect(screen.getByText('meter.csv')).toBeInTheDocument();
+    expect(screen.getByText(/Readings cover 50% of the year/)).toBeInTheDocument();
+    expect(screen.queryByLabelText('Import load profile')).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Remove load profile' }));
+    expect(setLoadProfile).toHaveBeenCalledWith(null);
+  });
+});
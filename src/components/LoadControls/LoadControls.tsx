@@ -0,0 +1,94 @@
+import { useState, useRef } from 'react';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { LoadArchetype } from '../../core/types';
+import { LOAD_ARCHETYPE_NAMES, parseLoadProfile } from '../../core/load';
+import { getTimezoneOffset } from '../../core/timezone';
+import { NumberField } from '../ControlFields';
+
+export function LoadControls() {
+  const { loadConfig, setLoadConfig, loadProfile, setLoadProfile, location } = useSimulatorStore();
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setLoadProfile(parseLoadProfile(text, file.name, (time) => getTimezoneOffset(location.timezone, time)));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read load profile');
+    } finally {
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Household Load</label>
+
+      {loadProfile ? (
+        <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 flex items-start justify-between gap-2">
+          <div>
+            <p className="font-medium text-gray-700">{loadProfile.name}</p>
+            <p>
+              {loadProfile.format === 'green-button' ? 'Green Button' : 'CSV'} · {Math.round(loadProfile.annualConsumption).toLocaleString()} kWh/yr
+            </p>
+            {loadProfile.coverage < 0.95 && (
+              <p className="text-amber-600 mt-1">
+                Readings cover {(loadProfile.coverage * 100).toFixed(0)}% of the year; other hours use the average day
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => {
+              setLoadProfile(null);
+              setError(null);
+            }}
+            className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+            style={{ minHeight: '32px' }}
+            aria-label="Remove load profile"
+          >
+            ✕
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 grid grid-cols-2 gap-2">
+            <NumberField
+              label="Annual use (kWh)"
+              step={100}
+              value={loadConfig.annualConsumption}
+              onChange={(annualConsumption) => setLoadConfig({ annualConsumption })}
+            />
+            <label className="flex flex-col gap-1">
+              Household
+              <select
+                value={loadConfig.archetype}
+                onChange={(e) => setLoadConfig({ archetype: e.target.value as LoadArchetype })}
+                className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs"
+              >
+                {(Object.keys(LOAD_ARCHETYPE_NAMES) as LoadArchetype[]).map((archetype) => (
+                  <option key={archetype} value={archetype}>{LOAD_ARCHETYPE_NAMES[archetype]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.xml"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-xs text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-solar-50 file:text-solar-700 hover:file:bg-solar-100"
+            aria-label="Import load profile"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      {!loadProfile && !error && (
+        <p className="text-xs text-gray-400 mt-1">Interval CSV or Green Button XML · replaces the synthetic profile</p>
+      )}
+    </div>
+  );
+}
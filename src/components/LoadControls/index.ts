@@ -0,0 +1 @@
+export { LoadControls } from './LoadControls';
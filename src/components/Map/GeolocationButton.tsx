@@ -12,6 +12,7 @@ import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { useSimulatorStore } from '../../store/simulatorStore';
 import { useGeocoding } from '../../hooks/useGeocoding';
+import { getTimezoneFromCoordinates } from '../../core/timezone';
 
 export function GeolocationButton() {
   const [isLoading, setIsLoading] = useState(false);
@@ -90,7 +91,7 @@ export function GeolocationButton() {
             setLocation({
               latitude,
               longitude,
-              timezone: 'UTC', // Fallback timezone
+              timezone: getTimezoneFromCoordinates(latitude, longitude),
               address: `${latitude.toFixed(2)}°, ${longitude.toFixed(2)}°`,
             });
             setOptimalOrientation();
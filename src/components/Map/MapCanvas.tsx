@@ -17,6 +17,7 @@ import { MapContainer, TileLayer, Marker, useMapEvents, useMap } from 'react-lea
 import L from 'leaflet';
 import { useSimulatorStore } from '../../store/simulatorStore';
 import { useGeocoding } from '../../hooks/useGeocoding';
+import { getTimezoneFromCoordinates } from '../../core/timezone';
 import { SunVector } from './SunVector';
 import { MapErrorBoundary } from './MapErrorBoundary';
 import { GeolocationButton } from './GeolocationButton';
@@ -51,7 +52,7 @@ function MapClickHandler({ onToast }: { onToast: (message: string, type: 'succes
           setLocation({
             latitude: lat,
             longitude: lng,
-            timezone: 'UTC',
+            timezone: getTimezoneFromCoordinates(lat, lng),
             address: `${lat.toFixed(2)}°, ${lng.toFixed(2)}°`,
           });
           setOptimalOrientation();
@@ -0,0 +1,55 @@
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { ObstacleType } from '../../core/types';
+
+// Ground plane sits at y = -0.5 in scene units (meters)
+const GROUND_Y = -0.5;
+
+const OBSTACLE_COLORS: Record<ObstacleType, string> = {
+  tree: '#166534',
+  chimney: '#7c2d12',
+  building: '#9ca3af',
+  parapet: '#6b7280',
+};
+
+export function Obstacles() {
+  const { obstacles, isNight } = useSimulatorStore();
+
+  return (
+    <>
+      {obstacles.map((obstacle) => {
+        // Scene axes: x points west, z points north
+        const position: [number, number, number] = [
+          -obstacle.east,
+          GROUND_Y + obstacle.height / 2,
+          obstacle.north,
+        ];
+        const color = OBSTACLE_COLORS[obstacle.type];
+
+        return (
+          <mesh
+            key={obstacle.id}
+            position={position}
+            rotation={[0, obstacle.shape === 'box' ? -obstacle.rotation * Math.PI / 180 : 0, 0]}
+            castShadow
+            receiveShadow
+          >
+            {obstacle.shape === 'cylinder' ? (
+              <cylinderGeometry args={[obstacle.width / 2, obstacle.width / 2, obstacle.height, 24]} />
+            ) : (
+              <boxGeometry args={[obstacle.width, obstacle.height, obstacle.depth]} />
+            )}
+            <meshStandardMaterial
+              color={color}
+              roughness={0.8}
+              metalness={0.05}
+              opacity={obstacle.type === 'tree' ? 0.85 : 1}
+              transparent={obstacle.type === 'tree'}
+              emissive={isNight ? '#0d1f1a' : '#000000'}
+              emissiveIntensity={isNight ? 0.1 : 0}
+            />
+          </mesh>
+        );
+      })}
+    </>
+  );
+}
@@ -3,21 +3,34 @@ import { OrbitControls, PerspectiveCamera, Sky, Text } from '@react-three/drei';
 import { SolarPanel } from './SolarPanel';
 import { Sun } from './Sun';
 import { Ground } from './Ground';
+import { Obstacles } from './Obstacles';
 import { useSimulatorStore } from '../../store/simulatorStore';
 import { useMemo, useRef, useCallback, useEffect, useState } from 'react';
 import * as THREE from 'three';
 import { useIsMobile } from '../../hooks/useMediaQuery';
+import { getHorizonElevation } from '../../core/horizon';
 
 // Performance: Scene invalidation controller
 // Triggers re-render only when necessary (render-on-demand architecture)
 function SceneInvalidator() {
   const invalidate = useThree((state) => state.invalidate);
-  const { solarPosition, orientation, panelCount, panelConfig } = useSimulatorStore();
+  const {
+    solarPosition,
+    orientation,
+    surfaceOrientation,
+    panelCount,
+    panelConfig,
+    horizonProfile,
+    obstacles,
+    panelShading,
+    subArrays,
+    subArrayResults,
+  } = useSimulatorStore();
 
   // Invalidate when scene-affecting state changes
   useEffect(() => {
     invalidate();
-  }, [solarPosition, orientation, panelCount, panelConfig, invalidate]);
+  }, [solarPosition, orientation, surfaceOrientation, panelCount, panelConfig, horizonProfile, obstacles, panelShading, subArrays, subArrayResults, invalidate]);
 
   return null;
 }
@@ -243,13 +256,63 @@ function SunAzimuthIndicator() {
   );
 }
 
+// Horizon silhouette: terrain/skyline profile drawn as a wall around the site
+const HORIZON_RADIUS = 22;
+const HORIZON_STEP = 2;
+
+function HorizonSilhouette() {
+  const { horizonProfile, isNight } = useSimulatorStore();
+
+  const geometry = useMemo(() => {
+    if (!horizonProfile) return null;
+
+    // Bottom and top vertex per azimuth; the angle subtended matches the profile
+    const positions: number[] = [];
+    const indices: number[] = [];
+    const segments = 360 / HORIZON_STEP;
+    for (let i = 0; i <= segments; i++) {
+      const azimuth = i * HORIZON_STEP;
+      const azimuthRad = (azimuth - 180) * Math.PI / 180;
+      const x = Math.sin(azimuthRad) * HORIZON_RADIUS;
+      const z = -Math.cos(azimuthRad) * HORIZON_RADIUS;
+      const height = Math.tan(getHorizonElevation(horizonProfile, azimuth) * Math.PI / 180) * HORIZON_RADIUS;
+      positions.push(x, 0, z, x, height, z);
+      if (i < segments) {
+        const base = i * 2;
+        indices.push(base, base + 2, base + 1, base + 1, base + 2, base + 3);
+      }
+    }
+
+    const silhouette = new THREE.BufferGeometry();
+    silhouette.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    silhouette.setIndex(indices);
+    return silhouette;
+  }, [horizonProfile]);
+
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+
+  if (!geometry) return null;
+
+  return (
+    <mesh geometry={geometry} position={[0, -0.5, 0]}>
+      <meshBasicMaterial
+        color={isNight ? '#1e1b4b' : '#4b5563'}
+        opacity={0.55}
+        transparent
+        side={THREE.DoubleSide}
+        depthWrite={false}
+      />
+    </mesh>
+  );
+}
+
 interface SceneProps {
   // Optional: Pass bottom sheet state for context-aware camera
   bottomSheetState?: 'peek' | 'default' | 'full' | 'closed';
 }
 
 export function Scene({ bottomSheetState = 'closed' }: SceneProps) {
-  const { isNight, isTwilight, solarPosition } = useSimulatorStore();
+  const { isNight, isTwilight, solarPosition, subArrays } = useSimulatorStore();
 
   // UX Refinement: Sun-aware camera as one-time assist, not automation
   // - Applies only on first entry or explicit reset
@@ -418,8 +481,16 @@ export function Scene({ bottomSheetState = 'closed' }: SceneProps) {
         <group position={[0, panelBaseY, 0]}>
           <SolarPanel />
         </group>
+        {/* Sub-arrays at their offset from the main array (x points west, z north) */}
+        {subArrays.map((subArray) => (
+          <group key={subArray.id} position={[-subArray.offset.east, panelBaseY, subArray.offset.north]}>
+            <SolarPanel subArrayId={subArray.id} />
+          </group>
+        ))}
         <Sun />
         <Ground />
+        <HorizonSilhouette />
+        <Obstacles />
 
         {/* Orientation cues: Compass and indicators reinforce spatial relationships */}
         <Compass />
@@ -5,17 +5,40 @@
  * - Azimuth rotates around world vertical (Y-axis)
  * - Tilt rotates around panel hinge axis (after azimuth applied)
  * - Pivot point at bottom edge for realistic mounting
+ * - Single-axis trackers follow the current surface orientation
  * - Max 3 rows, expands horizontally
+ * - Panels shaded by obstacles are tinted by their shaded fraction
+ * - Sub-arrays render with their own panels, orientation and shading
  */
 
 import { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useSimulatorStore } from '../../store/simulatorStore';
+import { ARRAY_MAX_ROWS, PANEL_GAP, getArrayGrid } from '../../core/obstacles';
 
-export function SolarPanel() {
+// Tint applied to obstacle-shaded panels
+const SHADE_COLOR = new THREE.Color(0xdc2626);
+
+interface SolarPanelProps {
+  subArrayId?: string; // Main array when omitted
+}
+
+export function SolarPanel({ subArrayId }: SolarPanelProps = {}) {
   const groupRef = useRef<THREE.Group>(null);
-  const { panelConfig, orientation, poaIrradiance, panelCount, isNight, isTwilight } = useSimulatorStore();
+  const state = useSimulatorStore();
+  const { isNight, isTwilight } = state;
+  const subArray = subArrayId ? state.subArrays.find((array) => array.id === subArrayId) : undefined;
+  const subArrayResult = subArrayId ? state.subArrayResults.find((result) => result.id === subArrayId) : undefined;
+  const panelConfig = subArray?.panelConfig ?? state.panelConfig;
+  const orientation = subArray?.orientation ?? state.orientation;
+  const panelCount = subArray?.panelCount ?? state.panelCount;
+  const surfaceOrientation = subArray ? subArrayResult?.surfaceOrientation ?? null : state.surfaceOrientation;
+  const poaIrradiance = subArray ? subArrayResult?.poaIrradiance ?? null : state.poaIrradiance;
+  const panelShading = subArray ? subArrayResult?.panelShading ?? [] : state.panelShading;
+
+  // Trackers rotate through the day; fixed mounts keep their configured orientation
+  const displayOrientation = surfaceOrientation ?? orientation;
 
   // Calculate intensity for visual effect
   const intensity = useMemo(() => {
@@ -49,19 +72,25 @@ export function SolarPanel() {
 
   // Calculate grid layout: max 3 rows, expand horizontally
   // Layout fills downward first (up to 3 rows), then starts new column
+  // (shared with the obstacle shading model)
   const gridLayout = useMemo(() => {
-    const maxRows = 3;
-    const rows = Math.min(maxRows, panelCount);
-    const cols = Math.ceil(panelCount / maxRows);
-    return { cols, rows, maxRows };
+    return { ...getArrayGrid(panelCount), maxRows: ARRAY_MAX_ROWS };
   }, [panelCount]);
 
+  // Per-panel cell color, tinted where obstacles cast shade
+  const cellColors = useMemo(() => {
+    return Array.from({ length: panelCount }, (_, index) => {
+      const shade = isNight ? 0 : panelShading[index] ?? 0;
+      return shade > 0 ? panelColor.clone().lerp(SHADE_COLOR, 0.2 + shade * 0.6) : panelColor;
+    });
+  }, [panelCount, panelShading, panelColor, isNight]);
+
   // Apply correct rotation order: azimuth (yaw around world Y) then tilt (pitch around local X)
   // Pivot point is at bottom edge of panel array for realistic hinge behavior
   useFrame(() => {
     if (groupRef.current) {
-      const tiltRad = orientation.tilt * Math.PI / 180;
-      const azimuthRad = (orientation.azimuth - 180) * Math.PI / 180;
+      const tiltRad = displayOrientation.tilt * Math.PI / 180;
+      const azimuthRad = (displayOrientation.azimuth - 180) * Math.PI / 180;
 
       // Reset rotation
       groupRef.current.rotation.set(0, 0, 0);
@@ -75,7 +104,7 @@ export function SolarPanel() {
     }
   });
 
-  const spacing = 0.1;
+  const spacing = PANEL_GAP;
   const panelWidth = panelConfig.width;
   const panelHeight = panelConfig.height;
 
@@ -117,10 +146,10 @@ export function SolarPanel() {
               <mesh position={[0, 0.025, 0]} castShadow receiveShadow>
                 <boxGeometry args={[panelWidth - 0.05, 0.01, panelHeight - 0.05]} />
                 <meshStandardMaterial
-                  color={panelColor}
+                  color={cellColors[index]}
                   metalness={isNight ? 0.2 : 0.4}
                   roughness={isNight ? 0.4 : 0.2}
-                  emissive={isNight ? '#1a1a2e' : panelColor}
+                  emissive={isNight ? '#1a1a2e' : cellColors[index]}
                   emissiveIntensity={isNight ? 0.05 : intensity * 0.3}
                 />
               </mesh>
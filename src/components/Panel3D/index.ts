@@ -2,3 +2,4 @@ export { Scene } from './Scene';
 export { SolarPanel } from './SolarPanel';
 export { Sun } from './Sun';
 export { Ground } from './Ground';
+export { Obstacles } from './Obstacles';
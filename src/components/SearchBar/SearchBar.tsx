@@ -2,6 +2,7 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { useGeocoding } from '../../hooks/useGeocoding';
 import { useSimulatorStore } from '../../store/simulatorStore';
 import { Location } from '../../core/types';
+import { getTimezoneFromCoordinates } from '../../core/timezone';
 import { SearchDropdown } from './SearchDropdown';
 
 export function SearchBar() {
@@ -72,7 +73,7 @@ export function SearchBar() {
           const nextLocation: Location = loc ?? {
             latitude,
             longitude,
-            timezone: 'UTC',
+            timezone: getTimezoneFromCoordinates(latitude, longitude),
             address: `${latitude.toFixed(2)}°, ${longitude.toFixed(2)}°`,
           };
 
@@ -0,0 +1,97 @@
+import { Fragment } from 'react';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { SnowSource } from '../../core/types';
+import { SNOW_SOURCE_NAMES } from '../../core/snow';
+import { MONTH_LABELS } from '../ControlFields';
+
+export function SnowControls() {
+  const { snowEnabled, setSnowEnabled, snowConfig, setSnowConfig, irradianceSource, weatherData, annualOutput } = useSimulatorStore();
+  const hasWeather = irradianceSource === 'weather' && weatherData !== null;
+
+  const setMonth = (key: 'monthlySnowfall' | 'monthlyTemperature', month: number, value: number) => {
+    setSnowConfig({ [key]: snowConfig[key].map((v, i) => (i === month ? value : v)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between text-sm font-medium text-gray-700" style={{ minHeight: '44px' }}>
+        Snow cover
+        <input
+          type="checkbox"
+          checked={snowEnabled}
+          onChange={(e) => setSnowEnabled(e.target.checked)}
+          className="w-5 h-5 accent-solar-500"
+        />
+      </label>
+
+      {snowEnabled && (
+        <>
+          <div className="flex gap-2 text-xs">
+            {(Object.keys(SNOW_SOURCE_NAMES) as SnowSource[]).map((source) => (
+              <button
+                key={source}
+                onClick={() => setSnowConfig({ source })}
+                disabled={source === 'weather' && !hasWeather}
+                className={`flex-1 px-2 py-1.5 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  snowConfig.source === source
+                    ? 'bg-solar-500 text-white font-medium'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:border-solar-400'
+                }`}
+                style={{ minHeight: '32px' }}
+              >
+                {SNOW_SOURCE_NAMES[source]}
+              </button>
+            ))}
+          </div>
+
+          {snowConfig.source === 'weather' && !hasWeather && (
+            <p className="text-xs text-amber-600">Load a weather file as the sky source to use its snowfall</p>
+          )}
+
+          {snowConfig.source === 'monthly' && (
+            <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+              <div className="grid grid-cols-3 gap-x-2 gap-y-1 items-center">
+                <span />
+                <span>Snow (cm)</span>
+                <span>{hasWeather ? 'Air (weather)' : 'Air (°C)'}</span>
+                {MONTH_LABELS.map((label, month) => (
+                  <Fragment key={label}>
+                    <span className="text-gray-700">{label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={snowConfig.monthlySnowfall[month]}
+                      onChange={(e) => {
+                        const parsed = parseFloat(e.target.value);
+                        if (Number.isFinite(parsed)) setMonth('monthlySnowfall', month, parsed);
+                      }}
+                      aria-label={`${label} snowfall`}
+                      className="w-full px-2 py-1 bg-white border border-gray-300 rounded text-xs focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+                    />
+                    <input
+                      type="number"
+                      value={snowConfig.monthlyTemperature[month]}
+                      disabled={hasWeather}
+                      onChange={(e) => {
+                        const parsed = parseFloat(e.target.value);
+                        if (Number.isFinite(parsed)) setMonth('monthlyTemperature', month, parsed);
+                      }}
+                      aria-label={`${label} mean air temperature`}
+                      className="w-full px-2 py-1 bg-white border border-gray-300 rounded text-xs focus:ring-2 focus:ring-solar-500 focus:border-solar-500 disabled:opacity-50"
+                    />
+                  </Fragment>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {annualOutput?.snowLossFraction !== undefined && (
+            <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+              Snow loss this year: <span className="font-semibold text-gray-700">{(annualOutput.snowLossFraction * 100).toFixed(1)}%</span> of DC energy
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
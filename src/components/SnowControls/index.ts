@@ -0,0 +1 @@
+export { SnowControls } from './SnowControls';
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { SoilingSource } from '../../core/types';
+import { SOILING_SOURCE_NAMES } from '../../core/soiling';
+import { NumberField, MONTH_LABELS } from '../ControlFields';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function formatDayOfYear(year: number, day: number): string {
+  return new Date(Date.UTC(year, 0, day)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export function SoilingControls() {
+  const {
+    soilingEnabled,
+    setSoilingEnabled,
+    soilingConfig,
+    setSoilingConfig,
+    washCosts,
+    setWashCosts,
+    washSchedule,
+    applyOptimalWashSchedule,
+    irradianceSource,
+    weatherData,
+    date,
+    annualOutput,
+  } = useSimulatorStore();
+  const [newWashDate, setNewWashDate] = useState('');
+  const hasWeather = irradianceSource === 'weather' && weatherData !== null;
+  const year = date.getFullYear();
+
+  const addWash = () => {
+    const parsed = Date.parse(`${newWashDate}T00:00:00Z`);
+    if (!Number.isFinite(parsed)) return;
+    const day = Math.floor((parsed - Date.UTC(year, 0, 1)) / MS_PER_DAY) + 1;
+    setSoilingConfig({ washDays: [...soilingConfig.washDays, day] });
+    setNewWashDate('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between text-sm font-medium text-gray-700" style={{ minHeight: '44px' }}>
+        Daily soiling
+        <input
+          type="checkbox"
+          checked={soilingEnabled}
+          onChange={(e) => setSoilingEnabled(e.target.checked)}
+          className="w-5 h-5 accent-solar-500"
+        />
+      </label>
+
+      {soilingEnabled && (
+        <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+          <div className="flex gap-2">
+            {(Object.keys(SOILING_SOURCE_NAMES) as SoilingSource[]).map((source) => (
+              <button
+                key={source}
+                onClick={() => setSoilingConfig({ source })}
+                disabled={source === 'weather' && !hasWeather}
+                className={`flex-1 px-2 py-1.5 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  soilingConfig.source === source
+                    ? 'bg-solar-500 text-white font-medium'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:border-solar-400'
+                }`}
+                style={{ minHeight: '32px' }}
+              >
+                {SOILING_SOURCE_NAMES[source]}
+              </button>
+            ))}
+          </div>
+          {soilingConfig.source === 'weather' && !hasWeather && (
+            <p className="text-amber-600">Load a weather file as the sky source to use its rainfall</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Build-up (%/day)"
+              step={0.01}
+              value={Number((soilingConfig.rate * 100).toFixed(3))}
+              onChange={(value) => setSoilingConfig({ rate: value / 100 })}
+            />
+            <NumberField
+              label="Max loss (%)"
+              value={Number((soilingConfig.maxLoss * 100).toFixed(1))}
+              onChange={(value) => setSoilingConfig({ maxLoss: value / 100 })}
+            />
+            <NumberField
+              label="Cleaning rain (mm)"
+              value={soilingConfig.cleaningThreshold}
+              onChange={(cleaningThreshold) => setSoilingConfig({ cleaningThreshold })}
+            />
+            <NumberField
+              label="Grace (days)"
+              value={soilingConfig.gracePeriod}
+              onChange={(gracePeriod) => setSoilingConfig({ gracePeriod })}
+            />
+          </div>
+
+          {soilingConfig.source === 'monthly' && (
+            <div className="grid grid-cols-4 gap-x-2 gap-y-1 items-center">
+              {MONTH_LABELS.map((label, month) => (
+                <label key={label} className="flex flex-col">
+                  {label} (mm)
+                  <input
+                    type="number"
+                    min={0}
+                    value={soilingConfig.monthlyRainfall[month]}
+                    onChange={(e) => {
+                      const parsed = parseFloat(e.target.value);
+                      if (!Number.isFinite(parsed)) return;
+                      setSoilingConfig({
+                        monthlyRainfall: soilingConfig.monthlyRainfall.map((rain, i) => (i === month ? parsed : rain)),
+                      });
+                    }}
+                    className="w-full px-2 py-1 bg-white border border-gray-300 rounded text-xs focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <p className="font-medium text-gray-700 mb-1">Manual washes</p>
+            <div className="flex flex-wrap gap-1 mb-1">
+              {soilingConfig.washDays.length === 0 && <span>None scheduled</span>}
+              {soilingConfig.washDays.map((day) => (
+                <button
+                  key={day}
+                  onClick={() => setSoilingConfig({ washDays: soilingConfig.washDays.filter((d) => d !== day) })}
+                  className="px-2 py-0.5 rounded bg-white border border-gray-300 text-gray-700 hover:text-red-600 hover:border-red-300 transition-colors"
+                  aria-label={`Remove wash on ${formatDayOfYear(year, day)}`}
+                >
+                  {formatDayOfYear(year, day)} ✕
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={newWashDate}
+                min={`${year}-01-01`}
+                max={`${year}-12-31`}
+                onChange={(e) => setNewWashDate(e.target.value)}
+                aria-label="Wash date"
+                className="flex-1 px-2 py-1 bg-white border border-gray-300 rounded text-xs"
+              />
+              <button
+                onClick={addWash}
+                disabled={!newWashDate}
+                className="px-3 py-1 rounded bg-white border border-gray-300 text-gray-700 hover:border-solar-300 transition-colors disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Cost per wash"
+              value={washCosts.washCost}
+              onChange={(washCost) => setWashCosts({ washCost })}
+            />
+            <NumberField
+              label="Energy value (/kWh)"
+              step={0.01}
+              value={washCosts.energyPrice}
+              onChange={(energyPrice) => setWashCosts({ energyPrice })}
+            />
+          </div>
+
+          {washSchedule && annualOutput?.soilingLoss !== undefined && (
+            <div className="space-y-1">
+              <p>
+                Soiling loss this year:{' '}
+                <span className="font-semibold text-gray-700">{(washSchedule.current.lostEnergy / 1000).toFixed(0)} kWh</span>
+                {' '}({washSchedule.current.washDays.length} washes, {washSchedule.current.totalCost.toFixed(0)} total cost)
+              </p>
+              <p>
+                Best schedule: <span className="font-semibold text-gray-700">{washSchedule.optimal.washDays.length} washes</span>
+                {washSchedule.optimal.washDays.length > 0 && (
+                  <> on {washSchedule.optimal.washDays.map((day) => formatDayOfYear(year, day)).join(', ')}</>
+                )}
+                {' '}— saves {(washSchedule.current.totalCost - washSchedule.optimal.totalCost).toFixed(0)}
+              </p>
+              {washSchedule.current.totalCost - washSchedule.optimal.totalCost > 0.005 && (
+                <button
+                  onClick={applyOptimalWashSchedule}
+                  className="w-full px-2 py-1.5 rounded bg-solar-500 text-white font-medium hover:bg-solar-600 transition-colors"
+                >
+                  Use best schedule
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
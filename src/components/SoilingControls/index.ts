@@ -0,0 +1 @@
+export { SoilingControls } from './SoilingControls';
@@ -0,0 +1,90 @@
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { InverterLimits, StringConfig } from '../../core/types';
+import { DEFAULT_INVERTER_LIMITS } from '../../core/stringSizing';
+import { NumberField } from '../ControlFields';
+
+const STRING_FIELDS: { key: keyof StringConfig; label: string }[] = [
+  { key: 'modulesPerString', label: 'Modules/string' },
+  { key: 'stringsPerMppt', label: 'Strings/MPPT' },
+  { key: 'mpptCount', label: 'MPPTs' },
+];
+
+const LIMIT_FIELDS: { key: keyof InverterLimits; label: string }[] = [
+  { key: 'maxDcVoltage', label: 'Max DC (V)' },
+  { key: 'mpptVoltageMin', label: 'MPPT min (V)' },
+  { key: 'mpptVoltageMax', label: 'MPPT max (V)' },
+  { key: 'maxInputCurrent', label: 'Max input (A)' },
+];
+
+export function StringSizingControls() {
+  const {
+    inverterConfig,
+    setStringConfig,
+    setInverterLimits,
+    recordLowTemp,
+    setRecordLowTemp,
+    recordHighTemp,
+    setRecordHighTemp,
+    stringSizing,
+  } = useSimulatorStore();
+  const { strings } = inverterConfig;
+  const limits = inverterConfig.limits ?? DEFAULT_INVERTER_LIMITS;
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center justify-between text-sm font-medium text-gray-700" style={{ minHeight: '44px' }}>
+        String sizing
+        <input
+          type="checkbox"
+          checked={strings !== undefined}
+          onChange={(e) => setStringConfig(e.target.checked ? {} : null)}
+          className="w-5 h-5 accent-solar-500"
+        />
+      </label>
+
+      {strings && (
+        <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            {STRING_FIELDS.map((field) => (
+              <NumberField
+                key={field.key}
+                label={field.label}
+                value={strings[field.key]}
+                onChange={(value) => setStringConfig({ [field.key]: value })}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {LIMIT_FIELDS.map((field) => (
+              <NumberField
+                key={field.key}
+                label={field.label}
+                value={limits[field.key]}
+                onChange={(value) => setInverterLimits({ [field.key]: value })}
+              />
+            ))}
+            <NumberField label="Record low (°C)" value={recordLowTemp} onChange={setRecordLowTemp} />
+            <NumberField label="Record high (°C)" value={recordHighTemp} onChange={setRecordHighTemp} />
+          </div>
+
+          {stringSizing && stringSizing.coldVoc > 0 && (
+            <p>
+              Cold Voc {stringSizing.coldVoc.toFixed(0)} V · Vmp {stringSizing.hotVmp.toFixed(0)}–{stringSizing.coldVmp.toFixed(0)} V · {stringSizing.mpptCurrent.toFixed(1)} A/MPPT
+            </p>
+          )}
+          {stringSizing?.warnings.map((warning) => (
+            <p
+              key={warning.code}
+              className={warning.severity === 'error' ? 'text-red-600 font-medium' : 'text-amber-600'}
+            >
+              {warning.severity === 'error' ? '✕' : '⚠'} {warning.message}
+            </p>
+          ))}
+          {stringSizing && stringSizing.warnings.length === 0 && (
+            <p className="text-green-700 font-medium">✓ Strings fit the inverter</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { StringSizingControls } from './StringSizingControls';
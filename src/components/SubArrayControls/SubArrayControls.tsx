@@ -0,0 +1,168 @@
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { panelPresets } from '../../models/panelPresets';
+import { inverterPresets } from '../../models/inverterPresets';
+import { MountingType } from '../../core/types';
+import { NumberField, MOUNTING_TYPES } from '../ControlFields';
+
+export function SubArrayControls() {
+  const {
+    subArrays,
+    addSubArray,
+    updateSubArray,
+    setSubArrayPreset,
+    removeSubArray,
+    subArrayResults,
+    isNight,
+  } = useSimulatorStore();
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Sub-arrays</label>
+        <button
+          onClick={addSubArray}
+          className="px-3 py-2 rounded-lg text-xs font-medium bg-white border border-gray-300 text-gray-700 hover:border-solar-300 transition-colors"
+          style={{ minHeight: '44px' }}
+        >
+          + Add array
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {subArrays.map((subArray) => {
+          const result = subArrayResults.find((r) => r.id === subArray.id);
+          return (
+            <div key={subArray.id} className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={subArray.name}
+                  onChange={(e) => updateSubArray(subArray.id, { name: e.target.value })}
+                  className="flex-1 px-2 py-1.5 bg-white border border-gray-300 rounded text-xs font-medium text-gray-700 focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+                  aria-label="Sub-array name"
+                />
+                <button
+                  onClick={() => removeSubArray(subArray.id)}
+                  className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+                  style={{ minHeight: '32px' }}
+                  aria-label={`Remove ${subArray.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <label className="flex flex-col gap-1">
+                  Panel
+                  <select
+                    value={subArray.panelPresetId}
+                    onChange={(e) => setSubArrayPreset(subArray.id, e.target.value)}
+                    className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs"
+                  >
+                    {subArray.panelPresetId === 'custom' && <option value="custom">Custom</option>}
+                    {panelPresets.map((preset) => (
+                      <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  Mounting
+                  <select
+                    value={subArray.mountingType}
+                    onChange={(e) => updateSubArray(subArray.id, { mountingType: e.target.value as MountingType })}
+                    className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs"
+                  >
+                    {MOUNTING_TYPES.map((type) => (
+                      <option key={type.id} value={type.id}>{type.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <NumberField
+                  label="Panels"
+                  value={subArray.panelCount}
+                  onChange={(panelCount) => updateSubArray(subArray.id, { panelCount })}
+                />
+                <NumberField
+                  label="Tilt (°)"
+                  value={subArray.orientation.tilt}
+                  onChange={(tilt) => updateSubArray(subArray.id, { orientation: { ...subArray.orientation, tilt } })}
+                />
+                <NumberField
+                  label="Azimuth (°)"
+                  step={5}
+                  value={subArray.orientation.azimuth}
+                  onChange={(azimuth) => updateSubArray(subArray.id, { orientation: { ...subArray.orientation, azimuth } })}
+                />
+                <NumberField
+                  label="Soiling (%)"
+                  step={0.5}
+                  value={Number((subArray.systemLosses.soiling * 100).toFixed(1))}
+                  onChange={(value) => updateSubArray(subArray.id, {
+                    systemLosses: { ...subArray.systemLosses, soiling: Math.max(0, Math.min(50, value)) / 100 },
+                  })}
+                />
+                <NumberField
+                  label="Shading (%)"
+                  step={0.5}
+                  value={Number((subArray.systemLosses.shading * 100).toFixed(1))}
+                  onChange={(value) => updateSubArray(subArray.id, {
+                    systemLosses: { ...subArray.systemLosses, shading: Math.max(0, Math.min(50, value)) / 100 },
+                  })}
+                />
+                <div />
+                <NumberField
+                  label="East (m)"
+                  step={0.5}
+                  value={subArray.offset.east}
+                  onChange={(east) => updateSubArray(subArray.id, { offset: { ...subArray.offset, east } })}
+                />
+                <NumberField
+                  label="North (m)"
+                  step={0.5}
+                  value={subArray.offset.north}
+                  onChange={(north) => updateSubArray(subArray.id, { offset: { ...subArray.offset, north } })}
+                />
+              </div>
+
+              <label className="flex items-center justify-between font-medium text-gray-700" style={{ minHeight: '32px' }}>
+                Shares the main inverter
+                <input
+                  type="checkbox"
+                  checked={subArray.sharedInverter}
+                  onChange={(e) => updateSubArray(subArray.id, { sharedInverter: e.target.checked })}
+                  className="w-5 h-5 accent-solar-500"
+                />
+              </label>
+              {!subArray.sharedInverter && (
+                <select
+                  value={subArray.inverterPresetId}
+                  onChange={(e) => updateSubArray(subArray.id, { inverterPresetId: e.target.value })}
+                  className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs"
+                  aria-label={`${subArray.name} inverter`}
+                >
+                  {inverterPresets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name}{preset.type === 'micro' ? ' · micro' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <p>
+                {((subArray.panelConfig.ratedPower * subArray.panelCount) / 1000).toFixed(2)} kWp
+                {!isNight && result && ` · ${(Math.max(0, result.acPower) / 1000).toFixed(2)} kW now`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {subArrays.length === 0 && (
+        <p className="text-xs text-gray-400 mt-1">Add arrays on other roof faces or with other panels</p>
+      )}
+    </div>
+  );
+}
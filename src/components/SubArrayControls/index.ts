@@ -0,0 +1 @@
+export { SubArrayControls } from './SubArrayControls';
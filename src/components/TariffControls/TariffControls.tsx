@@ -0,0 +1,273 @@
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { Currency, ExportCompensation, Tariff, TariffPeriod } from '../../core/types';
+import { CURRENCY_SYMBOLS, EXPORT_COMPENSATION_NAMES } from '../../core/tariff';
+import { NumberField, MONTH_LABELS } from '../ControlFields';
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+function toggleValue(values: number[], value: number): number[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export function TariffControls() {
+  const {
+    tariffs,
+    activeTariffId,
+    setActiveTariff,
+    addTariff,
+    updateTariff,
+    removeTariff,
+    tariffSavings,
+  } = useSimulatorStore();
+  const tariff = tariffs.find((t) => t.id === activeTariffId) ?? tariffs[0];
+  if (!tariff) return null;
+
+  const symbol = CURRENCY_SYMBOLS[tariff.currency];
+  const update = (changes: Partial<Omit<Tariff, 'id'>>) => updateTariff(tariff.id, changes);
+  const updatePeriod = (index: number, changes: Partial<TariffPeriod>) =>
+    update({ periods: tariff.periods.map((period, i) => (i === index ? { ...period, ...changes } : period)) });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Electricity Tariff</label>
+        <button
+          onClick={addTariff}
+          className="px-3 py-2 rounded-lg text-xs font-medium bg-white border border-gray-300 text-gray-700 hover:border-solar-300 transition-colors"
+          style={{ minHeight: '44px' }}
+        >
+          + Save copy
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={tariff.id}
+          onChange={(e) => setActiveTariff(e.target.value)}
+          className="flex-1 px-2 py-1.5 bg-white border border-gray-300 rounded text-xs"
+          aria-label="Active tariff"
+        >
+          {tariffs.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        {tariffs.length > 1 && (
+          <button
+            onClick={() => removeTariff(tariff.id)}
+            className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+            style={{ minHeight: '32px' }}
+            aria-label={`Remove ${tariff.name}`}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            Name
+            <input
+              type="text"
+              value={tariff.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Currency
+            <select
+              value={tariff.currency}
+              onChange={(e) => update({ currency: e.target.value as Currency })}
+              className="w-full px-2 py-1.5 bg-white border border-gray-300 rounded text-xs"
+            >
+              {(Object.keys(CURRENCY_SYMBOLS) as Currency[]).map((currency) => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </label>
+          <NumberField
+            label={`Base rate (${symbol}/kWh)`}
+            step={0.01}
+            value={tariff.baseRate}
+            onChange={(baseRate) => update({ baseRate })}
+          />
+          <NumberField
+            label={`Daily charge (${symbol})`}
+            step={0.05}
+            value={tariff.fixedDailyCharge}
+            onChange={(fixedDailyCharge) => update({ fixedDailyCharge })}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          {(Object.keys(EXPORT_COMPENSATION_NAMES) as ExportCompensation[]).map((compensation) => (
+            <button
+              key={compensation}
+              onClick={() => update({ exportCompensation: compensation })}
+              className={`flex-1 px-2 py-1.5 rounded transition-colors ${
+                tariff.exportCompensation === compensation
+                  ? 'bg-solar-500 text-white font-medium'
+                  : 'bg-white border border-gray-300 text-gray-700 hover:border-solar-400'
+              }`}
+              style={{ minHeight: '32px' }}
+            >
+              {EXPORT_COMPENSATION_NAMES[compensation]}
+            </button>
+          ))}
+        </div>
+        {tariff.exportCompensation !== 'net-metering' && (
+          <NumberField
+            label={`Export rate (${symbol}/kWh)`}
+            step={0.01}
+            value={tariff.exportRate}
+            onChange={(exportRate) => update({ exportRate })}
+          />
+        )}
+      </div>
+
+      <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+        <p className="font-medium text-gray-700">Time-of-use periods</p>
+        {tariff.periods.map((period, index) => (
+          <div key={index} className="space-y-1 border-b border-gray-200 pb-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={period.name}
+                onChange={(e) => updatePeriod(index, { name: e.target.value })}
+                className="flex-1 px-2 py-1.5 bg-white border border-gray-300 rounded text-xs font-medium text-gray-700 focus:ring-2 focus:ring-solar-500 focus:border-solar-500"
+                aria-label="Period name"
+              />
+              <button
+                onClick={() => update({ periods: tariff.periods.filter((_, i) => i !== index) })}
+                className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+                style={{ minHeight: '32px' }}
+                aria-label={`Remove ${period.name}`}
+              >
+                ✕
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <NumberField
+                label={`Rate (${symbol}/kWh)`}
+                step={0.01}
+                value={period.rate}
+                onChange={(rate) => updatePeriod(index, { rate })}
+              />
+              <NumberField
+                label="From (h)"
+                value={period.startHour}
+                onChange={(startHour) => updatePeriod(index, { startHour })}
+              />
+              <NumberField
+                label="To (h)"
+                value={period.endHour}
+                onChange={(endHour) => updatePeriod(index, { endHour })}
+              />
+            </div>
+            <div className="flex gap-0.5">
+              {MONTH_LABELS.map((label, month) => (
+                <button
+                  key={month}
+                  onClick={() => updatePeriod(index, { months: toggleValue(period.months, month) })}
+                  className={`flex-1 py-1 rounded text-[10px] ${
+                    period.months.includes(month) ? 'bg-solar-500 text-white' : 'bg-white border border-gray-300 text-gray-600'
+                  }`}
+                  title={label}
+                >
+                  {label[0]}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-0.5">
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <button
+                  key={weekday}
+                  onClick={() => updatePeriod(index, { weekdays: toggleValue(period.weekdays, weekday) })}
+                  className={`flex-1 py-1 rounded text-[10px] ${
+                    period.weekdays.includes(weekday) ? 'bg-solar-500 text-white' : 'bg-white border border-gray-300 text-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => update({
+            periods: [
+              ...tariff.periods,
+              { name: 'Peak', rate: tariff.baseRate * 2, months: [], weekdays: [1, 2, 3, 4, 5], startHour: 16, endHour: 21 },
+            ],
+          })}
+          className="w-full px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-700 hover:border-solar-300 transition-colors"
+        >
+          + Period
+        </button>
+        <p className="text-gray-400">No months or days selected means all; the first matching period sets the rate</p>
+      </div>
+
+      <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 space-y-2">
+        <p className="font-medium text-gray-700">Tiers (monthly use)</p>
+        {tariff.tiers.map((tier, index) => (
+          <div key={index} className="flex items-end gap-2">
+            <div className="flex-1">
+              <NumberField
+                label={index === tariff.tiers.length - 1 ? 'Above (kWh)' : 'Up to (kWh)'}
+                step={50}
+                value={index === tariff.tiers.length - 1 ? tariff.tiers[index - 1]?.limit ?? 0 : tier.limit ?? 0}
+                onChange={(limit) => {
+                  if (index === tariff.tiers.length - 1) return;
+                  update({ tiers: tariff.tiers.map((t, i) => (i === index ? { ...t, limit } : t)) });
+                }}
+              />
+            </div>
+            <div className="flex-1">
+              <NumberField
+                label={`Adder (${symbol}/kWh)`}
+                step={0.01}
+                value={tier.adder}
+                onChange={(adder) => update({ tiers: tariff.tiers.map((t, i) => (i === index ? { ...t, adder } : t)) })}
+              />
+            </div>
+            <button
+              onClick={() => update({ tiers: tariff.tiers.filter((_, i) => i !== index) })}
+              className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+              style={{ minHeight: '32px' }}
+              aria-label="Remove tier"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => {
+            // The new tier starts where the open-ended one did
+            const last = tariff.tiers[tariff.tiers.length - 1];
+            const previous = tariff.tiers[tariff.tiers.length - 2]?.limit ?? 0;
+            const tiers = last
+              ? [...tariff.tiers.slice(0, -1), { ...last, limit: previous + 300 }, { limit: null, adder: last.adder + 0.05 }]
+              : [{ limit: 300, adder: 0 }, { limit: null, adder: 0.05 }];
+            update({ tiers });
+          }}
+          className="w-full px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-700 hover:border-solar-300 transition-colors"
+        >
+          + Tier
+        </button>
+      </div>
+
+      {tariffSavings && (
+        <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+          Yearly bill: <span className="font-semibold text-gray-700">{symbol}{tariffSavings.bill.total.toFixed(0)}</span>
+          {' '}instead of {symbol}{tariffSavings.baseline.total.toFixed(0)}
+          {tariffSavings.bill.forfeitedCredit > 0.5 && (
+            <p className="text-amber-600 mt-1">
+              {symbol}{tariffSavings.bill.forfeitedCredit.toFixed(0)} of export credit lapses unused at year end
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { TariffControls } from './TariffControls';
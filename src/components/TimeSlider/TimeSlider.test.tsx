@@ -29,6 +29,7 @@ vi.mock('../../hooks/useSolarCalculation', () => ({
       yearlySavings: 650,
       dailyCO2Offset: 5,
       yearlyCO2Offset: 1825,
+      co2Basis: 'User-set grid factor, 0.40 kg/kWh',
       systemSizeKW: 5,
       currentTimeLocal: '10:00 AM',
     },
@@ -0,0 +1,75 @@
+import { useState, useRef } from 'react';
+import { useSimulatorStore } from '../../store/simulatorStore';
+import { parseWeatherFile } from '../../core/weather';
+
+export function WeatherImport() {
+  const { weatherData, setWeatherData, location } = useSimulatorStore();
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setWeatherData(parseWeatherFile(text, file.name));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read weather file');
+    } finally {
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleClear = () => {
+    setWeatherData(null);
+    setError(null);
+  };
+
+  // Warn when the station is far from the selected site (~100 km)
+  const isFarFromSite = weatherData !== null && (
+    Math.abs(weatherData.latitude - location.latitude) > 1 ||
+    Math.abs(weatherData.longitude - location.longitude) > 1
+  );
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Weather Data</label>
+
+      {weatherData ? (
+        <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3 flex items-start justify-between gap-2">
+          <div>
+            <p className="font-medium text-gray-700">{weatherData.name}</p>
+            <p>
+              {weatherData.format.toUpperCase()} · {weatherData.latitude.toFixed(2)}°, {weatherData.longitude.toFixed(2)}° · UTC{weatherData.timezoneOffset >= 0 ? '+' : ''}{weatherData.timezoneOffset}
+            </p>
+            {isFarFromSite && (
+              <p className="text-amber-600 mt-1">Station is far from the selected location</p>
+            )}
+          </div>
+          <button
+            onClick={handleClear}
+            className="px-2 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+            style={{ minHeight: '32px' }}
+            aria-label="Remove weather file"
+          >
+            ✕
+          </button>
+        </div>
+      ) : (
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".epw,.csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-xs text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-solar-50 file:text-solar-700 hover:file:bg-solar-100"
+          aria-label="Import EPW or TMY3 weather file"
+        />
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      {!weatherData && !error && (
+        <p className="text-xs text-gray-400 mt-1">EPW or TMY3 CSV · replaces clear-sky irradiance and ambient temperature</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAnnualOutput, getLocalMonthStart } from './annualSimulation';
+import { DEFAULT_SYSTEM_LOSSES, DEFAULT_INVERTER_CONFIG, getLossBreakdown } from './losses';
+import { DEFAULT_TRACKER_CONFIG, DEFAULT_DUAL_AXIS_CONFIG } from './tracking';
+import { createHorizonProfile } from './horizon';
+import { DEFAULT_SNOW_CONFIG } from './snow';
+import { DEFAULT_SOILING_CONFIG } from './soiling';
+import { Location, SimulationConfig } from './types';
+
+const sanFrancisco: Location = {
+  latitude: 37.7749,
+  longitude: -122.4194,
+  timezone: 'America/Los_Angeles',
+  address: 'San Francisco, CA',
+};
+
+const config: SimulationConfig = {
+  panelConfig: {
+    width: 1.134,
+    height: 2.278,
+    ratedPower: 400,
+    efficiency: 0.195,
+    tempCoefficient: -0.35,
+    noct: 45,
+  },
+  orientation: { tilt: 35, azimuth: 180 },
+  panelCount: 10,
+  ambientTemp: 25,
+  albedo: 0.2,
+  linkeTurbidity: 3,
+  systemLosses: DEFAULT_SYSTEM_LOSSES,
+  inverterConfig: DEFAULT_INVERTER_CONFIG,
+};
+
+describe('getLocalMonthStart', () => {
+  it('should return local midnight on the first of the month', () => {
+    // PST is UTC-8 in January
+    expect(new Date(getLocalMonthStart(2024, 0, 'America/Los_Angeles')).toISOString()).toBe('2024-01-01T08:00:00.000Z');
+    // PDT is UTC-7 in July
+    expect(new Date(getLocalMonthStart(2024, 6, 'America/Los_Angeles')).toISOString()).toBe('2024-07-01T07:00:00.000Z');
+  });
+});
+
+describe('calculateAnnualOutput', () => {
+  const result = calculateAnnualOutput(sanFrancisco, 2024, config);
+
+  it('should cover every day of the year in twelve months', () => {
+    expect(result.monthly).toHaveLength(12);
+    expect(result.monthly.reduce((sum, m) => sum + m.days, 0)).toBe(366);
+    expect(result.monthly[1].days).toBe(29);
+  });
+
+  it('should sum monthly energy to the annual total', () => {
+    const monthlySum = result.monthly.reduce((sum, m) => sum + m.energy, 0);
+    expect(result.annualEnergy).toBeCloseTo(monthlySum, 6);
+  });
+
+  it('should produce more energy in June than December', () => {
+    expect(result.monthly[5].energy).toBeGreaterThan(result.monthly[11].energy);
+  });
+
+  it('should produce a plausible clear-sky specific yield and PR', () => {
+    // Clear-sky every day overstates real yield, but stays within physical limits
+    expect(result.specificYield).toBeGreaterThan(1500);
+    expect(result.specificYield).toBeLessThan(3000);
+    expect(result.performanceRatio).toBeGreaterThan(0.6);
+    expect(result.performanceRatio).toBeLessThan(1);
+    expect(result.capacityFactor).toBeCloseTo(result.specificYield / (366 * 24), 4);
+  });
+
+  it('should list every hour on the local clock, across DST changes', () => {
+    expect(result.hourly).toHaveLength(366 * 24);
+    expect(result.hourly.reduce((sum, h) => sum + h.acPower, 0)).toBeCloseTo(result.annualEnergy, 3);
+    expect(result.hourly[0]).toMatchObject({ month: 0, day: 0, hour: 0, weekday: 1 });
+
+    // Clocks spring forward on March 10 and fall back on November 3
+    const hoursOn = (day: number) => result.hourly.filter((h) => h.day === day).map((h) => h.hour);
+    expect(hoursOn(69)).toHaveLength(23);
+    expect(hoursOn(69)).not.toContain(2);
+    expect(hoursOn(307)).toHaveLength(25);
+    expect(hoursOn(307).filter((hour) => hour === 1)).toHaveLength(2);
+  });
+});
+
+describe('calculateAnnualOutput with all-sky conditions', () => {
+  it('should produce less energy under a cloudy sky than clear-sky', () => {
+    const clear = calculateAnnualOutput(sanFrancisco, 2023, config);
+    const cloudy = calculateAnnualOutput(sanFrancisco, 2023, {
+      ...config,
+      allSky: { clearnessIndex: 0.35, model: 'erbs' },
+    });
+    expect(cloudy.annualEnergy).toBeLessThan(clear.annualEnergy * 0.7);
+    expect(cloudy.annualEnergy).toBeGreaterThan(0);
+  });
+});
+
+describe('calculateAnnualOutput with a single-axis tracker', () => {
+  it('should produce more energy than a fixed-tilt array', () => {
+    const fixed = calculateAnnualOutput(sanFrancisco, 2023, config);
+    const tracked = calculateAnnualOutput(sanFrancisco, 2023, { ...config, tracker: DEFAULT_TRACKER_CONFIG });
+    expect(tracked.annualEnergy).toBeGreaterThan(fixed.annualEnergy * 1.1);
+  });
+});
+
+describe('calculateAnnualOutput with a dual-axis tracker', () => {
+  it('should beat single-axis tracking and never stow in calm clear-sky air', () => {
+    const singleAxis = calculateAnnualOutput(sanFrancisco, 2023, { ...config, tracker: DEFAULT_TRACKER_CONFIG });
+    const dualAxis = calculateAnnualOutput(sanFrancisco, 2023, { ...config, dualAxis: DEFAULT_DUAL_AXIS_CONFIG });
+    expect(dualAxis.annualEnergy).toBeGreaterThan(singleAxis.annualEnergy);
+    expect(dualAxis.stowHours).toBe(0);
+  });
+
+  it('should take drive consumption and downtime off the tracked output', () => {
+    const ideal = { ...DEFAULT_DUAL_AXIS_CONFIG, drivePower: 0, availability: 1 };
+    const perfect = calculateAnnualOutput(sanFrancisco, 2023, { ...config, dualAxis: ideal });
+    const lossy = calculateAnnualOutput(sanFrancisco, 2023, { ...config, dualAxis: { ...ideal, drivePower: 20, availability: 0.97 } });
+
+    expect(perfect.trackerDriveEnergy).toBe(0);
+    expect(perfect.trackerAvailabilityLoss).toBe(0);
+    // Drives run every daylight hour; downtime takes 3% of the output
+    expect(lossy.trackerDriveEnergy! / 20).toBeGreaterThan(4000);
+    expect(lossy.trackerDriveEnergy! / 20).toBeLessThan(4600);
+    expect(lossy.trackerAvailabilityLoss! / (lossy.annualEnergy + lossy.trackerDriveEnergy! + lossy.trackerAvailabilityLoss!))
+      .toBeCloseTo(0.03, 2);
+    expect(lossy.annualEnergy).toBeCloseTo(perfect.annualEnergy - lossy.trackerDriveEnergy! - lossy.trackerAvailabilityLoss!, 0);
+  });
+});
+
+describe('calculateAnnualOutput with row-to-row shading', () => {
+  it('should lose more energy as rows get closer', () => {
+    const rowShading = { rowSpacing: 6, modulesHigh: 1, layout: 'portrait' as const, bypassDiodes: 3 };
+    const wide = calculateAnnualOutput(sanFrancisco, 2023, { ...config, rowShading });
+    const tight = calculateAnnualOutput(sanFrancisco, 2023, { ...config, rowShading: { ...rowShading, rowSpacing: 2.5 } });
+    expect(tight.annualEnergy).toBeLessThan(wide.annualEnergy);
+  });
+
+  it('should report the irradiance the rows take from the array', () => {
+    const rowShading = { rowSpacing: 2.5, modulesHigh: 1, layout: 'portrait' as const, bypassDiodes: 3 };
+    const open = calculateAnnualOutput(sanFrancisco, 2023, config);
+    const shaded = calculateAnnualOutput(sanFrancisco, 2023, { ...config, rowShading });
+    expect(open.rowShadingLoss).toBeUndefined();
+    expect(shaded.rowShadingLoss).toBeGreaterThan(0);
+    // The energy lost follows the irradiance lost, give or take temperature and inverter effects
+    expect(1 - shaded.annualEnergy / open.annualEnergy).toBeCloseTo(shaded.rowShadingLoss!, 1);
+  });
+});
+
+describe('calculateAnnualOutput with a horizon profile', () => {
+  it('should lose energy behind a southern ridge', () => {
+    const horizon = createHorizonProfile('Ridge', [
+      { azimuth: 90, elevation: 5 },
+      { azimuth: 180, elevation: 25 },
+      { azimuth: 270, elevation: 5 },
+    ]);
+    const open = calculateAnnualOutput(sanFrancisco, 2023, config);
+    const shaded = calculateAnnualOutput(sanFrancisco, 2023, { ...config, horizon });
+    expect(shaded.annualEnergy).toBeLessThan(open.annualEnergy);
+    // Winter suffers most: the noon sun sits near the ridge line
+    const decemberLoss = 1 - shaded.monthly[11].energy / open.monthly[11].energy;
+    const juneLoss = 1 - shaded.monthly[5].energy / open.monthly[5].energy;
+    expect(decemberLoss).toBeGreaterThan(juneLoss);
+  });
+});
+
+describe('calculateAnnualOutput with near-shading obstacles', () => {
+  it('should replace the flat shading loss with ray-cast shade', () => {
+    const building = {
+      id: 'building',
+      type: 'building' as const,
+      shape: 'box' as const,
+      east: 0,
+      north: -6,
+      width: 12,
+      depth: 6,
+      height: 6,
+      rotation: 0,
+    };
+    const flatShading = { ...config, systemLosses: { ...DEFAULT_SYSTEM_LOSSES, shading: 0.05 } };
+    const open = calculateAnnualOutput(sanFrancisco, 2023, { ...flatShading, obstacles: [] });
+    const clear = calculateAnnualOutput(sanFrancisco, 2023, { ...flatShading, obstacles: [{ ...building, north: 40 }] });
+    const shaded = calculateAnnualOutput(sanFrancisco, 2023, { ...flatShading, obstacles: [building] });
+    // A building far behind the array costs less than the flat shading percentage
+    expect(clear.annualEnergy).toBeGreaterThan(open.annualEnergy);
+    expect(shaded.annualEnergy).toBeLessThan(clear.annualEnergy * 0.9);
+    // The loss reported is the ray-cast shade, not the flat percentage
+    expect(clear.obstacleShadingLoss).toBeLessThan(0.01);
+    expect(shaded.obstacleShadingLoss).toBeGreaterThan(0.1);
+    expect(open.obstacleShadingLoss).toBeUndefined();
+  });
+});
+
+describe('calculateAnnualOutput with an inverter model', () => {
+  it('should draw the night tare for every dark hour', () => {
+    const efficiencyCurve = { efficiencies: [0.935, 0.955, 0.962, 0.968, 0.968, 0.965], selfConsumption: 20, nightTare: 0 };
+    const curveConfig = { ...config, inverterConfig: { ...DEFAULT_INVERTER_CONFIG, efficiencyCurve } };
+    const noTare = calculateAnnualOutput(sanFrancisco, 2023, curveConfig);
+    const withTare = calculateAnnualOutput(sanFrancisco, 2023, {
+      ...curveConfig,
+      inverterConfig: { ...curveConfig.inverterConfig, efficiencyCurve: { ...efficiencyCurve, nightTare: 10 } },
+    });
+    // Roughly half of the 8760 hours are dark
+    const darkHours = (noTare.annualEnergy - withTare.annualEnergy) / 10;
+    expect(darkHours).toBeGreaterThan(4000);
+    expect(darkHours).toBeLessThan(4800);
+  });
+});
+
+describe('calculateAnnualOutput with sub-arrays', () => {
+  const west = {
+    id: 'west',
+    name: 'West roof',
+    panelConfig: config.panelConfig,
+    orientation: { tilt: 20, azimuth: 270 },
+    panelCount: 10,
+    systemLosses: DEFAULT_SYSTEM_LOSSES,
+    inverterConfig: null,
+  };
+
+  it('should report each array and yield over the total capacity', () => {
+    const eastConfig = { ...config, orientation: { tilt: 20, azimuth: 90 } };
+    const east = calculateAnnualOutput(sanFrancisco, 2023, eastConfig);
+    const split = calculateAnnualOutput(sanFrancisco, 2023, { ...eastConfig, subArrays: [west] });
+
+    expect(east.arrays).toBeUndefined();
+    expect(split.arrays!.map((a) => a.capacity)).toEqual([4000, 4000]);
+    expect(split.arrays![0].energy + split.arrays![1].energy).toBeCloseTo(split.annualEnergy, 3);
+    // East and west faces of the same roof yield about the same
+    expect(split.arrays![1].energy / split.arrays![0].energy).toBeGreaterThan(0.9);
+    expect(split.arrays![1].energy / split.arrays![0].energy).toBeLessThan(1.1);
+    expect(split.specificYield).toBeCloseTo(split.annualEnergy / 8000, 6);
+    expect(split.performanceRatio).toBeGreaterThan(0.6);
+    expect(split.performanceRatio).toBeLessThan(1);
+  });
+});
+
+describe('calculateAnnualOutput with snow', () => {
+  it('should lose winter energy under snow and nothing in summer', () => {
+    const clear = calculateAnnualOutput(sanFrancisco, 2023, config);
+    const snowy = calculateAnnualOutput(sanFrancisco, 2023, { ...config, snow: DEFAULT_SNOW_CONFIG });
+
+    expect(clear.snowLoss).toBeUndefined();
+    expect(snowy.snowLoss).toBeGreaterThan(0);
+    expect(snowy.snowLossFraction).toBeGreaterThan(0);
+    expect(snowy.snowLossFraction).toBeLessThan(0.2);
+    expect(snowy.monthly[0].energy).toBeLessThan(clear.monthly[0].energy);
+    expect(snowy.monthly[6].energy).toBeCloseTo(clear.monthly[6].energy, 6);
+    expect(snowy.monthly[6].snowLoss).toBe(0);
+    expect(snowy.monthly.reduce((sum, m) => sum + m.snowLoss!, 0)).toBeCloseTo(snowy.snowLoss!, 3);
+  });
+
+  it('should give a snowy site a Snow line in the loss breakdown', () => {
+    const minneapolis: Location = { latitude: 44.98, longitude: -93.27, timezone: 'America/Chicago', address: 'Minneapolis, MN' };
+    const snowy = calculateAnnualOutput(minneapolis, 2023, { ...config, snow: DEFAULT_SNOW_CONFIG });
+    const losses = { temperature: 1, incidenceAngle: 1, spectral: 1, systemTotal: 1, inverterClipping: 0 };
+
+    const snow = getLossBreakdown(losses, DEFAULT_SYSTEM_LOSSES, snowy)
+      .find((loss) => loss.name === 'Snow');
+    expect(snow?.percentage).toBeGreaterThan(0);
+    expect(snow?.percentage).toBeCloseTo(snowy.snowLossFraction! * 100, 6);
+  });
+});
+
+describe('calculateAnnualOutput with daily soiling', () => {
+  it('should replace the flat soiling loss with the daily build-up', () => {
+    const clean = calculateAnnualOutput(sanFrancisco, 2023, {
+      ...config,
+      systemLosses: { ...DEFAULT_SYSTEM_LOSSES, soiling: 0 },
+    });
+    const soiled = calculateAnnualOutput(sanFrancisco, 2023, { ...config, soiling: DEFAULT_SOILING_CONFIG });
+
+    expect(clean.soiling).toBeUndefined();
+    expect(soiled.soiling).toHaveLength(365);
+    expect(soiled.soiling!.some((day) => day.washed)).toBe(true);
+    expect(soiled.soilingLoss).toBeGreaterThan(0);
+    // The clean-array DC energy recovers what soiling took
+    const cleanDc = soiled.soiling!.reduce((sum, day) => sum + day.dcEnergy, 0);
+    expect(soiled.soilingLoss! / cleanDc).toBeGreaterThan(0.01);
+    expect(soiled.soilingLossFraction).toBeCloseTo(soiled.soilingLoss! / cleanDc, 9);
+    expect(clean.soilingLossFraction).toBeUndefined();
+    expect(soiled.annualEnergy).toBeLessThan(clean.annualEnergy);
+    expect(soiled.annualEnergy).toBeGreaterThan(clean.annualEnergy * 0.8);
+  });
+
+  it('should switch soiling state at local midnight after a DST change', () => {
+    // Midnight sun: the first local hour of a summer day still produces
+    const longyearbyen: Location = { latitude: 78.22, longitude: 15.65, timezone: 'Arctic/Longyearbyen', address: 'Longyearbyen' };
+    const soiling = { ...DEFAULT_SOILING_CONFIG, rate: 0.01, monthlyRainfall: Array(12).fill(0), washDays: [172] };
+    const clean = calculateAnnualOutput(longyearbyen, 2023, {
+      ...config,
+      systemLosses: { ...DEFAULT_SYSTEM_LOSSES, soiling: 0 },
+    });
+    const soiled = calculateAnnualOutput(longyearbyen, 2023, { ...config, soiling });
+    const at = (output: typeof clean, day: number, hour: number) =>
+      output.hourly.find((h) => h.day === day && h.hour === hour)!.acPower;
+
+    expect(soiled.soiling![171].washed).toBe(true);
+    expect(at(clean, 171, 0)).toBeGreaterThan(0);
+    // Washed that morning, the day's first hour runs clean
+    expect(at(soiled, 171, 0)).toBeCloseTo(at(clean, 171, 0), 6);
+    expect(at(soiled, 170, 23)).toBeLessThan(at(clean, 170, 23));
+  });
+});
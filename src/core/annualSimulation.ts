@@ -0,0 +1,457 @@
+/**
+ * Annual Energy Simulation
+ *
+ * Runs the full calculation pipeline for every hour of a year:
+ * - Solar position (NOAA)
+ * - Clear-sky (Ineichen-Perez), all-sky decomposition or imported weather data
+ * - POA irradiance (Perez transposition) on a fixed or tracked surface,
+ *   with optional bifacial rear side and row-to-row shading
+ * - Irradiance lost to row shading and near obstacles, measured against the unshaded plane
+ * - Panel power with temperature, system losses and inverter model
+ * - Sub-arrays simulated alongside the main array, with per-array totals
+ * - Dual-axis tracker drive consumption and downtime taken off the AC output
+ * - Snow cover carried from hour to hour, including through the night
+ * - Soiling building up day by day between rain and manual washes
+ * - Hour-by-hour AC output on the local clock, for load and battery dispatch
+ *
+ * Hours are sampled at mid-hour in the location's local time and grouped
+ * into calendar months, so DST transitions and month boundaries follow
+ * the site's timezone rather than UTC.
+ */
+
+import {
+  AnnualOutput,
+  ArrayEnergy,
+  HourlyEnergy,
+  Location,
+  MonthlyEnergy,
+  Obstacle,
+  RowShadingConfig,
+  ShadingFactors,
+  SimulationConfig,
+  SoilingDay,
+} from './types';
+import { calculateSolarPosition } from './solarPosition';
+import { getAmbientConditions, getWeatherAtTime } from './weather';
+import {
+  calculatePOAIrradiance,
+  calculatePanelPower,
+  calculateSubArrayPower,
+  combineArrayPower,
+  MAIN_ARRAY_ID,
+  MAIN_ARRAY_NAME,
+} from './panelOutput';
+import { getInverterNightTare } from './inverter';
+import { getTimezoneOffset } from './timezone';
+import { applyTrackerLosses, getSurfaceOrientation } from './tracking';
+import { calculateShadingFactors } from './shading';
+import { calculateSpectralFactor } from './spectral';
+import { calculateSnowFactor, getMonthlySnowfall, getWeatherSnowfall, updateSnowCoverage } from './snow';
+import { calculateSoilingProfile, getDailyRainfall } from './soiling';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+// ============================================================
+// Month Boundaries
+// ============================================================
+
+/**
+ * Get the UTC timestamp of local midnight on the first day of a month
+ *
+ * @param year - Calendar year
+ * @param month - Month index (0-11, 12 = January of the next year)
+ * @param timezone - IANA timezone string
+ */
+export function getLocalMonthStart(year: number, month: number, timezone: string): number {
+  const naiveMs = Date.UTC(year, month, 1, 0, 0, 0, 0);
+
+  // Resolve offset twice so months starting on a DST transition converge
+  let utcMs = naiveMs - getTimezoneOffset(timezone, new Date(naiveMs)) * 60000;
+  utcMs = naiveMs - getTimezoneOffset(timezone, new Date(utcMs)) * 60000;
+
+  return utcMs;
+}
+
+// ============================================================
+// Annual Simulation
+// ============================================================
+
+/**
+ * Simulate AC energy for every hour of a year
+ *
+ * @param location - Site location (timezone defines local months)
+ * @param year - Calendar year to simulate
+ * @param config - System configuration shared with the daily pipeline
+ * @returns Monthly and annual totals with yield metrics
+ */
+export function calculateAnnualOutput(
+  location: Location,
+  year: number,
+  config: SimulationConfig
+): AnnualOutput {
+  const {
+    panelConfig,
+    orientation,
+    panelCount,
+    ambientTemp,
+    albedo,
+    linkeTurbidity,
+    systemLosses,
+    inverterConfig,
+    weather = null,
+    allSky = null,
+    tracker = null,
+    dualAxis = null,
+    bifacial = null,
+    rowShading = null,
+    horizon = null,
+    obstacles = null,
+    spectral = null,
+    thermal = null,
+    windSpeed = 1,
+    subArrays = null,
+    snow = null,
+    soiling = null,
+  } = config;
+  const extraArrays = subArrays ?? [];
+
+  // Geometric shading replaces the flat shading percentage
+  const appliedLosses = rowShading || obstacles?.length ? { ...systemLosses, shading: 0 } : systemLosses;
+
+  const monthStarts = Array.from({ length: 13 }, (_, month) =>
+    getLocalMonthStart(year, month, location.timezone)
+  );
+
+  const monthly: MonthlyEnergy[] = Array.from({ length: 12 }, (_, month) => ({
+    month,
+    days: Math.round((monthStarts[month + 1] - monthStarts[month]) / MS_PER_DAY),
+    energy: 0,
+    poaInsolation: 0,
+  }));
+
+  // Sub-arrays on the main inverter add to its unit count
+  const sharedCount = extraArrays.reduce(
+    (count, subArray) => (subArray.inverterConfig ? count : count + subArray.panelCount),
+    panelCount
+  );
+  const nightTares = [
+    getInverterNightTare(inverterConfig, sharedCount),
+    ...extraArrays.map((subArray) =>
+      subArray.inverterConfig ? getInverterNightTare(subArray.inverterConfig, subArray.panelCount) : 0
+    ),
+  ];
+  const nightTare = nightTares.reduce((sum, tare) => sum + tare, 0);
+
+  const mainCapacity = panelConfig.ratedPower * panelCount;
+  const arrays: ArrayEnergy[] = [
+    { id: MAIN_ARRAY_ID, name: MAIN_ARRAY_NAME, capacity: mainCapacity, energy: 0 },
+    ...extraArrays.map((subArray) => ({
+      id: subArray.id,
+      name: subArray.name,
+      capacity: subArray.panelConfig.ratedPower * subArray.panelCount,
+      energy: 0,
+    })),
+  ];
+  let theoreticalEnergy = 0;
+
+  // Snow cover on each array (main first); row layout only applies to the main array
+  const snowWeather = snow?.source === 'weather' ? weather : null;
+  const snowCoverage = arrays.map(() => 0);
+  let snowDepth: number | undefined;
+  let snowLoss = 0;
+  let dcEnergy = 0;
+  if (snow) {
+    monthly.forEach((m) => {
+      m.snowLoss = 0;
+    });
+  }
+
+  // Daily soiling replaces the flat soiling percentage on every array
+  let soilingDays: SoilingDay[] | null = null;
+  if (soiling) {
+    const rainfall = getDailyRainfall(soiling, year, weather);
+    soilingDays = calculateSoilingProfile(rainfall, soiling).map(({ loss, washed }, day) => ({
+      rainfall: rainfall[day],
+      loss,
+      washed,
+      dcEnergy: 0,
+    }));
+  }
+
+  // Local clock of each hour; the UTC offset is checked a day ahead and
+  // only looked up hour by hour across a DST change
+  const hourly: HourlyEnergy[] = [];
+  const yearStartLocal = Date.UTC(year, 0, 1);
+  let utcOffset = 0;
+  let offsetChanging = true;
+
+  let month = 0;
+  let totalHours = 0;
+  let stowHours = 0;
+  let trackerDriveEnergy = 0;
+  let trackerAvailabilityLoss = 0;
+
+  // Effective front irradiance on the main array without rows or obstacles, and what each takes from it
+  const hasObstacles = obstacles !== null && obstacles.length > 0;
+  let unshadedIrradiance = 0;
+  let rowShadeIrradiance = 0;
+  let obstacleShadeIrradiance = 0;
+
+  for (let t = monthStarts[0] + MS_PER_HOUR / 2; t < monthStarts[12]; t += MS_PER_HOUR) {
+    while (month < 11 && t >= monthStarts[month + 1]) {
+      month++;
+    }
+    totalHours++;
+
+    const time = new Date(t);
+
+    if (offsetChanging || (t + utcOffset - yearStartLocal) % MS_PER_DAY < MS_PER_HOUR) {
+      if (offsetChanging) utcOffset = getTimezoneOffset(location.timezone, time) * 60000;
+      offsetChanging = getTimezoneOffset(location.timezone, new Date(t + MS_PER_DAY)) * 60000 !== utcOffset;
+    }
+    const localTime = new Date(t + utcOffset);
+    const clock: HourlyEnergy = {
+      month,
+      day: Math.floor((localTime.getTime() - yearStartLocal) / MS_PER_DAY),
+      hour: localTime.getUTCHours(),
+      weekday: localTime.getUTCDay(),
+      acPower: 0,
+    };
+    const position = calculateSolarPosition(time, location.latitude, location.longitude);
+
+    // Snowfall lands whatever the sun is doing; the record also gives the air temperature
+    let snowfall = 0;
+    let snowTemp = 0;
+    if (snow) {
+      const record = weather ? getWeatherAtTime(weather, time) : null;
+      snowTemp = record?.temperature ?? snow.monthlyTemperature[month];
+      if (snowWeather && record) {
+        snowfall = getWeatherSnowfall(record, snowDepth);
+        snowDepth = record.snowDepth;
+      } else if (snow.source === 'monthly' && (t - monthStarts[month]) % MS_PER_DAY < MS_PER_HOUR) {
+        const day = Math.floor((t - monthStarts[month]) / MS_PER_DAY);
+        snowfall = getMonthlySnowfall(snow.monthlySnowfall[month], day, monthly[month].days);
+      }
+    }
+
+    // Skip the pipeline entirely at night; the inverters only draw their tare
+    if (position.zenith >= 90) {
+      if (snow) {
+        snowCoverage[0] = updateSnowCoverage(snowCoverage[0], snowfall, 0, snowTemp, orientation.tilt);
+        extraArrays.forEach((subArray, k) => {
+          snowCoverage[k + 1] = updateSnowCoverage(snowCoverage[k + 1], snowfall, 0, snowTemp, subArray.orientation.tilt);
+        });
+      }
+      monthly[month].energy -= nightTare;
+      hourly.push({ ...clock, acPower: -nightTare });
+      arrays.forEach((array, k) => {
+        array.energy -= nightTares[k];
+      });
+      continue;
+    }
+
+    const conditions = getAmbientConditions(
+      time,
+      position.zenith,
+      location,
+      linkeTurbidity,
+      ambientTemp,
+      weather,
+      allSky,
+      windSpeed
+    );
+
+    const surface = getSurfaceOrientation(
+      position,
+      orientation,
+      tracker,
+      dualAxis,
+      conditions.windSpeed
+    );
+    if (surface.stowed) stowHours++;
+
+    const soilingDay = soilingDays ? soilingDays[Math.min(soilingDays.length - 1, clock.day)] : null;
+    // Energy the array would have produced clean, for the wash schedule
+    const addSoiled = (dcPower: number) => {
+      if (soilingDay) soilingDay.dcEnergy += dcPower / (1 - soilingDay.loss);
+    };
+
+    const shadingFor = (rows: RowShadingConfig | null, near: Obstacle[] | null) => calculateShadingFactors(
+      position.zenith,
+      position.azimuth,
+      surface.orientation.tilt,
+      surface.orientation.azimuth,
+      panelConfig,
+      rows,
+      horizon,
+      near,
+      panelCount
+    );
+    const frontPOA = (shading: ShadingFactors | null) => calculatePOAIrradiance(
+      conditions.irradiance,
+      position.zenith,
+      position.azimuth,
+      surface.orientation.tilt,
+      surface.orientation.azimuth,
+      albedo,
+      bifacial,
+      panelConfig.height,
+      shading
+    );
+    const poaIrradiance = frontPOA(shadingFor(rowShading, obstacles));
+
+    // Beam, sky and bypassed substrings the rows cost, against the same hour
+    // without them; obstacles are charged for what the rows leave
+    if (rowShading || hasObstacles) {
+      const unshaded = frontPOA(shadingFor(null, null)).effectiveIrradiance;
+      let withRows = unshaded;
+      if (rowShading) {
+        withRows = hasObstacles
+          ? frontPOA(shadingFor(rowShading, null)).effectiveIrradiance
+          : poaIrradiance.effectiveIrradiance;
+      }
+      unshadedIrradiance += unshaded;
+      rowShadeIrradiance += unshaded - withRows;
+      obstacleShadeIrradiance += withRows - poaIrradiance.effectiveIrradiance;
+    }
+
+    const mainPower = (snowFactor: number) => calculatePanelPower(
+      poaIrradiance,
+      panelConfig,
+      conditions.ambientTemp,
+      panelCount,
+      soilingDay ? { ...appliedLosses, soiling: soilingDay.loss } : appliedLosses,
+      inverterConfig,
+      conditions.windSpeed,
+      calculateSpectralFactor(
+        conditions.irradiance.airMass,
+        panelConfig.technology,
+        spectral,
+        conditions.precipitableWater
+      ),
+      thermal,
+      snowFactor
+    );
+
+    let main = mainPower(1);
+    if (snow) {
+      snowCoverage[0] = updateSnowCoverage(
+        snowCoverage[0],
+        snowfall,
+        poaIrradiance.total,
+        snowTemp,
+        surface.orientation.tilt
+      );
+      const snowFactor = calculateSnowFactor(snowCoverage[0], rowShading ?? undefined);
+      if (snowFactor < 1) {
+        const covered = mainPower(snowFactor);
+        snowLoss += main.dcPower - covered.dcPower;
+        monthly[month].snowLoss! += main.dcPower - covered.dcPower;
+        main = covered;
+      }
+    }
+    dcEnergy += main.dcPower;
+    addSoiled(main.dcPower);
+
+    let { acPower } = main;
+    theoreticalEnergy += (poaIrradiance.total / 1000) * mainCapacity;
+
+    if (extraArrays.length > 0) {
+      const subPowers = extraArrays.map((subArray, k) => {
+        const subPower = (snowFactor: number) => calculateSubArrayPower(
+          soilingDay ? { ...subArray, systemLosses: { ...subArray.systemLosses, soiling: soilingDay.loss } } : subArray,
+          conditions.irradiance,
+          position,
+          conditions,
+          albedo,
+          horizon,
+          spectral,
+          thermal,
+          snowFactor
+        );
+
+        let power = subPower(1);
+        if (snow) {
+          snowCoverage[k + 1] = updateSnowCoverage(
+            snowCoverage[k + 1],
+            snowfall,
+            power.poaIrradiance.total,
+            snowTemp,
+            power.surfaceOrientation.tilt
+          );
+          const snowFactor = calculateSnowFactor(snowCoverage[k + 1]);
+          if (snowFactor < 1) {
+            const covered = subPower(snowFactor);
+            snowLoss += power.dcPower - covered.dcPower;
+            monthly[month].snowLoss! += power.dcPower - covered.dcPower;
+            power = covered;
+          }
+        }
+        dcEnergy += power.dcPower;
+        addSoiled(power.dcPower);
+        return power;
+      });
+      const combined = combineArrayPower(main, panelConfig, panelCount, inverterConfig, extraArrays, subPowers);
+      acPower = combined.acPower;
+      combined.arrays.forEach((array, k) => {
+        arrays[k].energy += array.acPower;
+      });
+      subPowers.forEach((power, k) => {
+        theoreticalEnergy += (power.poaIrradiance.total / 1000) * arrays[k + 1].capacity;
+      });
+    }
+
+    if (dualAxis) {
+      const tracked = applyTrackerLosses(acPower, dualAxis, surface.tracking ?? false);
+      acPower = tracked.acPower;
+      trackerDriveEnergy += tracked.driveLoss;
+      trackerAvailabilityLoss += tracked.availabilityLoss;
+    }
+
+    // Energy is power × time (1 hour)
+    monthly[month].energy += acPower;
+    monthly[month].poaInsolation += poaIrradiance.total;
+    hourly.push({ ...clock, acPower });
+  }
+
+  const annualEnergy = monthly.reduce((sum, m) => sum + m.energy, 0);
+  const poaInsolation = monthly.reduce((sum, m) => sum + m.poaInsolation, 0);
+
+  const ratedCapacity = arrays.reduce((sum, array) => sum + array.capacity, 0);
+  const specificYield = ratedCapacity > 0 ? annualEnergy / ratedCapacity : 0;
+  const capacityFactor = ratedCapacity > 0 && totalHours > 0
+    ? annualEnergy / (ratedCapacity * totalHours)
+    : 0;
+
+  // Performance ratio: actual energy / (insolation × capacity / STC irradiance)
+  const performanceRatio = theoreticalEnergy > 0 ? annualEnergy / theoreticalEnergy : 0;
+
+  // Day by day soiling against the energy the arrays would have made clean
+  const soilingLoss = soilingDays?.reduce((sum, day) => sum + day.dcEnergy * day.loss, 0);
+  const cleanEnergy = soilingDays?.reduce((sum, day) => sum + day.dcEnergy, 0) ?? 0;
+
+  return {
+    year,
+    monthly,
+    hourly,
+    annualEnergy,
+    poaInsolation,
+    specificYield,
+    capacityFactor,
+    performanceRatio,
+    stowHours,
+    trackerDriveEnergy: dualAxis ? trackerDriveEnergy : undefined,
+    trackerAvailabilityLoss: dualAxis ? trackerAvailabilityLoss : undefined,
+    arrays: extraArrays.length > 0 ? arrays : undefined,
+    rowShadingLoss: rowShading ? (unshadedIrradiance > 0 ? rowShadeIrradiance / unshadedIrradiance : 0) : undefined,
+    obstacleShadingLoss: hasObstacles
+      ? (unshadedIrradiance > 0 ? obstacleShadeIrradiance / unshadedIrradiance : 0)
+      : undefined,
+    snowLoss: snow ? snowLoss : undefined,
+    snowLossFraction: snow ? (dcEnergy + snowLoss > 0 ? snowLoss / (dcEnergy + snowLoss) : 0) : undefined,
+    soiling: soilingDays ?? undefined,
+    soilingLoss,
+    soilingLossFraction: soilingLoss !== undefined ? (cleanEnergy > 0 ? soilingLoss / cleanEnergy : 0) : undefined,
+  };
+}
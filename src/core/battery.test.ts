@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBatteryHealth,
+  DEFAULT_BATTERY_CONFIG,
+  dispatchBattery,
+  dispatchBatteryDay,
+  DispatchInput,
+  isPeakHour,
+} from './battery';
+import { BatteryConfig } from './types';
+
+const battery: BatteryConfig = {
+  ...DEFAULT_BATTERY_CONFIG,
+  capacity: 10,
+  depthOfDischarge: 1,
+  roundTripEfficiency: 1,
+  cycleLife: 0,
+  calendarFade: 0,
+};
+
+// Sunny day: 3 kW of PV from 8:00 to 16:00, a flat 1 kW load
+const day: DispatchInput[] = Array.from({ length: 24 }, (_, hour) => ({
+  pv: hour >= 8 && hour < 16 ? 3000 : 0,
+  load: 1000,
+  hour: hour + 0.5,
+}));
+
+describe('isPeakHour', () => {
+  it('should handle windows that wrap past midnight', () => {
+    expect(isPeakHour(17, 16, 21)).toBe(true);
+    expect(isPeakHour(21, 16, 21)).toBe(false);
+    expect(isPeakHour(23, 22, 6)).toBe(true);
+    expect(isPeakHour(3, 22, 6)).toBe(true);
+    expect(isPeakHour(12, 22, 6)).toBe(false);
+  });
+});
+
+describe('calculateBatteryHealth', () => {
+  it('should reach 80% at the cycle life and fade with age', () => {
+    const config = { ...DEFAULT_BATTERY_CONFIG, cycleLife: 5000, calendarFade: 1 };
+    expect(calculateBatteryHealth(0, 5000, config)).toBeCloseTo(0.8, 6);
+    expect(calculateBatteryHealth(2, 0, config)).toBeCloseTo(0.98, 6);
+  });
+});
+
+describe('dispatchBattery', () => {
+  it('should balance PV, load, battery and grid every step', () => {
+    const result = dispatchBattery(day, { ...battery, roundTripEfficiency: 0.9 }, 1, 0.5);
+    result.steps.forEach((step) => {
+      expect(step.pv + step.gridImport - step.gridExport - step.batteryPower).toBeCloseTo(step.load, 6);
+      expect(step.soc).toBeGreaterThanOrEqual(0);
+      expect(step.soc).toBeLessThanOrEqual(1);
+    });
+
+    // Stored energy changes by what went in and out, less the losses each way
+    const efficiency = Math.sqrt(0.9);
+    const stored = (result.steps[23].soc - 0.5) * 10000;
+    expect(stored).toBeCloseTo(result.charged * efficiency - result.discharged / efficiency, 6);
+  });
+
+  it('should store surplus PV for the evening in self-consumption mode', () => {
+    const without = dispatchBattery(day, { ...battery, capacity: 0 });
+    const withBattery = dispatchBattery(day, battery);
+
+    // 16 kWh surplus, but only 10 kWh fits
+    expect(without.gridExport).toBeCloseTo(16000, 6);
+    expect(withBattery.charged).toBeCloseTo(10000, 6);
+    expect(withBattery.gridExport).toBeCloseTo(6000, 6);
+    expect(withBattery.selfSufficiency).toBeGreaterThan(without.selfSufficiency);
+    expect(withBattery.selfConsumption).toBeGreaterThan(without.selfConsumption);
+  });
+
+  it('should respect the charge power limit', () => {
+    const result = dispatchBattery(day, { ...battery, maxChargePower: 1 });
+    expect(Math.max(...result.steps.map((step) => step.batteryPower))).toBeCloseTo(1000, 6);
+  });
+
+  it('should hold the charge for the peak window in time-of-use mode', () => {
+    const config: BatteryConfig = { ...battery, strategy: 'time-of-use', peakStart: 17, peakEnd: 21, gridCharging: true };
+    const result = dispatchBattery(day, config, 1, 0);
+
+    // Off-peak the battery never discharges, and fills from the grid overnight
+    result.steps.forEach((step, hour) => {
+      if (!isPeakHour(hour + 0.5, 17, 21)) expect(step.batteryPower).toBeGreaterThanOrEqual(0);
+    });
+    expect(result.steps[0].gridImport).toBeGreaterThan(1000);
+    expect(result.steps[18].gridImport).toBe(0);
+  });
+
+  it('should keep the backup reserve untouched', () => {
+    const config: BatteryConfig = { ...battery, strategy: 'backup', backupReserve: 0.4 };
+    const result = dispatchBattery(day, config, 1, 1);
+    const lowest = Math.min(...result.steps.map((step) => step.soc));
+    expect(lowest).toBeCloseTo(0.4, 6);
+  });
+
+  it('should lose capacity as it cycles', () => {
+    const year = Array.from({ length: 365 }, () => day).flat();
+    const result = dispatchBattery(year, { ...battery, cycleLife: 3000, calendarFade: 2 });
+    expect(result.cycles).toBeGreaterThan(300);
+    expect(result.health).toBeLessThan(0.98);
+    expect(result.health).toBeCloseTo(1 - (0.2 * result.cycles) / 3000 - 0.02 * (8760 / 8760), 6);
+  });
+});
+
+describe('dispatchBatteryDay', () => {
+  it('should carry the evening charge into the next morning', () => {
+    const result = dispatchBatteryDay(day, battery, 1);
+    // 10 kWh stored, 8 hours of evening load before midnight
+    expect(result.steps[23].soc).toBeCloseTo(0.2, 6);
+    expect(result.steps[0].gridImport).toBe(0);
+    expect(result.steps[2].gridImport).toBeCloseTo(1000, 6);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Battery Storage
+ *
+ * Dispatches a home battery against PV output and household load every
+ * timestep:
+ * - Self-consumption: store surplus PV, cover the load from the battery
+ *   whenever PV falls short
+ * - Time-of-use: hold the charge for the peak tariff window, optionally
+ *   topping up from the grid off-peak
+ * - Backup: self-consumption above a reserve kept for outages, refilled
+ *   from the grid when it runs low
+ *
+ * Losses are split evenly between charging and discharging. Usable capacity
+ * fades with age and with the energy cycled through the battery, reaching
+ * 80% of nominal at the rated cycle life.
+ *
+ * References:
+ * - DiOrio, Dobos & Janzou (2015): Economic Analysis Case Studies of Battery Energy Storage with SAM, NREL/TP-6A20-64987
+ * - Luthander et al. (2015): Photovoltaic self-consumption in buildings: A review, Applied Energy 142:80-94
+ */
+
+import { BatteryConfig, BatteryOutput, BatteryStep, DispatchStrategy } from './types';
+
+const HOURS_PER_YEAR = 8760;
+
+// Capacity left at the rated cycle life
+const END_OF_LIFE_CAPACITY = 0.8;
+
+/**
+ * 13.5 kWh lithium-ion home battery
+ */
+export const DEFAULT_BATTERY_CONFIG: BatteryConfig = {
+  capacity: 13.5,
+  depthOfDischarge: 0.95,
+  roundTripEfficiency: 0.9,
+  maxChargePower: 5,
+  maxDischargePower: 5,
+  cycleLife: 6000,
+  calendarFade: 1,
+  strategy: 'self-consumption',
+  peakStart: 16,
+  peakEnd: 21,
+  gridCharging: false,
+  backupReserve: 0.2,
+};
+
+export const DISPATCH_STRATEGY_NAMES: Record<DispatchStrategy, string> = {
+  'self-consumption': 'Self-consumption',
+  'time-of-use': 'Time-of-use',
+  backup: 'Backup reserve',
+};
+
+/**
+ * PV output and household demand over one timestep
+ */
+export interface DispatchInput {
+  pv: number; // W (AC)
+  load: number; // W
+  hour: number; // Local hour (0-24, fractional)
+}
+
+// ============================================================
+// Tariff Window
+// ============================================================
+
+/**
+ * Check whether a local hour falls in the peak window
+ *
+ * Windows ending before they start wrap past midnight.
+ */
+export function isPeakHour(hour: number, peakStart: number, peakEnd: number): boolean {
+  const h = ((hour % 24) + 24) % 24;
+  return peakStart <= peakEnd
+    ? h >= peakStart && h < peakEnd
+    : h >= peakStart || h < peakEnd;
+}
+
+// ============================================================
+// Dispatch
+// ============================================================
+
+/**
+ * Capacity relative to nominal after ageing and cycling
+ *
+ * @param years - Time in service (years)
+ * @param cycles - Equivalent full cycles so far
+ * @param config - Cycle life and calendar fade
+ */
+export function calculateBatteryHealth(years: number, cycles: number, config: BatteryConfig): number {
+  const cycleFade = config.cycleLife > 0 ? ((1 - END_OF_LIFE_CAPACITY) * cycles) / config.cycleLife : 0;
+  return Math.max(0, 1 - cycleFade - (config.calendarFade / 100) * years);
+}
+
+/**
+ * Dispatch the battery over a run of timesteps
+ *
+ * @param inputs - PV and load for each timestep, in order
+ * @param config - Battery and dispatch strategy
+ * @param hours - Timestep length (hours)
+ * @param initialSoc - State of charge at the start, share of nominal capacity (default empty)
+ * @returns State of charge and grid flows per step, with energy totals
+ */
+export function dispatchBattery(
+  inputs: DispatchInput[],
+  config: BatteryConfig,
+  hours: number = 1,
+  initialSoc?: number
+): BatteryOutput {
+  const nominal = config.capacity * 1000; // Wh
+  const usable = nominal * config.depthOfDischarge;
+  const efficiency = Math.sqrt(config.roundTripEfficiency); // Each way
+  const maxCharge = config.maxChargePower * 1000;
+  const maxDischarge = config.maxDischargePower * 1000;
+
+  let stored = Math.max(0, Math.min(1, initialSoc ?? 1 - config.depthOfDischarge)) * nominal; // Wh
+  let health = 1;
+  let cycles = 0;
+  const totals = { pvEnergy: 0, loadEnergy: 0, gridImport: 0, gridExport: 0, charged: 0, discharged: 0 };
+
+  const steps: BatteryStep[] = inputs.map(({ pv, load, hour }, i) => {
+    const capacity = nominal * health;
+    const floor = (nominal - usable) * health;
+    const reserve = config.strategy === 'backup' ? floor + config.backupReserve * usable * health : floor;
+    const peak = isPeakHour(hour, config.peakStart, config.peakEnd);
+    const surplus = Math.max(0, pv - load);
+    const deficit = Math.max(0, load - pv);
+
+    // Power the battery is asked for (AC): positive charging
+    let request = surplus;
+    if (config.strategy === 'time-of-use') {
+      if (!peak && config.gridCharging) request = maxCharge;
+      if (peak) request -= deficit;
+    } else if (config.strategy === 'backup' && stored < reserve) {
+      request = Math.max(surplus, Math.min(maxCharge, (reserve - stored) / (efficiency * hours)));
+    } else {
+      request -= deficit;
+    }
+
+    let batteryPower = 0;
+    if (request > 0) {
+      batteryPower = Math.min(request, maxCharge, Math.max(0, capacity - stored) / (efficiency * hours));
+      stored += batteryPower * efficiency * hours;
+    } else if (request < 0) {
+      batteryPower = -Math.min(-request, maxDischarge, (Math.max(0, stored - reserve) * efficiency) / hours);
+      stored += (batteryPower / efficiency) * hours;
+    }
+
+    const net = load - pv + batteryPower;
+    const gridImport = Math.max(0, net);
+    const gridExport = Math.max(0, -net);
+
+    totals.pvEnergy += pv * hours;
+    totals.loadEnergy += load * hours;
+    totals.gridImport += gridImport * hours;
+    totals.gridExport += gridExport * hours;
+    if (batteryPower > 0) totals.charged += batteryPower * hours;
+    else totals.discharged -= batteryPower * hours;
+
+    // Cycling counts the energy drawn from the cells
+    if (batteryPower < 0 && usable > 0) cycles += (-batteryPower * hours) / efficiency / usable;
+    health = calculateBatteryHealth(((i + 1) * hours) / HOURS_PER_YEAR, cycles, config);
+    stored = Math.min(stored, nominal * health);
+
+    return { soc: nominal > 0 ? stored / nominal : 0, pv, load, batteryPower, gridImport, gridExport };
+  });
+
+  return {
+    steps,
+    ...totals,
+    selfConsumed: Math.max(0, totals.pvEnergy - totals.gridExport),
+    selfConsumption: totals.pvEnergy > 0
+      ? Math.max(0, Math.min(1, 1 - totals.gridExport / totals.pvEnergy))
+      : 0,
+    selfSufficiency: totals.loadEnergy > 0
+      ? Math.max(0, Math.min(1, 1 - totals.gridImport / totals.loadEnergy))
+      : 0,
+    cycles,
+    health,
+  };
+}
+
+/**
+ * Dispatch one day as part of a daily cycle
+ *
+ * Runs the day twice and starts the second pass from where the first
+ * ended, so the charge left overnight carries into the morning.
+ *
+ * @param inputs - PV and load for each timestep from midnight to midnight
+ * @param config - Battery and dispatch strategy
+ * @param hours - Timestep length (hours)
+ */
+export function dispatchBatteryDay(inputs: DispatchInput[], config: BatteryConfig, hours: number): BatteryOutput {
+  const warmUp = dispatchBattery(inputs, { ...config, calendarFade: 0, cycleLife: 0 }, hours);
+  const overnight = warmUp.steps[warmUp.steps.length - 1]?.soc;
+  return dispatchBattery(inputs, config, hours, overnight);
+}
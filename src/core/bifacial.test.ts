@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { calculateBifacialViewFactors, calculateRearIrradiance, DEFAULT_BIFACIAL_CONFIG } from './bifacial';
+import { Irradiance } from './types';
+
+const clearNoon: Irradiance = {
+  ghi: 800,
+  dni: 850,
+  dhi: 120,
+  extraterrestrial: 1361,
+  airMass: 1.15,
+  clearnessIndex: 0.7,
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('calculateBifacialViewFactors', () => {
+  it('should see only ground below a flat module', () => {
+    const vf = calculateBifacialViewFactors(0, 2, DEFAULT_BIFACIAL_CONFIG);
+    expect(vf.rearSky).toBeCloseTo(0, 6);
+    expect(sum(vf.rearGround)).toBeCloseTo(1, 6);
+  });
+
+  it('should split sky and ground evenly for an isolated vertical module', () => {
+    const vf = calculateBifacialViewFactors(90, 2, { ...DEFAULT_BIFACIAL_CONFIG, rowSpacing: 200 });
+    expect(vf.rearSky).toBeCloseTo(0.5, 2);
+    expect(sum(vf.rearGround)).toBeCloseTo(0.5, 2);
+  });
+
+  it('should give the ground less sky view between tightly packed rows', () => {
+    const open = calculateBifacialViewFactors(30, 2, { ...DEFAULT_BIFACIAL_CONFIG, rowSpacing: 10 });
+    const dense = calculateBifacialViewFactors(30, 2, { ...DEFAULT_BIFACIAL_CONFIG, rowSpacing: 3 });
+    expect(sum(dense.groundSky)).toBeLessThan(sum(open.groundSky));
+  });
+});
+
+describe('calculateRearIrradiance', () => {
+  const rear = (overrides: Partial<typeof DEFAULT_BIFACIAL_CONFIG> = {}, albedo = 0.25) =>
+    calculateRearIrradiance(clearNoon, 30, 180, 30, 180, albedo, { ...DEFAULT_BIFACIAL_CONFIG, ...overrides }, 2.278);
+
+  it('should be a small fraction of front irradiance for a typical ground mount', () => {
+    // Field measurements put rear irradiance at roughly 5-15% of front
+    const value = rear();
+    expect(value).toBeGreaterThan(40);
+    expect(value).toBeLessThan(150);
+  });
+
+  it('should increase with albedo, ground clearance and row spacing', () => {
+    expect(rear({}, 0.5)).toBeGreaterThan(rear({}, 0.25));
+    expect(rear({ groundClearance: 2 })).toBeGreaterThan(rear({ groundClearance: 0.5 }));
+    expect(rear({ rowSpacing: 10 })).toBeGreaterThan(rear({ rowSpacing: 3 }));
+  });
+
+  it('should receive direct beam when the sun is behind the module', () => {
+    // Low morning sun from the north-east behind a vertical south-facing module
+    const behind = calculateRearIrradiance(clearNoon, 70, 30, 90, 180, 0.25, DEFAULT_BIFACIAL_CONFIG, 2);
+    const front = calculateRearIrradiance(clearNoon, 70, 150, 90, 180, 0.25, DEFAULT_BIFACIAL_CONFIG, 2);
+    expect(behind).toBeGreaterThan(front + 100);
+  });
+
+  it('should return zero at night', () => {
+    expect(calculateRearIrradiance(clearNoon, 95, 180, 30, 180, 0.25, DEFAULT_BIFACIAL_CONFIG, 2)).toBe(0);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Bifacial Rear-Side Irradiance
+ *
+ * Estimates irradiance on the back of bifacial modules with a 2D view
+ * factor model of infinitely long rows:
+ * - Rear sky diffuse (isotropic, obstructed by neighbouring rows)
+ * - Ground-reflected light, with the ground under and between rows
+ *   split into sunlit and row-shaded strips
+ * - Direct beam when the sun is behind the modules
+ *
+ * View factors depend only on the row geometry and tilt, so they are
+ * computed once by angular ray sampling and cached.
+ *
+ * References:
+ * - Marion et al. (2017): A practical irradiance model for bifacial PV modules, NREL/CP-5J00-67847
+ * - Mikofski et al. (2019): Bifacial performance modeling in large arrays, IEEE PVSC 46
+ */
+
+import { BifacialConfig, Irradiance } from './types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Default ground-mount geometry and rear-side losses
+ */
+export const DEFAULT_BIFACIAL_CONFIG: BifacialConfig = {
+  groundClearance: 1,
+  rowSpacing: 5,
+  rearMismatch: 0.05,
+  rearShading: 0.05,
+};
+
+/**
+ * Bifaciality used when a bifacial panel does not specify one
+ */
+export const DEFAULT_BIFACIALITY = 0.7;
+
+// Sampling resolution of the view factor integration
+const GROUND_SAMPLES = 36;
+const MODULE_SAMPLES = 10;
+const ANGLE_SAMPLES = 90;
+// Rows either side of the reference row that can block a ray
+const NEIGHBOUR_ROWS = 15;
+const MAX_CACHE_SIZE = 512;
+
+// ============================================================
+// Row Geometry
+// ============================================================
+
+// Cross-section perpendicular to the rows: u runs horizontally in the
+// direction the front faces, z is up
+type Point2 = [number, number];
+
+interface RowGeometry {
+  collectorWidth: number;
+  pitch: number;
+  clearance: number;
+  tiltRad: number;
+}
+
+export interface BifacialViewFactors {
+  groundSky: number[]; // Sky view factor of each ground strip across one pitch
+  rearSky: number; // Rear-side view factor to the sky
+  rearGround: number[]; // Rear-side view factor to each ground strip
+}
+
+type RayHit = { type: 'sky' } | { type: 'row' } | { type: 'ground'; u: number };
+
+/**
+ * Lower (front) and upper (back) edge of a row's module
+ */
+function getRowEdges(row: number, geometry: RowGeometry): [Point2, Point2] {
+  const lower: Point2 = [row * geometry.pitch, geometry.clearance];
+  const upper: Point2 = [
+    lower[0] - geometry.collectorWidth * Math.cos(geometry.tiltRad),
+    lower[1] + geometry.collectorWidth * Math.sin(geometry.tiltRad),
+  ];
+  return [lower, upper];
+}
+
+/**
+ * Distance along a ray to a segment, or Infinity if it misses
+ */
+function intersectSegment(origin: Point2, direction: Point2, a: Point2, b: Point2): number {
+  const edge: Point2 = [b[0] - a[0], b[1] - a[1]];
+  const denom = direction[0] * edge[1] - direction[1] * edge[0];
+  if (Math.abs(denom) < 1e-12) return Infinity;
+
+  const offset: Point2 = [a[0] - origin[0], a[1] - origin[1]];
+  const t = (offset[0] * edge[1] - offset[1] * edge[0]) / denom;
+  const s = (offset[0] * direction[1] - offset[1] * direction[0]) / denom;
+
+  return t > 1e-9 && s >= 0 && s <= 1 ? t : Infinity;
+}
+
+/**
+ * Trace a ray to the first row, the ground, or the sky
+ *
+ * @param skipRow - Row the ray starts on, so it cannot hit itself
+ */
+function traceRay(origin: Point2, direction: Point2, geometry: RowGeometry, skipRow?: number): RayHit {
+  let nearest = Infinity;
+  for (let row = -NEIGHBOUR_ROWS; row <= NEIGHBOUR_ROWS; row++) {
+    if (row === skipRow) continue;
+    const [lower, upper] = getRowEdges(row, geometry);
+    nearest = Math.min(nearest, intersectSegment(origin, direction, lower, upper));
+  }
+
+  if (direction[1] < 0) {
+    const tGround = -origin[1] / direction[1];
+    if (tGround < nearest) {
+      return { type: 'ground', u: origin[0] + tGround * direction[0] };
+    }
+  }
+
+  return nearest < Infinity ? { type: 'row' } : { type: 'sky' };
+}
+
+/**
+ * Index of the ground strip under a horizontal position (rows repeat every pitch)
+ */
+function getGroundIndex(u: number, pitch: number): number {
+  const wrapped = ((u % pitch) + pitch) % pitch;
+  return Math.min(GROUND_SAMPLES - 1, Math.floor((wrapped / pitch) * GROUND_SAMPLES));
+}
+
+function getGroundPoint(index: number, pitch: number): Point2 {
+  return [((index + 0.5) / GROUND_SAMPLES) * pitch, 0];
+}
+
+function getModulePoint(index: number, geometry: RowGeometry): Point2 {
+  const [lower, upper] = getRowEdges(0, geometry);
+  const fraction = (index + 0.5) / MODULE_SAMPLES;
+  return [
+    lower[0] + (upper[0] - lower[0]) * fraction,
+    lower[1] + (upper[1] - lower[1]) * fraction,
+  ];
+}
+
+/**
+ * Sample the hemisphere around a surface normal
+ *
+ * Each direction carries its 2D view factor weight (sin θ2 - sin θ1) / 2,
+ * so the weights of a full hemisphere sum to one.
+ */
+function sampleHemisphere(normalAngle: number, visit: (direction: Point2, weight: number) => void): void {
+  const step = Math.PI / ANGLE_SAMPLES;
+  for (let i = 0; i < ANGLE_SAMPLES; i++) {
+    const theta1 = -Math.PI / 2 + i * step;
+    const theta2 = theta1 + step;
+    const angle = normalAngle + (theta1 + theta2) / 2;
+    visit([Math.cos(angle), Math.sin(angle)], (Math.sin(theta2) - Math.sin(theta1)) / 2);
+  }
+}
+
+// ============================================================
+// View Factors
+// ============================================================
+
+const viewFactorCache = new Map<string, BifacialViewFactors>();
+
+function toRowGeometry(tilt: number, collectorWidth: number, config: BifacialConfig): RowGeometry {
+  return {
+    collectorWidth: Math.max(0.1, collectorWidth),
+    pitch: Math.max(0.1, config.rowSpacing),
+    clearance: Math.max(0, config.groundClearance),
+    tiltRad: Math.max(0, Math.min(90, tilt)) * DEG_TO_RAD,
+  };
+}
+
+/**
+ * Calculate ground and rear-side view factors for a row geometry
+ *
+ * @param tilt - Module tilt (degrees from horizontal)
+ * @param collectorWidth - Module slant height across the row (meters)
+ * @param config - Ground clearance and row spacing
+ */
+export function calculateBifacialViewFactors(
+  tilt: number,
+  collectorWidth: number,
+  config: BifacialConfig
+): BifacialViewFactors {
+  // Trackers sweep through many tilts; 1° resolution is plenty for diffuse light
+  const roundedTilt = Math.round(tilt);
+  const key = `${roundedTilt}|${collectorWidth}|${config.rowSpacing}|${config.groundClearance}`;
+  const cached = viewFactorCache.get(key);
+  if (cached) return cached;
+
+  const geometry = toRowGeometry(roundedTilt, collectorWidth, config);
+
+  const groundSky = Array.from({ length: GROUND_SAMPLES }, (_, i) => {
+    let skyView = 0;
+    sampleHemisphere(Math.PI / 2, (direction, weight) => {
+      if (traceRay(getGroundPoint(i, geometry.pitch), direction, geometry).type === 'sky') {
+        skyView += weight;
+      }
+    });
+    return skyView;
+  });
+
+  // The front normal sits at 90° - tilt from the u axis; the rear is opposite
+  const rearNormalAngle = (3 * Math.PI) / 2 - geometry.tiltRad;
+  let rearSky = 0;
+  const rearGround = new Array<number>(GROUND_SAMPLES).fill(0);
+
+  for (let m = 0; m < MODULE_SAMPLES; m++) {
+    const origin = getModulePoint(m, geometry);
+    sampleHemisphere(rearNormalAngle, (direction, weight) => {
+      const hit = traceRay(origin, direction, geometry, 0);
+      if (hit.type === 'sky') {
+        rearSky += weight / MODULE_SAMPLES;
+      } else if (hit.type === 'ground') {
+        rearGround[getGroundIndex(hit.u, geometry.pitch)] += weight / MODULE_SAMPLES;
+      }
+    });
+  }
+
+  const viewFactors = { groundSky, rearSky, rearGround };
+  if (viewFactorCache.size >= MAX_CACHE_SIZE) viewFactorCache.clear();
+  viewFactorCache.set(key, viewFactors);
+  return viewFactors;
+}
+
+// ============================================================
+// Rear Irradiance
+// ============================================================
+
+/**
+ * Calculate irradiance on the rear side of a bifacial module
+ *
+ * Averaged over the module height, before rear mismatch and shading losses.
+ *
+ * @param irradiance - Horizontal irradiance components
+ * @param sunZenith - Sun zenith angle (degrees)
+ * @param sunAzimuth - Sun azimuth (degrees from north)
+ * @param tilt - Module tilt (degrees from horizontal)
+ * @param azimuth - Module azimuth (degrees from north)
+ * @param albedo - Ground reflectance (0-1)
+ * @param config - Ground clearance and row spacing
+ * @param collectorWidth - Module slant height across the row (meters)
+ * @returns Rear-side irradiance (W/m²)
+ */
+export function calculateRearIrradiance(
+  irradiance: Irradiance,
+  sunZenith: number,
+  sunAzimuth: number,
+  tilt: number,
+  azimuth: number,
+  albedo: number,
+  config: BifacialConfig,
+  collectorWidth: number
+): number {
+  if (sunZenith >= 90 || irradiance.ghi <= 0) return 0;
+
+  const viewFactors = calculateBifacialViewFactors(tilt, collectorWidth, config);
+  const geometry = toRowGeometry(tilt, collectorWidth, config);
+
+  // Sun direction projected onto the row cross-section
+  const zenithRad = sunZenith * DEG_TO_RAD;
+  const relativeAzimuth = (sunAzimuth - azimuth) * DEG_TO_RAD;
+  const sunU = Math.sin(zenithRad) * Math.cos(relativeAzimuth);
+  const sunZ = Math.cos(zenithRad);
+  const length = Math.hypot(sunU, sunZ);
+  const sunDirection: Point2 = [sunU / length, sunZ / length];
+
+  // Ground irradiance: beam only where rows do not cast a shadow
+  const beamHorizontal = irradiance.dni * sunZ;
+  let rearGround = 0;
+  for (let i = 0; i < GROUND_SAMPLES; i++) {
+    if (viewFactors.rearGround[i] === 0) continue;
+    const lit = traceRay(getGroundPoint(i, geometry.pitch), sunDirection, geometry).type === 'sky';
+    const groundIrradiance = (lit ? beamHorizontal : 0) + irradiance.dhi * viewFactors.groundSky[i];
+    rearGround += albedo * groundIrradiance * viewFactors.rearGround[i];
+  }
+
+  const rearSky = irradiance.dhi * viewFactors.rearSky;
+
+  // Beam reaches the rear when the sun is behind the module plane
+  let rearBeam = 0;
+  const cosAOIRear = -(
+    sunZ * Math.cos(geometry.tiltRad) +
+    Math.sin(zenithRad) * Math.sin(geometry.tiltRad) * Math.cos(relativeAzimuth)
+  );
+  if (cosAOIRear > 0 && irradiance.dni > 0) {
+    let unshaded = 0;
+    for (let m = 0; m < MODULE_SAMPLES; m++) {
+      if (traceRay(getModulePoint(m, geometry), sunDirection, geometry, 0).type === 'sky') unshaded++;
+    }
+    rearBeam = irradiance.dni * cosAOIRear * (unshaded / MODULE_SAMPLES);
+  }
+
+  return Math.max(0, rearSky + rearGround + rearBeam);
+}
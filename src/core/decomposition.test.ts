@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOrgillHollandsDiffuseFraction,
+  calculateDiscDNI,
+  calculateDirintDNI,
+  calculateKtPrime,
+  calculateDeltaKtPrime,
+  altitudeToPressure,
+  decomposeGHI,
+  calculateAllSkyIrradiance,
+  calculateDailyClearnessIndex,
+  parseAllSkySeries,
+  getSeriesValue,
+} from './decomposition';
+import { AllSkySeries } from './types';
+import { calculateIrradiance } from './irradiance';
+import { calculateExtraterrestrialIrradiance } from './atmosphere';
+
+const DEG_TO_RAD = Math.PI / 180;
+const summerNoon = new Date('2024-06-21T20:00:00Z');
+
+describe('calculateOrgillHollandsDiffuseFraction', () => {
+  it('should follow the three kt bands', () => {
+    expect(calculateOrgillHollandsDiffuseFraction(0.2)).toBeCloseTo(1 - 0.249 * 0.2, 6);
+    expect(calculateOrgillHollandsDiffuseFraction(0.5)).toBeCloseTo(0.637, 6);
+    expect(calculateOrgillHollandsDiffuseFraction(0.9)).toBe(0.177);
+  });
+});
+
+describe('calculateDiscDNI', () => {
+  it('should give high DNI for clear skies and low DNI for overcast', () => {
+    const cosZ = Math.cos(30 * DEG_TO_RAD);
+    const clear = calculateDiscDNI(0.75 * 1361 * cosZ, 30, 1361);
+    const overcast = calculateDiscDNI(0.15 * 1361 * cosZ, 30, 1361);
+    expect(clear).toBeGreaterThan(700);
+    expect(clear).toBeLessThan(1100);
+    expect(overcast).toBeLessThan(50);
+  });
+
+  it('should return zero near the horizon', () => {
+    expect(calculateDiscDNI(50, 88, 1361)).toBe(0);
+  });
+
+  it('should use standard pressure at sea level', () => {
+    expect(altitudeToPressure(0)).toBeCloseTo(101325, -1);
+    expect(altitudeToPressure(1500)).toBeLessThan(90000);
+  });
+});
+
+describe('calculateDirintDNI', () => {
+  // pvlib-python test_dirint_value: Golden, CO on 2014-06-24 at 12:00 and 18:00 MST.
+  // DISC in pvlib uses a 1370 W/m² solar constant
+  const extraterrestrial = calculateExtraterrestrialIrradiance(175) * (1370 / 1361);
+  const pressure = 93193;
+  const ghi = [1038.62, 254.53];
+  const zenith = [10.567, 72.469];
+  const ktPrime = ghi.map((g, i) => calculateKtPrime(g, zenith[i], extraterrestrial, pressure));
+  // A two-hour series: each hour's only neighbour is the other
+  const deltaKtPrime = ktPrime.map((kt, i) => calculateDeltaKtPrime(kt, null, ktPrime[1 - i]));
+  const dirint = (dewPoint: number | null, delta: (number | null)[]) =>
+    ghi.map((g, i) => calculateDirintDNI(g, zenith[i], extraterrestrial, pressure, delta[i], dewPoint));
+
+  it('should match pvlib with the kt\' stability term', () => {
+    const [noon, evening] = dirint(null, deltaKtPrime);
+    expect(noon).toBeCloseTo(868.8, 0);
+    expect(evening).toBeCloseTo(699.7, 0);
+  });
+
+  it('should match pvlib with a dew point', () => {
+    const [noon, evening] = dirint(10, deltaKtPrime);
+    expect(noon).toBeCloseTo(882.1, 0);
+    expect(evening).toBeCloseTo(672.6, 0);
+  });
+
+  it('should match pvlib without neighbouring hours', () => {
+    const [noon, evening] = dirint(null, [null, null]);
+    expect(noon).toBeCloseTo(861.9, 0);
+    expect(evening).toBeCloseTo(670.4, 0);
+  });
+
+  it('should average the change to both neighbours', () => {
+    expect(calculateDeltaKtPrime(0.5, 0.4, 0.7)).toBeCloseTo(0.15, 10);
+    expect(calculateDeltaKtPrime(0.5, null, 0.7)).toBeCloseTo(0.2, 10);
+    expect(calculateDeltaKtPrime(0.5, null, null)).toBeNull();
+  });
+
+  it('should return zero where DISC does', () => {
+    expect(calculateDirintDNI(50, 88, 1361)).toBe(0);
+    expect(calculateDirintDNI(0, 30, 1361)).toBe(0);
+  });
+});
+
+describe('decomposeGHI', () => {
+  const zenith = 30;
+  const cosZ = Math.cos(zenith * DEG_TO_RAD);
+  const ghi = 0.5 * 1361 * cosZ;
+
+  it.each(['erbs', 'orgill-hollands', 'disc', 'dirint'] as const)('should conserve GHI with the %s model', (model) => {
+    const { dni, dhi } = decomposeGHI(ghi, zenith, 1361, model);
+    expect(dni).toBeGreaterThanOrEqual(0);
+    expect(dhi).toBeGreaterThanOrEqual(0);
+    expect(dhi + dni * cosZ).toBeCloseTo(ghi, 6);
+  });
+
+  it('should use the Erbs correlation by default', () => {
+    const { dhi } = decomposeGHI(ghi, zenith, 1361);
+    expect(dhi / ghi).toBeCloseTo(0.6591, 3);
+  });
+
+  it('should return zeros at night', () => {
+    expect(decomposeGHI(100, 95, 1361)).toEqual({ dni: 0, dhi: 0 });
+  });
+});
+
+describe('calculateAllSkyIrradiance', () => {
+  it('should scale GHI with the clearness index', () => {
+    const overcast = calculateAllSkyIrradiance(summerNoon, 20, { clearnessIndex: 0.15, model: 'erbs' });
+    const partly = calculateAllSkyIrradiance(summerNoon, 20, { clearnessIndex: 0.55, model: 'erbs' });
+    expect(overcast.ghi).toBeLessThan(partly.ghi);
+    expect(overcast.clearnessIndex).toBeCloseTo(0.15, 6);
+    // Overcast light is almost entirely diffuse
+    expect(overcast.dhi / overcast.ghi).toBeGreaterThan(0.95);
+  });
+
+  it('should not exceed clear-sky GHI', () => {
+    const clearSky = calculateIrradiance(summerNoon, 80, 3, 0);
+    const allSky = calculateAllSkyIrradiance(summerNoon, 80, { clearnessIndex: 1, model: 'disc' }, 3, 0);
+    expect(allSky.ghi).toBeLessThanOrEqual(clearSky.ghi + 1e-9);
+  });
+
+  it('should give DIRINT the kt\' stability of the neighbouring hours', () => {
+    const config = { clearnessIndex: 0.55, model: 'dirint' as const };
+    const alone = calculateAllSkyIrradiance(summerNoon, 20, config);
+    const steady = calculateAllSkyIrradiance(summerNoon, 20, config, 3, 0, [25, 25]);
+    const sunrise = calculateAllSkyIrradiance(summerNoon, 80, config, 3, 0, [92, 70]);
+    expect(steady.dni).not.toBe(alone.dni);
+    expect(sunrise.dni).toBeGreaterThanOrEqual(0);
+    expect(steady.dhi + steady.dni * Math.cos(20 * DEG_TO_RAD)).toBeCloseTo(steady.ghi, 6);
+  });
+
+  it('should take kt and GHI from an imported series at the hour', () => {
+    const hourly = (kind: AllSkySeries['kind'], values: number[]): AllSkySeries =>
+      ({ id: 'sky:test', name: 'sky.csv', kind, resolution: 'hourly', values });
+    const kt = new Array(8760).fill(0.2);
+    kt[100] = 0.7;
+    const config = { clearnessIndex: 0.5, model: 'erbs' as const, series: hourly('clearness', kt) };
+    expect(calculateAllSkyIrradiance(summerNoon, 20, config, 3, 0, null, 100.5).clearnessIndex).toBeCloseTo(0.7, 6);
+    expect(calculateAllSkyIrradiance(summerNoon, 20, config, 3, 0, null, 50.5).clearnessIndex).toBeCloseTo(0.2, 6);
+    // Without the hour the constant kt applies
+    expect(calculateAllSkyIrradiance(summerNoon, 20, config).clearnessIndex).toBeCloseTo(0.5, 6);
+
+    const ghi = { ...config, series: hourly('ghi', new Array(8760).fill(640)) };
+    expect(calculateAllSkyIrradiance(summerNoon, 20, ghi, 3, 0, null, 100.5).ghi).toBeCloseTo(640, 6);
+
+    const daily: AllSkySeries = { id: 'sky:daily', name: 'daily.csv', kind: 'ghi', resolution: 'daily', values: new Array(365).fill(7.5) };
+    const fromDaily = calculateAllSkyIrradiance(summerNoon, 20, { ...config, series: daily }, 3, 0, null, 4140.5, 38);
+    expect(fromDaily.clearnessIndex).toBeCloseTo(calculateDailyClearnessIndex(7.5, summerNoon, 38), 6);
+  });
+
+  it('should give DIRINT the kt\' of the neighbouring hours in a series', () => {
+    const series = (values: number[]): AllSkySeries => ({ id: 'sky:test', name: 'sky.csv', kind: 'clearness', resolution: 'hourly', values });
+    const steady = new Array(8760).fill(0.6);
+    const broken = steady.map((kt, hour) => (hour === 99 || hour === 101 ? 0.15 : kt));
+    const config = { clearnessIndex: 0.6, model: 'dirint' as const };
+    const calm = calculateAllSkyIrradiance(summerNoon, 30, { ...config, series: series(steady) }, 3, 0, [35, 25], 100.5);
+    const variable = calculateAllSkyIrradiance(summerNoon, 30, { ...config, series: series(broken) }, 3, 0, [35, 25], 100.5);
+    expect(variable.ghi).toBeCloseTo(calm.ghi, 6);
+    expect(variable.dni).not.toBeCloseTo(calm.dni, 1);
+  });
+
+  it('should return zeros below the horizon', () => {
+    const result = calculateAllSkyIrradiance(summerNoon, 95, { clearnessIndex: 0.55, model: 'erbs' });
+    expect(result.ghi).toBe(0);
+    expect(result.dni).toBe(0);
+  });
+});
+
+describe('calculateDailyClearnessIndex', () => {
+  it('should convert daily insolation to a plausible KT', () => {
+    // ~7.5 kWh/m² on a clear June day at 38°N is KT ≈ 0.6-0.75
+    const kt = calculateDailyClearnessIndex(7.5, new Date('2024-06-21T12:00:00'), 38);
+    expect(kt).toBeGreaterThan(0.6);
+    expect(kt).toBeLessThan(0.75);
+  });
+
+  it('should return zero during polar night', () => {
+    expect(calculateDailyClearnessIndex(1, new Date('2024-12-21T12:00:00'), 80)).toBe(0);
+  });
+});
+
+describe('parseAllSkySeries', () => {
+  it('should read an hourly clearness index from the last column', () => {
+    const rows = Array.from({ length: 8760 }, (_, hour) => `${hour},${hour % 24 === 12 ? 0.7 : 0.3}`);
+    const series = parseAllSkySeries(['hour,kt', ...rows].join('\n'), 'kt.csv');
+    expect(series.kind).toBe('clearness');
+    expect(series.resolution).toBe('hourly');
+    expect(series.values[12]).toBe(0.7);
+    expect(series.id).toMatch(/^sky:kt\.csv:clearness:8760:/);
+  });
+
+  it('should read daily GHI and convert Wh/m² to kWh/m²', () => {
+    const rows = Array.from({ length: 366 }, (_, day) => `2024-01-01+${day},${day === 59 ? 0 : 5200}`);
+    const series = parseAllSkySeries(['date,GHI (Wh/m2)', ...rows].join('\n'));
+    expect(series.kind).toBe('ghi');
+    expect(series.resolution).toBe('daily');
+    // February 29 is dropped
+    expect(series.values).toHaveLength(365);
+    expect(series.values.every((value) => value === 5.2)).toBe(true);
+  });
+
+  it('should reject files that are neither daily nor hourly', () => {
+    expect(() => parseAllSkySeries('kt\n0.5\n0.6')).toThrow('Expected 365 daily or 8760 hourly values, found 2');
+  });
+});
+
+describe('getSeriesValue', () => {
+  it('should interpolate hourly values between hour centres and wrap the year', () => {
+    const values = new Array(8760).fill(0);
+    values[0] = 100;
+    values[8759] = 300;
+    const series: AllSkySeries = { id: 'sky:test', name: 'sky.csv', kind: 'ghi', resolution: 'hourly', values };
+    expect(getSeriesValue(series, 0.5)).toBe(100);
+    expect(getSeriesValue(series, 0)).toBe(200);
+    expect(getSeriesValue(series, 1)).toBe(50);
+  });
+
+  it('should hold daily values for the whole day', () => {
+    const series: AllSkySeries = { id: 'sky:test', name: 'sky.csv', kind: 'clearness', resolution: 'daily', values: Array.from({ length: 365 }, (_, day) => day / 365) };
+    expect(getSeriesValue(series, 24 * 10 + 0.2)).toBe(10 / 365);
+    expect(getSeriesValue(series, 24 * 10 + 23.9)).toBe(10 / 365);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDegradationFactor,
+  calculateWarrantyFraction,
+  getAvailabilityLoss,
+  calculateLifetimeOutput,
+  DEFAULT_LIFETIME_CONFIG,
+  DEFAULT_DEGRADATION_RATE,
+} from './degradation';
+import { DEFAULT_SYSTEM_LOSSES } from './losses';
+import { ModuleDegradation } from './types';
+
+const module: ModuleDegradation = {
+  annualRate: 0.4,
+  warrantyYears: 30,
+  warrantyFirstYear: 99,
+  warrantyAnnual: 0.4,
+};
+
+describe('module ageing', () => {
+  it('should decline linearly or compound from the first year', () => {
+    expect(calculateDegradationFactor(1, 0.5, 'linear')).toBe(1);
+    expect(calculateDegradationFactor(25, 0.5, 'linear')).toBeCloseTo(0.88, 9);
+    expect(calculateDegradationFactor(25, 0.5, 'compound')).toBeCloseTo(Math.pow(0.995, 24), 9);
+    expect(calculateDegradationFactor(25, 0.5, 'compound')).toBeGreaterThan(0.88);
+    expect(calculateDegradationFactor(300, 0.5, 'linear')).toBe(0);
+  });
+
+  it('should follow the warranty terms and end with them', () => {
+    expect(calculateWarrantyFraction(1, module)).toBeCloseTo(0.99, 9);
+    expect(calculateWarrantyFraction(30, module)).toBeCloseTo(0.874, 9);
+    expect(calculateWarrantyFraction(31, module)).toBeNull();
+  });
+
+  it('should apply the latest availability step started', () => {
+    const steps = [{ fromYear: 11, loss: 0.02 }, { fromYear: 6, loss: 0.01 }];
+    expect(getAvailabilityLoss(5, 0.003, steps)).toBe(0.003);
+    expect(getAvailabilityLoss(6, 0.003, steps)).toBe(0.01);
+    expect(getAvailabilityLoss(20, 0.003, steps)).toBe(0.02);
+  });
+});
+
+describe('lifetime projection', () => {
+  const firstYear = 6000000;
+
+  it('should project the simulated year with cumulative energy', () => {
+    const result = calculateLifetimeOutput([{ energy: firstYear, degradation: module }], DEFAULT_SYSTEM_LOSSES, DEFAULT_LIFETIME_CONFIG);
+    expect(result.years).toHaveLength(25);
+    expect(result.years[0].energy).toBeCloseTo(firstYear, 6);
+    expect(result.years[9].energy).toBeCloseTo(firstYear * (1 - 0.004 * 9), 3);
+    expect(result.years[24].cumulativeEnergy).toBeCloseTo(result.totalEnergy, 3);
+    expect(result.finalDegradation).toBeCloseTo(1 - 0.004 * 24, 9);
+    expect(result.averageEnergy).toBeCloseTo(result.totalEnergy / 25, 6);
+  });
+
+  it('should compare the output with the warranted module power', () => {
+    const result = calculateLifetimeOutput([{ energy: firstYear, degradation: module }], DEFAULT_SYSTEM_LOSSES, DEFAULT_LIFETIME_CONFIG);
+    const nameplate = firstYear / (1 - DEFAULT_SYSTEM_LOSSES.lidDegradation);
+    expect(result.years[0].warrantyEnergy).toBeCloseTo(nameplate * 0.99, 3);
+    expect(result.years[24].warrantyEnergy).toBeCloseTo(nameplate * (0.99 - 0.004 * 24), 3);
+
+    // Modules ageing slower than warranted end well above the line
+    const slow = calculateLifetimeOutput([{ energy: firstYear, degradation: { ...module, annualRate: 0.25 } }], DEFAULT_SYSTEM_LOSSES, { ...DEFAULT_LIFETIME_CONFIG, years: 30 });
+    expect(slow.years[29].energy).toBeGreaterThan(slow.years[29].warrantyEnergy! * 1.04);
+
+    const noWarranty = calculateLifetimeOutput([{ energy: firstYear }], DEFAULT_SYSTEM_LOSSES, DEFAULT_LIFETIME_CONFIG);
+    expect(noWarranty.years[0].warrantyEnergy).toBeNull();
+    expect(noWarranty.finalDegradation).toBeCloseTo(1 - (DEFAULT_DEGRADATION_RATE / 100) * 24, 9);
+  });
+
+  it('should age each array at its own rate unless one rate is set', () => {
+    const arrays = [{ energy: firstYear / 2, degradation: module }, { energy: firstYear / 2, degradation: { ...module, annualRate: 0.8 } }];
+    const mixed = calculateLifetimeOutput(arrays, DEFAULT_SYSTEM_LOSSES, DEFAULT_LIFETIME_CONFIG);
+    expect(mixed.finalDegradation).toBeCloseTo(1 - 0.006 * 24, 9);
+
+    const fixed = calculateLifetimeOutput(arrays, DEFAULT_SYSTEM_LOSSES, { ...DEFAULT_LIFETIME_CONFIG, degradationRate: 1 });
+    expect(fixed.finalDegradation).toBeCloseTo(0.76, 9);
+  });
+
+  it('should take the system offline for inverter replacements and availability changes', () => {
+    const config = {
+      ...DEFAULT_LIFETIME_CONFIG,
+      degradationRate: 0,
+      inverterReplacementYears: [12],
+      replacementDowntimeDays: 36.5,
+      availabilitySteps: [{ fromYear: 20, loss: 0.05 }],
+    };
+    const result = calculateLifetimeOutput([{ energy: firstYear }], DEFAULT_SYSTEM_LOSSES, config);
+    const uptime = 1 - DEFAULT_SYSTEM_LOSSES.availability;
+    expect(result.years[11].inverterReplaced).toBe(true);
+    expect(result.years[11].energy).toBeCloseTo(firstYear * 0.9, 3);
+    expect(result.years[12].energy).toBeCloseTo(firstYear, 3);
+    expect(result.years[19].availabilityLoss).toBeCloseTo(0.05, 9);
+    expect(result.years[19].energy).toBeCloseTo((firstYear * 0.95) / uptime, 3);
+    expect(result.years[19].degradation).toBe(1);
+  });
+});
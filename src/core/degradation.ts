@@ -0,0 +1,172 @@
+/**
+ * Lifetime Production and Degradation
+ *
+ * Projects the simulated first year over the life of the system:
+ * - First-year light-induced degradation is already part of the simulated
+ *   year (systemLosses.lidDegradation)
+ * - Modules then lose output each year, linearly (datasheet warranties) or
+ *   compounded on the previous year
+ * - Inverter replacements take the system offline for a few days
+ * - Availability can change over the years (e.g. a maintenance contract ending)
+ *
+ * The warranty line is the energy the array would yield at the power the
+ * module manufacturer guarantees, for comparison with the expected output.
+ *
+ * References:
+ * - Jordan & Kurtz (2013): Photovoltaic Degradation Rates — an Analytical Review, Prog. Photovolt. 21:12-29
+ * - Jordan et al. (2016): Compendium of photovoltaic degradation rates, Prog. Photovolt. 24:978-989
+ */
+
+import {
+  AvailabilityStep,
+  DegradationModel,
+  LifetimeConfig,
+  LifetimeOutput,
+  LifetimeYear,
+  ModuleDegradation,
+  SystemLosses,
+} from './types';
+
+/**
+ * Median rate for modules without a datasheet value (%/year)
+ */
+export const DEFAULT_DEGRADATION_RATE = 0.5;
+
+export const DEFAULT_LIFETIME_CONFIG: LifetimeConfig = {
+  years: 25,
+  degradationModel: 'linear',
+  degradationRate: null,
+  inverterReplacementYears: [],
+  replacementDowntimeDays: 7,
+  availabilitySteps: [],
+};
+
+export const DEGRADATION_MODEL_NAMES: Record<DegradationModel, string> = {
+  linear: 'Linear',
+  compound: 'Compound',
+};
+
+/**
+ * First-year energy of one array and its module ageing
+ */
+export interface LifetimeArray {
+  energy: number; // Wh (AC) in the simulated year
+  degradation?: ModuleDegradation;
+}
+
+// ============================================================
+// Module Ageing
+// ============================================================
+
+/**
+ * Module output relative to the first operating year
+ *
+ * @param year - Operating year (1-based)
+ * @param rate - Annual degradation (%/year)
+ * @param model - Linear or compound decline
+ */
+export function calculateDegradationFactor(year: number, rate: number, model: DegradationModel): number {
+  const age = Math.max(0, year - 1);
+  const annual = rate / 100;
+  if (model === 'compound') return Math.pow(1 - annual, age);
+  return Math.max(0, 1 - annual * age);
+}
+
+/**
+ * Warranted module power as a fraction of nameplate
+ *
+ * @param year - Operating year (1-based)
+ * @param degradation - Module warranty terms
+ * @returns Fraction (0-1), or null after the warranty ends
+ */
+export function calculateWarrantyFraction(year: number, degradation: ModuleDegradation): number | null {
+  if (year < 1 || year > degradation.warrantyYears) return null;
+  return Math.max(0, degradation.warrantyFirstYear - degradation.warrantyAnnual * (year - 1)) / 100;
+}
+
+/**
+ * Availability loss in an operating year
+ *
+ * @param year - Operating year (1-based)
+ * @param baseLoss - Loss of the simulated year (systemLosses.availability)
+ * @param steps - Changes over the system life; the latest step started applies
+ */
+export function getAvailabilityLoss(year: number, baseLoss: number, steps: AvailabilityStep[]): number {
+  let loss = baseLoss;
+  let from = 0;
+  for (const step of steps) {
+    if (step.fromYear <= year && step.fromYear >= from) {
+      loss = step.loss;
+      from = step.fromYear;
+    }
+  }
+  return loss;
+}
+
+// ============================================================
+// Lifetime Projection
+// ============================================================
+
+/**
+ * Project yearly production over the system life
+ *
+ * Each array ages at its own module rate unless the config sets one rate
+ * for all. The warranty line needs warranty terms for every array.
+ *
+ * @param arrays - First-year energy and module ageing of each array
+ * @param systemLosses - Losses applied in the simulated year
+ * @param config - Horizon, degradation model, replacements and availability
+ */
+export function calculateLifetimeOutput(
+  arrays: LifetimeArray[],
+  systemLosses: SystemLosses,
+  config: LifetimeConfig
+): LifetimeOutput {
+  const firstYearEnergy = arrays.reduce((sum, array) => sum + array.energy, 0);
+  const baseUptime = 1 - systemLosses.availability;
+  const lidFactor = 1 - systemLosses.lidDegradation;
+  const hasWarranty = arrays.length > 0 && arrays.every((array) => array.degradation);
+
+  const years: LifetimeYear[] = [];
+  let cumulativeEnergy = 0;
+
+  for (let year = 1; year <= config.years; year++) {
+    const inverterReplaced = config.inverterReplacementYears.includes(year);
+    const downtime = inverterReplaced ? Math.min(1, config.replacementDowntimeDays / 365) : 0;
+    const availabilityLoss = 1 - (1 - getAvailabilityLoss(year, systemLosses.availability, config.availabilitySteps)) * (1 - downtime);
+    const uptimeScale = baseUptime > 0 ? (1 - availabilityLoss) / baseUptime : 0;
+
+    let energy = 0;
+    let warrantyEnergy: number | null = hasWarranty ? 0 : null;
+    for (const array of arrays) {
+      const rate = config.degradationRate ?? array.degradation?.annualRate ?? DEFAULT_DEGRADATION_RATE;
+      energy += array.energy * calculateDegradationFactor(year, rate, config.degradationModel) * uptimeScale;
+
+      // Warranties guarantee nameplate power, before first-year LID
+      const warranted = array.degradation ? calculateWarrantyFraction(year, array.degradation) : null;
+      if (warrantyEnergy !== null) {
+        warrantyEnergy = warranted === null || lidFactor <= 0
+          ? null
+          : warrantyEnergy + (array.energy / lidFactor) * warranted * uptimeScale;
+      }
+    }
+
+    cumulativeEnergy += energy;
+    years.push({
+      year,
+      degradation: firstYearEnergy !== 0 && uptimeScale > 0 ? energy / (firstYearEnergy * uptimeScale) : 1,
+      availabilityLoss,
+      inverterReplaced,
+      energy,
+      cumulativeEnergy,
+      warrantyEnergy,
+    });
+  }
+
+  return {
+    years,
+    totalEnergy: cumulativeEnergy,
+    averageEnergy: years.length > 0 ? cumulativeEnergy / years.length : 0,
+    finalDegradation: years.length > 0 ? years[years.length - 1].degradation : 1,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDailyEmissions, calculateEmissions, parseEmissionProfile } from './emissions';
+import { GridEmissionFactor, HourlyEnergy } from './types';
+
+const grid: GridEmissionFactor = { region: 'Testland', factor: 0.4, source: 'Test data' };
+
+// Two days: 1 kW from 10:00 to 14:00, 50 W of night draw at midnight
+const hours: HourlyEnergy[] = [0, 1].flatMap((day) =>
+  Array.from({ length: 24 }, (_, hour) => ({
+    month: 0,
+    day,
+    hour,
+    weekday: (day + 1) % 7,
+    acPower: hour >= 10 && hour < 14 ? 1000 : hour === 0 ? -50 : 0,
+  }))
+);
+
+describe('parseEmissionProfile', () => {
+  it('should expand one day per month to the whole year and convert units', () => {
+    const rows = Array.from({ length: 288 }, (_, i) => `${Math.floor(i / 24) + 1},${i % 24},${i < 24 ? 800 : 400}`);
+    const profile = parseEmissionProfile(['month,hour,lb/MWh', ...rows].join('\n'), 'test.csv');
+    expect(profile.hourly).toHaveLength(8760);
+    expect(profile.hourly[0]).toBeCloseTo(800 / 2.20462 / 1000, 6);
+    expect(profile.hourly[31 * 24]).toBeCloseTo(400 / 2.20462 / 1000, 6);
+  });
+
+  it('should read g/kWh when the header gives no unit and drop February 29', () => {
+    const rows = Array.from({ length: 8784 }, (_, i) => (i >= 59 * 24 && i < 60 * 24 ? '999' : '300'));
+    const profile = parseEmissionProfile(rows.join('\n'));
+    expect(profile.hourly).toHaveLength(8760);
+    expect(Math.max(...profile.hourly)).toBeCloseTo(0.3, 9);
+    expect(profile.average).toBeCloseTo(0.3, 9);
+  });
+
+  it('should reject other lengths', () => {
+    expect(() => parseEmissionProfile('rate\n1\n2\n3')).toThrow(/found 3/);
+  });
+});
+
+describe('calculateEmissions', () => {
+  it('should apply the regional average and name its source', () => {
+    const result = calculateEmissions(hours, 2023, 1, 4000, grid);
+    expect(result.method).toBe('average');
+    expect(result.annualOffset).toBeCloseTo(7.9 * 0.4, 9);
+    expect(result.dailyOffset).toBeCloseTo(1.6, 9);
+    expect(result.basis).toContain('Testland');
+    expect(result.basis).toContain('Test data');
+  });
+
+  it('should prefer the user-set factor over the regional one', () => {
+    const result = calculateEmissions(hours, 2023, 1, 4000, grid, 0.1);
+    expect(result.method).toBe('override');
+    expect(result.factor).toBe(0.1);
+    expect(result.dailyOffset).toBeCloseTo(0.4, 9);
+  });
+
+  it('should weight the PV output by the marginal rate of each hour', () => {
+    const rows = Array.from({ length: 24 }, (_, hour) => String(hour < 12 ? 0.2 : 0.6));
+    const profile = parseEmissionProfile(['kg/kWh', ...rows].join('\n'), 'marginal.csv');
+    const result = calculateEmissions(hours, 2023, 1, 4000, grid, 0.1, profile);
+    expect(result.method).toBe('marginal');
+    expect(result.dailyOffset).toBeCloseTo(2 * 0.2 + 2 * 0.6, 9);
+    expect(result.annualOffset).toBeCloseTo(2 * result.dailyOffset, 9);
+    expect(result.factor).toBeCloseTo(0.4, 9);
+    expect(result.basis).toContain('marginal.csv');
+  });
+});
+
+describe('calculateDailyEmissions', () => {
+  it('should give the daily figure of the annual result for any day', () => {
+    const rows = Array.from({ length: 24 }, (_, hour) => String(hour < 12 ? 0.2 : 0.6));
+    const profile = parseEmissionProfile(['kg/kWh', ...rows].join('\n'), 'marginal.csv');
+    const marginal = calculateEmissions(hours, 2023, 0, 4000, grid, null, profile);
+    expect(calculateDailyEmissions(hours, 2023, 0, 4000, marginal.factor, profile)).toBeCloseTo(marginal.dailyOffset, 9);
+    expect(calculateDailyEmissions(hours, 2023, 1, 4000, marginal.factor, profile))
+      .toBeCloseTo(calculateEmissions(hours, 2023, 1, 4000, grid, null, profile).dailyOffset, 9);
+
+    expect(calculateDailyEmissions(hours, 2023, 5, 2500, 0.4)).toBeCloseTo(1, 9);
+  });
+});
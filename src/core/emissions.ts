@@ -0,0 +1,179 @@
+/**
+ * Grid Emissions
+ *
+ * CO2 avoided by PV output displacing grid electricity:
+ * - Average factors value every kWh at the grid's mean emission rate
+ * - A user-set factor replaces the regional one
+ * - Marginal profiles give the rate of the generation PV actually displaces
+ *   in each hour, which changes with the time of day and the season
+ *
+ * References:
+ * - Hawkes (2010): Estimating marginal CO2 emissions rates for national electricity systems, Energy Policy 38:5977-5987
+ * - Siler-Evans, Azevedo & Morgan (2012): Marginal Emissions Factors for the U.S. Electricity System, Environ. Sci. Technol. 46:4742-4748
+ */
+
+import { getHourOfYear } from './load';
+import { EmissionsResult, GridEmissionFactor, HourlyEnergy, MarginalEmissionProfile } from './types';
+
+const HOURS_PER_COMMON_YEAR = 8760;
+const LB_PER_KG = 2.20462;
+
+// ============================================================
+// Marginal Emission Profiles
+// ============================================================
+
+/**
+ * Parse a CSV of marginal emission rates
+ *
+ * Takes the last number on each row. Accepts a rate for every hour of the
+ * year (8760, or 8784 with February 29 dropped), one day per month (288)
+ * or a single day (24). Units come from the header: lb/MWh, g/kWh (same as
+ * kg/MWh) or kg/kWh; without one, rates above 5 are read as g/kWh.
+ *
+ * @param text - CSV contents
+ * @param name - Profile name shown in the UI
+ */
+export function parseEmissionProfile(text: string, name: string = 'Marginal emissions'): MarginalEmissionProfile {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const isData = (line: string) => /\d\s*"?$/.test(line.trim());
+  const header = lines.find((line) => !isData(line))?.toLowerCase() ?? '';
+
+  const rates = lines.flatMap((line) => {
+    const fields = line.split(/[,;\t]/).map((field) => parseFloat(field.trim().replace(/^"|"$/g, '')));
+    const value = [...fields].reverse().find((field) => Number.isFinite(field));
+    return value !== undefined && isData(line) ? [value] : [];
+  });
+
+  let values: number[];
+  if (rates.length === HOURS_PER_COMMON_YEAR) {
+    values = rates;
+  } else if (rates.length === HOURS_PER_COMMON_YEAR + 24) {
+    values = [...rates.slice(0, 59 * 24), ...rates.slice(60 * 24)];
+  } else if (rates.length === 288 || rates.length === 24) {
+    const monthly = rates.length === 288;
+    values = Array.from({ length: HOURS_PER_COMMON_YEAR }, (_, hour) => {
+      const month = new Date(Date.UTC(2001, 0, 1, hour)).getUTCMonth();
+      return rates[(monthly ? month * 24 : 0) + (hour % 24)];
+    });
+  } else {
+    throw new Error(`Expected 24, 288 or 8760 hourly rates, found ${rates.length}`);
+  }
+
+  let scale = 1;
+  if (/lb/.test(header)) scale = 1 / LB_PER_KG / 1000;
+  else if (/kg\s*\/\s*kwh|t\s*\/\s*mwh/.test(header)) scale = 1;
+  else if (/g\s*\/\s*kwh|kg\s*\/\s*mwh/.test(header) || Math.max(...values) > 5) scale = 1 / 1000;
+
+  const hourly = values.map((value) => Math.max(0, value * scale));
+  const average = hourly.reduce((sum, rate) => sum + rate, 0) / hourly.length;
+  return {
+    id: `marginal:${name}:${hourly.length}:${average.toFixed(6)}`,
+    name,
+    hourly,
+    average,
+  };
+}
+
+// ============================================================
+// Avoided Emissions
+// ============================================================
+
+/**
+ * Describe the flat factor in use, for reports
+ *
+ * @param grid - Regional average factor
+ * @param override - User-set factor (kg CO2/kWh), or null
+ */
+export function describeEmissionFactor(grid: GridEmissionFactor, override: number | null = null): string {
+  return override !== null
+    ? `User-set grid factor, ${override.toFixed(2)} kg/kWh`
+    : `${grid.region} grid average, ${grid.factor.toFixed(2)} kg/kWh (${grid.source})`;
+}
+
+/**
+ * CO2 avoided by the PV output
+ *
+ * A marginal profile takes precedence, then the user-set factor, then the
+ * regional average.
+ *
+ * @param hours - Hours of the annual simulation
+ * @param year - Calendar year of the simulation
+ * @param dayOfYear - Selected day (0-based)
+ * @param dailyEnergy - Output of the selected day (Wh, AC), used with flat factors
+ * @param grid - Regional average factor
+ * @param override - User-set factor (kg CO2/kWh), or null
+ * @param profile - Marginal emission profile, or null
+ */
+export function calculateEmissions(
+  hours: HourlyEnergy[],
+  year: number,
+  dayOfYear: number,
+  dailyEnergy: number,
+  grid: GridEmissionFactor,
+  override: number | null = null,
+  profile: MarginalEmissionProfile | null = null
+): EmissionsResult {
+  const annualEnergy = hours.reduce((sum, h) => sum + h.acPower, 0); // Wh, net of the inverter's night draw
+
+  if (profile) {
+    let pvEnergy = 0;
+    let annualOffset = 0;
+    for (const h of hours) {
+      if (h.acPower <= 0) continue;
+      pvEnergy += h.acPower;
+      annualOffset += getMarginalOffset(h, year, profile);
+    }
+    const factor = pvEnergy > 0 ? annualOffset / (pvEnergy / 1000) : profile.average;
+    return {
+      method: 'marginal',
+      factor,
+      basis: `Marginal emissions from ${profile.name}, ${factor.toFixed(2)} kg/kWh over the PV output`,
+      annualOffset,
+      dailyOffset: calculateDailyEmissions(hours, year, dayOfYear, dailyEnergy, factor, profile),
+    };
+  }
+
+  const factor = override ?? grid.factor;
+  return {
+    method: override !== null ? 'override' : 'average',
+    factor,
+    basis: describeEmissionFactor(grid, override),
+    annualOffset: (annualEnergy / 1000) * factor,
+    dailyOffset: calculateDailyEmissions(hours, year, dayOfYear, dailyEnergy, factor),
+  };
+}
+
+/**
+ * CO2 avoided on the selected day
+ *
+ * Lets the daily figure follow the date without repeating the annual pass.
+ *
+ * @param hours - Hours of the annual simulation
+ * @param year - Calendar year of the simulation
+ * @param dayOfYear - Selected day (0-based)
+ * @param dailyEnergy - Output of the selected day (Wh, AC), used with flat factors
+ * @param factor - Flat factor in use (kg CO2/kWh)
+ * @param profile - Marginal emission profile, or null
+ */
+export function calculateDailyEmissions(
+  hours: HourlyEnergy[],
+  year: number,
+  dayOfYear: number,
+  dailyEnergy: number,
+  factor: number,
+  profile: MarginalEmissionProfile | null = null
+): number {
+  if (!profile) return (dailyEnergy / 1000) * factor;
+
+  let dailyOffset = 0;
+  for (const h of hours) {
+    if (h.day === dayOfYear && h.acPower > 0) dailyOffset += getMarginalOffset(h, year, profile);
+  }
+  return dailyOffset;
+}
+
+// CO2 avoided by one hour of PV output at the profile's rate (kg)
+function getMarginalOffset(h: HourlyEnergy, year: number, profile: MarginalEmissionProfile): number {
+  const dayOfMonth = new Date(Date.UTC(year, 0, 1 + h.day)).getUTCDate();
+  return (h.acPower / 1000) * (profile.hourly[getHourOfYear(h.month, dayOfMonth, h.hour)] ?? 0);
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateFinancials,
+  calculateIrr,
+  calculateLoanPayment,
+  calculateNpv,
+  calculatePayback,
+  DEFAULT_FINANCE_CONFIG,
+} from './finance';
+import { FinanceConfig, LifetimeYear } from './types';
+
+// 10 MWh a year for 25 years, no degradation
+const lifetime: LifetimeYear[] = Array.from({ length: 25 }, (_, i) => ({
+  year: i + 1,
+  degradation: 1,
+  availabilityLoss: 0,
+  inverterReplaced: i + 1 === 12,
+  energy: 10_000_000,
+  cumulativeEnergy: (i + 1) * 10_000_000,
+  warrantyEnergy: null,
+}));
+
+// 5 kWp at 2/Wp, 1500 a year saved, nothing else
+const simple: FinanceConfig = {
+  ...DEFAULT_FINANCE_CONFIG,
+  installedCost: 2,
+  omCost: 0,
+  omEscalation: 0,
+  inverterCost: 0,
+  priceEscalation: 0,
+  discountRate: 0,
+};
+
+describe('calculateLoanPayment', () => {
+  it('should match the annuity formula and split zero-interest loans evenly', () => {
+    expect(calculateLoanPayment(10000, 5, 10)).toBeCloseTo(1295.05, 2);
+    expect(calculateLoanPayment(10000, 0, 10)).toBe(1000);
+    expect(calculateLoanPayment(0, 5, 10)).toBe(0);
+  });
+});
+
+describe('calculateNpv and calculateIrr', () => {
+  it('should find the rate at which the NPV is zero', () => {
+    const flows = [-1000, 300, 300, 300, 300, 300];
+    const irr = calculateIrr(flows);
+    expect(irr).toBeCloseTo(0.1524, 4);
+    expect(calculateNpv(flows, irr!)).toBeCloseTo(0, 4);
+  });
+
+  it('should return null when the cash flows never change sign', () => {
+    expect(calculateIrr([-1000, -100, -100])).toBeNull();
+  });
+});
+
+describe('calculatePayback', () => {
+  it('should interpolate within the year the balance turns positive', () => {
+    expect(calculatePayback([-1000, 400, 400, 400])).toBeCloseTo(2.5, 9);
+    expect(calculatePayback([-1000, 100, 100])).toBeNull();
+  });
+});
+
+describe('calculateFinancials', () => {
+  it('should pay back a cash purchase from level savings', () => {
+    const result = calculateFinancials(lifetime, 1500, 5, simple);
+    expect(result.netCost).toBe(10000);
+    expect(result.years).toHaveLength(26);
+    expect(result.years[0].netCashFlow).toBe(-10000);
+    expect(result.simplePayback).toBeCloseTo(10000 / 1500, 9);
+    expect(result.npv).toBeCloseTo(25 * 1500 - 10000, 6);
+    // 10000 over 250 MWh
+    expect(result.lcoe).toBeCloseTo(0.04, 9);
+  });
+
+  it('should escalate savings and costs and charge inverter replacements', () => {
+    const config = { ...simple, priceEscalation: 3, omCost: 20, omEscalation: 2, inverterCost: 0.1 };
+    const result = calculateFinancials(lifetime, 1500, 5, config);
+    expect(result.years[2].savings).toBeCloseTo(1500 * 1.03, 9);
+    expect(result.years[2].omCost).toBeCloseTo(100 * 1.02, 9);
+    expect(result.years[12].inverterCost).toBeCloseTo(500 * Math.pow(1.02, 11), 9);
+    expect(result.years[11].inverterCost).toBe(0);
+  });
+
+  it('should apply rebates, tax credits and the loan', () => {
+    const config = { ...simple, incentive: 1000, taxCredit: 30, loanShare: 0.5, loanRate: 0, loanTerm: 5 };
+    const result = calculateFinancials(lifetime, 1500, 5, config);
+    expect(result.netCost).toBe(9000);
+    expect(result.equity).toBe(4500);
+    expect(result.years[0].netCashFlow).toBe(-4500);
+    expect(result.years[0].loanProceeds).toBe(4500);
+    expect(result.years[0].loanPayment).toBe(0);
+    // The credit is on the cost after the rebate
+    expect(result.years[1].incentives).toBe(2700);
+    expect(result.years[1].loanProceeds).toBe(0);
+    expect(result.years[1].loanPayment).toBe(900);
+    expect(result.years[6].loanPayment).toBe(0);
+    expect(result.years[25].cumulativeCashFlow).toBeCloseTo(25 * 1500 + 2700 - 9000, 6);
+  });
+
+  it('should discount cash flows for NPV and discounted payback', () => {
+    const result = calculateFinancials(lifetime, 1500, 5, { ...simple, discountRate: 5 });
+    expect(result.npv).toBeLessThan(25 * 1500 - 10000);
+    expect(result.discountedPayback!).toBeGreaterThan(result.simplePayback!);
+    expect(result.irr!).toBeGreaterThan(0.05);
+    expect(result.years[25].cumulativeDiscountedCashFlow).toBeCloseTo(result.npv, 6);
+  });
+});
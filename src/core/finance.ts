@@ -0,0 +1,209 @@
+/**
+ * Project Finance
+ *
+ * Turns the lifetime production and first-year bill savings into the cash
+ * flows of owning the system:
+ * - Installed cost less rebates up front, part of it optionally financed
+ *   with a fixed-rate loan (level payments)
+ * - Tax credit in the first year on the installed cost less rebates, which
+ *   are not part of the owner's cost basis
+ * - Savings follow the degraded production and rise with electricity prices
+ * - Operation and maintenance and inverter replacements rise with inflation
+ *
+ * Cash flows are discounted at the owner's discount rate for the net
+ * present value and discounted payback. The levelised cost of energy is the
+ * present value of the owner's costs over the present value of the energy.
+ *
+ * References:
+ * - Short, Packey & Holt (1995): A Manual for the Economic Evaluation of Energy Efficiency and Renewable Energy Technologies, NREL/TP-462-5173
+ * - Darling et al. (2011): Assumptions and the levelized cost of energy for photovoltaics, Energy Environ. Sci. 4:3133-3139
+ */
+
+import { FinanceConfig, FinanceOutput, FinanceYear, LifetimeYear } from './types';
+
+/**
+ * Cash purchase of a residential system at typical installed cost
+ */
+export const DEFAULT_FINANCE_CONFIG: FinanceConfig = {
+  installedCost: 2.75,
+  omCost: 20,
+  omEscalation: 2,
+  inverterCost: 0.15,
+  incentive: 0,
+  taxCredit: 0,
+  loanShare: 0,
+  loanRate: 6,
+  loanTerm: 10,
+  discountRate: 5,
+  priceEscalation: 2.5,
+};
+
+// IRR search bounds (fraction per year)
+const IRR_MIN = -0.99;
+const IRR_MAX = 10;
+const IRR_TOLERANCE = 1e-7;
+
+// ============================================================
+// Metrics
+// ============================================================
+
+/**
+ * Level payment of a fixed-rate loan
+ *
+ * @param principal - Amount borrowed
+ * @param rate - Interest (%/year)
+ * @param term - Years
+ */
+export function calculateLoanPayment(principal: number, rate: number, term: number): number {
+  if (principal <= 0 || term <= 0) return 0;
+  const r = rate / 100;
+  return r === 0 ? principal / term : (principal * r) / (1 - Math.pow(1 + r, -term));
+}
+
+/**
+ * Net present value of yearly cash flows
+ *
+ * @param cashFlows - Cash flow of each year, starting with year 0
+ * @param rate - Discount rate (fraction per year)
+ */
+export function calculateNpv(cashFlows: number[], rate: number): number {
+  return cashFlows.reduce((sum, flow, year) => sum + flow / Math.pow(1 + rate, year), 0);
+}
+
+/**
+ * Internal rate of return by bisection
+ *
+ * @param cashFlows - Cash flow of each year, starting with year 0
+ * @returns Rate (fraction per year) at which the NPV is zero, or null
+ *   when there is no sign change between the search bounds
+ */
+export function calculateIrr(cashFlows: number[]): number | null {
+  let low = IRR_MIN;
+  let high = IRR_MAX;
+  let npvLow = calculateNpv(cashFlows, low);
+  if (npvLow * calculateNpv(cashFlows, high) > 0) return null;
+
+  while (high - low > IRR_TOLERANCE) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNpv(cashFlows, mid);
+    if (npvMid === 0) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Years until cumulative cash flow turns positive
+ *
+ * Interpolates within the year the balance crosses zero.
+ *
+ * @param cashFlows - Cash flow of each year, starting with year 0
+ * @returns Years, or null when never repaid
+ */
+export function calculatePayback(cashFlows: number[]): number | null {
+  let cumulative = 0;
+  for (let year = 0; year < cashFlows.length; year++) {
+    const previous = cumulative;
+    cumulative += cashFlows[year];
+    if (cumulative >= 0) {
+      return year === 0 || cashFlows[year] <= 0 ? year : year - 1 + -previous / cashFlows[year];
+    }
+  }
+  return null;
+}
+
+// ============================================================
+// Cash Flows
+// ============================================================
+
+/**
+ * Yearly cash flows and investment metrics over the system life
+ *
+ * @param lifetime - Projected production of each operating year
+ * @param firstYearSavings - Bill savings of the simulated year (currency)
+ * @param systemSize - DC capacity (kWp)
+ * @param config - Costs, incentives, financing and rates
+ */
+export function calculateFinancials(
+  lifetime: LifetimeYear[],
+  firstYearSavings: number,
+  systemSize: number,
+  config: FinanceConfig
+): FinanceOutput {
+  const installed = config.installedCost * systemSize * 1000;
+  const netCost = installed - config.incentive;
+  const principal = Math.max(0, netCost) * config.loanShare;
+  const payment = calculateLoanPayment(principal, config.loanRate, config.loanTerm);
+  const discount = config.discountRate / 100;
+  const firstEnergy = lifetime[0]?.energy ?? 0;
+
+  const flows: Omit<FinanceYear, 'cumulativeCashFlow' | 'discountedCashFlow' | 'cumulativeDiscountedCashFlow'>[] = [
+    {
+      year: 0,
+      energy: 0,
+      savings: 0,
+      omCost: 0,
+      inverterCost: 0,
+      incentives: config.incentive,
+      loanProceeds: principal,
+      loanPayment: 0,
+      netCashFlow: principal - netCost,
+    },
+  ];
+  for (const { year, energy, inverterReplaced } of lifetime) {
+    const inflation = Math.pow(1 + config.omEscalation / 100, year - 1);
+    const savings = firstEnergy > 0
+      ? firstYearSavings * (energy / firstEnergy) * Math.pow(1 + config.priceEscalation / 100, year - 1)
+      : 0;
+    const omCost = config.omCost * systemSize * inflation;
+    const inverterCost = inverterReplaced ? config.inverterCost * systemSize * 1000 * inflation : 0;
+    const incentives = year === 1 ? (Math.max(0, netCost) * config.taxCredit) / 100 : 0;
+    const loanPayment = year <= config.loanTerm ? payment : 0;
+    flows.push({
+      year,
+      energy,
+      savings,
+      omCost,
+      inverterCost,
+      incentives,
+      loanProceeds: 0,
+      loanPayment,
+      netCashFlow: savings + incentives - omCost - inverterCost - loanPayment,
+    });
+  }
+
+  let cumulative = 0;
+  let cumulativeDiscounted = 0;
+  const years: FinanceYear[] = flows.map((flow) => {
+    const discountedCashFlow = flow.netCashFlow / Math.pow(1 + discount, flow.year);
+    cumulative += flow.netCashFlow;
+    cumulativeDiscounted += discountedCashFlow;
+    return {
+      ...flow,
+      cumulativeCashFlow: cumulative,
+      discountedCashFlow,
+      cumulativeDiscountedCashFlow: cumulativeDiscounted,
+    };
+  });
+
+  // Owner's costs (savings left out) against the energy delivered
+  const costs = years.map((y) => (y.year === 0 ? -y.netCashFlow : y.omCost + y.inverterCost + y.loanPayment - y.incentives));
+  const discountedEnergy = years.reduce((sum, y) => sum + y.energy / 1000 / Math.pow(1 + discount, y.year), 0);
+  const cashFlows = years.map((y) => y.netCashFlow);
+
+  return {
+    years,
+    netCost,
+    equity: netCost - principal,
+    npv: calculateNpv(cashFlows, discount),
+    irr: calculateIrr(cashFlows),
+    simplePayback: calculatePayback(cashFlows),
+    discountedPayback: calculatePayback(years.map((y) => y.discountedCashFlow)),
+    lcoe: discountedEnergy > 0 ? calculateNpv(costs, discount) / discountedEnergy : null,
+  };
+}
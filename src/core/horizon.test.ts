@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHorizonProfile,
+  parseHorizonFile,
+  getHorizonElevation,
+  isSunBehindHorizon,
+  calculateHorizonSkyFactor,
+} from './horizon';
+
+const PVGIS_HORIZON = [
+  'Latitude (decimal degrees):\t45.000',
+  'Longitude (decimal degrees):\t8.000',
+  '',
+  'A\tH_hor\tA_sun(w)\tH_sun(w)\tA_sun(s)\tH_sun(s)',
+  '-180.0\t2.3\t-180.0\t0.0\t-126.6\t0.0',
+  '-90.0\t10.0\t-104.1\t0.0\t-59.9\t13.5',
+  '0.0\t5.0\t0.0\t21.6\t0.0\t68.4',
+  '90.0\t20.0\t104.1\t0.0\t59.9\t13.5',
+  '180.0\t2.3\t180.0\t0.0\t126.6\t0.0',
+  '',
+  'A: Azimuth (0 = S, 90 = W, -90 = E) (degree)',
+].join('\n');
+
+describe('parseHorizonFile', () => {
+  it('should convert PVGIS azimuths from south to north-based', () => {
+    const profile = parseHorizonFile(PVGIS_HORIZON, 'site.csv');
+    expect(profile.name).toBe('site');
+    expect(profile.points).toEqual([
+      { azimuth: 0, elevation: 2.3 },
+      { azimuth: 90, elevation: 10 },
+      { azimuth: 180, elevation: 5 },
+      { azimuth: 270, elevation: 20 },
+    ]);
+  });
+
+  it('should parse azimuth/elevation CSV with a header', () => {
+    const profile = parseHorizonFile('azimuth,elevation\n270,15\n90,12\n180,5\n');
+    expect(profile.points.map((p) => p.azimuth)).toEqual([90, 180, 270]);
+    expect(profile.name).toBe('Horizon');
+  });
+
+  it('should spread single-column elevations clockwise from north', () => {
+    const profile = parseHorizonFile('1\n2\n3\n4\n');
+    expect(profile.points.map((p) => p.azimuth)).toEqual([0, 90, 180, 270]);
+  });
+
+  it('should reject files without enough points', () => {
+    expect(() => parseHorizonFile('azimuth,elevation\n180,5\n')).toThrow(/at least two/);
+  });
+
+  it('should give equal profiles the same id', () => {
+    const a = createHorizonProfile('A', [{ azimuth: 0, elevation: 5 }, { azimuth: 180, elevation: 10 }]);
+    const b = createHorizonProfile('A', [{ azimuth: 180, elevation: 10 }, { azimuth: 360, elevation: 5 }]);
+    expect(a.id).toBe(b.id);
+  });
+});
+
+describe('getHorizonElevation', () => {
+  const profile = createHorizonProfile('Test', [
+    { azimuth: 90, elevation: 10 },
+    { azimuth: 180, elevation: 20 },
+    { azimuth: 270, elevation: 0 },
+  ]);
+
+  it('should interpolate between points', () => {
+    expect(getHorizonElevation(profile, 135)).toBeCloseTo(15, 9);
+  });
+
+  it('should wrap through north', () => {
+    // 270° (0°) to 450° (10°): north is halfway
+    expect(getHorizonElevation(profile, 0)).toBeCloseTo(5, 9);
+    expect(getHorizonElevation(profile, 360)).toBeCloseTo(5, 9);
+  });
+
+  it('should report when the sun is below the horizon line', () => {
+    expect(isSunBehindHorizon(profile, 75, 180)).toBe(true); // 15° elevation under a 20° ridge
+    expect(isSunBehindHorizon(profile, 60, 180)).toBe(false);
+  });
+});
+
+describe('calculateHorizonSkyFactor', () => {
+  it('should leave the sky open with a flat horizon', () => {
+    const flat = createHorizonProfile('Flat', [{ azimuth: 0, elevation: 0 }, { azimuth: 180, elevation: 0 }]);
+    expect(calculateHorizonSkyFactor(flat, 30, 180)).toBe(1);
+  });
+
+  it('should match the analytic view factor of a uniform horizon', () => {
+    // Horizontal plane under a uniform horizon h sees cos²(h) of the sky
+    const ridge = createHorizonProfile('Ridge', [{ azimuth: 0, elevation: 20 }, { azimuth: 180, elevation: 20 }]);
+    const expected = Math.cos(20 * Math.PI / 180) ** 2;
+    expect(calculateHorizonSkyFactor(ridge, 0, 180)).toBeCloseTo(expected, 2);
+  });
+
+  it('should lose more sky when the obstruction is in front of the surface', () => {
+    const south = createHorizonProfile('South', [
+      { azimuth: 90, elevation: 0 },
+      { azimuth: 180, elevation: 30 },
+      { azimuth: 270, elevation: 0 },
+    ]);
+    expect(calculateHorizonSkyFactor(south, 40, 180)).toBeLessThan(calculateHorizonSkyFactor(south, 40, 0));
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Far-Horizon Shading
+ *
+ * Terrain and skyline obstructions described by a horizon profile
+ * (elevation angle per azimuth):
+ * - Import from CSV or PVGIS horizon files
+ * - Beam is blocked while the sun is below the horizon line
+ * - Sky diffuse is reduced by the share of the visible sky dome the
+ *   horizon hides from the tilted plane
+ *
+ * References:
+ * - PVGIS 5 user manual, "Horizon profile" (printhorizon / userhorizon)
+ * - Quaschning & Hanitsch (1998): Irradiance calculation on shaded surfaces, Solar Energy 62:369-375
+ */
+
+import { HorizonPoint, HorizonProfile } from './types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// Sky dome resolution used for the obstructed diffuse fraction
+const SKY_AZIMUTH_STEP = 5;
+const SKY_ELEVATION_STEP = 1;
+const MAX_CACHE_SIZE = 4096;
+
+// ============================================================
+// Parsing
+// ============================================================
+
+function parseNumber(value: string): number {
+  return value.trim() === '' ? NaN : Number(value);
+}
+
+/**
+ * Wrap azimuths into [0, 360), clamp elevations and sort by azimuth
+ *
+ * Duplicate azimuths (e.g. -180° and 180° in PVGIS files) keep the
+ * highest elevation.
+ */
+function normalizePoints(points: HorizonPoint[]): HorizonPoint[] {
+  const byAzimuth = new Map<number, number>();
+  for (const point of points) {
+    const azimuth = (Math.round((((point.azimuth % 360) + 360) % 360) * 1000) / 1000) % 360;
+    const elevation = Math.max(0, Math.min(90, point.elevation));
+    byAzimuth.set(azimuth, Math.max(byAzimuth.get(azimuth) ?? 0, elevation));
+  }
+
+  return [...byAzimuth.entries()]
+    .map(([azimuth, elevation]) => ({ azimuth, elevation }))
+    .sort((a, b) => a.azimuth - b.azimuth);
+}
+
+/**
+ * Build a horizon profile from azimuth/elevation points
+ *
+ * @param name - Display name
+ * @param points - Azimuth (degrees from north) and elevation (degrees)
+ */
+export function createHorizonProfile(name: string, points: HorizonPoint[]): HorizonProfile {
+  const normalized = normalizePoints(points.filter(
+    (p) => Number.isFinite(p.azimuth) && Number.isFinite(p.elevation)
+  ));
+  if (normalized.length < 2) {
+    throw new Error('Horizon profile needs at least two azimuth/elevation points');
+  }
+
+  const checksum = normalized.reduce(
+    (sum, p) => sum + Math.round(p.azimuth * 10) + Math.round(p.elevation * 10) * 7,
+    0
+  );
+  return {
+    id: `horizon:${name}:${normalized.length}:${checksum}`,
+    name,
+    points: normalized,
+  };
+}
+
+/**
+ * Parse PVGIS printhorizon output
+ *
+ * The "A" column is azimuth measured from south (0° = S, -90° = E,
+ * 90° = W) and "H_hor" is the horizon elevation.
+ */
+function parsePVGISHorizon(lines: string[], headerIndex: number): HorizonPoint[] {
+  const header = lines[headerIndex].trim().split(/[\t,;]+|\s+/);
+  const azimuthColumn = header.indexOf('A');
+  const elevationColumn = header.indexOf('H_hor');
+  const points: HorizonPoint[] = [];
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    const fields = line.trim().split(/[\t,;]+|\s+/);
+    const azimuth = parseNumber(fields[azimuthColumn] ?? '');
+    const elevation = parseNumber(fields[elevationColumn] ?? '');
+    // Data ends at the first non-numeric row (PVGIS appends a legend)
+    if (!Number.isFinite(azimuth) || !Number.isFinite(elevation)) {
+      if (points.length > 0) break;
+      continue;
+    }
+    points.push({ azimuth: azimuth + 180, elevation });
+  }
+
+  return points;
+}
+
+/**
+ * Parse a horizon file
+ *
+ * Supported layouts:
+ * - PVGIS printhorizon output (A / H_hor columns, azimuth from south)
+ * - Two columns of azimuth (degrees from north) and elevation, separated
+ *   by commas, semicolons, tabs or spaces; header and # comment lines are skipped
+ * - One elevation per line, equally spaced clockwise from north
+ *   (PVGIS userhorizon format)
+ *
+ * @param text - File contents
+ * @param fileName - Used as the profile name
+ */
+export function parseHorizonFile(text: string, fileName: string = ''): HorizonProfile {
+  const name = fileName.replace(/\.[^.]+$/, '') || 'Horizon';
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '' && !line.trim().startsWith('#'));
+
+  const pvgisHeader = lines.findIndex((line) => /\bH_hor\b/.test(line));
+  if (pvgisHeader >= 0) {
+    return createHorizonProfile(name, parsePVGISHorizon(lines, pvgisHeader));
+  }
+
+  const rows = lines
+    .map((line) => line.trim().split(/[\t,;]+|\s+/).map(parseNumber))
+    .filter((fields) => fields.length > 0 && fields.every(Number.isFinite));
+
+  if (rows.length > 0 && rows.every((fields) => fields.length === 1)) {
+    const step = 360 / rows.length;
+    return createHorizonProfile(name, rows.map(([elevation], i) => ({ azimuth: i * step, elevation })));
+  }
+
+  return createHorizonProfile(
+    name,
+    rows.filter((fields) => fields.length >= 2).map(([azimuth, elevation]) => ({ azimuth, elevation }))
+  );
+}
+
+// ============================================================
+// Horizon Lookup
+// ============================================================
+
+/**
+ * Get the horizon elevation toward an azimuth
+ *
+ * Linearly interpolates between profile points, wrapping through north.
+ *
+ * @param profile - Horizon profile
+ * @param azimuth - Azimuth (degrees from north)
+ * @returns Horizon elevation (degrees)
+ */
+export function getHorizonElevation(profile: HorizonProfile, azimuth: number): number {
+  const { points } = profile;
+  if (points.length === 0) return 0;
+  if (points.length === 1) return points[0].elevation;
+
+  const az = ((azimuth % 360) + 360) % 360;
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (az < first.azimuth || az >= last.azimuth) {
+    // Wrap-around segment from the last point to the first
+    const span = first.azimuth + 360 - last.azimuth;
+    const offset = az >= last.azimuth ? az - last.azimuth : az + 360 - last.azimuth;
+    const t = span > 0 ? offset / span : 0;
+    return last.elevation + (first.elevation - last.elevation) * t;
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    if (az < points[i].azimuth) {
+      const prev = points[i - 1];
+      const t = (az - prev.azimuth) / (points[i].azimuth - prev.azimuth);
+      return prev.elevation + (points[i].elevation - prev.elevation) * t;
+    }
+  }
+  return last.elevation;
+}
+
+/**
+ * Check whether the sun is below the horizon line
+ *
+ * @param profile - Horizon profile
+ * @param sunZenith - Sun zenith angle (degrees)
+ * @param sunAzimuth - Sun azimuth (degrees from north)
+ */
+export function isSunBehindHorizon(profile: HorizonProfile, sunZenith: number, sunAzimuth: number): boolean {
+  return 90 - sunZenith < getHorizonElevation(profile, sunAzimuth);
+}
+
+// ============================================================
+// Sky Obstruction
+// ============================================================
+
+const skyFactorCache = new WeakMap<HorizonProfile, Map<string, number>>();
+
+/**
+ * Calculate the isotropic sky diffuse remaining behind the horizon
+ *
+ * Integrates the cosine-weighted sky dome seen by the tilted plane, with
+ * and without the directions below the horizon line.
+ *
+ * @param profile - Horizon profile
+ * @param tilt - Surface tilt (degrees from horizontal)
+ * @param azimuth - Surface azimuth (degrees from north)
+ * @returns Ratio of obstructed to open sky diffuse (0-1)
+ */
+export function calculateHorizonSkyFactor(profile: HorizonProfile, tilt: number, azimuth: number): number {
+  // Trackers sweep through many orientations; 1° resolution is plenty for diffuse light
+  const roundedTilt = Math.round(tilt);
+  const roundedAzimuth = ((Math.round(azimuth) % 360) + 360) % 360;
+  const key = `${roundedTilt}|${roundedAzimuth}`;
+
+  let cache = skyFactorCache.get(profile);
+  if (!cache) {
+    cache = new Map();
+    skyFactorCache.set(profile, cache);
+  }
+  const cached = cache.get(key);
+  if (cached !== undefined) return cached;
+
+  const tiltRad = roundedTilt * DEG_TO_RAD;
+  const azimuthRad = roundedAzimuth * DEG_TO_RAD;
+  // Surface normal in (east, north, up)
+  const normal = [
+    Math.sin(tiltRad) * Math.sin(azimuthRad),
+    Math.sin(tiltRad) * Math.cos(azimuthRad),
+    Math.cos(tiltRad),
+  ];
+
+  let open = 0;
+  let visible = 0;
+
+  for (let a = SKY_AZIMUTH_STEP / 2; a < 360; a += SKY_AZIMUTH_STEP) {
+    const horizon = getHorizonElevation(profile, a);
+    const sinA = Math.sin(a * DEG_TO_RAD);
+    const cosA = Math.cos(a * DEG_TO_RAD);
+
+    for (let e = SKY_ELEVATION_STEP / 2; e < 90; e += SKY_ELEVATION_STEP) {
+      const cosE = Math.cos(e * DEG_TO_RAD);
+      const cosIncidence = cosE * sinA * normal[0] + cosE * cosA * normal[1] + Math.sin(e * DEG_TO_RAD) * normal[2];
+      if (cosIncidence <= 0) continue;
+
+      // Solid angle of the cell shrinks toward the zenith
+      const weight = cosIncidence * cosE;
+      open += weight;
+      if (e > horizon) visible += weight;
+    }
+  }
+
+  const factor = open > 0 ? visible / open : 1;
+  if (cache.size >= MAX_CACHE_SIZE) cache.clear();
+  cache.set(key, factor);
+  return factor;
+}
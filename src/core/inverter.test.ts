@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSandiaInverterPower,
+  calculateCurveInverterPower,
+  calculateWeightedEfficiency,
+  calculateModeledInverterOutput,
+  getInverterCount,
+  getInverterNightTare,
+  INVERTER_CURVE_LOADS,
+} from './inverter';
+import { calculateInverterOutput } from './losses';
+import { InverterConfig, InverterEfficiencyCurve, SandiaInverterParameters } from './types';
+
+const sandia: SandiaInverterParameters = {
+  paco: 5000,
+  pdco: 5170,
+  vdco: 420,
+  pso: 25,
+  c0: -3.4e-6,
+  c1: -1.8e-5,
+  c2: 2.0e-3,
+  c3: -1.2e-3,
+  pnt: 1.5,
+};
+
+const curve: InverterEfficiencyCurve = {
+  efficiencies: [0.935, 0.955, 0.962, 0.968, 0.968, 0.965],
+  selfConsumption: 20,
+  nightTare: 1,
+};
+
+describe('Sandia inverter model', () => {
+  it('should deliver rated AC output at rated DC input and voltage', () => {
+    expect(calculateSandiaInverterPower(sandia.pdco, sandia.vdco, sandia)).toBeCloseTo(sandia.paco, 6);
+  });
+
+  it('should draw the night tare below the start threshold', () => {
+    expect(calculateSandiaInverterPower(0, sandia.vdco, sandia)).toBe(-sandia.pnt);
+    expect(calculateSandiaInverterPower(sandia.pso, sandia.vdco, sandia)).toBe(-sandia.pnt);
+    expect(calculateSandiaInverterPower(sandia.pso + 1, sandia.vdco, sandia)).toBeGreaterThan(0);
+  });
+
+  it('should lose efficiency at low load and shift with DC voltage', () => {
+    const efficiency = (dc: number, v = sandia.vdco) => calculateSandiaInverterPower(dc, v, sandia) / dc;
+    expect(efficiency(250)).toBeLessThan(efficiency(2500));
+    expect(efficiency(2500, 300)).not.toBeCloseTo(efficiency(2500, 480), 4);
+  });
+});
+
+describe('efficiency curve inverter model', () => {
+  it('should pass through the datasheet points', () => {
+    INVERTER_CURVE_LOADS.forEach((load, i) => {
+      const ac = load * 5000;
+      expect(calculateCurveInverterPower(ac / curve.efficiencies[i], curve, 5000)).toBeCloseTo(ac, 6);
+    });
+  });
+
+  it('should fall to zero at the self-consumption threshold', () => {
+    expect(calculateCurveInverterPower(curve.selfConsumption, curve, 5000)).toBe(-curve.nightTare);
+    const low = calculateCurveInverterPower(100, curve, 5000);
+    expect(low).toBeGreaterThan(0);
+    expect(low / 100).toBeLessThan(curve.efficiencies[0]);
+  });
+
+  it('should weight the curve with the CEC load profile', () => {
+    const flat = { ...curve, efficiencies: curve.efficiencies.map(() => 0.95) };
+    expect(calculateWeightedEfficiency(flat)).toBeCloseTo(0.95, 9);
+    expect(calculateWeightedEfficiency(curve)).toBeCloseTo(0.9652, 4);
+  });
+});
+
+describe('inverter array output', () => {
+  const base: InverterConfig = { efficiency: 0.96, acCapacity: 0, dcAcRatio: 1.2 };
+  const micro: InverterConfig = {
+    ...base,
+    modulesPerInverter: 1,
+    sandia: { ...sandia, paco: 290, pdco: 299.4, vdco: 37, pso: 1.3, c0: -4.5e-5, pnt: 0.06 },
+  };
+
+  it('should count one unit per module group for microinverters', () => {
+    expect(getInverterCount(base, 10)).toBe(1);
+    expect(getInverterCount(micro, 10)).toBe(10);
+    expect(getInverterCount({ ...micro, modulesPerInverter: 2 }, 9)).toBe(5);
+    expect(getInverterNightTare(micro, 10)).toBeCloseTo(0.6, 9);
+    expect(getInverterNightTare(base, 10)).toBe(0);
+  });
+
+  it('should clip each unit at its rated output', () => {
+    const result = calculateModeledInverterOutput(10 * 320, micro, 4000, 37, 10);
+    expect(result.acPower).toBeCloseTo(2900, 6);
+    expect(result.clippingLoss).toBeGreaterThan(0);
+  });
+
+  it('should report the night tare as negative AC power', () => {
+    const result = calculateInverterOutput(0, micro, 4000, null, 10);
+    expect(result.acPower).toBeCloseTo(-0.6, 9);
+    expect(result.efficiency).toBe(0);
+  });
+
+  it('should size the curve model from the DC/AC ratio', () => {
+    const config = { ...base, efficiencyCurve: curve };
+    const result = calculateInverterOutput(6000, config, 6000);
+    expect(result.acPower).toBeCloseTo(5000, 6);
+    expect(result.clippingLoss).toBeCloseTo(6000 * curve.efficiencies[5] - 5000, 6);
+  });
+});
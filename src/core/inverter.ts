@@ -0,0 +1,170 @@
+/**
+ * Inverter Efficiency Models
+ *
+ * Inverters need a fixed amount of power to run, so conversion efficiency
+ * falls away at low load in the morning and evening:
+ * - Sandia (CEC database): AC power as a quadratic in DC power with
+ *   coefficients that shift with DC input voltage
+ * - Efficiency curve: datasheet efficiencies at 10/20/30/50/75/100% load,
+ *   interpolated down to the self-consumption threshold
+ *
+ * Below the self-consumption threshold the inverter is off and draws its
+ * night tare from the grid. Microinverters are modelled as one unit per
+ * module (or pair of modules), each with its own threshold and tare.
+ *
+ * References:
+ * - King et al. (2007): Performance Model for Grid-Connected Photovoltaic Inverters, SAND2007-5036
+ * - California Energy Commission: Grid Support Inverter List (weighted efficiency test points)
+ */
+
+import { InverterConfig, InverterEfficiencyCurve, SandiaInverterParameters } from './types';
+
+/**
+ * Load points of the efficiency curve (fraction of rated AC output)
+ */
+export const INVERTER_CURVE_LOADS = [0.1, 0.2, 0.3, 0.5, 0.75, 1];
+
+/**
+ * CEC weighting of the curve points (sums to 1; no weight at 100%)
+ */
+export const CEC_EFFICIENCY_WEIGHTS = [0.04, 0.05, 0.12, 0.21, 0.53, 0.05];
+
+// ============================================================
+// Inverter Models
+// ============================================================
+
+/**
+ * Sandia inverter AC output before clipping
+ *
+ * @param dcPower - DC input to one unit (W)
+ * @param dcVoltage - DC input voltage (V)
+ * @param params - Sandia/CEC coefficients
+ * @returns AC output (W); -Pnt below the start threshold
+ */
+export function calculateSandiaInverterPower(
+  dcPower: number,
+  dcVoltage: number,
+  params: SandiaInverterParameters
+): number {
+  const dv = dcVoltage - params.vdco;
+  const a = params.pdco * (1 + params.c1 * dv);
+  const b = params.pso * (1 + params.c2 * dv);
+  const c = params.c0 * (1 + params.c3 * dv);
+  if (dcPower <= b) return -params.pnt;
+
+  return (params.paco / (a - b) - c * (a - b)) * (dcPower - b) + c * (dcPower - b) ** 2;
+}
+
+/**
+ * Efficiency-curve inverter AC output before clipping
+ *
+ * AC power is interpolated linearly in DC power between the start
+ * threshold and the curve points; above rated load the last efficiency holds.
+ *
+ * @param dcPower - DC input to one unit (W)
+ * @param curve - Part-load efficiencies, threshold and tare
+ * @param ratedAc - Rated AC output of one unit (W)
+ * @returns AC output (W); -tare below the start threshold
+ */
+export function calculateCurveInverterPower(
+  dcPower: number,
+  curve: InverterEfficiencyCurve,
+  ratedAc: number
+): number {
+  if (dcPower <= curve.selfConsumption) return -curve.nightTare;
+
+  let prevDc = curve.selfConsumption;
+  let prevAc = 0;
+  for (let i = 0; i < INVERTER_CURVE_LOADS.length; i++) {
+    const ac = INVERTER_CURVE_LOADS[i] * ratedAc;
+    const dc = ac / curve.efficiencies[i];
+    if (dcPower <= dc) {
+      return prevAc + ((dcPower - prevDc) / (dc - prevDc)) * (ac - prevAc);
+    }
+    prevDc = dc;
+    prevAc = ac;
+  }
+  return dcPower * curve.efficiencies[curve.efficiencies.length - 1];
+}
+
+/**
+ * CEC weighted efficiency of a part-load curve
+ */
+export function calculateWeightedEfficiency(curve: InverterEfficiencyCurve): number {
+  return curve.efficiencies.reduce((sum, efficiency, i) => sum + efficiency * CEC_EFFICIENCY_WEIGHTS[i], 0);
+}
+
+// ============================================================
+// Array Output
+// ============================================================
+
+/**
+ * Number of inverter units serving the array
+ *
+ * @param inverterConfig - Inverter configuration
+ * @param panelCount - Number of modules
+ */
+export function getInverterCount(inverterConfig: InverterConfig, panelCount: number): number {
+  const { modulesPerInverter } = inverterConfig;
+  return modulesPerInverter ? Math.max(1, Math.ceil(panelCount / modulesPerInverter)) : 1;
+}
+
+/**
+ * AC power drawn by the inverters at night (W)
+ *
+ * @param inverterConfig - Inverter configuration
+ * @param panelCount - Number of modules
+ */
+export function getInverterNightTare(inverterConfig: InverterConfig, panelCount: number): number {
+  const tare = inverterConfig.sandia?.pnt ?? inverterConfig.efficiencyCurve?.nightTare ?? 0;
+  return tare * getInverterCount(inverterConfig, panelCount);
+}
+
+/**
+ * Array AC output with the Sandia or efficiency-curve model
+ *
+ * DC power is shared equally between units; each unit clips at its rated
+ * output.
+ *
+ * @param dcPower - Total DC input (W)
+ * @param inverterConfig - Inverter with Sandia parameters or an efficiency curve
+ * @param dcCapacity - Total DC array capacity (W)
+ * @param dcVoltage - DC input voltage (V); rated voltage when null
+ * @param units - Number of inverter units
+ * @returns AC power (negative at night), clipping loss and conversion efficiency
+ */
+export function calculateModeledInverterOutput(
+  dcPower: number,
+  inverterConfig: InverterConfig,
+  dcCapacity: number,
+  dcVoltage: number | null = null,
+  units: number = 1
+): { acPower: number; clippingLoss: number; efficiency: number } {
+  const count = Math.max(1, units);
+  const unitDc = Math.max(0, dcPower) / count;
+  const { sandia, efficiencyCurve } = inverterConfig;
+
+  let ratedAc: number;
+  let unitAc: number;
+  if (sandia) {
+    ratedAc = sandia.paco;
+    unitAc = calculateSandiaInverterPower(unitDc, dcVoltage ?? sandia.vdco, sandia);
+  } else if (efficiencyCurve) {
+    ratedAc = (inverterConfig.acCapacity || dcCapacity / inverterConfig.dcAcRatio) / count;
+    unitAc = calculateCurveInverterPower(unitDc, efficiencyCurve, ratedAc);
+  } else {
+    ratedAc = Infinity;
+    unitAc = unitDc * inverterConfig.efficiency;
+  }
+
+  if (unitAc <= 0) {
+    return { acPower: unitAc * count, clippingLoss: 0, efficiency: 0 };
+  }
+
+  const clippedAc = Math.min(ratedAc, unitAc);
+  return {
+    acPower: clippedAc * count,
+    clippingLoss: (unitAc - clippedAc) * count,
+    efficiency: unitAc / unitDc,
+  };
+}
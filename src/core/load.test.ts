@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEnergyBalance,
+  DEFAULT_LOAD_CONFIG,
+  getAnnualLoad,
+  getLoadPower,
+  parseGreenButton,
+  parseLoadCsv,
+  parseLoadProfile,
+} from './load';
+import { HourlyEnergy, LoadConfig } from './types';
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function yearlyTotal(config: LoadConfig): number {
+  let total = 0;
+  DAYS_IN_MONTH.forEach((days, month) => {
+    for (let hour = 0; hour < 24; hour++) {
+      total += getLoadPower(config, hour, month) * days;
+    }
+  });
+  return total / 1000;
+}
+
+describe('getLoadPower', () => {
+  it('should add up to the annual consumption for every archetype', () => {
+    for (const archetype of ['residential', 'home-office', 'electric-heating', 'air-conditioning', 'ev-charging'] as const) {
+      expect(yearlyTotal({ ...DEFAULT_LOAD_CONFIG, archetype })).toBeCloseTo(DEFAULT_LOAD_CONFIG.annualConsumption, -2);
+    }
+  });
+
+  it('should peak in the evening', () => {
+    expect(getLoadPower(DEFAULT_LOAD_CONFIG, 19.5, 0)).toBeGreaterThan(getLoadPower(DEFAULT_LOAD_CONFIG, 3.5, 0));
+    expect(getLoadPower(DEFAULT_LOAD_CONFIG, 19.5, 0)).toBeGreaterThan(getLoadPower(DEFAULT_LOAD_CONFIG, 12, 0));
+  });
+
+  it('should follow the season of the archetype', () => {
+    const heating = { ...DEFAULT_LOAD_CONFIG, archetype: 'electric-heating' as const };
+    const cooling = { ...DEFAULT_LOAD_CONFIG, archetype: 'air-conditioning' as const };
+    expect(getLoadPower(heating, 12, 0)).toBeGreaterThan(getLoadPower(heating, 12, 6));
+    expect(getLoadPower(cooling, 12, 6)).toBeGreaterThan(getLoadPower(cooling, 12, 0));
+  });
+
+  it('should read an imported profile by date and hour', () => {
+    const profile = parseLoadCsv('timestamp,kWh\n2023-03-02 14:00,2.5\n2023-03-02 15:00,0.5');
+    expect(getLoadPower(DEFAULT_LOAD_CONFIG, 14.5, 2, 2, profile)).toBeCloseTo(2500, 6);
+    expect(getLoadPower(DEFAULT_LOAD_CONFIG, 15, 2, 2, profile)).toBeCloseTo(500, 6);
+  });
+});
+
+describe('getAnnualLoad', () => {
+  it('should look up the imported day for each simulated hour, February 29 reading February 28', () => {
+    const profile = parseLoadCsv('date,time,usage (kWh)\n2023-02-28,10:00,3\n2023-03-01,10:00,1');
+    const hours: HourlyEnergy[] = [58, 59, 60].map((day) => ({ month: day < 60 ? 1 : 2, day, hour: 10, weekday: 0, acPower: 0 }));
+    // 2024 is a leap year: days 58, 59 and 60 are February 28, February 29 and March 1
+    expect(getAnnualLoad(hours, 2024, DEFAULT_LOAD_CONFIG, profile)).toEqual([3000, 3000, 1000]);
+  });
+});
+
+describe('calculateEnergyBalance', () => {
+  it('should net load against PV each step', () => {
+    const balance = calculateEnergyBalance([
+      { pv: 0, load: 500 },
+      { pv: 3000, load: 1000 },
+      { pv: 1000, load: 1000 },
+    ]);
+    expect(balance.selfConsumed).toBe(2000);
+    expect(balance.gridExport).toBe(2000);
+    expect(balance.gridImport).toBe(500);
+    expect(balance.selfConsumption).toBeCloseTo(0.5, 6);
+    expect(balance.selfSufficiency).toBeCloseTo(0.8, 6);
+  });
+});
+
+describe('parseLoadCsv', () => {
+  it('should sum 15-minute readings into hours and fill missing hours from the average day', () => {
+    const rows = Array.from({ length: 8 }, (_, i) => `2023-06-01 ${String(Math.floor(i / 4)).padStart(2, '0')}:${String((i % 4) * 15).padStart(2, '0')},0.25`);
+    const profile = parseLoadCsv(['Interval Start,Usage (kWh)', ...rows].join('\n'), 'meter');
+
+    expect(profile.format).toBe('csv');
+    expect(profile.name).toBe('meter');
+    expect(profile.hourly[151 * 24]).toBeCloseTo(1000, 6);
+    expect(profile.hourly[151 * 24 + 1]).toBeCloseTo(1000, 6);
+    // Hour 0 on another day takes the average of hour 0
+    expect(profile.hourly[0]).toBeCloseTo(1000, 6);
+    expect(profile.coverage).toBeCloseTo(2 / 8760, 8);
+  });
+
+  it('should treat kW columns as average power', () => {
+    const profile = parseLoadCsv('Start,Demand (kW)\n01/05/2023 1:00 PM,2\n01/05/2023 1:30 PM,4');
+    expect(profile.hourly[4 * 24 + 13]).toBeCloseTo(3000, 6);
+  });
+
+  it('should read utility exports with a type column and separate date and time', () => {
+    const profile = parseLoadCsv([
+      'Name,Jane Doe',
+      'TYPE,DATE,START TIME,END TIME,USAGE (kWh),UNITS,COST',
+      'Electric usage,2023-01-01,00:00,00:59,0.80,kWh,$0.20',
+      'Electric usage,2023-01-01,01:00,01:59,0.60,kWh,$0.15',
+    ].join('\n'));
+    expect(profile.hourly[0]).toBeCloseTo(800, 6);
+    expect(profile.hourly[1]).toBeCloseTo(600, 6);
+  });
+
+  it('should reject files without readings', () => {
+    expect(() => parseLoadCsv('hello,world\n1,2')).toThrow(/No timestamped readings/);
+  });
+});
+
+describe('parseGreenButton', () => {
+  const xml = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:espi="http://naesb.org/espi">
+  <entry><content><espi:LocalTimeParameters><espi:tzOffset>-18000</espi:tzOffset></espi:LocalTimeParameters></content></entry>
+  <entry><content><espi:ReadingType><espi:powerOfTenMultiplier>0</espi:powerOfTenMultiplier><espi:uom>72</espi:uom></espi:ReadingType></content></entry>
+  <entry><content><espi:IntervalBlock>
+    <espi:IntervalReading><espi:timePeriod><espi:duration>3600</espi:duration><espi:start>1672549200</espi:start></espi:timePeriod><espi:value>1200</espi:value></espi:IntervalReading>
+    <espi:IntervalReading><espi:timePeriod><espi:duration>3600</espi:duration><espi:start>1672552800</espi:start></espi:timePeriod><espi:value>900</espi:value></espi:IntervalReading>
+  </espi:IntervalBlock></content></entry>
+</feed>`;
+
+  it('should move UTC interval starts onto the local clock', () => {
+    // 1672549200 is 2023-01-01 05:00 UTC, local midnight at UTC-5
+    const profile = parseGreenButton(xml, 'usage');
+    expect(profile.format).toBe('green-button');
+    expect(profile.hourly[0]).toBeCloseTo(1200, 6);
+    expect(profile.hourly[1]).toBeCloseTo(900, 6);
+  });
+
+  it('should use the supplied timezone offset and be detected from the contents', () => {
+    const profile = parseLoadProfile(xml, 'usage.xml', () => -8 * 60);
+    expect(profile.hourly[21 + 364 * 24]).toBeCloseTo(1200, 6); // December 31, 21:00 local
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Household Load
+ *
+ * Consumption profiles netted against PV output:
+ * - Synthetic profiles from the annual total and a household archetype,
+ *   each with its own daily shape and seasonal swing
+ * - Imported interval data: hourly or sub-hourly CSV exports and Green
+ *   Button (ESPI) XML, folded into a typical year on the local clock
+ *
+ * The energy balance nets load against PV every timestep: PV covers the
+ * load first, any surplus is exported and any shortfall is imported.
+ *
+ * References:
+ * - Wilson et al. (2014): 2014 Building America House Simulation Protocols, NREL/TP-5500-60988
+ * - NAESB REQ.21 (2011): Energy Services Provider Interface (ESPI), the Green Button data model
+ */
+
+import { EnergyBalance, HourlyEnergy, LoadArchetype, LoadConfig, LoadProfile, LoadProfileFormat } from './types';
+
+const HOURS_PER_COMMON_YEAR = 8760;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export const DEFAULT_LOAD_CONFIG: LoadConfig = {
+  annualConsumption: 6000,
+  archetype: 'residential',
+};
+
+export const LOAD_ARCHETYPE_NAMES: Record<LoadArchetype, string> = {
+  residential: 'Typical home',
+  'home-office': 'Home office',
+  'electric-heating': 'Electric heating',
+  'air-conditioning': 'Air conditioning',
+  'ev-charging': 'EV charging',
+};
+
+/**
+ * Share of a day's consumption in each local hour, and daily consumption
+ * in each month relative to the yearly average
+ */
+interface LoadShape {
+  day: number[];
+  months: number[];
+}
+
+function normalize(values: number[]): number[] {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return values.map((value) => value / total);
+}
+
+const RESIDENTIAL_MONTHS = [1.2, 1.1, 0.98, 0.88, 0.85, 0.95, 1.08, 1.08, 0.92, 0.86, 0.95, 1.15];
+
+const LOAD_SHAPES: Record<LoadArchetype, LoadShape> = {
+  residential: {
+    day: normalize([
+      0.62, 0.55, 0.51, 0.5, 0.51, 0.58, 0.78, 1.02, 1.07, 0.95, 0.88, 0.86,
+      0.86, 0.83, 0.83, 0.9, 1.05, 1.35, 1.6, 1.68, 1.6, 1.42, 1.13, 0.82,
+    ]),
+    months: RESIDENTIAL_MONTHS,
+  },
+  'home-office': {
+    day: normalize([
+      0.6, 0.55, 0.5, 0.5, 0.5, 0.55, 0.75, 1.0, 1.2, 1.25, 1.25, 1.3,
+      1.3, 1.25, 1.25, 1.2, 1.2, 1.35, 1.5, 1.5, 1.4, 1.2, 0.95, 0.75,
+    ]),
+    months: RESIDENTIAL_MONTHS,
+  },
+  'electric-heating': {
+    day: normalize([
+      0.8, 0.75, 0.75, 0.75, 0.8, 0.95, 1.3, 1.45, 1.3, 1.05, 0.9, 0.85,
+      0.8, 0.8, 0.8, 0.9, 1.1, 1.35, 1.5, 1.5, 1.4, 1.25, 1.05, 0.9,
+    ]),
+    months: [1.75, 1.55, 1.3, 0.95, 0.7, 0.55, 0.5, 0.5, 0.6, 0.85, 1.2, 1.55],
+  },
+  'air-conditioning': {
+    day: normalize([
+      0.7, 0.62, 0.58, 0.55, 0.55, 0.6, 0.75, 0.85, 0.9, 0.95, 1.0, 1.1,
+      1.2, 1.3, 1.4, 1.5, 1.6, 1.7, 1.7, 1.6, 1.4, 1.2, 1.0, 0.8,
+    ]),
+    months: [0.75, 0.72, 0.78, 0.88, 1.05, 1.35, 1.55, 1.5, 1.25, 0.9, 0.72, 0.55],
+  },
+  'ev-charging': {
+    day: normalize([
+      1.5, 1.5, 1.3, 0.8, 0.5, 0.55, 0.75, 0.95, 0.95, 0.85, 0.8, 0.78,
+      0.78, 0.75, 0.75, 0.82, 0.95, 1.2, 1.45, 1.5, 1.45, 1.4, 1.5, 1.6,
+    ]),
+    months: [1.12, 1.06, 0.99, 0.93, 0.9, 0.96, 1.05, 1.05, 0.95, 0.92, 0.97, 1.1],
+  },
+};
+
+// ============================================================
+// Load Lookup
+// ============================================================
+
+/**
+ * Hour of a common year for a local date and hour (February 29 reads February 28)
+ */
+export function getHourOfYear(month: number, dayOfMonth: number, hour: number): number {
+  const monthStart = Date.UTC(2001, month, 1);
+  const day = month === 1 ? Math.min(dayOfMonth, 28) : dayOfMonth;
+  const dayOfYear = Math.round((monthStart - Date.UTC(2001, 0, 1)) / (24 * MS_PER_HOUR)) + day - 1;
+  return Math.max(0, Math.min(HOURS_PER_COMMON_YEAR - 1, dayOfYear * 24 + hour));
+}
+
+/**
+ * Household demand at a local hour
+ *
+ * @param config - Annual consumption and archetype of the synthetic profile
+ * @param localHour - Local hour (0-24, fractional)
+ * @param month - Month index (0-11)
+ * @param dayOfMonth - Day of the month (1-31), used by imported profiles
+ * @param profile - Imported profile, replacing the synthetic one when set
+ * @returns Demand (W), constant through each hour
+ */
+export function getLoadPower(
+  config: LoadConfig,
+  localHour: number,
+  month: number,
+  dayOfMonth: number = 1,
+  profile: LoadProfile | null = null
+): number {
+  const hour = Math.min(23, Math.max(0, Math.floor(localHour)));
+  if (profile) {
+    return profile.hourly[getHourOfYear(month, dayOfMonth, hour)] ?? 0;
+  }
+  const shape = LOAD_SHAPES[config.archetype] ?? LOAD_SHAPES.residential;
+  const dailyEnergy = (config.annualConsumption * 1000) / 365; // Wh
+  return dailyEnergy * (shape.months[month] ?? 1) * shape.day[hour];
+}
+
+/**
+ * Household demand for every hour of a simulated year
+ *
+ * @param hours - Hours of the annual simulation
+ * @param year - Calendar year of the simulation
+ * @param config - Synthetic profile
+ * @param profile - Imported profile, replacing the synthetic one when set
+ * @returns Demand for each hour (W)
+ */
+export function getAnnualLoad(
+  hours: HourlyEnergy[],
+  year: number,
+  config: LoadConfig,
+  profile: LoadProfile | null = null
+): number[] {
+  return hours.map((h) =>
+    getLoadPower(config, h.hour, h.month, new Date(Date.UTC(year, 0, 1 + h.day)).getUTCDate(), profile)
+  );
+}
+
+// ============================================================
+// Energy Balance
+// ============================================================
+
+/**
+ * Net household load against PV output
+ *
+ * @param steps - PV output (W, AC) and load (W) for each timestep
+ * @param hours - Timestep length (hours)
+ */
+export function calculateEnergyBalance(steps: { pv: number; load: number }[], hours: number = 1): EnergyBalance {
+  let pvEnergy = 0;
+  let loadEnergy = 0;
+  let selfConsumed = 0;
+  for (const { pv, load } of steps) {
+    pvEnergy += pv * hours;
+    loadEnergy += load * hours;
+    selfConsumed += Math.min(pv, load) * hours;
+  }
+  const gridImport = loadEnergy - selfConsumed;
+  const gridExport = pvEnergy - selfConsumed;
+
+  return {
+    pvEnergy,
+    loadEnergy,
+    selfConsumed,
+    gridImport,
+    gridExport,
+    selfConsumption: pvEnergy > 0 ? selfConsumed / pvEnergy : 0,
+    selfSufficiency: loadEnergy > 0 ? selfConsumed / loadEnergy : 0,
+  };
+}
+
+// ============================================================
+// Profile Import
+// ============================================================
+
+interface IntervalReading {
+  month: number; // 0-11
+  day: number; // 1-31
+  hour: number; // 0-23
+  energy: number; // Wh
+  minutes: number; // Interval length
+}
+
+/**
+ * Fold interval readings into an hourly typical year
+ *
+ * Readings in the same hour of the year are averaged across years; hours
+ * without readings take the average of the same clock hour.
+ */
+function buildProfile(readings: IntervalReading[], format: LoadProfileFormat, name: string): LoadProfile {
+  if (readings.length === 0) {
+    throw new Error('Load profile contains no readings');
+  }
+
+  const energy = new Array<number>(HOURS_PER_COMMON_YEAR).fill(0);
+  const covered = new Array<number>(HOURS_PER_COMMON_YEAR).fill(0); // Hours of readings
+  for (const reading of readings) {
+    if (reading.month === 1 && reading.day === 29) continue;
+    const index = getHourOfYear(reading.month, reading.day, reading.hour);
+    energy[index] += reading.energy;
+    covered[index] += reading.minutes / 60;
+  }
+
+  const clockTotals = new Array<number>(24).fill(0);
+  const clockCounts = new Array<number>(24).fill(0);
+  covered.forEach((hours, i) => {
+    if (hours <= 0) return;
+    clockTotals[i % 24] += energy[i] / hours;
+    clockCounts[i % 24]++;
+  });
+  if (clockCounts.every((count) => count === 0)) {
+    throw new Error('Load profile contains no readings');
+  }
+  const overall = clockTotals.reduce((sum, total) => sum + total, 0) / clockCounts.reduce((sum, count) => sum + count, 0);
+  const clockMeans = clockTotals.map((total, hour) => (clockCounts[hour] > 0 ? total / clockCounts[hour] : overall));
+
+  const hourly = covered.map((hours, i) => (hours > 0 ? energy[i] / hours : clockMeans[i % 24]));
+  const annualConsumption = hourly.reduce((sum, power) => sum + power, 0) / 1000;
+  const coverage = covered.filter((hours) => hours > 0).length / HOURS_PER_COMMON_YEAR;
+
+  return {
+    id: `${format}:${name}:${readings.length}:${Math.round(annualConsumption * 1000)}`,
+    name,
+    format,
+    hourly,
+    annualConsumption,
+    coverage,
+  };
+}
+
+/**
+ * Parse a date and time written on the local clock
+ *
+ * Accepts ISO-style "2024-01-31 13:00" and US-style "1/31/2024 1:00 PM".
+ */
+function parseLocalTimestamp(text: string): { year: number; month: number; day: number; hour: number; minute: number } | null {
+  const iso = text.match(/(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?/);
+  const us = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2}))?\s*(AM|PM)?/i);
+  let parts: number[];
+  let meridiem: string | undefined;
+  if (iso) {
+    parts = [iso[1], iso[2], iso[3], iso[4] ?? '0', iso[5] ?? '0'].map(Number);
+  } else if (us) {
+    parts = [us[3], us[1], us[2], us[4] ?? '0', us[5] ?? '0'].map(Number);
+    meridiem = us[6]?.toUpperCase();
+  } else {
+    return null;
+  }
+
+  let [year, month, day, hour, minute] = parts;
+  if (meridiem === 'PM' && hour < 12) hour += 12;
+  if (meridiem === 'AM' && hour === 12) hour = 0;
+  // Some exports label the last hour of the day 24:00
+  if (hour === 24) {
+    const next = new Date(Date.UTC(year, month - 1, day + 1));
+    [year, month, day, hour] = [next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), 0];
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) return null;
+  return { year, month: month - 1, day, hour, minute };
+}
+
+/**
+ * Interval start on a CSV row: the first date field, with the time taken
+ * from the same field or the one after it
+ */
+function parseRowTimestamp(row: string[]): ReturnType<typeof parseLocalTimestamp> {
+  for (let i = 0; i < row.length; i++) {
+    if (!/\d[-/]\d/.test(row[i])) continue;
+    return /\d:\d/.test(row[i]) ? parseLocalTimestamp(row[i]) : parseLocalTimestamp(`${row[i]} ${row[i + 1] ?? ''}`);
+  }
+  return null;
+}
+
+/**
+ * Parse an interval consumption CSV
+ *
+ * Each row gives the interval start on the local clock, as one timestamp
+ * or as separate date and time columns. Usage comes from the column headed
+ * kWh, Wh, kW or usage, or from the last numeric column in kWh. Power
+ * columns (kW) are averages over the interval.
+ *
+ * @param text - File contents
+ * @param name - File name
+ */
+export function parseLoadCsv(text: string, name: string = 'Load profile'): LoadProfile {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => line.split(/[,;\t]/).map((field) => field.trim().replace(/^"|"$/g, '')));
+
+  const firstData = rows.findIndex((row) => parseRowTimestamp(row) !== null);
+  if (firstData < 0) {
+    throw new Error('No timestamped readings found in load CSV');
+  }
+
+  // Units from the header row above the data
+  const header = firstData > 0 ? rows[firstData - 1].map((field) => field.toLowerCase()) : [];
+  const column = header.findIndex((field) => /kwh|\bwh\b|\bkw\b|usage|consumption|demand/.test(field));
+  const unit = column >= 0 ? header[column] : '';
+  const isPower = /\bkw\b/.test(unit) && !/kwh/.test(unit);
+  const scale = /\bwh\b/.test(unit) && !/kwh/.test(unit) ? 1 : 1000; // → Wh
+
+  const parsed = rows.slice(firstData).flatMap((row) => {
+    const timestamp = parseRowTimestamp(row);
+    let valueColumn = column;
+    if (valueColumn < 0) {
+      valueColumn = row.length - 1;
+      while (valueColumn > 0 && !Number.isFinite(parseFloat(row[valueColumn]))) valueColumn--;
+    }
+    const value = parseFloat(row[valueColumn]);
+    return timestamp && Number.isFinite(value) ? [{ ...timestamp, value }] : [];
+  });
+
+  // Interval length from the most common gap between readings
+  const gaps = new Map<number, number>();
+  for (let i = 1; i < parsed.length; i++) {
+    const [a, b] = [parsed[i - 1], parsed[i]];
+    const gap = Math.round((Date.UTC(b.year, b.month, b.day, b.hour, b.minute) - Date.UTC(a.year, a.month, a.day, a.hour, a.minute)) / 60000);
+    if (gap > 0 && gap <= 60) gaps.set(gap, (gaps.get(gap) ?? 0) + 1);
+  }
+  const minutes = [...gaps.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 60;
+
+  const readings: IntervalReading[] = parsed.map(({ month, day, hour, value }) => ({
+    month,
+    day,
+    hour,
+    energy: isPower ? value * 1000 * (minutes / 60) : value * scale,
+    minutes,
+  }));
+
+  return buildProfile(readings, 'csv', name);
+}
+
+/**
+ * Read the text of the first matching element, ignoring namespace prefixes
+ */
+function readXmlNumber(xml: string, tag: string): number | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}>\\s*(-?[\\d.]+)\\s*</(?:\\w+:)?${tag}>`));
+  return match ? parseFloat(match[1]) : undefined;
+}
+
+/**
+ * Parse a Green Button (ESPI) usage export
+ *
+ * Interval start times are UTC seconds; they are moved onto the local
+ * clock with the timezone's offset on each day.
+ *
+ * @param text - XML contents
+ * @param name - File name
+ * @param getUtcOffset - Local offset from UTC (minutes) at a time; defaults to the file's standard offset
+ */
+export function parseGreenButton(
+  text: string,
+  name: string = 'Green Button',
+  getUtcOffset?: (time: Date) => number
+): LoadProfile {
+  const readingType = text.match(/<(?:\w+:)?ReadingType[\s>][\s\S]*?<\/(?:\w+:)?ReadingType>/)?.[0] ?? '';
+  const multiplier = 10 ** (readXmlNumber(readingType, 'powerOfTenMultiplier') ?? 0);
+  const fileOffset = (readXmlNumber(text, 'tzOffset') ?? 0) / 60;
+
+  // One offset per UTC day keeps imports fast; DST days shift by an hour for part of the day
+  const dayOffsets = new Map<number, number>();
+  const offsetAt = (ms: number): number => {
+    if (!getUtcOffset) return fileOffset;
+    const day = Math.floor(ms / (24 * MS_PER_HOUR));
+    let offset = dayOffsets.get(day);
+    if (offset === undefined) {
+      offset = getUtcOffset(new Date((day + 0.5) * 24 * MS_PER_HOUR));
+      dayOffsets.set(day, offset);
+    }
+    return offset;
+  };
+
+  const readings: IntervalReading[] = [];
+  const pattern = /<(?:\w+:)?IntervalReading>([\s\S]*?)<\/(?:\w+:)?IntervalReading>/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const start = readXmlNumber(match[1], 'start');
+    const duration = readXmlNumber(match[1], 'duration');
+    const value = readXmlNumber(match[1], 'value');
+    if (start === undefined || duration === undefined || value === undefined || duration <= 0) continue;
+
+    const ms = start * 1000;
+    const local = new Date(ms + offsetAt(ms) * 60000);
+    readings.push({
+      month: local.getUTCMonth(),
+      day: local.getUTCDate(),
+      hour: local.getUTCHours(),
+      energy: value * multiplier, // Wh
+      minutes: duration / 60,
+    });
+  }
+
+  if (readings.length === 0) {
+    throw new Error('Green Button file contains no interval readings');
+  }
+  return buildProfile(readings, 'green-button', name);
+}
+
+/**
+ * Parse a load profile, detecting the format from its name and contents
+ *
+ * @param text - File contents
+ * @param fileName - File name
+ * @param getUtcOffset - Local offset from UTC (minutes) at a time, for Green Button files
+ */
+export function parseLoadProfile(
+  text: string,
+  fileName: string = '',
+  getUtcOffset?: (time: Date) => number
+): LoadProfile {
+  const name = fileName.replace(/\.[^.]+$/, '') || 'Load profile';
+  if (fileName.toLowerCase().endsWith('.xml') || text.trimStart().startsWith('<')) {
+    return parseGreenButton(text, name, getUtcOffset);
+  }
+  return parseLoadCsv(text, name);
+}
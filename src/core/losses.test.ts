@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { calculateTempDerating, calculateIAM, calculateIAMPhysical, calculateSystemLossFactor, calculateTotalSystemLoss, calculateInverterOutput, DEFAULT_SYSTEM_LOSSES } from './losses';
+import { calculateTempDerating, calculateIAM, calculateIAMPhysical, calculateSystemLossFactor, calculateTotalSystemLoss, calculateInverterOutput, DEFAULT_SYSTEM_LOSSES, getLossBreakdown } from './losses';
+import { AnnualOutput } from './types';
 
 
 describe('losses', () => {
@@ -46,6 +47,42 @@ describe('losses', () => {
     expect(result.clippingLoss).toBeGreaterThanOrEqual(0);
   });
 
+  it('should take soiling, snow, shading and tracker losses from the annual simulation', () => {
+    const losses = { temperature: 1, incidenceAngle: 1, spectral: 1, systemTotal: 1, inverterClipping: 0, snow: 0.5 };
+    const annual: AnnualOutput = {
+      year: 2023,
+      monthly: [],
+      hourly: [],
+      annualEnergy: 960000,
+      poaInsolation: 0,
+      specificYield: 0,
+      capacityFactor: 0,
+      performanceRatio: 0,
+      stowHours: 0,
+      rowShadingLoss: 0.06,
+      obstacleShadingLoss: 0.025,
+      soilingLossFraction: 0.035,
+      snowLoss: 40000,
+      snowLossFraction: 0.04,
+      trackerDriveEnergy: 30000,
+      trackerAvailabilityLoss: 10000,
+    };
+    const line = (name: string, year: AnnualOutput | null) =>
+      getLossBreakdown(losses, DEFAULT_SYSTEM_LOSSES, year).find((loss) => loss.name === name)?.percentage;
+
+    expect(line('Snow', null)).toBeCloseTo(50, 6);
+    expect(line('Snow', annual)).toBeCloseTo(4, 6);
+    expect(line('Snow', { ...annual, snowLossFraction: 0 })).toBeUndefined();
+    expect(line('Tracker Drives', annual)).toBeCloseTo(3, 6);
+    expect(line('Tracker Availability', annual)).toBeCloseTo(1, 6);
+    expect(line('Tracker Drives', null)).toBeUndefined();
+    expect(line('Row Shading', annual)).toBeCloseTo(6, 6);
+    expect(line('Row Shading', null)).toBeUndefined();
+    expect(line('Obstacle Shading', annual)).toBeCloseTo(2.5, 6);
+    expect(line('Soiling', annual)).toBeCloseTo(3.5, 6);
+    expect(line('Soiling', null)).toBeCloseTo(DEFAULT_SYSTEM_LOSSES.soiling * 100, 6);
+  });
+
   it('should return zero output when dcPower is zero', () => {
     const result = calculateInverterOutput(0, { efficiency: 0.96, acCapacity: 1000, dcAcRatio: 1.2 }, 1200);
     expect(result.acPower).toBe(0);
@@ -2,18 +2,27 @@
  * PV System Loss Models
  *
  * Implements various loss mechanisms for accurate energy prediction:
- * - Temperature derating (NOCT-based cell temperature)
+ * - Temperature derating (NOCT, Sandia, Faiman or PVsyst cell temperature)
  * - Incidence Angle Modifier (IAM) - ASHRAE model
+ * - Spectral mismatch (see spectral.ts)
  * - Soiling losses
  * - System losses (wiring, mismatch, etc.)
- * - Inverter efficiency and clipping
+ * - Inverter efficiency and clipping (see inverter.ts for the Sandia and curve models)
  *
  * References:
  * - King et al. (2004): Photovoltaic Array Performance Model
  * - De Soto et al. (2006): Improvement and validation of a model for photovoltaic array performance
  */
 
-import { SystemLosses, LossFactors, InverterConfig, PanelConfig } from './types';
+import { AnnualOutput, SystemLosses, LossFactors, InverterConfig, PanelConfig, SpectralConfig, ThermalConfig } from './types';
+import { calculateSpectralFactor, DEFAULT_SPECTRAL_CONFIG } from './spectral';
+import {
+  getInstalledNOCT,
+  calculateSAPMCellTemperature,
+  calculateFaimanCellTemperature,
+  calculatePVsystCellTemperature,
+} from './thermal';
+import { calculateModeledInverterOutput } from './inverter';
 
 // ============================================================
 // Default Loss Values
@@ -41,22 +50,41 @@ export const DEFAULT_INVERTER_CONFIG: InverterConfig = {
 // ============================================================
 
 /**
- * Calculate cell temperature using the NOCT method
+ * Calculate cell temperature
+ *
+ * Uses the NOCT method unless another thermal model is selected
+ * (see thermal.ts).
  *
  * @param ambientTemp - Ambient temperature (°C)
  * @param irradiance - Plane-of-array irradiance (W/m²)
  * @param noct - Nominal Operating Cell Temperature (°C)
  * @param windSpeed - Wind speed (m/s) - optional, affects cooling
+ * @param thermal - Thermal model and mounting (open-rack NOCT when null)
+ * @param efficiency - Module efficiency (0-1), used by the PVsyst model
  * @returns Cell temperature (°C)
  */
 export function calculateCellTemperature(
   ambientTemp: number,
   irradiance: number,
   noct: number = 45,
-  windSpeed: number = 1
+  windSpeed: number = 1,
+  thermal: ThermalConfig | null = null,
+  efficiency: number = 0.2
 ): number {
   if (irradiance <= 0) return ambientTemp;
 
+  switch (thermal?.model) {
+    case 'sapm':
+      return calculateSAPMCellTemperature(ambientTemp, irradiance, windSpeed, thermal.mounting);
+    case 'faiman':
+      return calculateFaimanCellTemperature(ambientTemp, irradiance, windSpeed, thermal.mounting);
+    case 'pvsyst':
+      return calculatePVsystCellTemperature(ambientTemp, irradiance, windSpeed, thermal.mounting, efficiency);
+  }
+
+  // Close mounts run hotter than the open rack NOCT is measured on
+  const installedNOCT = thermal ? getInstalledNOCT(noct, thermal.mounting) : noct;
+
   // NOCT conditions: 800 W/m², 20°C ambient, 1 m/s wind
   const noctIrradiance = 800;
   const noctAmbient = 20;
@@ -66,7 +94,7 @@ export function calculateCellTemperature(
   const windFactor = 1 - 0.1 * Math.min(windSpeed - 1, 5);
 
   // Cell temperature rise above ambient
-  const tempRise = (noct - noctAmbient) * (irradiance / noctIrradiance) * windFactor;
+  const tempRise = (installedNOCT - noctAmbient) * (irradiance / noctIrradiance) * windFactor;
 
   return ambientTemp + tempRise;
 }
@@ -184,16 +212,27 @@ export function calculateTotalSystemLoss(losses: SystemLosses): number {
 /**
  * Calculate inverter output power including efficiency curve and clipping
  *
+ * Uses the Sandia or efficiency-curve model when configured (see
+ * inverter.ts), which also draws the night tare while the array is off.
+ *
  * @param dcPower - DC input power (W)
  * @param inverterConfig - Inverter configuration
  * @param dcCapacity - Total DC array capacity (W)
+ * @param dcVoltage - DC input voltage (V); rated voltage when null
+ * @param units - Number of inverter units (microinverters)
  * @returns Object with AC power and clipping losses
  */
 export function calculateInverterOutput(
   dcPower: number,
   inverterConfig: InverterConfig,
-  dcCapacity: number
+  dcCapacity: number,
+  dcVoltage: number | null = null,
+  units: number = 1
 ): { acPower: number; clippingLoss: number; efficiency: number } {
+  if (inverterConfig.sandia || inverterConfig.efficiencyCurve) {
+    return calculateModeledInverterOutput(dcPower, inverterConfig, dcCapacity, dcVoltage, units);
+  }
+
   if (dcPower <= 0) {
     return { acPower: 0, clippingLoss: 0, efficiency: 0 };
   }
@@ -245,14 +284,20 @@ export function calculateAllLosses(
   angleOfIncidence: number,
   panelConfig: PanelConfig,
   systemLosses: SystemLosses,
-  windSpeed: number = 1
+  windSpeed: number = 1,
+  airMass: number = 1.5,
+  spectralConfig: SpectralConfig | null = DEFAULT_SPECTRAL_CONFIG,
+  precipitableWater?: number,
+  thermal: ThermalConfig | null = null
 ): LossFactors {
   // Cell temperature
   const cellTemp = calculateCellTemperature(
     ambientTemp,
     poaIrradiance,
     panelConfig.noct,
-    windSpeed
+    windSpeed,
+    thermal,
+    panelConfig.efficiency
   );
 
   // Temperature derating
@@ -267,8 +312,13 @@ export function calculateAllLosses(
   // System losses
   const systemTotal = calculateSystemLossFactor(systemLosses);
 
-  // Spectral correction (simplified - assume 1.0 for clear-sky)
-  const spectral = 1.0;
+  // Spectral correction
+  const spectral = calculateSpectralFactor(
+    airMass,
+    panelConfig.technology,
+    spectralConfig,
+    precipitableWater
+  );
 
   return {
     temperature,
@@ -291,10 +341,16 @@ export interface LossBreakdown {
 
 /**
  * Get detailed loss breakdown for display
+ *
+ * @param systemLosses - Losses as applied, with the flat shading cleared when
+ *   rows or obstacles are modelled
+ * @param annual - Annual simulation; its soiling, snow, shading and tracker
+ *   losses are shares of the year, which the instantaneous model never sees
  */
 export function getLossBreakdown(
   losses: LossFactors,
-  systemLosses: SystemLosses
+  systemLosses: SystemLosses,
+  annual: AnnualOutput | null = null
 ): LossBreakdown[] {
   const breakdown: LossBreakdown[] = [];
 
@@ -322,12 +378,48 @@ export function getLossBreakdown(
     });
   }
 
-  // System losses
-  if (systemLosses.soiling > 0) {
+  // Low light (single-diode model)
+  if (losses.lowLight !== undefined && losses.lowLight < 1) {
+    breakdown.push({
+      name: 'Low Light',
+      percentage: (1 - losses.lowLight) * 100,
+      description: 'Lower cell efficiency at reduced irradiance',
+    });
+  }
+
+  // Spectral
+  if (losses.spectral < 1) {
+    breakdown.push({
+      name: 'Spectral',
+      percentage: (1 - losses.spectral) * 100,
+      description: 'Sunlight spectrum shifted away from AM1.5',
+    });
+  } else if (losses.spectral > 1) {
+    breakdown.push({
+      name: 'Spectral (Gain)',
+      percentage: -(losses.spectral - 1) * 100,
+      description: 'Spectrum better matched to the cells than AM1.5',
+    });
+  }
+
+  // System losses; the soiling model replaces the flat soiling percentage
+  const soilingLoss = annual?.soilingLossFraction ?? systemLosses.soiling;
+  if (soilingLoss > 0) {
     breakdown.push({
       name: 'Soiling',
-      percentage: systemLosses.soiling * 100,
-      description: 'Dust and debris on panel surface',
+      percentage: soilingLoss * 100,
+      description: annual?.soilingLossFraction !== undefined
+        ? 'Dust building up between rain and washes'
+        : 'Dust and debris on panel surface',
+    });
+  }
+
+  const snowLoss = annual?.snowLossFraction ?? (losses.snow !== undefined ? 1 - losses.snow : 0);
+  if (snowLoss > 0) {
+    breakdown.push({
+      name: 'Snow',
+      percentage: snowLoss * 100,
+      description: 'Snow cover bypassing module substrings',
     });
   }
 
@@ -339,6 +431,22 @@ export function getLossBreakdown(
     });
   }
 
+  if (annual?.rowShadingLoss !== undefined && annual.rowShadingLoss > 0) {
+    breakdown.push({
+      name: 'Row Shading',
+      percentage: annual.rowShadingLoss * 100,
+      description: 'Front rows blocking beam and sky, including bypassed substrings',
+    });
+  }
+
+  if (annual?.obstacleShadingLoss !== undefined && annual.obstacleShadingLoss > 0) {
+    breakdown.push({
+      name: 'Obstacle Shading',
+      percentage: annual.obstacleShadingLoss * 100,
+      description: 'Ray-cast shade from nearby buildings, trees and roof features',
+    });
+  }
+
   if (systemLosses.mismatch > 0) {
     breakdown.push({
       name: 'Mismatch',
@@ -355,6 +463,22 @@ export function getLossBreakdown(
     });
   }
 
+  if (losses.mpptWindow !== undefined && losses.mpptWindow < 1) {
+    breakdown.push({
+      name: 'MPPT Window',
+      percentage: (1 - losses.mpptWindow) * 100,
+      description: 'Inverter held off the maximum power point by its voltage or current limits',
+    });
+  }
+
+  if (losses.inverterEfficiency !== undefined && losses.inverterEfficiency > 0) {
+    breakdown.push({
+      name: 'Inverter',
+      percentage: (1 - losses.inverterEfficiency) * 100,
+      description: 'DC to AC conversion, lower at part load',
+    });
+  }
+
   if (losses.inverterClipping > 0) {
     breakdown.push({
       name: 'Inverter Clipping',
@@ -363,5 +487,25 @@ export function getLossBreakdown(
     });
   }
 
+  // Tracker losses as shares of the AC energy before them
+  const trackerDrive = annual?.trackerDriveEnergy ?? 0;
+  const trackerDowntime = annual?.trackerAvailabilityLoss ?? 0;
+  const trackerGross = annual ? annual.annualEnergy + trackerDrive + trackerDowntime : 0;
+  if (trackerGross > 0 && trackerDowntime > 0) {
+    breakdown.push({
+      name: 'Tracker Availability',
+      percentage: (trackerDowntime / trackerGross) * 100,
+      description: 'Output lost while the tracker is down for faults or maintenance',
+    });
+  }
+
+  if (trackerGross > 0 && trackerDrive > 0) {
+    breakdown.push({
+      name: 'Tracker Drives',
+      percentage: (trackerDrive / trackerGross) * 100,
+      description: 'Power drawn by the tracker motors and controller',
+    });
+  }
+
   return breakdown;
 }
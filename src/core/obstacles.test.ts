@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateObstacleShading,
+  calculateObstacleSkyFactor,
+  getArrayGrid,
+  rayHitsObstacle,
+} from './obstacles';
+import { Obstacle, PanelConfig } from './types';
+
+const panelConfig: PanelConfig = {
+  width: 1,
+  height: 2,
+  ratedPower: 400,
+  efficiency: 0.2,
+  tempCoefficient: -0.35,
+  noct: 45,
+};
+
+const box = (changes: Partial<Obstacle> = {}): Obstacle => ({
+  id: 'box',
+  type: 'building',
+  shape: 'box',
+  east: 0,
+  north: -5,
+  width: 4,
+  depth: 2,
+  height: 6,
+  rotation: 0,
+  ...changes,
+});
+
+describe('getArrayGrid', () => {
+  it('should fill three rows before adding columns', () => {
+    expect(getArrayGrid(2)).toEqual({ rows: 2, cols: 1 });
+    expect(getArrayGrid(10)).toEqual({ rows: 3, cols: 4 });
+  });
+});
+
+describe('rayHitsObstacle', () => {
+  const south: [number, number, number] = [0, -Math.SQRT1_2, Math.SQRT1_2];
+
+  it('should hit a box in the ray path', () => {
+    // 45° ray from 1 m up reaches 6 m height after 5 m: inside the 4-6 m gap
+    expect(rayHitsObstacle([0, 0, 1], south, box())).toBe(true);
+  });
+
+  it('should pass over a box that is too low', () => {
+    expect(rayHitsObstacle([0, 0, 1], south, box({ height: 2 }))).toBe(false);
+  });
+
+  it('should ignore obstacles behind the ray', () => {
+    expect(rayHitsObstacle([0, 0, 1], south, box({ north: 5 }))).toBe(false);
+  });
+
+  it('should rotate boxes about their centre', () => {
+    // Thin wall 3 m west of a southward ray: missed while it runs N-S, hit once turned E-W
+    const wall = box({ north: -3, width: 0.2, depth: 10, height: 10 });
+    const southRay: [number, number, number] = [0, -1, 0];
+    expect(rayHitsObstacle([3, 0, 1], southRay, wall)).toBe(false);
+    expect(rayHitsObstacle([3, 0, 1], southRay, { ...wall, rotation: 90 })).toBe(true);
+  });
+
+  it('should hit cylinders within their radius and height', () => {
+    const tree: Obstacle = { ...box(), shape: 'cylinder', type: 'tree', width: 2, height: 8 };
+    expect(rayHitsObstacle([0.9, 0, 1], south, tree)).toBe(true);
+    expect(rayHitsObstacle([1.1, 0, 1], south, tree)).toBe(false);
+  });
+});
+
+describe('calculateObstacleShading', () => {
+  it('should shade panels behind a tall obstacle toward the sun', () => {
+    const result = calculateObstacleShading(45, 180, 20, 180, panelConfig, 3, [box()]);
+    expect(result.panelFractions).toHaveLength(3);
+    expect(result.shadedFraction).toBeGreaterThan(0);
+    expect(result.electricalFraction).toBeGreaterThanOrEqual(result.shadedFraction);
+  });
+
+  it('should not shade when the sun is on the other side', () => {
+    const result = calculateObstacleShading(45, 0, 20, 180, panelConfig, 3, [box()]);
+    expect(result.shadedFraction).toBe(0);
+  });
+
+  it('should shade only the panels in line with a narrow obstacle', () => {
+    // Chimney due south of the left end of a 12-panel array
+    const chimney = box({ east: 1.65, width: 0.6, depth: 0.6, height: 4, north: -2 });
+    const result = calculateObstacleShading(45, 180, 20, 180, panelConfig, 12, [chimney]);
+    const shadedPanels = result.panelFractions.filter((f) => f > 0).length;
+    expect(shadedPanels).toBeGreaterThan(0);
+    expect(shadedPanels).toBeLessThan(12);
+  });
+});
+
+describe('calculateObstacleSkyFactor', () => {
+  it('should leave the sky open without obstacles', () => {
+    expect(calculateObstacleSkyFactor(30, 180, panelConfig, 3, [])).toBe(1);
+  });
+
+  it('should hide more sky as a building gets taller', () => {
+    const low = calculateObstacleSkyFactor(30, 180, panelConfig, 3, [box({ height: 3 })]);
+    const tall = calculateObstacleSkyFactor(30, 180, panelConfig, 3, [box({ height: 12 })]);
+    expect(low).toBeLessThan(1);
+    expect(tall).toBeLessThan(low);
+  });
+});
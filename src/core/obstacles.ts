@@ -0,0 +1,308 @@
+/**
+ * Near-Shading Obstacles
+ *
+ * Ray-cast shading of the array by nearby trees, chimneys, buildings and
+ * parapets, modelled as upright boxes and cylinders standing on the ground:
+ * - Panels are laid out as in the 3D scene (up to three rows up the slope)
+ * - Each panel is sampled on a grid; a sample is shaded when the ray
+ *   toward the sun hits an obstacle
+ * - Shaded cells bypass whole substrings, so power drops in steps
+ * - Sky diffuse is reduced by the share of the sky dome the obstacles hide
+ *
+ * References:
+ * - Quaschning & Hanitsch (1998): Irradiance calculation on shaded surfaces, Solar Energy 62:369-375
+ * - Deline et al. (2013): A simplified model of uniform shading in large photovoltaic arrays, Solar Energy 96:274-282
+ */
+
+import { Obstacle, PanelConfig } from './types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// Array layout shared with the 3D scene
+export const ARRAY_MAX_ROWS = 3;
+export const PANEL_GAP = 0.1; // meters between neighbouring panels
+export const ARRAY_MOUNT_HEIGHT = 1; // meters from the ground to the lowest row
+
+// Sample grid on each panel (across x up the slope)
+const SAMPLES_ACROSS = 3;
+const SAMPLES_UP = 5;
+// Substrings per module, each protected by a bypass diode
+const BYPASS_DIODES = 3;
+// Sky dome resolution used for the obstructed diffuse fraction
+const SKY_AZIMUTH_STEP = 10;
+const SKY_ELEVATION_STEP = 6;
+const MAX_CACHE_SIZE = 512;
+
+// ============================================================
+// Array Geometry
+// ============================================================
+
+// (east, north, up) in meters from the array centre at ground level
+type Vector3 = [number, number, number];
+
+/**
+ * Rows and columns of the array (fills up the slope first, max three rows)
+ */
+export function getArrayGrid(panelCount: number): { rows: number; cols: number } {
+  return {
+    rows: Math.min(ARRAY_MAX_ROWS, Math.max(1, panelCount)),
+    cols: Math.max(1, Math.ceil(panelCount / ARRAY_MAX_ROWS)),
+  };
+}
+
+/**
+ * Sample points on each panel
+ *
+ * Panel `index` sits in row index % 3 and column floor(index / 3); the
+ * array hinges on the centre line of the lowest row.
+ *
+ * @returns One list of sample points per panel
+ */
+function getPanelSamplePoints(
+  panelConfig: PanelConfig,
+  panelCount: number,
+  tilt: number,
+  azimuth: number,
+  samplesAcross: number = SAMPLES_ACROSS,
+  samplesUp: number = SAMPLES_UP
+): Vector3[][] {
+  const { cols } = getArrayGrid(panelCount);
+  const tiltRad = tilt * DEG_TO_RAD;
+  const azimuthRad = azimuth * DEG_TO_RAD;
+
+  // Horizontal axis along the rows and the axis up the slope
+  const across: Vector3 = [Math.cos(azimuthRad), -Math.sin(azimuthRad), 0];
+  const upSlope: Vector3 = [
+    -Math.sin(azimuthRad) * Math.cos(tiltRad),
+    -Math.cos(azimuthRad) * Math.cos(tiltRad),
+    Math.sin(tiltRad),
+  ];
+
+  return Array.from({ length: panelCount }, (_, index) => {
+    const row = index % ARRAY_MAX_ROWS;
+    const col = Math.floor(index / ARRAY_MAX_ROWS);
+    const offsetAcross = (col - (cols - 1) / 2) * (panelConfig.width + PANEL_GAP);
+    const offsetUp = row * (panelConfig.height + PANEL_GAP);
+
+    const points: Vector3[] = [];
+    for (let i = 0; i < samplesAcross; i++) {
+      for (let j = 0; j < samplesUp; j++) {
+        const a = offsetAcross + ((i + 0.5) / samplesAcross - 0.5) * panelConfig.width;
+        const b = offsetUp + ((j + 0.5) / samplesUp - 0.5) * panelConfig.height;
+        points.push([
+          a * across[0] + b * upSlope[0],
+          a * across[1] + b * upSlope[1],
+          ARRAY_MOUNT_HEIGHT + b * upSlope[2],
+        ]);
+      }
+    }
+    return points;
+  });
+}
+
+// ============================================================
+// Ray Casting
+// ============================================================
+
+/**
+ * Clip a ray parameter interval [tMin, tMax] to a slab along one axis
+ *
+ * @returns The clipped interval, or null when it is empty
+ */
+function clipSlab(
+  origin: number,
+  direction: number,
+  min: number,
+  max: number,
+  tMin: number,
+  tMax: number
+): [number, number] | null {
+  if (Math.abs(direction) < 1e-12) {
+    return origin < min || origin > max ? null : [tMin, tMax];
+  }
+  const t1 = (min - origin) / direction;
+  const t2 = (max - origin) / direction;
+  const low = Math.max(tMin, Math.min(t1, t2));
+  const high = Math.min(tMax, Math.max(t1, t2));
+  return low <= high ? [low, high] : null;
+}
+
+/**
+ * Check whether a ray hits an obstacle
+ *
+ * @param origin - Ray start (east, north, up)
+ * @param direction - Unit direction (east, north, up)
+ * @param obstacle - Box or cylinder standing on the ground
+ */
+export function rayHitsObstacle(origin: Vector3, direction: Vector3, obstacle: Obstacle): boolean {
+  const px = origin[0] - obstacle.east;
+  const py = origin[1] - obstacle.north;
+  let interval: [number, number] | null = [0, Infinity];
+
+  if (obstacle.shape === 'cylinder') {
+    const radius = obstacle.width / 2;
+    const a = direction[0] ** 2 + direction[1] ** 2;
+    const c = px ** 2 + py ** 2 - radius ** 2;
+    if (a < 1e-12) {
+      if (c > 0) return false;
+    } else {
+      const b = 2 * (px * direction[0] + py * direction[1]);
+      const discriminant = b * b - 4 * a * c;
+      if (discriminant < 0) return false;
+      const root = Math.sqrt(discriminant);
+      interval = [Math.max(0, (-b - root) / (2 * a)), (-b + root) / (2 * a)];
+      if (interval[0] > interval[1]) return false;
+    }
+  } else {
+    // Rotate into the box frame: width along x, depth along y
+    const rotation = obstacle.rotation * DEG_TO_RAD;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const lx = px * cos - py * sin;
+    const ly = px * sin + py * cos;
+    const dx = direction[0] * cos - direction[1] * sin;
+    const dy = direction[0] * sin + direction[1] * cos;
+
+    interval = clipSlab(lx, dx, -obstacle.width / 2, obstacle.width / 2, interval[0], interval[1]);
+    if (!interval) return false;
+    interval = clipSlab(ly, dy, -obstacle.depth / 2, obstacle.depth / 2, interval[0], interval[1]);
+    if (!interval) return false;
+  }
+
+  return clipSlab(origin[2], direction[2], 0, obstacle.height, interval[0], interval[1]) !== null;
+}
+
+function isBlocked(point: Vector3, direction: Vector3, obstacles: Obstacle[]): boolean {
+  return obstacles.some((obstacle) => rayHitsObstacle(point, direction, obstacle));
+}
+
+// ============================================================
+// Beam Shading
+// ============================================================
+
+export interface ObstacleShading {
+  panelFractions: number[]; // Shaded fraction of each panel (0-1)
+  shadedFraction: number; // Shaded fraction of the array (0-1)
+  electricalFraction: number; // Beam power lost once bypassed substrings are counted (0-1)
+}
+
+/**
+ * Calculate obstacle shading of each panel for one sun position
+ *
+ * @param sunZenith - Sun zenith angle (degrees)
+ * @param sunAzimuth - Sun azimuth (degrees from north)
+ * @param tilt - Array tilt (degrees from horizontal)
+ * @param azimuth - Array azimuth (degrees from north)
+ * @param panelConfig - Module dimensions
+ * @param panelCount - Number of panels
+ * @param obstacles - Obstacles around the array
+ */
+export function calculateObstacleShading(
+  sunZenith: number,
+  sunAzimuth: number,
+  tilt: number,
+  azimuth: number,
+  panelConfig: PanelConfig,
+  panelCount: number,
+  obstacles: Obstacle[]
+): ObstacleShading {
+  if (sunZenith >= 90 || obstacles.length === 0 || panelCount <= 0) {
+    return { panelFractions: new Array(Math.max(0, panelCount)).fill(0), shadedFraction: 0, electricalFraction: 0 };
+  }
+
+  const zenithRad = sunZenith * DEG_TO_RAD;
+  const azimuthRad = sunAzimuth * DEG_TO_RAD;
+  const sun: Vector3 = [
+    Math.sin(zenithRad) * Math.sin(azimuthRad),
+    Math.sin(zenithRad) * Math.cos(azimuthRad),
+    Math.cos(zenithRad),
+  ];
+
+  const panels = getPanelSamplePoints(panelConfig, panelCount, tilt, azimuth);
+  const panelFractions = panels.map(
+    (points) => points.filter((point) => isBlocked(point, sun, obstacles)).length / points.length
+  );
+
+  // A shaded cell bypasses its substring, so the loss rounds up per module
+  const electrical = panelFractions.map((f) =>
+    f > 0 ? Math.max(f, Math.ceil(f * BYPASS_DIODES - 1e-9) / BYPASS_DIODES) : 0
+  );
+
+  return {
+    panelFractions,
+    shadedFraction: panelFractions.reduce((sum, f) => sum + f, 0) / panelCount,
+    electricalFraction: Math.min(1, electrical.reduce((sum, f) => sum + f, 0) / panelCount),
+  };
+}
+
+// ============================================================
+// Sky Obstruction
+// ============================================================
+
+const skyFactorCache = new Map<string, number>();
+
+/**
+ * Calculate the isotropic sky diffuse remaining with obstacles in view
+ *
+ * Averages the cosine-weighted visible sky over the panel centres.
+ *
+ * @param tilt - Array tilt (degrees from horizontal)
+ * @param azimuth - Array azimuth (degrees from north)
+ * @param panelConfig - Module dimensions
+ * @param panelCount - Number of panels
+ * @param obstacles - Obstacles around the array
+ * @returns Ratio of obstructed to open sky diffuse (0-1)
+ */
+export function calculateObstacleSkyFactor(
+  tilt: number,
+  azimuth: number,
+  panelConfig: PanelConfig,
+  panelCount: number,
+  obstacles: Obstacle[]
+): number {
+  if (obstacles.length === 0 || panelCount <= 0) return 1;
+
+  // Trackers sweep through many orientations; 1° resolution is plenty for diffuse light
+  const roundedTilt = Math.round(tilt);
+  const roundedAzimuth = ((Math.round(azimuth) % 360) + 360) % 360;
+  const key = JSON.stringify([roundedTilt, roundedAzimuth, panelConfig.width, panelConfig.height, panelCount, obstacles]);
+  const cached = skyFactorCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const tiltRad = roundedTilt * DEG_TO_RAD;
+  const azimuthRad = roundedAzimuth * DEG_TO_RAD;
+  const normal: Vector3 = [
+    Math.sin(tiltRad) * Math.sin(azimuthRad),
+    Math.sin(tiltRad) * Math.cos(azimuthRad),
+    Math.cos(tiltRad),
+  ];
+  const centres = getPanelSamplePoints(panelConfig, panelCount, roundedTilt, roundedAzimuth, 1, 1)
+    .map((points) => points[0]);
+
+  let open = 0;
+  let visible = 0;
+
+  for (let a = SKY_AZIMUTH_STEP / 2; a < 360; a += SKY_AZIMUTH_STEP) {
+    for (let e = SKY_ELEVATION_STEP / 2; e < 90; e += SKY_ELEVATION_STEP) {
+      const cosE = Math.cos(e * DEG_TO_RAD);
+      const direction: Vector3 = [
+        cosE * Math.sin(a * DEG_TO_RAD),
+        cosE * Math.cos(a * DEG_TO_RAD),
+        Math.sin(e * DEG_TO_RAD),
+      ];
+      const cosIncidence = direction[0] * normal[0] + direction[1] * normal[1] + direction[2] * normal[2];
+      if (cosIncidence <= 0) continue;
+
+      // Solid angle of the cell shrinks toward the zenith
+      const weight = cosIncidence * cosE;
+      const unblocked = centres.filter((point) => !isBlocked(point, direction, obstacles)).length;
+      open += weight;
+      visible += weight * (unblocked / centres.length);
+    }
+  }
+
+  const factor = open > 0 ? visible / open : 1;
+  if (skyFactorCache.size >= MAX_CACHE_SIZE) skyFactorCache.clear();
+  skyFactorCache.set(key, factor);
+  return factor;
+}
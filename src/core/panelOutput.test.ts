@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { calculateDailyPowerOutput, calculatePanelPower, calculatePOAIrradiance, calculateAngleOfIncidence, calculateDCPower } from './panelOutput';
-import { Irradiance, PanelConfig, PanelOrientation, SolarPosition } from './types';
+import { calculateDailyPowerOutput, calculatePanelPower, calculatePOAIrradiance, calculateAngleOfIncidence, calculateDCPower, getDailySampleHours, integrateTrapezoidal } from './panelOutput';
+import { DEFAULT_INVERTER_CONFIG, DEFAULT_SYSTEM_LOSSES } from './losses';
+import { Irradiance, PanelConfig, PanelOrientation, SolarPosition, SubArraySimulation } from './types';
 
 const panelConfig: PanelConfig = {
   width: 1,
@@ -43,8 +44,8 @@ const baseSolarPosition: SolarPosition = {
 
 describe('calculateDailyPowerOutput', () => {
   it('should compute peak power and total energy for constant conditions', () => {
-    const hourlyIrradiance = Array.from({ length: 24 }, () => baseIrradiance);
-    const hourlyPositions = Array.from({ length: 24 }, () => baseSolarPosition);
+    const hourlyIrradiance = Array.from({ length: 25 }, () => baseIrradiance);
+    const hourlyPositions = Array.from({ length: 25 }, () => baseSolarPosition);
 
     const output = calculateDailyPowerOutput(
       hourlyIrradiance,
@@ -71,6 +72,46 @@ describe('calculateDailyPowerOutput', () => {
     expect(output.peakHour).toBe(0);
     expect(output.dailyEnergy).toBeCloseTo(acPower * 24, 2);
   });
+
+  it('should integrate sub-hourly samples with the same total for constant conditions', () => {
+    const samples = getDailySampleHours(5);
+    const output = calculateDailyPowerOutput(
+      samples.map(() => baseIrradiance),
+      samples.map(() => baseSolarPosition),
+      panelConfig,
+      orientation,
+      1,
+      25,
+      0.2,
+      undefined,
+      undefined,
+      'UTC',
+      5
+    );
+
+    expect(output.hourlyData).toHaveLength(24 * 12 + 1);
+    expect(output.hourlyData[13].localHour).toBeCloseTo(13 / 12, 6);
+    expect(output.hourlyData[13].hour).toBe(1);
+    expect(output.timestepMinutes).toBe(5);
+    expect(output.dailyEnergy).toBeCloseTo(output.peakPower * 24, 2);
+  });
+});
+
+describe('timestep helpers', () => {
+  it('should sample from midnight to midnight inclusive', () => {
+    expect(getDailySampleHours(60)).toHaveLength(25);
+    expect(getDailySampleHours(15)).toHaveLength(97);
+    expect(getDailySampleHours(1)).toHaveLength(1441);
+    expect(getDailySampleHours(15).at(-1)).toBe(24);
+  });
+
+  it('should integrate with the trapezoidal rule', () => {
+    // Triangle: 0 → 1000 W → 0 over two hours = 1000 Wh
+    expect(integrateTrapezoidal([0, 1000, 0], 1)).toBe(1000);
+    // Linear ramp sampled every 15 minutes is integrated exactly
+    const ramp = [0, 250, 500, 750, 1000];
+    expect(integrateTrapezoidal(ramp, 0.25)).toBe(500);
+  });
 });
 
 describe('panel output helpers', () => {
@@ -87,6 +128,44 @@ describe('panel output helpers', () => {
     expect(result.losses.systemTotal).toBeGreaterThan(0);
   });
 
+  it('should scale DC power by the spectral factor', () => {
+    const poa = calculatePOAIrradiance(baseIrradiance, baseSolarPosition.zenith, baseSolarPosition.azimuth, orientation.tilt, orientation.azimuth, 0.2);
+    const reference = calculateDCPower(poa, panelConfig, 25);
+    const result = calculateDCPower(poa, panelConfig, 25, undefined, 1, 0.95);
+    expect(reference.losses.spectral).toBe(1);
+    expect(result.losses.spectral).toBe(0.95);
+    expect(result.dcPower).toBeLessThan(reference.dcPower);
+  });
+
+  it('should use the single-diode model when datasheet values are given', () => {
+    const electrical = { voc: 46.6, isc: 9.96, vmp: 39.2, imp: 8.93, tempCoefficientVoc: -0.29, tempCoefficientIsc: 0.05 };
+    const diodeConfig = { ...panelConfig, electrical };
+    const poa = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2);
+    const dim = { ...poa, total: poa.total * 0.2, effectiveIrradiance: poa.effectiveIrradiance * 0.2 };
+
+    const linear = calculateDCPower(dim, panelConfig, 25);
+    const result = calculateDCPower(dim, diodeConfig, 25);
+    expect(linear.losses.lowLight).toBeUndefined();
+    expect(result.losses.lowLight).toBeLessThan(1);
+    expect(result.dcPower).toBeCloseTo(linear.dcPower * result.losses.lowLight! * result.losses.temperature / linear.losses.temperature, 6);
+  });
+
+  it('should feed the string voltage to the Sandia inverter model', () => {
+    const electrical = { voc: 46.6, isc: 9.96, vmp: 39.2, imp: 8.93, tempCoefficientVoc: -0.29, tempCoefficientIsc: 0.05 };
+    const diodeConfig = { ...panelConfig, ratedPower: 350, electrical };
+    const poa = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2);
+    const sandia = { paco: 5000, pdco: 5170, vdco: 420, pso: 25, c0: -3.4e-6, c1: -1.8e-5, c2: 2e-3, c3: -1.2e-3, pnt: 1.5 };
+    const inverter = { efficiency: 0.96, acCapacity: 5000, dcAcRatio: 1.2, sandia };
+    const strings = (modulesPerString: number) => ({ modulesPerString, stringsPerMppt: 1, mpptCount: 10 / modulesPerString });
+
+    const rated = calculatePanelPower(poa, diodeConfig, 25, 10, undefined, inverter);
+    const low = calculatePanelPower(poa, diodeConfig, 25, 10, undefined, { ...inverter, strings: strings(5) });
+    const high = calculatePanelPower(poa, diodeConfig, 25, 10, undefined, { ...inverter, strings: strings(10) });
+    expect(rated.losses.inverterEfficiency).toBeCloseTo(rated.acPower / rated.dcPower, 9);
+    expect(low.dcPower).toBeCloseTo(rated.dcPower, 9);
+    expect(low.acPower).not.toBeCloseTo(high.acPower, 3);
+  });
+
   it('should return zero power at night', () => {
     const nightIrradiance = { ...baseIrradiance, ghi: 0, dni: 0, dhi: 0 };
     const poa = calculatePOAIrradiance(nightIrradiance, 95, baseSolarPosition.azimuth, orientation.tilt, orientation.azimuth, 0.2);
@@ -94,3 +173,98 @@ describe('panel output helpers', () => {
     expect(result.dcPower).toBe(0);
   });
 });
+
+describe('bifacial panels', () => {
+  const bifacialConfig = { groundClearance: 1, rowSpacing: 5, rearMismatch: 0.05, rearShading: 0.05 };
+
+  it('should report rear irradiance only when a bifacial geometry is given', () => {
+    const front = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2);
+    expect(front.rear).toBeUndefined();
+
+    const poa = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2, bifacialConfig, 2);
+    expect(poa.total).toBeCloseTo(front.total, 9);
+    expect(poa.rear).toBeGreaterThan(0);
+    expect(poa.effectiveRear).toBeCloseTo(poa.rear! * 0.95 * 0.95, 9);
+  });
+
+  it('should add rear irradiance scaled by bifaciality to DC power', () => {
+    const poa = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2, bifacialConfig, 2);
+    const monofacial = calculateDCPower(poa, panelConfig, 25);
+    const bifacial = calculateDCPower(poa, { ...panelConfig, bifacial: true, bifacialityFactor: 0.8 }, 25);
+
+    const expectedGain = (poa.effectiveRear! * 0.8) / poa.effectiveIrradiance;
+    expect(monofacial.losses.bifacialGain).toBeUndefined();
+    expect(bifacial.losses.bifacialGain).toBeCloseTo(expectedGain, 9);
+    expect(bifacial.dcPower / monofacial.dcPower).toBeCloseTo(1 + expectedGain, 9);
+  });
+});
+
+describe('row-to-row shading', () => {
+  const shading = { shadedFraction: 0.25, electricalFraction: 1 / 3, diffuseFactor: 0.9 };
+
+  it('should shade the beam and reduce sky diffuse', () => {
+    const open = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2);
+    const shaded = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2, null, 2, shading);
+    expect(shaded.beam).toBeCloseTo(open.beam * 0.75, 9);
+    expect(shaded.diffuse).toBeCloseTo(open.diffuse * 0.9, 9);
+    expect(shaded.reflected).toBeCloseTo(open.reflected, 9);
+    expect(shaded.shadedFraction).toBe(0.25);
+  });
+
+  it('should lose beam from bypassed substrings in effective irradiance', () => {
+    const open = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2);
+    const shaded = calculatePOAIrradiance(baseIrradiance, 30, 180, 20, 180, 0.2, null, 2, shading);
+    const openEffectiveBeam = open.effectiveIrradiance - open.diffuse * 0.97 - open.reflected;
+    const shadedEffectiveBeam = shaded.effectiveIrradiance - shaded.diffuse * 0.97 - shaded.reflected;
+    expect(shadedEffectiveBeam).toBeCloseTo(openEffectiveBeam * (2 / 3), 6);
+  });
+});
+
+describe('sub-arrays', () => {
+  const samples = Array.from({ length: 25 }, () => baseIrradiance);
+  const positions = Array.from({ length: 25 }, () => baseSolarPosition);
+  const subArray: SubArraySimulation = {
+    id: 'garage',
+    name: 'Garage',
+    panelConfig,
+    orientation,
+    panelCount: 1,
+    systemLosses: DEFAULT_SYSTEM_LOSSES,
+    inverterConfig: DEFAULT_INVERTER_CONFIG,
+  };
+
+  function daily(subArrays: SubArraySimulation[] | null, inverterConfig = DEFAULT_INVERTER_CONFIG) {
+    return calculateDailyPowerOutput(
+      samples, positions, panelConfig, orientation, 1, 25, 0.2, DEFAULT_SYSTEM_LOSSES, inverterConfig,
+      'UTC', 60, undefined, null, null, null, null, null, null, null, null, subArrays
+    );
+  }
+
+  it('should add an identical sub-array on its own inverter', () => {
+    const single = daily(null);
+    const double = daily([subArray]);
+    expect(single.arrays).toBeUndefined();
+    expect(double.dailyEnergy).toBeCloseTo(single.dailyEnergy * 2, 6);
+    expect(double.performanceRatio).toBeCloseTo(single.performanceRatio, 9);
+    expect(double.arrays!.map((a) => a.id)).toEqual(['main', 'garage']);
+    expect(double.arrays![0].energy + double.arrays![1].energy).toBeCloseTo(double.dailyEnergy, 6);
+  });
+
+  it('should turn the sub-array to its own orientation', () => {
+    const north = daily([{ ...subArray, orientation: { tilt: 20, azimuth: 0 } }]);
+    expect(north.arrays![1].energy).toBeLessThan(north.arrays![0].energy);
+    expect(north.hourlyData[0].arrays![1].dcPower).toBeLessThan(north.hourlyData[0].arrays![0].dcPower);
+  });
+
+  it('should clip arrays sharing the main inverter together', () => {
+    const inverter = { ...DEFAULT_INVERTER_CONFIG, acCapacity: 1000 };
+    const own = daily([{ ...subArray, inverterConfig: inverter }], inverter);
+    const shared = daily([{ ...subArray, inverterConfig: null }], inverter);
+    expect(shared.peakPower).toBeCloseTo(1000, 6);
+    expect(own.peakPower).toBeGreaterThan(shared.peakPower);
+    // The shared output is split by DC input
+    const [main, garage] = shared.hourlyData[12].arrays!;
+    expect(main.acPower).toBeCloseTo(garage.acPower, 6);
+    expect(main.acPower + garage.acPower).toBeCloseTo(1000, 6);
+  });
+});
@@ -3,10 +3,13 @@
  *
  * Calculates power output from solar panels including:
  * - Plane-of-Array (POA) irradiance with Perez diffuse model
+ * - Bifacial rear-side gain
+ * - Row-to-row shading
  * - Temperature derating
  * - Incidence angle modifier (IAM)
  * - System losses
  * - Inverter efficiency and clipping
+ * - Sub-arrays with their own orientation, optionally sharing the inverter
  *
  * References:
  * - Perez et al. (1990): Modeling daylight availability and irradiance components
@@ -24,6 +27,19 @@ import {
   SystemLosses,
   InverterConfig,
   SolarPosition,
+  TimestepMinutes,
+  TrackerConfig,
+  DualAxisConfig,
+  BifacialConfig,
+  RowShadingConfig,
+  ShadingFactors,
+  HorizonProfile,
+  Obstacle,
+  SpectralConfig,
+  ThermalConfig,
+  SubArraySimulation,
+  ArrayPower,
+  ArrayEnergy,
 } from './types';
 import {
   calculateClearness,
@@ -39,6 +55,13 @@ import {
   DEFAULT_SYSTEM_LOSSES,
   DEFAULT_INVERTER_CONFIG,
 } from './losses';
+import { applyTrackerLosses, getSurfaceOrientation } from './tracking';
+import { calculateRearIrradiance, DEFAULT_BIFACIALITY } from './bifacial';
+import { calculateShadingFactors } from './shading';
+import { calculateSpectralFactor } from './spectral';
+import { fitSingleDiodeParameters, calculateOperatingPoint } from './singleDiode';
+import { calculateMPPTOperatingPoint } from './stringSizing';
+import { getInverterCount } from './inverter';
 
 const DEG_TO_RAD = Math.PI / 180;
 
@@ -86,6 +109,9 @@ export function calculateAngleOfIncidence(
  * @param tilt - Panel tilt (degrees from horizontal)
  * @param azimuth - Panel azimuth (degrees from north)
  * @param albedo - Ground reflectance (0-1, default 0.2)
+ * @param bifacial - Rear-side geometry and losses (null for monofacial)
+ * @param collectorWidth - Module slant height across the row (meters)
+ * @param shading - Row and horizon shading factors (null when not modelled)
  */
 export function calculatePOAIrradiance(
   irradiance: Irradiance,
@@ -93,7 +119,10 @@ export function calculatePOAIrradiance(
   sunAzimuth: number,
   tilt: number,
   azimuth: number,
-  albedo: number = 0.2
+  albedo: number = 0.2,
+  bifacial: BifacialConfig | null = null,
+  collectorWidth: number = 2,
+  shading: ShadingFactors | null = null
 ): POAIrradiance {
   // No irradiance at night
   if (sunZenith >= 90 || irradiance.ghi <= 0) {
@@ -150,6 +179,16 @@ export function calculatePOAIrradiance(
     diffuse = Math.max(0, diffuseIsotropic + diffuseCircumsolar + diffuseHorizon);
   }
 
+  // ========== Row and Horizon Shading ==========
+  // The front row or terrain blocks part of the beam and masks the sky;
+  // bypassed substrings lose their beam even where the cells are still lit
+  let electricalBeam = beam;
+  if (shading) {
+    electricalBeam = beam * (1 - shading.electricalFraction);
+    beam *= 1 - shading.shadedFraction;
+    diffuse *= shading.diffuseFactor;
+  }
+
   // ========== Ground Reflected Component ==========
   const groundViewFactor = (1 - cosTilt) / 2;
   const reflected = irradiance.ghi * albedo * groundViewFactor;
@@ -159,13 +198,13 @@ export function calculatePOAIrradiance(
 
   // ========== IAM Correction ==========
   const iam = calculateIAM(aoi);
-  const effectiveBeam = beam * iam;
+  const effectiveBeam = electricalBeam * iam;
   // IAM for diffuse is typically ~0.97 (average over hemisphere)
   const iamDiffuse = 0.97;
   const effectiveDiffuse = diffuse * iamDiffuse;
   const effectiveIrradiance = effectiveBeam + effectiveDiffuse + reflected;
 
-  return {
+  const result: POAIrradiance = {
     total: Math.max(0, total),
     beam: Math.max(0, beam),
     diffuse: Math.max(0, diffuse),
@@ -173,28 +212,85 @@ export function calculatePOAIrradiance(
     angleOfIncidence: aoi,
     effectiveIrradiance: Math.max(0, effectiveIrradiance),
   };
+  if (shading) {
+    result.shadedFraction = shading.shadedFraction;
+  }
+
+  // ========== Rear Side (Bifacial) ==========
+  if (bifacial) {
+    const rear = calculateRearIrradiance(
+      irradiance,
+      sunZenith,
+      sunAzimuth,
+      tilt,
+      azimuth,
+      albedo,
+      bifacial,
+      collectorWidth
+    );
+    result.rear = rear;
+    result.effectiveRear = rear * (1 - bifacial.rearMismatch) * (1 - bifacial.rearShading);
+  }
+
+  return result;
 }
 
 // ============================================================
 // DC Power Calculation
 // ============================================================
 
+/**
+ * Irradiance converted by the cells: front plus bifacial rear, after
+ * reflection and spectral losses
+ *
+ * @param poaIrradiance - POA irradiance data
+ * @param panelConfig - Panel configuration
+ * @param spectralFactor - Spectral mismatch correction
+ * @returns Effective irradiance (W/m²)
+ */
+export function getModuleIrradiance(
+  poaIrradiance: POAIrradiance,
+  panelConfig: PanelConfig,
+  spectralFactor: number = 1
+): number {
+  // Rear-side irradiance adds to the front in proportion to bifaciality
+  const rearIrradiance = panelConfig.bifacial
+    ? (poaIrradiance.effectiveRear ?? 0) * (panelConfig.bifacialityFactor ?? DEFAULT_BIFACIALITY)
+    : 0;
+  return (poaIrradiance.effectiveIrradiance + rearIrradiance) * spectralFactor;
+}
+
 /**
  * Calculate DC power output from panels
  *
+ * With datasheet electrical values the single-diode model sets the
+ * low-light and temperature behaviour; otherwise power scales linearly
+ * with irradiance and the temperature coefficient.
+ *
  * @param poaIrradiance - POA irradiance data
  * @param panelConfig - Panel configuration
  * @param ambientTemp - Ambient temperature (°C)
  * @param systemLosses - System loss factors
+ * @param windSpeed - Wind speed (m/s)
+ * @param spectralFactor - Spectral mismatch correction (see spectral.ts)
+ * @param thermal - Cell temperature model (open-rack NOCT when null)
  * @returns DC power in Watts and loss factors
  */
 export function calculateDCPower(
   poaIrradiance: POAIrradiance,
   panelConfig: PanelConfig,
   ambientTemp: number,
-  systemLosses: SystemLosses = DEFAULT_SYSTEM_LOSSES
+  systemLosses: SystemLosses = DEFAULT_SYSTEM_LOSSES,
+  windSpeed: number = 1,
+  spectralFactor: number = 1,
+  thermal: ThermalConfig | null = null
 ): { dcPower: number; cellTemp: number; losses: LossFactors } {
-  if (poaIrradiance.effectiveIrradiance <= 0) {
+  // Rear-side irradiance adds to the front in proportion to bifaciality
+  const rearIrradiance = panelConfig.bifacial
+    ? (poaIrradiance.effectiveRear ?? 0) * (panelConfig.bifacialityFactor ?? DEFAULT_BIFACIALITY)
+    : 0;
+
+  if (poaIrradiance.effectiveIrradiance + rearIrradiance <= 0) {
     return {
       dcPower: 0,
       cellTemp: ambientTemp,
@@ -209,16 +305,29 @@ export function calculateDCPower(
   }
 
   const stcIrradiance = 1000; // W/m² at STC
+  const moduleIrradiance = getModuleIrradiance(poaIrradiance, panelConfig, spectralFactor);
 
   // Calculate cell temperature
   const cellTemp = calculateCellTemperature(
     ambientTemp,
     poaIrradiance.total,
-    panelConfig.noct
+    panelConfig.noct,
+    windSpeed,
+    thermal,
+    panelConfig.efficiency
   );
 
-  // Temperature derating
-  const tempFactor = calculateTempDerating(cellTemp, panelConfig.tempCoefficient);
+  // Temperature derating and low-light efficiency
+  let tempFactor = calculateTempDerating(cellTemp, panelConfig.tempCoefficient);
+  let lowLightFactor: number | undefined;
+  if (panelConfig.electrical) {
+    const params = fitSingleDiodeParameters(panelConfig.electrical, panelConfig.technology);
+    const stcPower = calculateOperatingPoint(params, stcIrradiance, 25).power;
+    const atStcTemp = calculateOperatingPoint(params, moduleIrradiance, 25).power;
+    const operating = calculateOperatingPoint(params, moduleIrradiance, cellTemp).power;
+    lowLightFactor = stcPower > 0 ? atStcTemp / (stcPower * (moduleIrradiance / stcIrradiance)) : 1;
+    tempFactor = atStcTemp > 0 ? operating / atStcTemp : 1;
+  }
 
   // IAM is already applied in effectiveIrradiance
   const iamFactor = poaIrradiance.effectiveIrradiance / (poaIrradiance.total || 1);
@@ -227,25 +336,40 @@ export function calculateDCPower(
   const systemFactor = calculateSystemLossFactor(systemLosses);
 
   // DC power calculation
-  // Power is proportional to effective irradiance, adjusted for temperature and losses
-  const irradianceFactor = poaIrradiance.effectiveIrradiance / stcIrradiance;
-  const dcPower = panelConfig.ratedPower * irradianceFactor * tempFactor * systemFactor;
+  // Power is proportional to effective irradiance, adjusted for spectrum, temperature and losses
+  const irradianceFactor = moduleIrradiance / stcIrradiance;
+  const dcPower = panelConfig.ratedPower * irradianceFactor * (lowLightFactor ?? 1) * tempFactor * systemFactor;
+
+  const losses: LossFactors = {
+    temperature: tempFactor,
+    incidenceAngle: iamFactor,
+    spectral: spectralFactor,
+    systemTotal: systemFactor,
+    inverterClipping: 0,
+  };
+  if (lowLightFactor !== undefined) {
+    losses.lowLight = lowLightFactor;
+  }
+  if (panelConfig.bifacial) {
+    losses.bifacialGain = poaIrradiance.effectiveIrradiance > 0
+      ? rearIrradiance / poaIrradiance.effectiveIrradiance
+      : 0;
+  }
 
   return {
     dcPower: Math.max(0, dcPower),
     cellTemp,
-    losses: {
-      temperature: tempFactor,
-      incidenceAngle: iamFactor,
-      spectral: 1,
-      systemTotal: systemFactor,
-      inverterClipping: 0,
-    },
+    losses,
   };
 }
 
 /**
  * Calculate AC power output after inverter
+ *
+ * With a string layout and inverter limits, DC power is reduced while the
+ * operating voltage or current is outside what the inverter accepts. With
+ * an inverter model, AC power is negative at night (tare draw). Snow cover
+ * scales the DC power ahead of the inverter.
  */
 export function calculatePanelPower(
   poaIrradiance: POAIrradiance,
@@ -253,23 +377,56 @@ export function calculatePanelPower(
   ambientTemp: number,
   panelCount: number = 1,
   systemLosses: SystemLosses = DEFAULT_SYSTEM_LOSSES,
-  inverterConfig: InverterConfig = DEFAULT_INVERTER_CONFIG
+  inverterConfig: InverterConfig = DEFAULT_INVERTER_CONFIG,
+  windSpeed: number = 1,
+  spectralFactor: number = 1,
+  thermal: ThermalConfig | null = null,
+  snowFactor: number = 1
 ): { acPower: number; dcPower: number; cellTemp: number; losses: LossFactors } {
   const { dcPower, cellTemp, losses } = calculateDCPower(
     poaIrradiance,
     panelConfig,
     ambientTemp,
-    systemLosses
+    systemLosses,
+    windSpeed,
+    spectralFactor,
+    thermal
   );
 
-  const totalDCPower = dcPower * panelCount;
+  // The Sandia inverter model also needs the DC input voltage
+  const windowed = Boolean(inverterConfig.strings && inverterConfig.limits);
+  const operating = windowed || inverterConfig.sandia
+    ? calculateMPPTOperatingPoint(
+      panelConfig,
+      inverterConfig,
+      getModuleIrradiance(poaIrradiance, panelConfig, spectralFactor),
+      cellTemp
+    )
+    : { factor: 1, voltage: null };
+  if (windowed) {
+    losses.mpptWindow = operating.factor;
+  }
+
+  const seriesModules = inverterConfig.modulesPerInverter ? 1 : inverterConfig.strings?.modulesPerString;
+  const dcVoltage = operating.voltage !== null && seriesModules ? operating.voltage * seriesModules : null;
+
+  if (snowFactor < 1) {
+    losses.snow = snowFactor;
+  }
+
+  const totalDCPower = dcPower * operating.factor * panelCount * snowFactor;
   const dcCapacity = panelConfig.ratedPower * panelCount;
 
   const inverterResult = calculateInverterOutput(
     totalDCPower,
     inverterConfig,
-    dcCapacity
+    dcCapacity,
+    dcVoltage,
+    getInverterCount(inverterConfig, panelCount)
   );
+  if (inverterConfig.sandia || inverterConfig.efficiencyCurve) {
+    losses.inverterEfficiency = inverterResult.efficiency;
+  }
 
   // Update losses with clipping
   const clippingPercentage = totalDCPower > 0
@@ -287,16 +444,240 @@ export function calculatePanelPower(
   };
 }
 
+// ============================================================
+// Sub-Arrays
+// ============================================================
+
+/**
+ * Array id of the main array in per-array results
+ */
+export const MAIN_ARRAY_ID = 'main';
+export const MAIN_ARRAY_NAME = 'Main array';
+
+export interface SubArrayPower {
+  surfaceOrientation: PanelOrientation; // Current plane orientation (rotates with trackers)
+  trackerRotation?: number;
+  stowed?: boolean;
+  poaIrradiance: POAIrradiance;
+  cellTemp: number;
+  dcPower: number; // Watts
+  acPower: number; // Watts; 0 for a shared inverter until combineArrayPower
+  losses: LossFactors;
+}
+
+/**
+ * Calculate a sub-array's output at an instant
+ *
+ * Sub-arrays see the same sky, horizon and models as the main array; row
+ * shading applies to the main array only. A sub-array wired to the main
+ * inverter reports DC power only.
+ *
+ * @param subArray - Resolved sub-array
+ * @param irradiance - Horizontal irradiance
+ * @param position - Solar position
+ * @param conditions - Ambient temperature, wind and precipitable water
+ * @param albedo - Ground reflectance
+ * @param horizon - Far-horizon profile (null for an open horizon)
+ * @param spectral - Spectral mismatch model (no correction when null)
+ * @param thermal - Cell temperature model (open-rack NOCT when null)
+ * @param snowFactor - DC power kept under snow cover (0-1)
+ */
+export function calculateSubArrayPower(
+  subArray: SubArraySimulation,
+  irradiance: Irradiance,
+  position: SolarPosition,
+  conditions: { ambientTemp: number; windSpeed: number; precipitableWater?: number },
+  albedo: number = 0.2,
+  horizon: HorizonProfile | null = null,
+  spectral: SpectralConfig | null = null,
+  thermal: ThermalConfig | null = null,
+  snowFactor: number = 1
+): SubArrayPower {
+  const { panelConfig, panelCount } = subArray;
+  const obstacles = subArray.obstacles?.length ? subArray.obstacles : null;
+  const surface = getSurfaceOrientation(
+    position,
+    subArray.orientation,
+    subArray.tracker ?? null,
+    subArray.dualAxis ?? null,
+    conditions.windSpeed
+  );
+
+  const poaIrradiance = calculatePOAIrradiance(
+    irradiance,
+    position.zenith,
+    position.azimuth,
+    surface.orientation.tilt,
+    surface.orientation.azimuth,
+    albedo,
+    subArray.bifacial ?? null,
+    panelConfig.height,
+    calculateShadingFactors(
+      position.zenith,
+      position.azimuth,
+      surface.orientation.tilt,
+      surface.orientation.azimuth,
+      panelConfig,
+      null,
+      horizon,
+      obstacles,
+      panelCount
+    )
+  );
+
+  // The main inverter's string layout belongs to the main array
+  const { acPower, dcPower, cellTemp, losses } = calculatePanelPower(
+    poaIrradiance,
+    panelConfig,
+    conditions.ambientTemp,
+    panelCount,
+    obstacles ? { ...subArray.systemLosses, shading: 0 } : subArray.systemLosses,
+    subArray.inverterConfig ?? DEFAULT_INVERTER_CONFIG,
+    conditions.windSpeed,
+    calculateSpectralFactor(
+      irradiance.airMass,
+      panelConfig.technology,
+      spectral,
+      conditions.precipitableWater
+    ),
+    thermal,
+    snowFactor
+  );
+
+  return {
+    surfaceOrientation: surface.orientation,
+    trackerRotation: surface.trackerRotation,
+    stowed: surface.stowed,
+    poaIrradiance,
+    cellTemp,
+    dcPower,
+    acPower: subArray.inverterConfig ? acPower : 0,
+    losses,
+  };
+}
+
+/**
+ * Combine the main array with its sub-arrays
+ *
+ * Sub-arrays on the main inverter run through it together with the main
+ * array (at its rated DC voltage), so their peaks share its clipping; the
+ * shared output is split by DC input and the night tare falls on the main
+ * array. The rest keep their own inverter output.
+ *
+ * @param main - Main array output from calculatePanelPower
+ * @param panelConfig - Main array panels
+ * @param panelCount - Main array module count
+ * @param inverterConfig - Main inverter
+ * @param subArrays - Resolved sub-arrays
+ * @param subPowers - Output of each sub-array (calculateSubArrayPower)
+ * @returns Totals, per-array power and the shared inverter's clipping
+ *   (percent of its DC input; null when no sub-array shares it)
+ */
+export function combineArrayPower(
+  main: { dcPower: number; acPower: number },
+  panelConfig: PanelConfig,
+  panelCount: number,
+  inverterConfig: InverterConfig,
+  subArrays: SubArraySimulation[],
+  subPowers: SubArrayPower[]
+): { dcPower: number; acPower: number; arrays: ArrayPower[]; inverterClipping: number | null } {
+  const shared = subArrays.flatMap((subArray, i) => (subArray.inverterConfig ? [] : [i]));
+  let mainAc = main.acPower;
+  const subAc = subPowers.map((power) => power.acPower);
+  let inverterClipping: number | null = null;
+
+  if (shared.length > 0) {
+    const sharedDc = main.dcPower + shared.reduce((sum, i) => sum + subPowers[i].dcPower, 0);
+    const sharedCount = panelCount + shared.reduce((sum, i) => sum + subArrays[i].panelCount, 0);
+    const sharedCapacity = panelConfig.ratedPower * panelCount +
+      shared.reduce((sum, i) => sum + subArrays[i].panelConfig.ratedPower * subArrays[i].panelCount, 0);
+
+    const result = calculateInverterOutput(
+      sharedDc,
+      inverterConfig,
+      sharedCapacity,
+      null,
+      getInverterCount(inverterConfig, sharedCount)
+    );
+    const split = (dc: number) => (sharedDc > 0 ? (result.acPower * dc) / sharedDc : 0);
+    mainAc = sharedDc > 0 ? split(main.dcPower) : result.acPower;
+    shared.forEach((i) => {
+      subAc[i] = split(subPowers[i].dcPower);
+    });
+    inverterClipping = sharedDc > 0 ? (result.clippingLoss / sharedDc) * 100 : 0;
+  }
+
+  const arrays: ArrayPower[] = [
+    { id: MAIN_ARRAY_ID, dcPower: main.dcPower, acPower: mainAc },
+    ...subArrays.map((subArray, i) => ({ id: subArray.id, dcPower: subPowers[i].dcPower, acPower: subAc[i] })),
+  ];
+
+  return {
+    dcPower: arrays.reduce((sum, array) => sum + array.dcPower, 0),
+    acPower: arrays.reduce((sum, array) => sum + array.acPower, 0),
+    arrays,
+    inverterClipping,
+  };
+}
+
 // ============================================================
 // Daily Power Calculation
 // ============================================================
 
 /**
- * Calculate full day power output with hourly data
+ * Supported simulation timesteps (minutes)
+ */
+export const TIMESTEP_OPTIONS: TimestepMinutes[] = [60, 15, 5, 1];
+
+/**
+ * Get the local hours sampled for a day at the given timestep
+ *
+ * Samples sit on timestep boundaries from 0:00 to 24:00 inclusive so the
+ * day can be integrated with the trapezoidal rule.
+ */
+export function getDailySampleHours(timestepMinutes: TimestepMinutes = 60): number[] {
+  const steps = (24 * 60) / timestepMinutes;
+  return Array.from({ length: steps + 1 }, (_, i) => (i * timestepMinutes) / 60);
+}
+
+/**
+ * Integrate a power series (W) sampled at fixed steps into energy (Wh)
+ * using the trapezoidal rule
+ */
+export function integrateTrapezoidal(values: number[], stepHours: number): number {
+  let total = 0;
+  for (let i = 1; i < values.length; i++) {
+    total += ((values[i - 1] + values[i]) / 2) * stepHours;
+  }
+  return total;
+}
+
+/**
+ * Calculate full day power output at the given timestep
+ *
+ * @param sampleIrradiance - Irradiance at each sample (see getDailySampleHours)
+ * @param samplePositions - Solar position at each sample
+ * @param timestepMinutes - Spacing between samples (minutes)
+ * @param sampleConditions - Per-sample ambient temperature, wind and
+ *   precipitable water from weather data; ambientTemp and 1 m/s wind are
+ *   used when omitted
+ * @param tracker - Single-axis tracker; orientation is used when null
+ * @param dualAxis - Dual-axis tracker; takes precedence over tracker. Its
+ *   drive consumption and availability apply to the total AC output
+ * @param bifacial - Rear-side geometry for bifacial panels
+ * @param rowShading - Row layout for geometric shading; replaces
+ *   systemLosses.shading when set
+ * @param horizon - Far-horizon profile (null for an open horizon)
+ * @param obstacles - Near-shading obstacles; replace systemLosses.shading
+ *   when any are set
+ * @param spectral - Spectral mismatch model (no correction when null)
+ * @param thermal - Cell temperature model (open-rack NOCT when null)
+ * @param subArrays - Extra arrays simulated alongside the main one; totals
+ *   and per-array energy include them
  */
 export function calculateDailyPowerOutput(
-  hourlyIrradiance: Irradiance[],
-  hourlyPositions: SolarPosition[],
+  sampleIrradiance: Irradiance[],
+  samplePositions: SolarPosition[],
   panelConfig: PanelConfig,
   orientation: PanelOrientation,
   panelCount: number,
@@ -304,81 +685,169 @@ export function calculateDailyPowerOutput(
   albedo: number = 0.2,
   systemLosses: SystemLosses = DEFAULT_SYSTEM_LOSSES,
   inverterConfig: InverterConfig = DEFAULT_INVERTER_CONFIG,
-  _timezone: string = 'UTC'
+  _timezone: string = 'UTC',
+  timestepMinutes: TimestepMinutes = 60,
+  sampleConditions?: { ambientTemp: number; windSpeed: number; precipitableWater?: number }[],
+  tracker: TrackerConfig | null = null,
+  dualAxis: DualAxisConfig | null = null,
+  bifacial: BifacialConfig | null = null,
+  rowShading: RowShadingConfig | null = null,
+  horizon: HorizonProfile | null = null,
+  obstacles: Obstacle[] | null = null,
+  spectral: SpectralConfig | null = null,
+  thermal: ThermalConfig | null = null,
+  subArrays: SubArraySimulation[] | null = null
 ): PowerOutput {
   const hourlyData: HourlyData[] = [];
+  const extraArrays = subArrays ?? [];
+  const subPoa: number[][] = []; // Sub-array POA irradiance at each sample
+  // Geometric shading replaces the flat shading percentage
+  const appliedLosses = rowShading || obstacles?.length ? { ...systemLosses, shading: 0 } : systemLosses;
+  const stepHours = timestepMinutes / 60;
   let peakPower = 0;
   let peakHour = 12;
-  let totalEnergy = 0;
 
-  for (let hour = 0; hour < 24; hour++) {
-    const irradiance = hourlyIrradiance[hour];
-    const position = hourlyPositions[hour];
+  for (let i = 0; i < sampleIrradiance.length; i++) {
+    const irradiance = sampleIrradiance[i];
+    const position = samplePositions[i];
+    const localHour = i * stepHours;
+    const conditions = sampleConditions?.[i];
+    const surface = getSurfaceOrientation(
+      position,
+      orientation,
+      tracker,
+      dualAxis,
+      conditions?.windSpeed ?? 1
+    );
 
     const poaIrradiance = calculatePOAIrradiance(
       irradiance,
       position.zenith,
       position.azimuth,
-      orientation.tilt,
-      orientation.azimuth,
-      albedo
+      surface.orientation.tilt,
+      surface.orientation.azimuth,
+      albedo,
+      bifacial,
+      panelConfig.height,
+      calculateShadingFactors(
+        position.zenith,
+        position.azimuth,
+        surface.orientation.tilt,
+        surface.orientation.azimuth,
+        panelConfig,
+        rowShading,
+        horizon,
+        obstacles,
+        panelCount
+      )
     );
 
-    const { acPower, dcPower, cellTemp, losses } = calculatePanelPower(
+    const main = calculatePanelPower(
       poaIrradiance,
       panelConfig,
-      ambientTemp,
+      conditions?.ambientTemp ?? ambientTemp,
       panelCount,
-      systemLosses,
-      inverterConfig
+      appliedLosses,
+      inverterConfig,
+      conditions?.windSpeed ?? 1,
+      calculateSpectralFactor(
+        irradiance.airMass,
+        panelConfig.technology,
+        spectral,
+        conditions?.precipitableWater
+      ),
+      thermal
     );
+    const { cellTemp, losses } = main;
+    let { acPower, dcPower } = main;
+    let arrays: ArrayPower[] | undefined;
+
+    if (extraArrays.length > 0) {
+      const subConditions = {
+        ambientTemp: conditions?.ambientTemp ?? ambientTemp,
+        windSpeed: conditions?.windSpeed ?? 1,
+        precipitableWater: conditions?.precipitableWater,
+      };
+      const subPowers = extraArrays.map((subArray) => calculateSubArrayPower(
+        subArray, irradiance, position, subConditions, albedo, horizon, spectral, thermal
+      ));
+      ({ acPower, dcPower, arrays } = combineArrayPower(
+        main, panelConfig, panelCount, inverterConfig, extraArrays, subPowers
+      ));
+      subPoa.push(subPowers.map((power) => power.poaIrradiance.total));
+    }
 
-    // Create local time for this hour
+    if (dualAxis) {
+      ({ acPower } = applyTrackerLosses(acPower, dualAxis, surface.tracking ?? false));
+    }
+
+    // Create local time for this sample
     const localTime = new Date();
-    localTime.setHours(hour, 0, 0, 0);
+    localTime.setHours(0, Math.round(localHour * 60), 0, 0);
 
     hourlyData.push({
-      hour,
+      hour: Math.min(23, Math.floor(localHour)),
+      localHour,
       localTime,
       solarPosition: position,
+      trackerRotation: surface.trackerRotation,
+      stowed: surface.stowed,
       irradiance,
       poaIrradiance,
       cellTemperature: cellTemp,
       dcPower,
       acPower,
       losses,
+      arrays,
     });
 
     if (acPower > peakPower) {
       peakPower = acPower;
-      peakHour = hour;
+      peakHour = localHour;
     }
-
-    // Energy is power × time (1 hour)
-    totalEnergy += acPower;
   }
 
+  // Energy is the trapezoidal integral of power over the day
+  const totalEnergy = integrateTrapezoidal(hourlyData.map((h) => h.acPower), stepHours);
+
   // Calculate capacity factor and performance ratio
-  const ratedCapacity = panelConfig.ratedPower * panelCount;
+  const mainCapacity = panelConfig.ratedPower * panelCount;
+  const subCapacities = extraArrays.map((subArray) => subArray.panelConfig.ratedPower * subArray.panelCount);
+  const ratedCapacity = subCapacities.reduce((sum, capacity) => sum + capacity, mainCapacity);
   const maxPossibleEnergy = ratedCapacity * 24;
   const capacityFactor = totalEnergy / maxPossibleEnergy;
 
-  // Performance ratio: actual energy / (irradiance × capacity / STC irradiance)
-  const totalPOAIrradiance = hourlyData.reduce(
-    (sum, h) => sum + h.poaIrradiance.total,
-    0
+  // Performance ratio: actual energy / (insolation × capacity / STC irradiance)
+  const totalPOAInsolation = integrateTrapezoidal(
+    hourlyData.map((h) => h.poaIrradiance.total),
+    stepHours
+  );
+  const theoreticalEnergy = subCapacities.reduce(
+    (sum, capacity, k) => sum + (integrateTrapezoidal(subPoa.map((poa) => poa[k]), stepHours) / 1000) * capacity,
+    (totalPOAInsolation / 1000) * mainCapacity
   );
-  const theoreticalEnergy = (totalPOAIrradiance / 1000) * ratedCapacity;
   const performanceRatio = theoreticalEnergy > 0 ? totalEnergy / theoreticalEnergy : 0;
 
+  const arrays: ArrayEnergy[] | undefined = extraArrays.length > 0
+    ? [
+      { id: MAIN_ARRAY_ID, name: MAIN_ARRAY_NAME, capacity: mainCapacity },
+      ...extraArrays.map((subArray, k) => ({ id: subArray.id, name: subArray.name, capacity: subCapacities[k] })),
+    ].map((array, k) => ({
+      ...array,
+      energy: integrateTrapezoidal(hourlyData.map((h) => h.arrays![k].acPower), stepHours),
+    }))
+    : undefined;
+
   return {
     instantPower: 0, // Set by caller for current time
     peakPower,
     peakHour,
     dailyEnergy: totalEnergy,
     hourlyData,
+    timestepMinutes,
     capacityFactor,
     performanceRatio,
+    arrays,
   };
 }
 
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateShadedFraction,
+  calculateElectricalShadingFraction,
+  calculateSkyViewFactor,
+  calculateRowShading,
+  calculateShadingFactors,
+  getRowCollectorWidth,
+  DEFAULT_ROW_SHADING_CONFIG,
+} from './shading';
+import { createHorizonProfile } from './horizon';
+import { PanelConfig } from './types';
+
+const panelConfig: PanelConfig = {
+  width: 1,
+  height: 2,
+  ratedPower: 400,
+  efficiency: 0.2,
+  tempCoefficient: -0.35,
+  noct: 45,
+};
+
+describe('calculateShadedFraction', () => {
+  it('should match the infinite-row shadow geometry', () => {
+    // 2 m row at 30° with a 3 m pitch, winter sun 70° from zenith straight ahead
+    const tan = Math.tan(70 * Math.PI / 180);
+    const shadowRatio = (2 / 3) * (Math.cos(Math.PI / 6) + Math.sin(Math.PI / 6) * tan);
+    expect(calculateShadedFraction(70, 180, 30, 180, 2, 3)).toBeCloseTo(1 - 1 / shadowRatio, 9);
+  });
+
+  it('should not shade when the shadow falls short of the next row', () => {
+    expect(calculateShadedFraction(30, 180, 30, 180, 2, 5)).toBe(0);
+  });
+
+  it('should not shade flat rows or when the sun is behind the rows', () => {
+    expect(calculateShadedFraction(80, 180, 0, 180, 2, 3)).toBe(0);
+    expect(calculateShadedFraction(80, 0, 30, 180, 2, 3)).toBe(0);
+  });
+
+  it('should shade less for an oblique sun than for one straight ahead', () => {
+    const ahead = calculateShadedFraction(70, 180, 30, 180, 2, 3);
+    const oblique = calculateShadedFraction(70, 240, 30, 180, 2, 3);
+    expect(oblique).toBeLessThan(ahead);
+  });
+});
+
+describe('calculateElectricalShadingFraction', () => {
+  it('should bypass the whole portrait module once any cell row is shaded', () => {
+    expect(calculateElectricalShadingFraction(0.05, DEFAULT_ROW_SHADING_CONFIG)).toBe(1);
+  });
+
+  it('should drop landscape substrings one at a time', () => {
+    const landscape = { ...DEFAULT_ROW_SHADING_CONFIG, layout: 'landscape' as const };
+    expect(calculateElectricalShadingFraction(0.05, landscape)).toBeCloseTo(1 / 3, 9);
+    expect(calculateElectricalShadingFraction(0.5, landscape)).toBeCloseTo(2 / 3, 9);
+  });
+
+  it('should only affect the bottom module of a multi-module row', () => {
+    const twoHigh = { ...DEFAULT_ROW_SHADING_CONFIG, modulesHigh: 2 };
+    expect(calculateElectricalShadingFraction(0.2, twoHigh)).toBeCloseTo(0.5, 9);
+  });
+
+  it('should be zero without shade', () => {
+    expect(calculateElectricalShadingFraction(0, DEFAULT_ROW_SHADING_CONFIG)).toBe(0);
+  });
+});
+
+describe('calculateSkyViewFactor', () => {
+  it('should approach one for widely spaced rows', () => {
+    expect(calculateSkyViewFactor(30, 2, 1000)).toBeCloseTo(1, 3);
+  });
+
+  it('should drop as rows get closer', () => {
+    const wide = calculateSkyViewFactor(30, 2, 6);
+    const tight = calculateSkyViewFactor(30, 2, 2.5);
+    expect(tight).toBeLessThan(wide);
+    expect(tight).toBeGreaterThan(0.8);
+  });
+});
+
+describe('calculateRowShading', () => {
+  it('should size the row from the module layout', () => {
+    expect(getRowCollectorWidth(panelConfig, DEFAULT_ROW_SHADING_CONFIG)).toBe(2);
+    expect(getRowCollectorWidth(panelConfig, { ...DEFAULT_ROW_SHADING_CONFIG, layout: 'landscape', modulesHigh: 3 })).toBe(3);
+  });
+
+  it('should combine geometric, electrical and diffuse effects', () => {
+    const config = { ...DEFAULT_ROW_SHADING_CONFIG, rowSpacing: 3 };
+    const factors = calculateRowShading(70, 180, 30, 180, panelConfig, config);
+    expect(factors.shadedFraction).toBeGreaterThan(0);
+    expect(factors.electricalFraction).toBeGreaterThanOrEqual(factors.shadedFraction);
+    expect(factors.diffuseFactor).toBeLessThan(1);
+  });
+});
+
+describe('calculateShadingFactors', () => {
+  const ridge = createHorizonProfile('Ridge', [{ azimuth: 0, elevation: 15 }, { azimuth: 180, elevation: 15 }]);
+
+  it('should return null when nothing is modelled', () => {
+    expect(calculateShadingFactors(40, 180, 30, 180, panelConfig, null, null)).toBeNull();
+  });
+
+  it('should block all beam while the sun is behind the horizon', () => {
+    const factors = calculateShadingFactors(80, 180, 30, 180, panelConfig, null, ridge);
+    expect(factors?.shadedFraction).toBe(1);
+    expect(factors?.electricalFraction).toBe(1);
+    expect(factors?.diffuseFactor).toBeLessThan(1);
+  });
+
+  it('should stack the horizon sky loss on row shading', () => {
+    const config = { ...DEFAULT_ROW_SHADING_CONFIG, rowSpacing: 3 };
+    const rows = calculateRowShading(60, 180, 30, 180, panelConfig, config);
+    const both = calculateShadingFactors(60, 180, 30, 180, panelConfig, config, ridge);
+    expect(both?.shadedFraction).toBe(rows.shadedFraction);
+    expect(both?.diffuseFactor).toBeLessThan(rows.diffuseFactor);
+  });
+});
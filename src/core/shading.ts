@@ -0,0 +1,257 @@
+/**
+ * Row-to-Row Shading
+ *
+ * Geometric self-shading between parallel rows of fixed-tilt modules:
+ * - Shaded fraction of each row from the projected sun angle, tilt,
+ *   row height and pitch (infinite-row approximation)
+ * - Electrical effect of the shadow, which depends on how bypass-diode
+ *   substrings run through a portrait or landscape module
+ * - Reduction of sky diffuse from the front row masking the horizon
+ *
+ * Far-horizon obstructions (see horizon.ts) and near obstacles (see
+ * obstacles.ts) are folded into the same factors so the POA model applies
+ * them all at once.
+ *
+ * References:
+ * - Appelbaum & Bany (1979): Shadow effect of adjacent solar collectors in large scale systems, Solar Energy 23:497-507
+ * - Passias & Källbäck (1984): Shading effects in rows of solar cell panels, Solar Cells 11:281-291
+ * - Martínez-Moreno, Muñoz & Lorenzo (2010): Experimental model to estimate shading losses on PV arrays, Sol. Energy Mater. Sol. Cells 94:2298-2303
+ */
+
+import { HorizonProfile, Obstacle, PanelConfig, RowShadingConfig, ShadingFactors } from './types';
+import { calculateHorizonSkyFactor, isSunBehindHorizon } from './horizon';
+import { calculateObstacleShading, calculateObstacleSkyFactor } from './obstacles';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Default ground-mount row layout (one module in portrait, three bypass diodes)
+ */
+export const DEFAULT_ROW_SHADING_CONFIG: RowShadingConfig = {
+  rowSpacing: 5,
+  modulesHigh: 1,
+  layout: 'portrait',
+  bypassDiodes: 3,
+};
+
+// Points along the row used to average the sky view
+const SKY_VIEW_SAMPLES = 20;
+
+// ============================================================
+// Row Geometry
+// ============================================================
+
+/**
+ * Slant height of a row across its width
+ *
+ * @param panelConfig - Module dimensions
+ * @param config - Row layout
+ * @returns Collector width (meters)
+ */
+export function getRowCollectorWidth(panelConfig: PanelConfig, config: RowShadingConfig): number {
+  const moduleLength = config.layout === 'portrait' ? panelConfig.height : panelConfig.width;
+  return moduleLength * Math.max(1, config.modulesHigh);
+}
+
+/**
+ * Calculate the fraction of a row shaded by the row in front
+ *
+ * Uses the sun angle projected onto the plane perpendicular to the rows,
+ * so the result holds for any sun azimuth.
+ *
+ * @param sunZenith - Sun zenith angle (degrees)
+ * @param sunAzimuth - Sun azimuth (degrees from north)
+ * @param tilt - Row tilt (degrees from horizontal)
+ * @param azimuth - Row azimuth (degrees from north)
+ * @param collectorWidth - Row slant height (meters)
+ * @param rowSpacing - Row pitch (meters)
+ * @returns Shaded fraction of the row height (0-1)
+ */
+export function calculateShadedFraction(
+  sunZenith: number,
+  sunAzimuth: number,
+  tilt: number,
+  azimuth: number,
+  collectorWidth: number,
+  rowSpacing: number
+): number {
+  if (sunZenith >= 90 || tilt <= 0 || rowSpacing <= 0) return 0;
+
+  const relativeAzimuth = (sunAzimuth - azimuth) * DEG_TO_RAD;
+  // Sun behind the row plane: the front is not lit, so nothing to shade
+  if (Math.cos(relativeAzimuth) <= 0) return 0;
+
+  const tiltRad = tilt * DEG_TO_RAD;
+  const tanProjected = Math.tan(sunZenith * DEG_TO_RAD) * Math.cos(relativeAzimuth);
+
+  // Shadow length of a row along the ground, relative to the pitch
+  const shadowRatio = (collectorWidth / rowSpacing) *
+    (Math.cos(tiltRad) + Math.sin(tiltRad) * tanProjected);
+
+  return shadowRatio > 1 ? Math.min(1, 1 - 1 / shadowRatio) : 0;
+}
+
+// ============================================================
+// Electrical Effect
+// ============================================================
+
+/**
+ * Fraction of beam power lost for a shaded fraction of the row
+ *
+ * The shadow rises from the lower edge. In landscape the substrings run
+ * along the row, so they drop out one at a time as the shadow rises; in
+ * portrait every substring reaches the lower edge, so the first shaded
+ * cell row bypasses the whole module.
+ *
+ * @param shadedFraction - Geometric shaded fraction of the row (0-1)
+ * @param config - Row layout and bypass diodes
+ * @returns Fraction of beam power lost (0-1)
+ */
+export function calculateElectricalShadingFraction(
+  shadedFraction: number,
+  config: RowShadingConfig
+): number {
+  if (shadedFraction <= 0) return 0;
+
+  const modulesHigh = Math.max(1, Math.round(config.modulesHigh));
+  const diodes = Math.max(1, Math.round(config.bypassDiodes));
+  let bypassed = 0;
+
+  for (let position = 0; position < modulesHigh; position++) {
+    // Shaded fraction of the module at this position, counted from the bottom
+    const moduleShaded = Math.max(0, Math.min(1, shadedFraction * modulesHigh - position));
+    if (moduleShaded <= 0) break;
+
+    bypassed += config.layout === 'portrait'
+      ? 1
+      : Math.ceil(moduleShaded * diodes - 1e-9) / diodes;
+  }
+
+  return Math.max(shadedFraction, bypassed / modulesHigh);
+}
+
+// ============================================================
+// Sky View
+// ============================================================
+
+/**
+ * Calculate the sky diffuse remaining with the front row masking the horizon
+ *
+ * Averages the isotropic sky view factor (1 + cos(tilt + ψ)) / 2 along the
+ * row, where ψ is the elevation of the front row's top edge.
+ *
+ * @param tilt - Row tilt (degrees from horizontal)
+ * @param collectorWidth - Row slant height (meters)
+ * @param rowSpacing - Row pitch (meters)
+ * @returns Ratio of masked to unmasked sky view (0-1)
+ */
+export function calculateSkyViewFactor(tilt: number, collectorWidth: number, rowSpacing: number): number {
+  if (tilt <= 0 || rowSpacing <= 0) return 1;
+
+  const tiltRad = tilt * DEG_TO_RAD;
+  const unmasked = (1 + Math.cos(tiltRad)) / 2;
+  let masked = 0;
+
+  for (let i = 0; i < SKY_VIEW_SAMPLES; i++) {
+    // Distance below the top edge of the row
+    const below = collectorWidth * (1 - (i + 0.5) / SKY_VIEW_SAMPLES);
+    const maskAngle = Math.atan2(below * Math.sin(tiltRad), rowSpacing - below * Math.cos(tiltRad));
+    masked += (1 + Math.cos(Math.min(Math.PI, tiltRad + maskAngle))) / 2;
+  }
+
+  return Math.max(0, Math.min(1, masked / SKY_VIEW_SAMPLES / unmasked));
+}
+
+// ============================================================
+// Combined Shading
+// ============================================================
+
+/**
+ * Calculate row-to-row shading for one timestep
+ *
+ * @param sunZenith - Sun zenith angle (degrees)
+ * @param sunAzimuth - Sun azimuth (degrees from north)
+ * @param tilt - Row tilt (degrees from horizontal)
+ * @param azimuth - Row azimuth (degrees from north)
+ * @param panelConfig - Module dimensions
+ * @param config - Row layout
+ */
+export function calculateRowShading(
+  sunZenith: number,
+  sunAzimuth: number,
+  tilt: number,
+  azimuth: number,
+  panelConfig: PanelConfig,
+  config: RowShadingConfig
+): ShadingFactors {
+  const collectorWidth = getRowCollectorWidth(panelConfig, config);
+  const shadedFraction = calculateShadedFraction(
+    sunZenith,
+    sunAzimuth,
+    tilt,
+    azimuth,
+    collectorWidth,
+    config.rowSpacing
+  );
+
+  return {
+    shadedFraction,
+    electricalFraction: calculateElectricalShadingFraction(shadedFraction, config),
+    diffuseFactor: calculateSkyViewFactor(tilt, collectorWidth, config.rowSpacing),
+  };
+}
+
+/**
+ * Calculate row, far-horizon and obstacle shading for one timestep
+ *
+ * The horizon blocks all beam while the sun is below it and hides part
+ * of the sky. Row and obstacle shadows are treated as independent, so
+ * their unshaded fractions multiply.
+ *
+ * @param sunZenith - Sun zenith angle (degrees)
+ * @param sunAzimuth - Sun azimuth (degrees from north)
+ * @param tilt - Surface tilt (degrees from horizontal)
+ * @param azimuth - Surface azimuth (degrees from north)
+ * @param panelConfig - Module dimensions
+ * @param rowShading - Row layout (null when rows are not modelled)
+ * @param horizon - Horizon profile (null for an open horizon)
+ * @param obstacles - Near-shading obstacles (null or empty when none)
+ * @param panelCount - Number of panels, used to lay out the array for obstacles
+ * @returns Shading factors, or null when nothing is modelled
+ */
+export function calculateShadingFactors(
+  sunZenith: number,
+  sunAzimuth: number,
+  tilt: number,
+  azimuth: number,
+  panelConfig: PanelConfig,
+  rowShading: RowShadingConfig | null,
+  horizon: HorizonProfile | null,
+  obstacles: Obstacle[] | null = null,
+  panelCount: number = 1
+): ShadingFactors | null {
+  const hasObstacles = obstacles !== null && obstacles.length > 0;
+  if (!rowShading && !horizon && !hasObstacles) return null;
+
+  let factors = rowShading
+    ? calculateRowShading(sunZenith, sunAzimuth, tilt, azimuth, panelConfig, rowShading)
+    : { shadedFraction: 0, electricalFraction: 0, diffuseFactor: 1 };
+
+  if (hasObstacles) {
+    const near = calculateObstacleShading(sunZenith, sunAzimuth, tilt, azimuth, panelConfig, panelCount, obstacles);
+    factors = {
+      shadedFraction: 1 - (1 - factors.shadedFraction) * (1 - near.shadedFraction),
+      electricalFraction: 1 - (1 - factors.electricalFraction) * (1 - near.electricalFraction),
+      diffuseFactor: factors.diffuseFactor *
+        calculateObstacleSkyFactor(tilt, azimuth, panelConfig, panelCount, obstacles),
+    };
+  }
+  if (!horizon) return factors;
+
+  const blocked = isSunBehindHorizon(horizon, sunZenith, sunAzimuth);
+  return {
+    shadedFraction: blocked ? 1 : factors.shadedFraction,
+    electricalFraction: blocked ? 1 : factors.electricalFraction,
+    diffuseFactor: factors.diffuseFactor * calculateHorizonSkyFactor(horizon, tilt, azimuth),
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { fitSingleDiodeParameters, calculateOperatingPoint, calculateIVCurve } from './singleDiode';
+import { panelPresets } from '../models/panelPresets';
+import { ModuleElectrical } from './types';
+
+const electrical: ModuleElectrical = {
+  voc: 46.6,
+  isc: 9.96,
+  vmp: 39.2,
+  imp: 8.93,
+  tempCoefficientVoc: -0.29,
+  tempCoefficientIsc: 0.05,
+};
+
+describe('fitSingleDiodeParameters', () => {
+  it('should reproduce the datasheet STC points', () => {
+    const params = fitSingleDiodeParameters(electrical, 'poly-si');
+    const stc = calculateOperatingPoint(params, 1000, 25);
+
+    expect(stc.voc).toBeCloseTo(electrical.voc, 2);
+    expect(stc.isc).toBeCloseTo(electrical.isc, 2);
+    expect(stc.voltage).toBeCloseTo(electrical.vmp, 1);
+    expect(stc.power).toBeCloseTo(electrical.vmp * electrical.imp, 0);
+    expect(params.seriesResistance).toBeGreaterThan(0);
+    expect(params.shuntResistance).toBeGreaterThan(0);
+  });
+
+  it('should reproduce the Voc temperature coefficient', () => {
+    const params = fitSingleDiodeParameters(electrical, 'poly-si');
+    const slope = calculateOperatingPoint(params, 1000, 35).voc - calculateOperatingPoint(params, 1000, 25).voc;
+    expect((slope / 10 / electrical.voc) * 100).toBeCloseTo(electrical.tempCoefficientVoc, 2);
+  });
+
+  it('should fit every preset within 1% of its datasheet power', () => {
+    panelPresets.forEach(({ config }) => {
+      const { vmp, imp } = config.electrical!;
+      const stc = calculateOperatingPoint(fitSingleDiodeParameters(config.electrical!, config.technology), 1000, 25);
+      expect(Math.abs(stc.power / (vmp * imp) - 1)).toBeLessThan(0.01);
+    });
+  });
+});
+
+describe('calculateOperatingPoint', () => {
+  const params = fitSingleDiodeParameters(electrical, 'poly-si');
+
+  it('should lose relative efficiency at low light', () => {
+    const stc = calculateOperatingPoint(params, 1000, 25);
+    const dim = calculateOperatingPoint(params, 200, 25);
+    expect(dim.power / (stc.power * 0.2)).toBeLessThan(1);
+    expect(dim.power / (stc.power * 0.2)).toBeGreaterThan(0.9);
+    expect(dim.voc).toBeLessThan(stc.voc);
+  });
+
+  it('should lose power and voltage as the cells heat up', () => {
+    const cool = calculateOperatingPoint(params, 1000, 25);
+    const hot = calculateOperatingPoint(params, 1000, 65);
+    expect(hot.power).toBeLessThan(cool.power);
+    expect(hot.voltage).toBeLessThan(cool.voltage);
+    expect(hot.isc).toBeGreaterThan(cool.isc);
+  });
+
+  it('should return zero in the dark', () => {
+    expect(calculateOperatingPoint(params, 0, 25).power).toBe(0);
+    expect(calculateIVCurve(params, 0, 25)).toEqual([]);
+  });
+});
+
+describe('calculateIVCurve', () => {
+  it('should run from short circuit to open circuit through the maximum power point', () => {
+    const params = fitSingleDiodeParameters(electrical, 'poly-si');
+    const curve = calculateIVCurve(params, 800, 45, 40);
+    const mpp = calculateOperatingPoint(params, 800, 45);
+
+    expect(curve).toHaveLength(40);
+    expect(curve[0].voltage).toBe(0);
+    expect(curve[0].current).toBeCloseTo(mpp.isc, 6);
+    expect(curve[39].current).toBe(0);
+    expect(curve[39].voltage).toBeCloseTo(mpp.voc, 6);
+    // Current never rises with voltage
+    curve.slice(1).forEach((point, i) => expect(point.current).toBeLessThanOrEqual(curve[i].current + 1e-9));
+    expect(Math.max(...curve.map((p) => p.power))).toBeLessThanOrEqual(mpp.power + 1e-6);
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Single-Diode Module Model
+ *
+ * De Soto five-parameter model of the module I-V characteristic:
+ *   I = IL − I0·(exp((V + I·Rs) / a) − 1) − (V + I·Rs) / Rsh
+ * - Reference parameters are fitted to the datasheet Voc, Isc, Vmp, Imp and
+ *   the Voc temperature coefficient (CEC method)
+ * - Parameters are translated to the operating irradiance and cell temperature
+ * - The maximum power point is found on the translated curve, which captures
+ *   the drop in efficiency at low light
+ *
+ * References:
+ * - De Soto, Klein & Beckman (2006): Improvement and validation of a model for photovoltaic
+ *   array performance, Solar Energy 80:78-88
+ * - Dobos (2012): An improved coefficient calculator for the California Energy Commission
+ *   6 parameter photovoltaic module model, J. Sol. Energy Eng. 134
+ */
+
+import { ModuleElectrical, ModuleTechnology } from './types';
+
+export interface SingleDiodeParameters {
+  photocurrent: number; // IL at STC (A)
+  saturationCurrent: number; // I0 at STC (A)
+  seriesResistance: number; // Rs (Ω)
+  shuntResistance: number; // Rsh at STC (Ω)
+  modifiedIdealityFactor: number; // a = n·Ns·k·T/q at STC (V)
+  alphaIsc: number; // Isc temperature coefficient (A/°C)
+  bandgap: number; // Eg at STC (eV)
+}
+
+export interface MaxPowerPoint {
+  power: number; // W
+  voltage: number; // V
+  current: number; // A
+  voc: number; // V
+  isc: number; // A
+}
+
+export interface IVPoint {
+  voltage: number; // V
+  current: number; // A
+  power: number; // W
+}
+
+const STC_IRRADIANCE = 1000; // W/m²
+const STC_TEMP_K = 298.15; // 25°C
+const BOLTZMANN_EV = 8.617333e-5; // eV/K
+const BANDGAP_TEMP_COEFFICIENT = -0.0002677; // 1/K (De Soto)
+
+// Bandgap of the absorber (eV); heterojunction cells absorb in crystalline silicon
+const BANDGAP: Record<ModuleTechnology, number> = {
+  'mono-si': 1.121,
+  'poly-si': 1.121,
+  cdte: 1.475,
+  hit: 1.121,
+};
+
+const MAX_CACHE_SIZE = 64;
+const FIT_ITERATIONS = 60;
+const SOLVER_ITERATIONS = 50;
+
+// ============================================================
+// Parameter Fitting
+// ============================================================
+
+/**
+ * Solve IL, I0 and 1/Rsh from the short-circuit, open-circuit and
+ * maximum power points for a given a and Rs
+ *
+ * The three equations are linear in IL, I0 and 1/Rsh.
+ */
+function solveReferenceCurrents(
+  electrical: ModuleElectrical,
+  a: number,
+  rs: number
+): { photocurrent: number; saturationCurrent: number; shuntConductance: number } | null {
+  const { voc, isc, vmp, imp } = electrical;
+  // Rows: [IL, I0, 1/Rsh] = rhs
+  const rows = [
+    [1, -(Math.exp((isc * rs) / a) - 1), -isc * rs, isc],
+    [1, -(Math.exp(voc / a) - 1), -voc, 0],
+    [1, -(Math.exp((vmp + imp * rs) / a) - 1), -(vmp + imp * rs), imp],
+  ];
+
+  const det = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+  const column = (index: number) => rows.map((row) => row.map((v, j) => (j === index ? row[3] : v)).slice(0, 3));
+
+  const d = det(rows.map((row) => row.slice(0, 3)));
+  if (!Number.isFinite(d) || d === 0) return null;
+
+  const photocurrent = det(column(0)) / d;
+  const saturationCurrent = det(column(1)) / d;
+  const shuntConductance = det(column(2)) / d;
+  if (!(saturationCurrent > 0) || shuntConductance < 0) return null;
+
+  return { photocurrent, saturationCurrent, shuntConductance };
+}
+
+/**
+ * dP/dV at the datasheet maximum power point (zero for a consistent fit)
+ */
+function mppSlopeError(electrical: ModuleElectrical, a: number, rs: number): number | null {
+  const currents = solveReferenceCurrents(electrical, a, rs);
+  if (!currents) return null;
+  const { vmp, imp } = electrical;
+  const h = (currents.saturationCurrent / a) * Math.exp((vmp + imp * rs) / a) + currents.shuntConductance;
+  return imp - (vmp * h) / (1 + rs * h);
+}
+
+/**
+ * Find the series resistance that puts the maximum power point at Vmp
+ */
+function fitSeriesResistance(electrical: ModuleElectrical, a: number): number {
+  const { voc, vmp, imp } = electrical;
+  let low = 0;
+  let high = (voc - vmp) / imp;
+
+  // Shrink the bracket until the fit is feasible at the upper end
+  while (high > 1e-6 && mppSlopeError(electrical, a, high) === null) high /= 2;
+  const errorLow = mppSlopeError(electrical, a, low);
+  const errorHigh = mppSlopeError(electrical, a, high);
+  if (errorLow === null || errorHigh === null) return 0;
+  if (Math.sign(errorLow) === Math.sign(errorHigh)) {
+    return Math.abs(errorLow) < Math.abs(errorHigh) ? low : high;
+  }
+
+  for (let i = 0; i < FIT_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const error = mppSlopeError(electrical, a, mid);
+    if (error === null || Math.sign(error) === Math.sign(errorLow)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function buildParameters(electrical: ModuleElectrical, a: number, bandgap: number): SingleDiodeParameters | null {
+  const rs = fitSeriesResistance(electrical, a);
+  const currents = solveReferenceCurrents(electrical, a, rs);
+  if (!currents) return null;
+
+  return {
+    photocurrent: currents.photocurrent,
+    saturationCurrent: currents.saturationCurrent,
+    seriesResistance: rs,
+    shuntResistance: currents.shuntConductance > 0 ? 1 / currents.shuntConductance : Infinity,
+    modifiedIdealityFactor: a,
+    alphaIsc: (electrical.tempCoefficientIsc / 100) * electrical.isc,
+    bandgap,
+  };
+}
+
+const parameterCache = new Map<string, SingleDiodeParameters>();
+
+/**
+ * Fit the five reference parameters to datasheet values
+ *
+ * The modified ideality factor is chosen so the model reproduces the
+ * datasheet Voc temperature coefficient; Rs places the maximum power point
+ * at Vmp; IL, I0 and Rsh then pass the curve through Isc, Voc and (Vmp, Imp).
+ *
+ * @param electrical - Datasheet electrical values at STC
+ * @param technology - Cell technology (sets the bandgap)
+ */
+export function fitSingleDiodeParameters(
+  electrical: ModuleElectrical,
+  technology: ModuleTechnology = 'mono-si'
+): SingleDiodeParameters {
+  const key = JSON.stringify([electrical, technology]);
+  const cached = parameterCache.get(key);
+  if (cached) return cached;
+
+  const bandgap = BANDGAP[technology];
+  const targetBeta = (electrical.tempCoefficientVoc / 100) * electrical.voc; // V/°C
+
+  // Voc temperature slope falls as a grows
+  let low = electrical.voc * 0.01;
+  let high = electrical.voc * 0.12;
+  let best: SingleDiodeParameters | null = null;
+  for (let i = 0; i < FIT_ITERATIONS; i++) {
+    const a = (low + high) / 2;
+    const params = buildParameters(electrical, a, bandgap);
+    if (!params) {
+      high = a;
+      continue;
+    }
+    best = params;
+    const beta = calculateOperatingPoint(params, STC_IRRADIANCE, 26).voc - electrical.voc;
+    if (beta > targetBeta) {
+      low = a;
+    } else {
+      high = a;
+    }
+  }
+
+  const result = best ?? {
+    photocurrent: electrical.isc,
+    saturationCurrent: electrical.isc * Math.exp(-electrical.voc / (electrical.voc * 0.04)),
+    seriesResistance: 0,
+    shuntResistance: Infinity,
+    modifiedIdealityFactor: electrical.voc * 0.04,
+    alphaIsc: (electrical.tempCoefficientIsc / 100) * electrical.isc,
+    bandgap,
+  };
+  if (parameterCache.size >= MAX_CACHE_SIZE) parameterCache.clear();
+  parameterCache.set(key, result);
+  return result;
+}
+
+// ============================================================
+// Operating Conditions
+// ============================================================
+
+interface OperatingParameters {
+  photocurrent: number;
+  saturationCurrent: number;
+  seriesResistance: number;
+  shuntResistance: number;
+  a: number;
+}
+
+/**
+ * Translate reference parameters to irradiance and cell temperature (De Soto)
+ */
+function translateParameters(
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemp: number
+): OperatingParameters {
+  const tempK = cellTemp + 273.15;
+  const ratio = irradiance / STC_IRRADIANCE;
+  const bandgap = params.bandgap * (1 + BANDGAP_TEMP_COEFFICIENT * (tempK - STC_TEMP_K));
+
+  return {
+    photocurrent: ratio * (params.photocurrent + params.alphaIsc * (tempK - STC_TEMP_K)),
+    saturationCurrent:
+      params.saturationCurrent *
+      (tempK / STC_TEMP_K) ** 3 *
+      Math.exp(params.bandgap / (BOLTZMANN_EV * STC_TEMP_K) - bandgap / (BOLTZMANN_EV * tempK)),
+    seriesResistance: params.seriesResistance,
+    shuntResistance: params.shuntResistance / ratio,
+    a: params.modifiedIdealityFactor * (tempK / STC_TEMP_K),
+  };
+}
+
+/**
+ * Current at a terminal voltage
+ *
+ * Newton's method from I = IL; the residual is concave and decreasing in I,
+ * so the iterates approach the root monotonically.
+ */
+function solveCurrent(p: OperatingParameters, voltage: number): number {
+  let current = p.photocurrent;
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const diode = p.saturationCurrent * Math.exp((voltage + current * p.seriesResistance) / p.a);
+    const residual = p.photocurrent - (diode - p.saturationCurrent)
+      - (voltage + current * p.seriesResistance) / p.shuntResistance - current;
+    const slope = -(diode * p.seriesResistance) / p.a - p.seriesResistance / p.shuntResistance - 1;
+    const step = residual / slope;
+    current -= step;
+    if (Math.abs(step) < 1e-9) break;
+  }
+  return current;
+}
+
+/**
+ * Open-circuit voltage, by Newton's method from the no-shunt estimate
+ */
+function solveOpenCircuitVoltage(p: OperatingParameters): number {
+  if (p.photocurrent <= 0) return 0;
+  let voltage = p.a * Math.log(p.photocurrent / p.saturationCurrent + 1);
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const diode = p.saturationCurrent * Math.exp(voltage / p.a);
+    const residual = p.photocurrent - (diode - p.saturationCurrent) - voltage / p.shuntResistance;
+    const slope = -diode / p.a - 1 / p.shuntResistance;
+    const step = residual / slope;
+    voltage -= step;
+    if (Math.abs(step) < 1e-9) break;
+  }
+  return Math.max(0, voltage);
+}
+
+/**
+ * Find the maximum power point at the given conditions
+ *
+ * @param params - Fitted reference parameters
+ * @param irradiance - Effective irradiance reaching the cells (W/m²)
+ * @param cellTemp - Cell temperature (°C)
+ */
+export function calculateOperatingPoint(
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemp: number
+): MaxPowerPoint {
+  if (irradiance <= 0) {
+    return { power: 0, voltage: 0, current: 0, voc: 0, isc: 0 };
+  }
+
+  const p = translateParameters(params, irradiance, cellTemp);
+  const voc = solveOpenCircuitVoltage(p);
+  const isc = solveCurrent(p, 0);
+
+  // Golden-section search; power is unimodal between 0 and Voc
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = 0;
+  let high = voc;
+  for (let i = 0; i < SOLVER_ITERATIONS && high - low > 1e-6; i++) {
+    const v1 = high - ratio * (high - low);
+    const v2 = low + ratio * (high - low);
+    if (v1 * solveCurrent(p, v1) < v2 * solveCurrent(p, v2)) {
+      low = v1;
+    } else {
+      high = v2;
+    }
+  }
+
+  const voltage = (low + high) / 2;
+  const current = Math.max(0, solveCurrent(p, voltage));
+  return { power: voltage * current, voltage, current, voc, isc };
+}
+
+/**
+ * Sample the I-V and P-V curves from short circuit to open circuit
+ *
+ * @param params - Fitted reference parameters
+ * @param irradiance - Effective irradiance reaching the cells (W/m²)
+ * @param cellTemp - Cell temperature (°C)
+ * @param points - Number of samples
+ */
+export function calculateIVCurve(
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemp: number,
+  points: number = 60
+): IVPoint[] {
+  if (irradiance <= 0) return [];
+
+  const p = translateParameters(params, irradiance, cellTemp);
+  const voc = solveOpenCircuitVoltage(p);
+  return Array.from({ length: points }, (_, i) => {
+    const voltage = (voc * i) / (points - 1);
+    const current = i === points - 1 ? 0 : Math.max(0, solveCurrent(p, voltage));
+    return { voltage, current, power: voltage * current };
+  });
+}
+
+/**
+ * Module current at a fixed terminal voltage
+ *
+ * @param params - Fitted reference parameters
+ * @param irradiance - Effective irradiance reaching the cells (W/m²)
+ * @param cellTemp - Cell temperature (°C)
+ * @param voltage - Module voltage (V)
+ * @returns Current (A), zero beyond open circuit
+ */
+export function calculateCurrentAtVoltage(
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemp: number,
+  voltage: number
+): number {
+  if (irradiance <= 0) return 0;
+  return Math.max(0, solveCurrent(translateParameters(params, irradiance, cellTemp), voltage));
+}
+
+/**
+ * Module voltage at which the current falls to a given value
+ *
+ * @param params - Fitted reference parameters
+ * @param irradiance - Effective irradiance reaching the cells (W/m²)
+ * @param cellTemp - Cell temperature (°C)
+ * @param current - Module current (A)
+ * @returns Voltage (V); 0 when the current exceeds Isc
+ */
+export function calculateVoltageAtCurrent(
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemp: number,
+  current: number
+): number {
+  if (irradiance <= 0) return 0;
+  const p = translateParameters(params, irradiance, cellTemp);
+
+  // Current falls monotonically from Isc at 0 V to zero at Voc
+  let low = 0;
+  let high = solveOpenCircuitVoltage(p);
+  if (solveCurrent(p, 0) <= current) return 0;
+  for (let i = 0; i < SOLVER_ITERATIONS && high - low > 1e-6; i++) {
+    const mid = (low + high) / 2;
+    if (solveCurrent(p, mid) > current) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
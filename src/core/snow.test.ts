@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSnowFactor,
+  canSnowSlide,
+  getMonthlySnowfall,
+  getWeatherSnowfall,
+  updateSnowCoverage,
+} from './snow';
+import { WeatherRecord } from './types';
+
+const record: WeatherRecord = {
+  month: 1,
+  day: 10,
+  hour: 3,
+  ghi: 0,
+  dni: 0,
+  dhi: 0,
+  temperature: -4,
+  windSpeed: 2,
+};
+
+describe('snowfall', () => {
+  it('should take the larger of the depth rise and frozen precipitation', () => {
+    expect(getWeatherSnowfall({ ...record, snowDepth: 12 }, 10)).toBe(2);
+    expect(getWeatherSnowfall({ ...record, snowDepth: 12, precipitation: 3 }, 10)).toBe(3);
+    expect(getWeatherSnowfall({ ...record, precipitation: 3, temperature: 5 })).toBe(0);
+    expect(getWeatherSnowfall({ ...record, snowDepth: 8 }, 10)).toBe(0);
+  });
+
+  it('should split a monthly total into storms on separate days', () => {
+    const days = Array.from({ length: 31 }, (_, day) => getMonthlySnowfall(30, day, 31));
+    const storms = days.filter((snowfall) => snowfall > 0);
+    expect(storms).toHaveLength(6);
+    expect(storms.reduce((sum, snowfall) => sum + snowfall, 0)).toBeCloseTo(30, 9);
+    expect(getMonthlySnowfall(0.5, 15, 31)).toBe(0);
+  });
+});
+
+describe('snow coverage', () => {
+  it('should cover the modules after a heavy hour of snow', () => {
+    expect(updateSnowCoverage(0, 1.5, 0, -5, 30)).toBe(1);
+    expect(updateSnowCoverage(0.2, 0.5, 0, -5, 30)).toBe(0.2);
+  });
+
+  it('should only slide once the air is warm enough for the sunshine', () => {
+    expect(canSnowSlide(-5, 200)).toBe(false);
+    expect(canSnowSlide(-5, 600)).toBe(true);
+    expect(canSnowSlide(1, 0)).toBe(true);
+  });
+
+  it('should slide faster off steeper modules', () => {
+    const shallow = updateSnowCoverage(1, 0, 600, -2, 15);
+    const steep = updateSnowCoverage(1, 0, 600, -2, 60);
+    expect(steep).toBeLessThan(shallow);
+    expect(1 - steep).toBeCloseTo(0.197 * Math.sin(Math.PI / 3), 9);
+    expect(updateSnowCoverage(0.05, 0, 600, -2, 60)).toBe(0);
+  });
+
+  it('should bypass landscape substrings one at a time', () => {
+    const landscape = { rowSpacing: 5, modulesHigh: 1, layout: 'landscape' as const, bypassDiodes: 3 };
+    expect(calculateSnowFactor(0)).toBe(1);
+    expect(calculateSnowFactor(0.1)).toBe(0);
+    expect(calculateSnowFactor(0.1, landscape)).toBeCloseTo(2 / 3, 9);
+    expect(calculateSnowFactor(0.5, landscape)).toBeCloseTo(1 / 3, 9);
+  });
+});
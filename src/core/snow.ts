@@ -0,0 +1,155 @@
+/**
+ * Snow Cover Loss
+ *
+ * Tracks the fraction of each row covered by snow hour by hour (Marion
+ * model):
+ * - A snowfall of at least 1 cm in an hour covers the modules completely
+ * - Snow slides off when the air is warm enough for the irradiance to melt
+ *   the contact layer, faster on steeper modules
+ * - The remaining cover sits on the lower edge of the row, so it knocks out
+ *   bypass-diode substrings the same way a rising row shadow does
+ *
+ * Snowfall comes from an imported weather file (snow depth increase or
+ * frozen precipitation) or from monthly totals split into evenly spaced
+ * storms.
+ *
+ * References:
+ * - Marion et al. (2013): Measured and modeled photovoltaic system energy losses from snow for Colorado and Wisconsin locations, Solar Energy 97:112-121
+ * - Ryberg & Freeman (2017): Integration, validation, and application of a PV snow coverage model in SAM, NREL/TP-6A20-68705
+ */
+
+import { RowShadingConfig, SnowConfig, SnowSource, WeatherRecord } from './types';
+import { calculateElectricalShadingFraction, DEFAULT_ROW_SHADING_CONFIG } from './shading';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Typical northern site: about 140 cm of snow a year
+ */
+export const DEFAULT_SNOW_CONFIG: SnowConfig = {
+  source: 'monthly',
+  monthlySnowfall: [30, 20, 25, 8, 0, 0, 0, 0, 0, 2, 20, 30],
+  monthlyTemperature: [-9, -6, 1, 8, 15, 21, 23, 22, 17, 9, 1, -6],
+};
+
+export const SNOW_SOURCE_NAMES: Record<SnowSource, string> = {
+  weather: 'Weather file',
+  monthly: 'Monthly totals',
+};
+
+// Hourly snowfall that covers the modules completely (cm)
+export const SNOWFALL_THRESHOLD = 1;
+
+// Snow slides once air temperature exceeds POA irradiance / m (W/m²/°C)
+const SLIDE_IRRADIANCE_COEFFICIENT = -80;
+
+// Fraction of the row the snow slides per hour on a vertical module
+const SLIDE_AMOUNT_COEFFICIENT = 0.197;
+
+// Air temperature at or below which precipitation falls as snow (°C)
+const SNOW_TEMPERATURE = 1;
+
+// Snow depth per depth of liquid water
+const SNOW_TO_LIQUID_RATIO = 10;
+
+// Snowfall in each storm when splitting monthly totals (cm)
+const MONTHLY_STORM_SNOWFALL = 5;
+
+// ============================================================
+// Snowfall
+// ============================================================
+
+/**
+ * Snowfall over an hour of weather data
+ *
+ * Uses the larger of the rise in ground snow depth and the precipitation
+ * that fell below freezing.
+ *
+ * @param record - Weather record covering the hour
+ * @param previousDepth - Ground snow depth an hour earlier (cm)
+ * @returns Snowfall (cm)
+ */
+export function getWeatherSnowfall(record: WeatherRecord, previousDepth?: number): number {
+  const depthRise = record.snowDepth !== undefined && previousDepth !== undefined
+    ? Math.max(0, record.snowDepth - previousDepth)
+    : 0;
+  const frozen = record.precipitation !== undefined && record.temperature <= SNOW_TEMPERATURE
+    ? (record.precipitation * SNOW_TO_LIQUID_RATIO) / 10 // mm water → cm snow
+    : 0;
+  return Math.max(depthRise, frozen);
+}
+
+/**
+ * Snowfall on a day from a monthly total
+ *
+ * The total is split into storms of about 5 cm spread evenly through the
+ * month; each storm falls on one day.
+ *
+ * @param monthlySnowfall - Snow in the month (cm)
+ * @param day - Day of the month (0-based)
+ * @param days - Days in the month
+ * @returns Snowfall on the day (cm)
+ */
+export function getMonthlySnowfall(monthlySnowfall: number, day: number, days: number): number {
+  if (monthlySnowfall < SNOWFALL_THRESHOLD || days <= 0) return 0;
+  const storms = Math.min(days, Math.max(1, Math.round(monthlySnowfall / MONTHLY_STORM_SNOWFALL)));
+  for (let storm = 0; storm < storms; storm++) {
+    if (Math.floor(((storm + 0.5) * days) / storms) === day) return monthlySnowfall / storms;
+  }
+  return 0;
+}
+
+// ============================================================
+// Snow Cover
+// ============================================================
+
+/**
+ * Check whether snow slides off the modules
+ *
+ * @param temperature - Air temperature (°C)
+ * @param poaIrradiance - Plane-of-array irradiance (W/m²)
+ */
+export function canSnowSlide(temperature: number, poaIrradiance: number): boolean {
+  return temperature > poaIrradiance / SLIDE_IRRADIANCE_COEFFICIENT;
+}
+
+/**
+ * Advance the snow cover by one timestep
+ *
+ * @param coverage - Fraction of the row covered at the start (0-1)
+ * @param snowfall - Snowfall during the timestep (cm)
+ * @param poaIrradiance - Plane-of-array irradiance (W/m²)
+ * @param temperature - Air temperature (°C)
+ * @param tilt - Module tilt (degrees)
+ * @param hours - Timestep length (hours)
+ * @returns Fraction of the row covered (0-1)
+ */
+export function updateSnowCoverage(
+  coverage: number,
+  snowfall: number,
+  poaIrradiance: number,
+  temperature: number,
+  tilt: number,
+  hours: number = 1
+): number {
+  if (snowfall >= SNOWFALL_THRESHOLD * hours) return 1;
+  if (!canSnowSlide(temperature, poaIrradiance)) return coverage;
+  return Math.max(0, coverage - SLIDE_AMOUNT_COEFFICIENT * Math.sin(tilt * DEG_TO_RAD) * hours);
+}
+
+/**
+ * DC power kept under snow cover
+ *
+ * Any substring reaching into the snow is bypassed, so a single module in
+ * portrait stops with the first centimetre of cover.
+ *
+ * @param coverage - Fraction of the row covered (0-1)
+ * @param layout - Row layout and bypass diodes
+ * @returns Factor (0-1)
+ */
+export function calculateSnowFactor(
+  coverage: number,
+  layout: RowShadingConfig = DEFAULT_ROW_SHADING_CONFIG
+): number {
+  return 1 - calculateElectricalShadingFraction(coverage, layout);
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSoilingProfile,
+  DEFAULT_SOILING_CONFIG,
+  DEFAULT_WASH_COSTS,
+  evaluateWashSchedule,
+  getDailyRainfall,
+  optimizeWashSchedule,
+} from './soiling';
+import { SoilingConfig, WeatherDataset } from './types';
+
+const config: SoilingConfig = { ...DEFAULT_SOILING_CONFIG, rate: 0.01, maxLoss: 0.05, gracePeriod: 2 };
+
+describe('getDailyRainfall', () => {
+  it('should split monthly totals into storms within each month', () => {
+    const rainfall = getDailyRainfall({ ...config, monthlyRainfall: [30, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 4] }, 2024);
+    expect(rainfall).toHaveLength(366);
+    expect(rainfall.slice(0, 31).filter((rain) => rain > 0)).toHaveLength(3);
+    expect(rainfall.slice(0, 31).reduce((sum, rain) => sum + rain, 0)).toBeCloseTo(30, 9);
+    expect(rainfall.slice(335).reduce((sum, rain) => sum + rain, 0)).toBeCloseTo(4, 9);
+  });
+
+  it('should sum weather file precipitation by date', () => {
+    const record = { ghi: 0, dni: 0, dhi: 0, temperature: 15, windSpeed: 1 };
+    const weather = {
+      records: [
+        { ...record, month: 1, day: 2, hour: 1, precipitation: 2 },
+        { ...record, month: 1, day: 2, hour: 2, precipitation: 5 },
+        { ...record, month: 3, day: 1, hour: 1, precipitation: 1 },
+      ],
+    } as WeatherDataset;
+    const rainfall = getDailyRainfall({ ...config, source: 'weather' }, 2023, weather);
+    expect(rainfall).toHaveLength(365);
+    expect(rainfall[1]).toBe(7);
+    expect(rainfall[59]).toBe(1);
+  });
+});
+
+describe('calculateSoilingProfile', () => {
+  it('should build up daily, level off and wash off in heavy rain', () => {
+    const rainfall = new Array(20).fill(0);
+    rainfall[10] = 3; // Below the cleaning threshold
+    rainfall[12] = 8;
+    const loss = calculateSoilingProfile(rainfall, config, []).map((day) => day.loss);
+
+    expect(loss.slice(0, 4)).toEqual([0, 0.01, 0.02, expect.closeTo(0.03, 9)]);
+    expect(loss[9]).toBe(0.05);
+    expect(loss[11]).toBe(0.05);
+    // Clean on the rainy day and through the grace period
+    expect(loss.slice(12, 15)).toEqual([0, 0, 0]);
+    expect(loss[16]).toBeCloseTo(0.02, 9);
+  });
+
+  it('should reset on manual wash days', () => {
+    const profile = calculateSoilingProfile(new Array(10).fill(0), config, [6]);
+    expect(profile[5]).toEqual({ loss: 0, washed: true });
+    expect(profile[4].loss).toBe(0.04);
+    expect(profile[6].loss).toBe(0.01);
+  });
+});
+
+describe('wash schedule', () => {
+  const dryYear = Array.from({ length: 120 }, () => ({ rainfall: 0, dcEnergy: 20000 }));
+
+  it('should not wash when washing costs more than the energy recovered', () => {
+    const result = optimizeWashSchedule(dryYear, config, { ...DEFAULT_WASH_COSTS, washCost: 1000 });
+    expect(result.washDays).toEqual([]);
+    expect(result.totalCost).toBeCloseTo(evaluateWashSchedule(dryYear, config, DEFAULT_WASH_COSTS, []).lostValue, 9);
+  });
+
+  it('should beat any hand-picked schedule when washing pays off', () => {
+    const dusty = { ...config, rate: 0.002, maxLoss: 0.3 };
+    const cheap = { washCost: 2, energyPrice: 0.15 };
+    const best = optimizeWashSchedule(dryYear, dusty, cheap);
+    expect(best.washDays.length).toBeGreaterThan(0);
+    expect(best.washCost).toBeCloseTo(best.washDays.length * 2, 9);
+    for (const schedule of [[], [30], [30, 60, 90], [10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110]]) {
+      expect(best.totalCost).toBeLessThanOrEqual(evaluateWashSchedule(dryYear, dusty, cheap, schedule).totalCost + 1e-9);
+    }
+  });
+
+  it('should not wash just before rain does it for free', () => {
+    const wet = dryYear.map((day, i) => (i === 60 ? { ...day, rainfall: 10 } : day));
+    const best = optimizeWashSchedule(wet, { ...config, rate: 0.002, maxLoss: 0.3 }, { washCost: 2, energyPrice: 0.15 });
+    expect(best.washDays.length).toBeGreaterThan(0);
+    expect(best.washDays).not.toContain(60);
+    expect(best.washDays).not.toContain(61);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Soiling and Cleaning
+ *
+ * Daily soiling build-up with rain and manual cleaning (Kimber model):
+ * - Dust adds a fixed loss each dry day, levelling off at a maximum
+ * - A day with enough rain washes the modules; dust does not stick again
+ *   until the ground has dried out (grace period)
+ * - Scheduled manual washes reset the loss
+ *
+ * The wash schedule optimiser picks the wash days that minimise the cost of
+ * washing plus the value of the energy lost to soiling over the year.
+ *
+ * References:
+ * - Kimber et al. (2006): The Effect of Soiling on Large Grid-Connected Photovoltaic Systems in California and the Southwest Region of the United States, IEEE 4th WCPEC
+ * - Deceglie, Micheli & Muller (2018): Quantifying Soiling Loss Directly From PV Yield, IEEE J. Photovolt. 8:547-551
+ */
+
+import { SoilingConfig, SoilingSource, WeatherDataset } from './types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Arid site with a dry summer: about 200 mm of rain a year
+ */
+export const DEFAULT_SOILING_CONFIG: SoilingConfig = {
+  source: 'monthly',
+  rate: 0.0015,
+  maxLoss: 0.3,
+  cleaningThreshold: 6,
+  gracePeriod: 14,
+  monthlyRainfall: [23, 23, 25, 7, 3, 1, 27, 25, 16, 15, 16, 22],
+  washDays: [],
+};
+
+export const DEFAULT_WASH_COSTS: WashCosts = {
+  washCost: 100,
+  energyPrice: 0.15,
+};
+
+export const SOILING_SOURCE_NAMES: Record<SoilingSource, string> = {
+  weather: 'Weather file',
+  monthly: 'Monthly totals',
+};
+
+// Rainfall in each storm when splitting monthly totals (mm)
+const MONTHLY_STORM_RAINFALL = 10;
+
+export interface WashCosts {
+  washCost: number; // Cost of one manual wash (currency)
+  energyPrice: number; // Value of the energy soiling takes (currency per kWh)
+}
+
+export interface SoilingDayInput {
+  rainfall: number; // mm
+  dcEnergy: number; // Wh (DC) the clean array would produce
+}
+
+export interface WashScheduleResult {
+  washDays: number[]; // Day of year (1-based)
+  lostEnergy: number; // Wh (DC) lost to soiling
+  lostValue: number; // Value of the lost energy (currency)
+  washCost: number; // Cost of all washes (currency)
+  totalCost: number; // Lost value plus washing
+}
+
+// ============================================================
+// Rainfall
+// ============================================================
+
+/**
+ * Daily rainfall over a calendar year
+ *
+ * Weather files are summed by date (February 29 stays dry when the file
+ * has no leap day). Monthly totals are split into storms of about 10 mm
+ * spread evenly through the month.
+ *
+ * @param config - Soiling configuration
+ * @param year - Calendar year
+ * @param weather - Weather dataset, used when the source is 'weather'
+ * @returns Rainfall for each day of the year (mm)
+ */
+export function getDailyRainfall(
+  config: SoilingConfig,
+  year: number,
+  weather: WeatherDataset | null = null
+): number[] {
+  const yearStart = Date.UTC(year, 0, 1);
+  const rainfall = new Array<number>(Math.round((Date.UTC(year + 1, 0, 1) - yearStart) / MS_PER_DAY)).fill(0);
+
+  if (config.source === 'weather') {
+    for (const record of weather?.records ?? []) {
+      if (!record.precipitation) continue;
+      const day = Math.round((Date.UTC(year, record.month - 1, record.day) - yearStart) / MS_PER_DAY);
+      // Date.UTC rolls February 29 into March 1 in common years
+      if (record.month === 2 && record.day === 29 && rainfall.length < 366) continue;
+      if (day >= 0 && day < rainfall.length) rainfall[day] += record.precipitation;
+    }
+    return rainfall;
+  }
+
+  for (let month = 0; month < 12; month++) {
+    const total = config.monthlyRainfall[month] ?? 0;
+    if (total <= 0) continue;
+    const first = Math.round((Date.UTC(year, month, 1) - yearStart) / MS_PER_DAY);
+    const days = Math.round((Date.UTC(year, month + 1, 1) - Date.UTC(year, month, 1)) / MS_PER_DAY);
+    const storms = Math.min(days, Math.max(1, Math.round(total / MONTHLY_STORM_RAINFALL)));
+    for (let storm = 0; storm < storms; storm++) {
+      rainfall[first + Math.floor(((storm + 0.5) * days) / storms)] += total / storms;
+    }
+  }
+  return rainfall;
+}
+
+// ============================================================
+// Soiling Build-Up
+// ============================================================
+
+interface SoilingState {
+  loss: number;
+  grace: number; // Dry days left before dust sticks again
+}
+
+/**
+ * Advance the soiling state through one day
+ *
+ * Rain or a wash cleans the modules at the start of the day; dust then
+ * settles for the next day.
+ */
+function advanceDay(
+  state: SoilingState,
+  rainfall: number,
+  wash: boolean,
+  config: SoilingConfig
+): { loss: number; washed: boolean } {
+  let washed = false;
+  if (rainfall >= config.cleaningThreshold) {
+    state.loss = 0;
+    state.grace = config.gracePeriod;
+    washed = true;
+  } else if (wash) {
+    state.loss = 0;
+    washed = true;
+  }
+
+  const loss = state.loss;
+  if (state.grace > 0) {
+    state.grace--;
+  } else {
+    state.loss = Math.min(config.maxLoss, state.loss + config.rate);
+  }
+  return { loss, washed };
+}
+
+/**
+ * Calculate the soiling loss of every day
+ *
+ * The modules start the year clean.
+ *
+ * @param rainfall - Daily rainfall (mm)
+ * @param config - Soiling rate, cleaning threshold and grace period
+ * @param washDays - Manual wash days, day of year (1-based)
+ * @returns Loss (0-1) and whether the modules were cleaned, per day
+ */
+export function calculateSoilingProfile(
+  rainfall: number[],
+  config: SoilingConfig,
+  washDays: number[] = config.washDays
+): { loss: number; washed: boolean }[] {
+  const washes = new Set(washDays.map((day) => day - 1));
+  const state: SoilingState = { loss: 0, grace: 0 };
+  return rainfall.map((rain, day) => advanceDay(state, rain, washes.has(day), config));
+}
+
+// ============================================================
+// Wash Schedule
+// ============================================================
+
+/**
+ * Cost of a wash schedule over the year
+ *
+ * @param days - Rainfall and clean-array DC energy for each day
+ * @param config - Soiling model
+ * @param costs - Wash cost and energy price
+ * @param washDays - Manual wash days, day of year (1-based)
+ */
+export function evaluateWashSchedule(
+  days: SoilingDayInput[],
+  config: SoilingConfig,
+  costs: WashCosts,
+  washDays: number[] = config.washDays
+): WashScheduleResult {
+  const scheduled = [...new Set(washDays)].filter((day) => day >= 1 && day <= days.length).sort((a, b) => a - b);
+  const profile = calculateSoilingProfile(days.map((day) => day.rainfall), config, scheduled);
+  const lostEnergy = profile.reduce((sum, { loss }, i) => sum + days[i].dcEnergy * loss, 0);
+  const lostValue = (lostEnergy / 1000) * costs.energyPrice;
+  const washCost = scheduled.length * costs.washCost;
+
+  return { washDays: scheduled, lostEnergy, lostValue, washCost, totalCost: lostValue + washCost };
+}
+
+/**
+ * Find the wash days with the lowest total cost
+ *
+ * Dynamic programme over the day of the last manual wash: the soiling
+ * between two washes only depends on the rain in between, so each wash
+ * day is reached from the cheapest earlier one.
+ *
+ * @param days - Rainfall and clean-array DC energy for each day
+ * @param config - Soiling model (its wash days are ignored)
+ * @param costs - Wash cost and energy price
+ */
+export function optimizeWashSchedule(
+  days: SoilingDayInput[],
+  config: SoilingConfig,
+  costs: WashCosts
+): WashScheduleResult {
+  const n = days.length;
+  const dayValue = days.map((day) => (day.dcEnergy / 1000) * costs.energyPrice);
+
+  // Rain alone sets the grace period, whatever the washes
+  const graceAt: number[] = [];
+  const rainState: SoilingState = { loss: 0, grace: 0 };
+  days.forEach((day) => {
+    graceAt.push(rainState.grace);
+    advanceDay(rainState, day.rainfall, false, config);
+  });
+
+  // best[d]: cheapest cost of days before d with a wash on day d (best[n]: whole year)
+  const best = new Array<number>(n + 1).fill(Infinity);
+  const previous = new Array<number>(n + 1).fill(-1);
+
+  const relax = (origin: number, base: number) => {
+    const state: SoilingState = { loss: 0, grace: origin < 0 ? 0 : graceAt[origin] };
+    let cost = base;
+    for (let day = Math.max(0, origin); day <= n; day++) {
+      if (day > origin) {
+        const candidate = cost + (day < n ? costs.washCost : 0);
+        if (candidate < best[day]) {
+          best[day] = candidate;
+          previous[day] = origin;
+        }
+      }
+      if (day === n) break;
+      cost += dayValue[day] * advanceDay(state, days[day].rainfall, day === origin, config).loss;
+    }
+  };
+
+  relax(-1, 0);
+  for (let day = 0; day < n; day++) {
+    if (Number.isFinite(best[day])) relax(day, best[day]);
+  }
+
+  const washDays: number[] = [];
+  for (let day = previous[n]; day >= 0; day = previous[day]) {
+    washDays.unshift(day + 1);
+  }
+  return evaluateWashSchedule(days, config, costs, washDays);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSandiaSpectralFactor,
+  calculateFirstSolarSpectralFactor,
+  calculateSpectralFactor,
+  DEFAULT_PRECIPITABLE_WATER,
+} from './spectral';
+import { ModuleTechnology } from './types';
+
+const TECHNOLOGIES: ModuleTechnology[] = ['mono-si', 'poly-si', 'cdte', 'hit'];
+
+describe('calculateSandiaSpectralFactor', () => {
+  it('should be close to 1 at AM1.5 for every technology', () => {
+    TECHNOLOGIES.forEach((technology) => {
+      expect(calculateSandiaSpectralFactor(1.5, technology)).toBeCloseTo(1, 1);
+    });
+  });
+
+  it('should fall off toward sunrise and sunset for crystalline silicon', () => {
+    expect(calculateSandiaSpectralFactor(10, 'poly-si')).toBeLessThan(calculateSandiaSpectralFactor(5, 'poly-si'));
+    expect(calculateSandiaSpectralFactor(10, 'mono-si')).toBeLessThan(calculateSandiaSpectralFactor(5, 'mono-si'));
+  });
+
+  it('should clamp air mass beyond the fitted range', () => {
+    expect(calculateSandiaSpectralFactor(30, 'mono-si')).toBe(calculateSandiaSpectralFactor(10, 'mono-si'));
+  });
+});
+
+describe('calculateFirstSolarSpectralFactor', () => {
+  it('should be close to 1 at AM1.5 with typical water vapour', () => {
+    TECHNOLOGIES.forEach((technology) => {
+      expect(calculateFirstSolarSpectralFactor(1.5, DEFAULT_PRECIPITABLE_WATER, technology)).toBeCloseTo(1, 1);
+    });
+  });
+
+  it('should favour humid, blue-rich light for CdTe', () => {
+    const dry = calculateFirstSolarSpectralFactor(1.5, 0.5, 'cdte');
+    const humid = calculateFirstSolarSpectralFactor(1.5, 4, 'cdte');
+    expect(humid).toBeGreaterThan(dry);
+    expect(calculateFirstSolarSpectralFactor(5, 1.42, 'cdte')).toBeLessThan(
+      calculateFirstSolarSpectralFactor(1.5, 1.42, 'cdte')
+    );
+  });
+
+  it('should respond more to water vapour for CdTe than for silicon', () => {
+    const spread = (technology: ModuleTechnology) =>
+      calculateFirstSolarSpectralFactor(1.5, 4, technology) - calculateFirstSolarSpectralFactor(1.5, 0.5, technology);
+    expect(spread('cdte')).toBeGreaterThan(spread('mono-si'));
+  });
+});
+
+describe('calculateSpectralFactor', () => {
+  it('should not correct when disabled or the sun is down', () => {
+    expect(calculateSpectralFactor(3, 'cdte', { model: 'none', precipitableWater: null })).toBe(1);
+    expect(calculateSpectralFactor(3, 'cdte', null)).toBe(1);
+    expect(calculateSpectralFactor(Infinity, 'cdte')).toBe(1);
+    expect(calculateSpectralFactor(0, 'cdte')).toBe(1);
+  });
+
+  it('should use the Sandia model by default', () => {
+    expect(calculateSpectralFactor(3)).toBe(calculateSandiaSpectralFactor(3, 'mono-si'));
+  });
+
+  it('should prefer configured over weather over typical precipitable water', () => {
+    const auto = { model: 'first-solar' as const, precipitableWater: null };
+    expect(calculateSpectralFactor(2, 'cdte', auto)).toBe(
+      calculateFirstSolarSpectralFactor(2, DEFAULT_PRECIPITABLE_WATER, 'cdte')
+    );
+    expect(calculateSpectralFactor(2, 'cdte', auto, 3)).toBe(calculateFirstSolarSpectralFactor(2, 3, 'cdte'));
+    expect(calculateSpectralFactor(2, 'cdte', { ...auto, precipitableWater: 0.5 }, 3)).toBe(
+      calculateFirstSolarSpectralFactor(2, 0.5, 'cdte')
+    );
+  });
+});
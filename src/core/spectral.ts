@@ -0,0 +1,133 @@
+/**
+ * Spectral Mismatch Correction
+ *
+ * Sunlight reddens as it passes through more atmosphere and shifts with
+ * water vapour absorption. Each cell technology responds differently,
+ * so the effective irradiance is scaled by a spectral factor:
+ * - Sandia (SAPM): fourth-order polynomial in air mass per technology
+ * - First Solar: air mass and precipitable water, developed for CdTe
+ *   with fitted coefficients for crystalline silicon
+ *
+ * Both factors are close to 1 at AM1.5 with typical water vapour (the STC
+ * spectrum).
+ *
+ * References:
+ * - King, Boyson & Kratochvil (2004): Photovoltaic Array Performance Model, SAND2004-3535
+ * - Lee & Panchula (2016): Spectral correction for photovoltaic module performance based on
+ *   air mass and precipitable water, IEEE PVSC 43
+ */
+
+import { ModuleTechnology, SpectralConfig, SpectralModel } from './types';
+
+/**
+ * Default spectral correction
+ */
+export const DEFAULT_SPECTRAL_CONFIG: SpectralConfig = {
+  model: 'sandia',
+  precipitableWater: null,
+};
+
+/**
+ * Precipitable water used without weather data (cm, mid-latitude average)
+ */
+export const DEFAULT_PRECIPITABLE_WATER = 1.42;
+
+export const SPECTRAL_MODEL_NAMES: Record<SpectralModel, string> = {
+  none: 'None (AM1.5 spectrum)',
+  sandia: 'Sandia air mass',
+  'first-solar': 'First Solar (air mass + water vapour)',
+};
+
+export const MODULE_TECHNOLOGY_NAMES: Record<ModuleTechnology, string> = {
+  'mono-si': 'Mono-Si',
+  'poly-si': 'Poly-Si',
+  cdte: 'CdTe thin film',
+  hit: 'HIT heterojunction',
+};
+
+// Representative SAPM spectral coefficients (a0..a4) from the Sandia module database
+const SANDIA_COEFFICIENTS: Record<ModuleTechnology, [number, number, number, number, number]> = {
+  'mono-si': [0.928385, 0.068093, -0.0157738, 0.0016606, -0.0000693],
+  'poly-si': [0.918093, 0.086257, -0.024459, 0.002816, -0.000126],
+  cdte: [0.8794, 0.1183, -0.0294, 0.0029, -0.0001],
+  hit: [0.9282, 0.0696, -0.0173, 0.002, -0.000089],
+};
+
+// First Solar coefficients (c0..c5); HIT uses the crystalline silicon fit
+const FIRST_SOLAR_COEFFICIENTS: Record<ModuleTechnology, [number, number, number, number, number, number]> = {
+  'mono-si': [0.85914, -0.02088, -0.0058853, 0.12029, 0.026814, -0.001781],
+  'poly-si': [0.8409, -0.027539, -0.0079224, 0.1357, 0.038024, -0.0021218],
+  cdte: [0.86273, -0.038948, -0.012506, 0.098871, 0.084658, -0.0042948],
+  hit: [0.85914, -0.02088, -0.0058853, 0.12029, 0.026814, -0.001781],
+};
+
+// Fits are not valid beyond these limits
+const MAX_AIR_MASS = 10;
+const MIN_PRECIPITABLE_WATER = 0.1;
+const MAX_PRECIPITABLE_WATER = 8;
+
+// ============================================================
+// Spectral Models
+// ============================================================
+
+/**
+ * Sandia air-mass spectral factor
+ *
+ * @param airMass - Air mass
+ * @param technology - Cell technology
+ * @returns Spectral factor (about 1 at AM1.5)
+ */
+export function calculateSandiaSpectralFactor(airMass: number, technology: ModuleTechnology): number {
+  const am = Math.min(MAX_AIR_MASS, airMass);
+  const [a0, a1, a2, a3, a4] = SANDIA_COEFFICIENTS[technology];
+  return Math.max(0, a0 + a1 * am + a2 * am ** 2 + a3 * am ** 3 + a4 * am ** 4);
+}
+
+/**
+ * First Solar precipitable-water / air-mass spectral factor
+ *
+ * @param airMass - Air mass
+ * @param precipitableWater - Atmospheric precipitable water (cm)
+ * @param technology - Cell technology
+ * @returns Spectral factor
+ */
+export function calculateFirstSolarSpectralFactor(
+  airMass: number,
+  precipitableWater: number,
+  technology: ModuleTechnology
+): number {
+  const am = Math.min(MAX_AIR_MASS, airMass);
+  const pw = Math.max(MIN_PRECIPITABLE_WATER, Math.min(MAX_PRECIPITABLE_WATER, precipitableWater));
+  const [c0, c1, c2, c3, c4, c5] = FIRST_SOLAR_COEFFICIENTS[technology];
+  return Math.max(
+    0,
+    c0 + c1 * am + c2 * pw + c3 * Math.sqrt(am) + c4 * Math.sqrt(pw) + c5 * (am / Math.sqrt(pw))
+  );
+}
+
+/**
+ * Calculate the spectral factor for the selected model
+ *
+ * Precipitable water comes from the config when set, otherwise from
+ * weather data, otherwise a typical value.
+ *
+ * @param airMass - Air mass (Irradiance.airMass)
+ * @param technology - Cell technology (default mono-Si)
+ * @param config - Spectral model and optional precipitable water
+ * @param weatherPrecipitableWater - Precipitable water from weather data (cm)
+ * @returns Spectral factor (1 when disabled or the sun is down)
+ */
+export function calculateSpectralFactor(
+  airMass: number,
+  technology: ModuleTechnology = 'mono-si',
+  config: SpectralConfig | null = DEFAULT_SPECTRAL_CONFIG,
+  weatherPrecipitableWater?: number
+): number {
+  if (!config || config.model === 'none' || !Number.isFinite(airMass) || airMass <= 0) return 1;
+
+  if (config.model === 'first-solar') {
+    const precipitableWater = config.precipitableWater ?? weatherPrecipitableWater ?? DEFAULT_PRECIPITABLE_WATER;
+    return calculateFirstSolarSpectralFactor(airMass, precipitableWater, technology);
+  }
+  return calculateSandiaSpectralFactor(airMass, technology);
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateStringSizing,
+  suggestStringConfig,
+  calculateMPPTWindowFactor,
+  DEFAULT_INVERTER_LIMITS,
+} from './stringSizing';
+import { InverterConfig, PanelConfig, StringConfig } from './types';
+import { panelPresets } from '../models/panelPresets';
+
+const panelConfig: PanelConfig = panelPresets.find((p) => p.id === 'generic-400')!.config;
+
+function inverterWith(strings: StringConfig, limits = DEFAULT_INVERTER_LIMITS): InverterConfig {
+  return { efficiency: 0.96, acCapacity: 5000, dcAcRatio: 1.2, strings, limits };
+}
+
+function codes(strings: StringConfig, panelCount: number) {
+  return validateStringSizing(panelConfig, panelCount, inverterWith(strings), -10, 40)!.warnings.map((w) => w.code);
+}
+
+describe('string sizing checks', () => {
+  it('should skip the checks without a string layout', () => {
+    expect(validateStringSizing(panelConfig, 10, { efficiency: 0.96, acCapacity: 5000, dcAcRatio: 1.2 })).toBeNull();
+  });
+
+  it('should accept a layout inside every limit', () => {
+    const result = validateStringSizing(panelConfig, 10, inverterWith({ modulesPerString: 10, stringsPerMppt: 1, mpptCount: 1 }), -10, 40)!;
+    expect(result.warnings).toEqual([]);
+    expect(result.wiredModules).toBe(10);
+    // 10 × 49.3 V × (1 + 0.0027 × 35)
+    expect(result.coldVoc).toBeCloseTo(539.6, 1);
+    expect(result.coldVmp).toBeGreaterThan(result.hotVmp);
+  });
+
+  it('should flag layouts that do not wire the whole array', () => {
+    expect(codes({ modulesPerString: 8, stringsPerMppt: 1, mpptCount: 1 }, 10)).toContain('panel-count');
+  });
+
+  it('should flag long strings over the maximum voltage and MPPT window', () => {
+    expect(codes({ modulesPerString: 12, stringsPerMppt: 1, mpptCount: 1 }, 12)).toEqual(['max-voltage', 'mppt-high']);
+  });
+
+  it('should flag short strings and too many in parallel', () => {
+    expect(codes({ modulesPerString: 2, stringsPerMppt: 5, mpptCount: 1 }, 10)).toEqual(['mppt-low', 'current']);
+  });
+
+  it('should warn when the module has no datasheet values', () => {
+    const { electrical: _, ...bare } = panelConfig;
+    const result = validateStringSizing(bare, 10, inverterWith({ modulesPerString: 10, stringsPerMppt: 1, mpptCount: 1 }))!;
+    expect(result.warnings.map((w) => w.code)).toEqual(['no-datasheet']);
+  });
+
+  it('should lower the hot-weather voltage for hotter mounts', () => {
+    const strings = { modulesPerString: 10, stringsPerMppt: 1, mpptCount: 1 };
+    const open = validateStringSizing(panelConfig, 10, inverterWith(strings), -10, 40, { model: 'noct', mounting: 'open-rack' })!;
+    const roof = validateStringSizing(panelConfig, 10, inverterWith(strings), -10, 40, { model: 'noct', mounting: 'close-roof' })!;
+    expect(roof.hotVmp).toBeLessThan(open.hotVmp);
+    expect(roof.coldVoc).toBe(open.coldVoc);
+  });
+});
+
+describe('string layout suggestion', () => {
+  it('should suggest a layout that passes the checks', () => {
+    [6, 10, 16, 20].forEach((panelCount) => {
+      const strings = suggestStringConfig(panelConfig, panelCount);
+      expect(strings.modulesPerString * strings.stringsPerMppt * strings.mpptCount).toBe(panelCount);
+      expect(codes(strings, panelCount)).toEqual([]);
+    });
+  });
+
+  it('should shorten strings for colder sites', () => {
+    const mild = suggestStringConfig(panelConfig, 22, DEFAULT_INVERTER_LIMITS, 0);
+    const cold = suggestStringConfig(panelConfig, 22, DEFAULT_INVERTER_LIMITS, -40);
+    expect(mild.modulesPerString).toBe(11);
+    expect(cold.modulesPerString).toBeLessThan(11);
+  });
+});
+
+describe('MPPT window operation', () => {
+  const strings = { modulesPerString: 10, stringsPerMppt: 1, mpptCount: 1 };
+
+  it('should not limit an array operating inside the window', () => {
+    expect(calculateMPPTWindowFactor(panelConfig, inverterWith(strings), 800, 45)).toBe(1);
+    expect(calculateMPPTWindowFactor(panelConfig, { efficiency: 0.96, acCapacity: 5000, dcAcRatio: 1.2 }, 800, 45)).toBe(1);
+  });
+
+  it('should lose power when the window clamps the string voltage', () => {
+    const narrow = { ...DEFAULT_INVERTER_LIMITS, mpptVoltageMax: 300 };
+    const factor = calculateMPPTWindowFactor(panelConfig, inverterWith(strings, narrow), 800, 45);
+    expect(factor).toBeGreaterThan(0);
+    expect(factor).toBeLessThan(1);
+  });
+
+  it('should lose power when the input current is limited', () => {
+    const parallel = { modulesPerString: 4, stringsPerMppt: 3, mpptCount: 1 };
+    const factor = calculateMPPTWindowFactor(panelConfig, inverterWith(parallel), 1000, 45);
+    expect(factor).toBeGreaterThan(0);
+    expect(factor).toBeLessThan(1);
+  });
+
+  it('should not start below the window floor', () => {
+    const short = { modulesPerString: 2, stringsPerMppt: 1, mpptCount: 1 };
+    expect(calculateMPPTWindowFactor(panelConfig, inverterWith(short), 800, 45)).toBe(0);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * String Sizing and MPPT Window
+ *
+ * Checks that the array can be wired into series strings the inverter
+ * accepts:
+ * - Cold-weather Voc at the record low stays under the maximum DC voltage
+ * - Vmp stays inside the MPPT window from hot summer to cold winter days
+ * - Parallel string current stays under the MPPT input limit
+ *
+ * While operating, the inverter holds the string voltage inside its MPPT
+ * window and limits input current, moving the array off its maximum power
+ * point (requires the single-diode model).
+ *
+ * References:
+ * - NEC 690.7: Maximum voltage (temperature-corrected Voc)
+ * - IEC 62548: Photovoltaic (PV) arrays - Design requirements
+ */
+
+import { InverterConfig, InverterLimits, PanelConfig, StringConfig, ThermalConfig } from './types';
+import { calculateCellTemperature } from './losses';
+import {
+  fitSingleDiodeParameters,
+  calculateOperatingPoint,
+  calculateCurrentAtVoltage,
+  calculateVoltageAtCurrent,
+} from './singleDiode';
+
+/**
+ * Typical single-phase residential string inverter
+ */
+export const DEFAULT_INVERTER_LIMITS: InverterLimits = {
+  maxDcVoltage: 600,
+  mpptVoltageMin: 100,
+  mpptVoltageMax: 480,
+  maxInputCurrent: 15,
+};
+
+export const DEFAULT_RECORD_LOW_TEMP = -10; // °C
+export const DEFAULT_RECORD_HIGH_TEMP = 40; // °C
+
+// Design irradiance for operating-voltage checks (W/m²)
+const DESIGN_IRRADIANCE = 1000;
+
+export type StringWarningCode = 'no-datasheet' | 'panel-count' | 'max-voltage' | 'mppt-high' | 'mppt-low' | 'current';
+
+export interface StringWarning {
+  code: StringWarningCode;
+  severity: 'error' | 'warning'; // error: unsafe or impossible wiring; warning: lost energy
+  message: string;
+}
+
+export interface StringSizingResult {
+  wiredModules: number; // Modules in the wiring layout
+  coldVoc: number; // String Voc at the record low (V)
+  coldVmp: number; // String Vmp in full sun at the record low (V)
+  hotVmp: number; // String Vmp in full sun at the record high (V)
+  mpptCurrent: number; // Operating current into each MPPT at STC (A)
+  warnings: StringWarning[];
+}
+
+// ============================================================
+// Design Checks
+// ============================================================
+
+/**
+ * Validate the string layout against the inverter limits
+ *
+ * @param panelConfig - Module, with datasheet electrical values
+ * @param panelCount - Number of modules in the array
+ * @param inverterConfig - Inverter with string layout and limits
+ * @param recordLowTemp - Record low ambient temperature (°C)
+ * @param recordHighTemp - Record high ambient temperature (°C)
+ * @param thermal - Cell temperature model for the hot-weather check
+ * @returns Check results, or null when no string layout is configured
+ */
+export function validateStringSizing(
+  panelConfig: PanelConfig,
+  panelCount: number,
+  inverterConfig: InverterConfig,
+  recordLowTemp: number = DEFAULT_RECORD_LOW_TEMP,
+  recordHighTemp: number = DEFAULT_RECORD_HIGH_TEMP,
+  thermal: ThermalConfig | null = null
+): StringSizingResult | null {
+  const { strings, limits } = inverterConfig;
+  if (!strings || !limits) return null;
+
+  const { modulesPerString, stringsPerMppt, mpptCount } = strings;
+  const wiredModules = modulesPerString * stringsPerMppt * mpptCount;
+  const warnings: StringWarning[] = [];
+
+  if (wiredModules !== panelCount) {
+    warnings.push({
+      code: 'panel-count',
+      severity: 'error',
+      message: `${modulesPerString} × ${stringsPerMppt} × ${mpptCount} wires ${wiredModules} modules, but the array has ${panelCount}`,
+    });
+  }
+
+  const { electrical } = panelConfig;
+  if (!electrical) {
+    warnings.push({
+      code: 'no-datasheet',
+      severity: 'warning',
+      message: 'Module has no datasheet Voc/Vmp; voltages cannot be checked',
+    });
+    return { wiredModules, coldVoc: 0, coldVmp: 0, hotVmp: 0, mpptCurrent: 0, warnings };
+  }
+
+  const params = fitSingleDiodeParameters(electrical, panelConfig.technology);
+  const cellTempAt = (ambient: number) => calculateCellTemperature(
+    ambient,
+    DESIGN_IRRADIANCE,
+    panelConfig.noct,
+    1,
+    thermal,
+    panelConfig.efficiency
+  );
+
+  // Voc peaks at first light on the coldest morning, with cells at air temperature
+  const coldVoc = modulesPerString * electrical.voc * (1 + (electrical.tempCoefficientVoc / 100) * (recordLowTemp - 25));
+  const coldVmp = modulesPerString * calculateOperatingPoint(params, DESIGN_IRRADIANCE, cellTempAt(recordLowTemp)).voltage;
+  const hotVmp = modulesPerString * calculateOperatingPoint(params, DESIGN_IRRADIANCE, cellTempAt(recordHighTemp)).voltage;
+  const mpptCurrent = stringsPerMppt * electrical.imp;
+
+  if (coldVoc > limits.maxDcVoltage) {
+    warnings.push({
+      code: 'max-voltage',
+      severity: 'error',
+      message: `Cold Voc ${coldVoc.toFixed(0)} V at ${recordLowTemp}°C exceeds the ${limits.maxDcVoltage} V inverter maximum`,
+    });
+  }
+  if (coldVmp > limits.mpptVoltageMax) {
+    warnings.push({
+      code: 'mppt-high',
+      severity: 'warning',
+      message: `Cold Vmp ${coldVmp.toFixed(0)} V is above the ${limits.mpptVoltageMax} V MPPT window`,
+    });
+  }
+  if (hotVmp < limits.mpptVoltageMin) {
+    warnings.push({
+      code: 'mppt-low',
+      severity: 'warning',
+      message: `Hot Vmp ${hotVmp.toFixed(0)} V at ${recordHighTemp}°C is below the ${limits.mpptVoltageMin} V MPPT window`,
+    });
+  }
+  if (mpptCurrent > limits.maxInputCurrent) {
+    warnings.push({
+      code: 'current',
+      severity: 'warning',
+      message: `${mpptCurrent.toFixed(1)} A per MPPT exceeds the ${limits.maxInputCurrent} A input limit`,
+    });
+  }
+
+  return { wiredModules, coldVoc, coldVmp, hotVmp, mpptCurrent, warnings };
+}
+
+/**
+ * Suggest a string layout for the array
+ *
+ * Picks the longest string that divides the array evenly, keeps cold Voc
+ * under the inverter maximum and lets the strings share the available
+ * MPPTs within the current limit. Falls back to the longest string when no
+ * layout meets every limit.
+ *
+ * @param panelConfig - Module, with datasheet electrical values
+ * @param panelCount - Number of modules in the array
+ * @param limits - Inverter limits
+ * @param recordLowTemp - Record low ambient temperature (°C)
+ * @param maxMppts - MPP trackers available on the inverter
+ */
+export function suggestStringConfig(
+  panelConfig: PanelConfig,
+  panelCount: number,
+  limits: InverterLimits = DEFAULT_INVERTER_LIMITS,
+  recordLowTemp: number = DEFAULT_RECORD_LOW_TEMP,
+  maxMppts: number = 2
+): StringConfig {
+  const count = Math.max(1, Math.round(panelCount));
+  const electrical = panelConfig.electrical;
+  const coldVoc = electrical
+    ? electrical.voc * (1 + (electrical.tempCoefficientVoc / 100) * (recordLowTemp - 25))
+    : 0;
+  const maxLength = coldVoc > 0 ? Math.max(1, Math.floor(limits.maxDcVoltage / coldVoc)) : count;
+  const maxParallel = electrical ? Math.max(1, Math.floor(limits.maxInputCurrent / electrical.imp)) : count;
+
+  let fallback: StringConfig | null = null;
+  for (let length = Math.min(maxLength, count); length >= 1; length--) {
+    if (count % length !== 0) continue;
+    const stringCount = count / length;
+    fallback ??= { modulesPerString: length, stringsPerMppt: stringCount, mpptCount: 1 };
+
+    for (let mpptCount = 1; mpptCount <= maxMppts; mpptCount++) {
+      if (stringCount % mpptCount === 0 && stringCount / mpptCount <= maxParallel) {
+        return { modulesPerString: length, stringsPerMppt: stringCount / mpptCount, mpptCount };
+      }
+    }
+  }
+  return fallback ?? { modulesPerString: 1, stringsPerMppt: count, mpptCount: 1 };
+}
+
+// ============================================================
+// Operating Point
+// ============================================================
+
+/**
+ * Operating point the inverter holds the modules at
+ *
+ * The inverter clamps the string voltage to the MPPT window and raises it
+ * until the input current is within limit; below the window floor at open
+ * circuit it cannot operate at all. Without a string layout the modules
+ * run at their maximum power point.
+ *
+ * @param panelConfig - Module, with datasheet electrical values
+ * @param inverterConfig - Inverter with string layout and limits
+ * @param irradiance - Effective irradiance reaching the cells (W/m²)
+ * @param cellTemp - Cell temperature (°C)
+ * @returns Fraction of maximum DC power extracted (0-1) and module voltage
+ *   (V, null without datasheet values, light or operation)
+ */
+export function calculateMPPTOperatingPoint(
+  panelConfig: PanelConfig,
+  inverterConfig: InverterConfig,
+  irradiance: number,
+  cellTemp: number
+): { factor: number; voltage: number | null } {
+  const { strings, limits } = inverterConfig;
+  const { electrical } = panelConfig;
+  if (!electrical || irradiance <= 0) return { factor: 1, voltage: null };
+
+  const params = fitSingleDiodeParameters(electrical, panelConfig.technology);
+  const mpp = calculateOperatingPoint(params, irradiance, cellTemp);
+  if (mpp.power <= 0) return { factor: 1, voltage: null };
+  if (!strings || !limits) return { factor: 1, voltage: mpp.voltage };
+
+  // Module-level limits
+  const maxCurrent = limits.maxInputCurrent / strings.stringsPerMppt;
+  const currentFloor = mpp.isc > maxCurrent
+    ? calculateVoltageAtCurrent(params, irradiance, cellTemp, maxCurrent)
+    : 0;
+  const low = Math.max(limits.mpptVoltageMin / strings.modulesPerString, currentFloor);
+  const high = Math.min(limits.mpptVoltageMax / strings.modulesPerString, mpp.voc);
+  if (low > high) return { factor: 0, voltage: null };
+
+  // Power falls away on both sides of the maximum power point
+  const voltage = Math.max(low, Math.min(high, mpp.voltage));
+  if (voltage === mpp.voltage) return { factor: 1, voltage };
+  return {
+    factor: (voltage * calculateCurrentAtVoltage(params, irradiance, cellTemp, voltage)) / mpp.power,
+    voltage,
+  };
+}
+
+/**
+ * Fraction of maximum DC power the inverter extracts at its limits
+ *
+ * @param panelConfig - Module, with datasheet electrical values
+ * @param inverterConfig - Inverter with string layout and limits
+ * @param irradiance - Effective irradiance reaching the cells (W/m²)
+ * @param cellTemp - Cell temperature (°C)
+ * @returns Factor (0-1); 1 when no layout is configured
+ */
+export function calculateMPPTWindowFactor(
+  panelConfig: PanelConfig,
+  inverterConfig: InverterConfig,
+  irradiance: number,
+  cellTemp: number
+): number {
+  const { strings, limits } = inverterConfig;
+  if (!strings || !limits) return 1;
+  return calculateMPPTOperatingPoint(panelConfig, inverterConfig, irradiance, cellTemp).factor;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BillingHour,
+  calculateBill,
+  calculateTariffSavings,
+  DEFAULT_TARIFF,
+  getTariffRate,
+  getTierCharge,
+  SavingsHour,
+} from './tariff';
+import { Tariff } from './types';
+
+const flat: Tariff = { ...DEFAULT_TARIFF, baseRate: 0.2 };
+
+const timeOfUse: Tariff = {
+  ...DEFAULT_TARIFF,
+  baseRate: 0.1,
+  periods: [
+    { name: 'Summer peak', rate: 0.4, months: [5, 6, 7, 8], weekdays: [1, 2, 3, 4, 5], startHour: 16, endHour: 21 },
+    { name: 'Peak', rate: 0.3, months: [], weekdays: [1, 2, 3, 4, 5], startHour: 16, endHour: 21 },
+  ],
+};
+
+// One day of January (a Monday): 1 kWh imported every hour, 2 kWh exported at noon
+const hour = (h: number, gridImport: number, gridExport: number, month = 0, day = 0): BillingHour => ({
+  month,
+  day,
+  weekday: 1,
+  hour: h,
+  gridImport,
+  gridExport,
+});
+
+describe('getTariffRate', () => {
+  it('should take the first matching period and fall back to the base rate', () => {
+    expect(getTariffRate(timeOfUse, 6, 2, 17)).toBe(0.4);
+    expect(getTariffRate(timeOfUse, 0, 2, 17)).toBe(0.3);
+    expect(getTariffRate(timeOfUse, 6, 0, 17)).toBe(0.1);
+    expect(getTariffRate(timeOfUse, 6, 2, 12)).toBe(0.1);
+  });
+});
+
+describe('getTierCharge', () => {
+  it('should split consumption across the blocks it spans', () => {
+    const tiers = [{ limit: 300, adder: 0 }, { limit: 600, adder: 0.05 }, { limit: null, adder: 0.1 }];
+    expect(getTierCharge(tiers, 0, 300)).toBe(0);
+    expect(getTierCharge(tiers, 250, 100)).toBeCloseTo(50 * 0.05, 9);
+    expect(getTierCharge(tiers, 550, 100)).toBeCloseTo(50 * 0.05 + 50 * 0.1, 9);
+    expect(getTierCharge([], 0, 1000)).toBe(0);
+  });
+});
+
+describe('calculateBill', () => {
+  it('should charge imports at the time-of-use rate plus fixed daily charges', () => {
+    const hours = Array.from({ length: 24 }, (_, h) => hour(h, 1000, 0));
+    const bill = calculateBill(hours, { ...timeOfUse, fixedDailyCharge: 0.5 });
+    expect(bill.energyCharge).toBeCloseTo(19 * 0.1 + 5 * 0.3, 9);
+    expect(bill.fixedCharge).toBe(0.5);
+    expect(bill.total).toBeCloseTo(bill.energyCharge + 0.5, 9);
+    expect(bill.daily[0]).toBeCloseTo(bill.total, 9);
+  });
+
+  it('should credit net metering exports at the retail rate', () => {
+    const bill = calculateBill([hour(10, 5000, 0), hour(12, 0, 2000)], flat);
+    expect(bill.exportCredit).toBeCloseTo(0.4, 9);
+    expect(bill.total).toBeCloseTo(1 - 0.4, 9);
+  });
+
+  it('should net exports out of the tiers under net metering', () => {
+    const tiered = { ...flat, tiers: [{ limit: 3, adder: 0 }, { limit: null, adder: 0.1 }] };
+    const hours = [hour(10, 5000, 0), hour(12, 0, 2000)];
+    const netMetered = calculateBill(hours, tiered);
+    const netBilled = calculateBill(hours, { ...tiered, exportCompensation: 'net-billing' });
+    // 5 kWh imported, 2 kWh of them in the upper tier; exports take those back out
+    expect(netMetered.energyCharge).toBeCloseTo(5 * 0.2 + 2 * 0.1, 9);
+    expect(netMetered.total).toBeCloseTo(3 * 0.2, 9);
+    expect(netBilled.total).toBeCloseTo(5 * 0.2 + 2 * 0.1 - 2 * 0.05, 9);
+  });
+
+  it('should carry surplus credit forward and forfeit it at the end of the year', () => {
+    const hours = [hour(12, 0, 10000, 0, 0), hour(12, 2000, 0, 1, 31)];
+    const bill = calculateBill(hours, flat);
+    expect(bill.monthly[0].total).toBe(0);
+    expect(bill.monthly[1].creditApplied).toBeCloseTo(0.4, 9);
+    expect(bill.monthly[1].total).toBeCloseTo(0, 9);
+    expect(bill.forfeitedCredit).toBeCloseTo(1.6, 9);
+  });
+
+  it('should pay feed-in exports in cash', () => {
+    const bill = calculateBill([hour(12, 0, 10000)], { ...flat, exportCompensation: 'feed-in', exportRate: 0.08 });
+    expect(bill.total).toBeCloseTo(-0.8, 9);
+    expect(bill.forfeitedCredit).toBe(0);
+  });
+});
+
+describe('calculateTariffSavings', () => {
+  it('should value self-consumed PV at the avoided rate', () => {
+    // 1 kWh load every hour; PV covers the load from 10:00 to 14:00
+    const hours: SavingsHour[] = Array.from({ length: 24 }, (_, h) => ({
+      month: 0,
+      day: 0,
+      weekday: 1,
+      hour: h,
+      load: 1000,
+      gridImport: h >= 10 && h < 14 ? 0 : 1000,
+      gridExport: 0,
+    }));
+    const result = calculateTariffSavings(hours, flat);
+    expect(result.baseline.total).toBeCloseTo(24 * 0.2, 9);
+    expect(result.savings).toBeCloseTo(4 * 0.2, 9);
+    expect(result.monthly[0]).toBeCloseTo(result.savings, 9);
+    expect(result.daily[0]).toBeCloseTo(result.savings, 9);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Electricity Tariff
+ *
+ * Bills grid imports and exports hour by hour against a retail tariff:
+ * - Time-of-use periods by month, weekday and hour, with a base rate
+ *   outside them
+ * - Tiered (block) rates on the month's cumulative consumption
+ * - Fixed daily charges
+ * - Export compensation: net metering credits exports at the retail rate and
+ *   nets them out of the tiers; net billing credits them at the export rate.
+ *   Both only offset energy charges, carrying unused credit to the next
+ *   month until it lapses at the end of the year. A feed-in tariff pays
+ *   every exported kWh in full.
+ *
+ * Savings are the bill without PV (all load imported) less the bill with it.
+ *
+ * References:
+ * - NREL (2017): Grid-Connected Distributed Generation: Compensation Mechanism Basics, NREL/BR-6A20-68469
+ * - Darghouth, Barbose & Wiser (2011): The impact of rate design and net metering on the bill savings from distributed PV for residential customers in California, Energy Policy 39:5243-5253
+ */
+
+import { isPeakHour } from './battery';
+import {
+  Currency,
+  ExportCompensation,
+  MonthlyBill,
+  Tariff,
+  TariffBill,
+  TariffSavings,
+  TariffTier,
+} from './types';
+
+/**
+ * Flat residential rate with net metering
+ */
+export const DEFAULT_TARIFF: Tariff = {
+  id: 'tariff-default',
+  name: 'Flat rate',
+  currency: 'USD',
+  baseRate: 0.15,
+  periods: [],
+  tiers: [],
+  fixedDailyCharge: 0,
+  exportCompensation: 'net-metering',
+  exportRate: 0.05,
+};
+
+export const EXPORT_COMPENSATION_NAMES: Record<ExportCompensation, string> = {
+  'net-metering': 'Net metering',
+  'net-billing': 'Net billing',
+  'feed-in': 'Feed-in tariff',
+};
+
+export const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+};
+
+/**
+ * Grid flows over one hour of the local clock
+ */
+export interface BillingHour {
+  month: number; // 0-11
+  day: number; // Day of year (0-based)
+  weekday: number; // 0 = Sunday
+  hour: number; // Local clock hour (0-23)
+  gridImport: number; // Wh
+  gridExport: number; // Wh
+}
+
+/**
+ * One hour of household demand with and without PV
+ */
+export interface SavingsHour extends Omit<BillingHour, 'gridImport' | 'gridExport'> {
+  load: number; // Wh
+  gridImport: number; // Wh with PV
+  gridExport: number; // Wh with PV
+}
+
+// ============================================================
+// Rates
+// ============================================================
+
+/**
+ * Energy rate for an hour, before tiers
+ *
+ * @param tariff - Tariff
+ * @param month - Month (0-11)
+ * @param weekday - Day of week (0 = Sunday)
+ * @param hour - Local hour (0-24, fractional)
+ * @returns Rate of the first matching period, or the base rate (currency/kWh)
+ */
+export function getTariffRate(tariff: Tariff, month: number, weekday: number, hour: number): number {
+  const period = tariff.periods.find((p) =>
+    (p.months.length === 0 || p.months.includes(month)) &&
+    (p.weekdays.length === 0 || p.weekdays.includes(weekday)) &&
+    (p.startHour === p.endHour || isPeakHour(hour, p.startHour, p.endHour))
+  );
+  return period ? period.rate : tariff.baseRate;
+}
+
+/**
+ * Sum of tier adders over a slice of the month's consumption
+ *
+ * The last tier is open-ended whatever its limit.
+ *
+ * @param tiers - Tiers in order of limit
+ * @param from - Consumption already billed this month (kWh)
+ * @param energy - Consumption to bill (kWh)
+ */
+export function getTierCharge(tiers: TariffTier[], from: number, energy: number): number {
+  const to = from + energy;
+  let lower = 0;
+  let charge = 0;
+  tiers.forEach((tier, i) => {
+    const upper = i === tiers.length - 1 || tier.limit === null ? Infinity : Math.max(lower, tier.limit);
+    charge += Math.max(0, Math.min(to, upper) - Math.max(from, lower)) * tier.adder;
+    lower = upper;
+  });
+  return charge;
+}
+
+// ============================================================
+// Billing
+// ============================================================
+
+/**
+ * Bill a year of hourly grid flows
+ *
+ * @param hours - Grid flows for each hour, in order
+ * @param tariff - Tariff
+ * @returns Monthly bills and totals (currency)
+ */
+export function calculateBill(hours: BillingHour[], tariff: Tariff): TariffBill {
+  const netMetering = tariff.exportCompensation === 'net-metering';
+  const months = Array.from({ length: 12 }, () => ({ energyCharge: 0, exportCredit: 0, days: new Set<number>() }));
+  const dayCount = hours.reduce((max, h) => Math.max(max, h.day + 1), 0);
+  const daily = new Array<number>(dayCount).fill(0);
+  const used = new Array<number>(12).fill(0); // kWh billed against the tiers so far
+
+  for (const h of hours) {
+    const month = months[h.month];
+    const rate = getTariffRate(tariff, h.month, h.weekday, h.hour);
+    const imported = h.gridImport / 1000;
+    const exported = h.gridExport / 1000;
+
+    const charge = imported * rate + getTierCharge(tariff.tiers, used[h.month], imported);
+    used[h.month] += imported;
+
+    let credit: number;
+    if (netMetering) {
+      // Exports run the meter back through the tiers
+      const netted = Math.min(used[h.month], exported);
+      credit = exported * rate + getTierCharge(tariff.tiers, used[h.month] - netted, netted);
+      used[h.month] -= netted;
+    } else {
+      credit = exported * tariff.exportRate;
+    }
+
+    month.energyCharge += charge;
+    month.exportCredit += credit;
+    if (!month.days.has(h.day)) {
+      month.days.add(h.day);
+      daily[h.day] += tariff.fixedDailyCharge;
+    }
+    daily[h.day] += charge - credit;
+  }
+
+  // Settle month by month; only feed-in pays exports out
+  let carried = 0;
+  const monthly: MonthlyBill[] = months.map(({ energyCharge, exportCredit, days }) => {
+    const fixedCharge = days.size * tariff.fixedDailyCharge;
+    if (tariff.exportCompensation === 'feed-in') {
+      return { energyCharge, fixedCharge, exportCredit, creditApplied: exportCredit, total: energyCharge + fixedCharge - exportCredit };
+    }
+    const available = carried + exportCredit;
+    const creditApplied = Math.min(available, energyCharge);
+    carried = available - creditApplied;
+    return { energyCharge, fixedCharge, exportCredit, creditApplied, total: energyCharge - creditApplied + fixedCharge };
+  });
+
+  const sum = (key: keyof MonthlyBill) => monthly.reduce((total, bill) => total + bill[key], 0);
+  return {
+    monthly,
+    energyCharge: sum('energyCharge'),
+    fixedCharge: sum('fixedCharge'),
+    exportCredit: sum('exportCredit'),
+    forfeitedCredit: carried,
+    total: sum('total'),
+    daily,
+  };
+}
+
+/**
+ * Bill savings from PV over a year
+ *
+ * @param hours - Load and grid flows with PV for each hour, in order
+ * @param tariff - Tariff
+ * @returns Bills without and with PV and the difference per month and day
+ */
+export function calculateTariffSavings(hours: SavingsHour[], tariff: Tariff): TariffSavings {
+  const baseline = calculateBill(hours.map((h) => ({ ...h, gridImport: h.load, gridExport: 0 })), tariff);
+  const bill = calculateBill(hours, tariff);
+
+  return {
+    baseline,
+    bill,
+    savings: baseline.total - bill.total,
+    monthly: baseline.monthly.map((month, i) => month.total - bill.monthly[i].total),
+    daily: baseline.daily.map((day, i) => day - (bill.daily[i] ?? 0)),
+  };
+}
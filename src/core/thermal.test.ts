@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getInstalledNOCT,
+  calculateSAPMCellTemperature,
+  calculateFaimanCellTemperature,
+  calculatePVsystCellTemperature,
+} from './thermal';
+import { calculateCellTemperature } from './losses';
+import { ThermalMounting, ThermalModel } from './types';
+
+const MOUNTINGS: ThermalMounting[] = ['open-rack', 'close-roof', 'insulated-back'];
+const MODELS: ThermalModel[] = ['noct', 'sapm', 'faiman', 'pvsyst'];
+
+describe('cell temperature models', () => {
+  it('should match the published SAPM open rack example', () => {
+    // 1000 W/m², 25°C, 1 m/s on an open rack, glass/polymer
+    expect(calculateSAPMCellTemperature(25, 1000, 1, 'open-rack')).toBeCloseTo(54.4, 1);
+  });
+
+  it('should match the Faiman and PVsyst closed forms', () => {
+    expect(calculateFaimanCellTemperature(20, 800, 2, 'open-rack')).toBeCloseTo(20 + 800 / (25 + 6.84 * 2), 9);
+    expect(calculatePVsystCellTemperature(20, 800, 0, 'open-rack', 0.2)).toBeCloseTo(20 + (0.9 * 800 * 0.8) / 25, 9);
+  });
+
+  it('should run hotter the less air reaches the back of the module', () => {
+    MODELS.forEach((model) => {
+      const temps = MOUNTINGS.map((mounting) => calculateCellTemperature(25, 800, 45, 1, { model, mounting }, 0.2));
+      expect(temps[1]).toBeGreaterThan(temps[0]);
+      expect(temps[2]).toBeGreaterThan(temps[1]);
+    });
+  });
+
+  it('should cool with wind', () => {
+    MODELS.forEach((model) => {
+      const calm = calculateCellTemperature(25, 800, 45, 0, { model, mounting: 'open-rack' });
+      const windy = calculateCellTemperature(25, 800, 45, 6, { model, mounting: 'open-rack' });
+      expect(windy).toBeLessThan(calm);
+    });
+  });
+
+  it('should keep the original NOCT estimate for an open rack', () => {
+    expect(calculateCellTemperature(25, 800, 45, 1, { model: 'noct', mounting: 'open-rack' })).toBe(
+      calculateCellTemperature(25, 800, 45, 1)
+    );
+    expect(getInstalledNOCT(45, 'open-rack')).toBe(45);
+    expect(getInstalledNOCT(45, 'close-roof')).toBeGreaterThan(45);
+  });
+
+  it('should return ambient temperature in the dark', () => {
+    MODELS.forEach((model) => {
+      expect(calculateCellTemperature(10, 0, 45, 1, { model, mounting: 'insulated-back' })).toBe(10);
+    });
+  });
+});
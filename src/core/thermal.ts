@@ -0,0 +1,149 @@
+/**
+ * Cell Temperature Models
+ *
+ * Module heating depends on how freely air can reach the back sheet, so
+ * each model has coefficients for three mounting styles:
+ * - Open rack: ground mounts and tilted racks with free airflow
+ * - Close roof mount: residential arrays a few centimetres off the roof
+ * - Insulated back: building-integrated modules with no rear cooling
+ *
+ * Models:
+ * - NOCT: nominal operating cell temperature, raised for close mounts
+ * - Sandia (SAPM): exponential wind dependence of the back-of-module temperature
+ * - Faiman: combined heat-loss factor U0 + U1·wind
+ * - PVsyst: constant and wind heat-loss factors (Uc/Uv), net of conversion efficiency
+ *
+ * References:
+ * - King, Boyson & Kratochvil (2004): Photovoltaic Array Performance Model, SAND2004-3535
+ * - Faiman (2008): Assessing the outdoor operating temperature of photovoltaic modules, Prog. Photovolt. 16:307-315
+ * - PVsyst user manual, "Array Thermal losses"
+ * - Gilman et al. (2018): SAM Photovoltaic Model Technical Reference Update, NREL/TP-6A20-67399
+ */
+
+import { ThermalConfig, ThermalModel, ThermalMounting } from './types';
+
+/**
+ * Default thermal model (matches the original open-rack NOCT estimate)
+ */
+export const DEFAULT_THERMAL_CONFIG: ThermalConfig = {
+  model: 'noct',
+  mounting: 'open-rack',
+};
+
+export const THERMAL_MODEL_NAMES: Record<ThermalModel, string> = {
+  noct: 'NOCT',
+  sapm: 'Sandia (SAPM)',
+  faiman: 'Faiman',
+  pvsyst: 'PVsyst (Uc/Uv)',
+};
+
+export const THERMAL_MOUNTING_NAMES: Record<ThermalMounting, string> = {
+  'open-rack': 'Open rack',
+  'close-roof': 'Close roof mount',
+  'insulated-back': 'Insulated back',
+};
+
+// Installed NOCT adjustment by standoff (SAM: >3.5", 0.5-1.5", building-integrated)
+const NOCT_OFFSET: Record<ThermalMounting, number> = {
+  'open-rack': 0,
+  'close-roof': 11,
+  'insulated-back': 18,
+};
+
+// SAPM a, b and conduction difference ΔT (°C at 1000 W/m²)
+const SAPM_COEFFICIENTS: Record<ThermalMounting, { a: number; b: number; deltaT: number }> = {
+  'open-rack': { a: -3.56, b: -0.075, deltaT: 3 },
+  'close-roof': { a: -2.98, b: -0.0471, deltaT: 1 },
+  'insulated-back': { a: -2.81, b: -0.0455, deltaT: 0 },
+};
+
+// Faiman heat-loss factors U0 (W/m²K) and U1 (W/m²K per m/s)
+const FAIMAN_COEFFICIENTS: Record<ThermalMounting, { u0: number; u1: number }> = {
+  'open-rack': { u0: 25, u1: 6.84 },
+  'close-roof': { u0: 20, u1: 4 },
+  'insulated-back': { u0: 15, u1: 2 },
+};
+
+// PVsyst heat-loss factors Uc (W/m²K) and Uv (W/m²K per m/s)
+const PVSYST_COEFFICIENTS: Record<ThermalMounting, { uc: number; uv: number }> = {
+  'open-rack': { uc: 25, uv: 1.2 },
+  'close-roof': { uc: 20, uv: 1 },
+  'insulated-back': { uc: 15, uv: 0.5 },
+};
+
+// PVsyst absorption coefficient
+const PVSYST_ABSORPTANCE = 0.9;
+
+// ============================================================
+// Thermal Models
+// ============================================================
+
+/**
+ * Get the installed NOCT for a mounting style
+ *
+ * @param noct - Datasheet NOCT (°C, measured on an open rack)
+ * @param mounting - Mounting style
+ */
+export function getInstalledNOCT(noct: number, mounting: ThermalMounting): number {
+  return noct + NOCT_OFFSET[mounting];
+}
+
+/**
+ * Sandia (SAPM) cell temperature
+ *
+ * @param ambientTemp - Ambient temperature (°C)
+ * @param irradiance - Plane-of-array irradiance (W/m²)
+ * @param windSpeed - Wind speed at 10 m (m/s)
+ * @param mounting - Mounting style
+ * @returns Cell temperature (°C)
+ */
+export function calculateSAPMCellTemperature(
+  ambientTemp: number,
+  irradiance: number,
+  windSpeed: number,
+  mounting: ThermalMounting
+): number {
+  const { a, b, deltaT } = SAPM_COEFFICIENTS[mounting];
+  const moduleTemp = irradiance * Math.exp(a + b * Math.max(0, windSpeed)) + ambientTemp;
+  return moduleTemp + (irradiance / 1000) * deltaT;
+}
+
+/**
+ * Faiman cell temperature
+ *
+ * @param ambientTemp - Ambient temperature (°C)
+ * @param irradiance - Plane-of-array irradiance (W/m²)
+ * @param windSpeed - Wind speed (m/s)
+ * @param mounting - Mounting style
+ * @returns Cell temperature (°C)
+ */
+export function calculateFaimanCellTemperature(
+  ambientTemp: number,
+  irradiance: number,
+  windSpeed: number,
+  mounting: ThermalMounting
+): number {
+  const { u0, u1 } = FAIMAN_COEFFICIENTS[mounting];
+  return ambientTemp + irradiance / (u0 + u1 * Math.max(0, windSpeed));
+}
+
+/**
+ * PVsyst cell temperature
+ *
+ * @param ambientTemp - Ambient temperature (°C)
+ * @param irradiance - Plane-of-array irradiance (W/m²)
+ * @param windSpeed - Wind speed (m/s)
+ * @param mounting - Mounting style
+ * @param efficiency - Module efficiency (0-1); converted light does not heat the cell
+ * @returns Cell temperature (°C)
+ */
+export function calculatePVsystCellTemperature(
+  ambientTemp: number,
+  irradiance: number,
+  windSpeed: number,
+  mounting: ThermalMounting,
+  efficiency: number = 0.2
+): number {
+  const { uc, uv } = PVSYST_COEFFICIENTS[mounting];
+  return ambientTemp + (PVSYST_ABSORPTANCE * irradiance * (1 - efficiency)) / (uc + uv * Math.max(0, windSpeed));
+}
@@ -223,17 +223,23 @@ describe('getTimezoneFromCoordinates', () => {
     expect(tz).toBe('Asia/Tokyo');
   });
 
-  it('should fall back to Etc/GMT offset when no region matches', () => {
+  it('should fall back to Etc/GMT offset in open ocean', () => {
     const tz = getTimezoneFromCoordinates(0, -30);
     // -30 / 15 = -2 => Etc/GMT+2 (sign inverted in Etc/GMT)
     expect(tz).toBe('Etc/GMT+2');
   });
 
-  it('should include boundary coordinates in region match', () => {
-    const minBoundary = getTimezoneFromCoordinates(32, -125);
-    const maxBoundary = getTimezoneFromCoordinates(49, -114);
-    expect(minBoundary).toBe('America/Los_Angeles');
-    expect(maxBoundary).toBe('America/Los_Angeles');
+  it('should follow zone boundaries rather than overlapping boxes', () => {
+    expect(getTimezoneFromCoordinates(33.4484, -112.074)).toBe('America/Phoenix');
+    expect(getTimezoneFromCoordinates(39.7392, -104.9903)).toBe('America/Denver');
+    expect(getTimezoneFromCoordinates(19.4326, -99.1332)).toBe('America/Mexico_City');
+    expect(getTimezoneFromCoordinates(41.8781, -87.6298)).toBe('America/Chicago');
+    expect(getTimezoneFromCoordinates(49, -114)).toBe('America/Edmonton');
+  });
+
+  it('should wrap longitudes past the antimeridian', () => {
+    expect(getTimezoneFromCoordinates(35.6895, 139.6917 - 360)).toBe('Asia/Tokyo');
+    expect(getTimezoneFromCoordinates(Number.NaN, 0)).toBe('UTC');
   });
 });
 
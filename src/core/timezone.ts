@@ -6,79 +6,40 @@
  * timezone lookup for when timezone is not explicitly known.
  */
 
+import tzLookup from '@photostructure/tz-lookup';
+
 // ============================================================
-// Timezone Database (Major cities/regions for coordinate lookup)
+// Timezone Lookup
 // ============================================================
 
-interface TimezoneRegion {
-  name: string;
-  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
-}
-
-// Simplified timezone regions - covers major populated areas
-// For production, consider using a library like tzlookup or geo-tz
-const TIMEZONE_REGIONS: TimezoneRegion[] = [
-  // Americas
-  { name: 'America/Los_Angeles', bounds: { minLat: 32, maxLat: 49, minLng: -125, maxLng: -114 } },
-  { name: 'America/Denver', bounds: { minLat: 31, maxLat: 49, minLng: -114, maxLng: -102 } },
-  { name: 'America/Chicago', bounds: { minLat: 26, maxLat: 49, minLng: -102, maxLng: -87 } },
-  { name: 'America/New_York', bounds: { minLat: 25, maxLat: 47, minLng: -87, maxLng: -67 } },
-  { name: 'America/Anchorage', bounds: { minLat: 51, maxLat: 72, minLng: -180, maxLng: -130 } },
-  { name: 'Pacific/Honolulu', bounds: { minLat: 18, maxLat: 23, minLng: -161, maxLng: -154 } },
-  { name: 'America/Phoenix', bounds: { minLat: 31, maxLat: 37, minLng: -115, maxLng: -109 } },
-  { name: 'America/Sao_Paulo', bounds: { minLat: -34, maxLat: -15, minLng: -58, maxLng: -35 } },
-  { name: 'America/Mexico_City', bounds: { minLat: 14, maxLat: 33, minLng: -118, maxLng: -86 } },
-  { name: 'America/Buenos_Aires', bounds: { minLat: -55, maxLat: -22, minLng: -73, maxLng: -53 } },
-
-  // Europe
-  { name: 'Europe/London', bounds: { minLat: 49, maxLat: 61, minLng: -11, maxLng: 2 } },
-  { name: 'Europe/Paris', bounds: { minLat: 42, maxLat: 51, minLng: -5, maxLng: 8 } },
-  { name: 'Europe/Berlin', bounds: { minLat: 47, maxLat: 55, minLng: 5, maxLng: 15 } },
-  { name: 'Europe/Rome', bounds: { minLat: 36, maxLat: 47, minLng: 6, maxLng: 19 } },
-  { name: 'Europe/Madrid', bounds: { minLat: 36, maxLat: 44, minLng: -10, maxLng: 5 } },
-  { name: 'Europe/Moscow', bounds: { minLat: 45, maxLat: 70, minLng: 27, maxLng: 60 } },
-  { name: 'Europe/Istanbul', bounds: { minLat: 36, maxLat: 42, minLng: 26, maxLng: 45 } },
-
-  // Asia
-  { name: 'Asia/Tokyo', bounds: { minLat: 24, maxLat: 46, minLng: 123, maxLng: 154 } },
-  { name: 'Asia/Shanghai', bounds: { minLat: 18, maxLat: 54, minLng: 73, maxLng: 135 } },
-  { name: 'Asia/Kolkata', bounds: { minLat: 8, maxLat: 36, minLng: 68, maxLng: 97 } },
-  { name: 'Asia/Dubai', bounds: { minLat: 22, maxLat: 27, minLng: 51, maxLng: 57 } },
-  { name: 'Asia/Singapore', bounds: { minLat: 1, maxLat: 2, minLng: 103, maxLng: 104 } },
-  { name: 'Asia/Seoul', bounds: { minLat: 33, maxLat: 43, minLng: 124, maxLng: 132 } },
-  { name: 'Asia/Bangkok', bounds: { minLat: 5, maxLat: 21, minLng: 97, maxLng: 106 } },
-  { name: 'Asia/Jakarta', bounds: { minLat: -11, maxLat: 6, minLng: 95, maxLng: 141 } },
-
-  // Oceania
-  { name: 'Australia/Sydney', bounds: { minLat: -44, maxLat: -28, minLng: 140, maxLng: 154 } },
-  { name: 'Australia/Perth', bounds: { minLat: -35, maxLat: -14, minLng: 113, maxLng: 129 } },
-  { name: 'Pacific/Auckland', bounds: { minLat: -48, maxLat: -34, minLng: 166, maxLng: 179 } },
-
-  // Africa
-  { name: 'Africa/Cairo', bounds: { minLat: 22, maxLat: 32, minLng: 24, maxLng: 37 } },
-  { name: 'Africa/Johannesburg', bounds: { minLat: -35, maxLat: -22, minLng: 16, maxLng: 33 } },
-  { name: 'Africa/Lagos', bounds: { minLat: 4, maxLat: 14, minLng: 2, maxLng: 15 } },
-];
-
 /**
- * Get timezone from coordinates using a regional lookup
- * Falls back to longitude-based UTC offset if no match found
+ * Get the IANA timezone at a point
+ *
+ * Looks the point up in the bundled timezone-boundary-builder polygons,
+ * stored as a compact quad-tree so the lookup works offline. Territorial
+ * waters belong to the zone ashore; open ocean gets the nautical zone
+ * (Etc/GMT±n, 15° wide).
+ *
+ * @param latitude - Degrees, clamped to ±90
+ * @param longitude - Degrees, wrapped into ±180
  */
 export function getTimezoneFromCoordinates(latitude: number, longitude: number): string {
-  // First, try to match a known region
-  for (const region of TIMEZONE_REGIONS) {
-    if (
-      latitude >= region.bounds.minLat &&
-      latitude <= region.bounds.maxLat &&
-      longitude >= region.bounds.minLng &&
-      longitude <= region.bounds.maxLng
-    ) {
-      return region.name;
-    }
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return 'UTC';
+
+  const lat = Math.max(-90, Math.min(90, latitude));
+  // Map clicks past the antimeridian give longitudes beyond ±180
+  const lng = ((((longitude + 180) % 360) + 360) % 360) - 180;
+  try {
+    return tzLookup(lat, lng);
+  } catch {
+    return getNauticalTimezone(lng);
   }
+}
 
-  // Fallback: Calculate UTC offset based on longitude
-  // This is approximate but works for oceans and unmapped areas
+/**
+ * Nautical timezone for a longitude, ignoring land boundaries
+ */
+function getNauticalTimezone(longitude: number): string {
   const offset = Math.round(longitude / 15);
   if (offset === 0) return 'UTC';
 
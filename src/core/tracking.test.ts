@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSingleAxisTracking,
+  calculateTrackerSurface,
+  calculateDualAxisTracking,
+  applyTrackerLosses,
+  getSurfaceOrientation,
+  DEFAULT_TRACKER_CONFIG,
+  DEFAULT_DUAL_AXIS_CONFIG,
+} from './tracking';
+import { calculateAngleOfIncidence } from './panelOutput';
+import { TrackerConfig } from './types';
+
+const trueTracking: TrackerConfig = { ...DEFAULT_TRACKER_CONFIG, backtrack: false, maxRotation: 90 };
+
+describe('calculateSingleAxisTracking', () => {
+  it('should face the sun directly when it is perpendicular to the axis', () => {
+    // Morning sun due east of a N-S axis
+    const state = calculateSingleAxisTracking(30, 90, trueTracking);
+    expect(state.rotation).toBeCloseTo(-30, 6);
+    expect(state.surfaceTilt).toBeCloseTo(30, 6);
+    expect(state.surfaceAzimuth).toBeCloseTo(90, 6);
+    expect(calculateAngleOfIncidence(30, 90, state.surfaceTilt, state.surfaceAzimuth)).toBeCloseTo(0, 4);
+  });
+
+  it('should rotate west in the afternoon and lie flat at solar noon', () => {
+    expect(calculateSingleAxisTracking(40, 240, trueTracking).rotation).toBeGreaterThan(0);
+    expect(calculateSingleAxisTracking(40, 180, trueTracking).rotation).toBeCloseTo(0, 6);
+  });
+
+  it('should never have a larger angle of incidence than a flat surface', () => {
+    for (const [zenith, azimuth] of [[20, 120], [50, 200], [70, 260]]) {
+      const state = calculateSingleAxisTracking(zenith, azimuth, trueTracking);
+      const tracked = calculateAngleOfIncidence(zenith, azimuth, state.surfaceTilt, state.surfaceAzimuth);
+      expect(tracked).toBeLessThanOrEqual(zenith + 1e-9);
+    }
+  });
+
+  it('should respect the rotation limit', () => {
+    const limited = calculateSingleAxisTracking(85, 90, { ...trueTracking, maxRotation: 60 });
+    expect(limited.rotation).toBe(-60);
+    expect(limited.idealRotation).toBeCloseTo(-85, 6);
+  });
+
+  it('should backtrack toward flat at low sun angles', () => {
+    const state = calculateSingleAxisTracking(85, 90, { ...DEFAULT_TRACKER_CONFIG, gcr: 0.35 });
+    // cos(85°) / 0.35 → 75.6° of correction
+    expect(state.rotation).toBeCloseTo(-85 + Math.acos(Math.cos(85 * Math.PI / 180) / 0.35) * 180 / Math.PI, 6);
+    expect(Math.abs(state.rotation)).toBeLessThan(15);
+  });
+
+  it('should not backtrack when rows cannot shade each other', () => {
+    const state = calculateSingleAxisTracking(30, 90, DEFAULT_TRACKER_CONFIG);
+    expect(state.rotation).toBeCloseTo(-30, 6);
+  });
+
+  it('should stow flat at night', () => {
+    const state = calculateSingleAxisTracking(100, 300, DEFAULT_TRACKER_CONFIG);
+    expect(state.rotation).toBe(0);
+    expect(state.surfaceTilt).toBeCloseTo(0, 6);
+  });
+});
+
+describe('calculateTrackerSurface', () => {
+  it('should tilt toward the axis azimuth when the axis is tilted', () => {
+    const surface = calculateTrackerSurface(0, { ...DEFAULT_TRACKER_CONFIG, axisTilt: 20 });
+    expect(surface.tilt).toBeCloseTo(20, 6);
+    expect(surface.azimuth).toBeCloseTo(180, 6);
+  });
+});
+
+describe('calculateDualAxisTracking', () => {
+  it('should point straight at the sun within its limits', () => {
+    const { orientation, stowed, tracking } = calculateDualAxisTracking(40, 135, DEFAULT_DUAL_AXIS_CONFIG);
+    expect(stowed).toBe(false);
+    expect(tracking).toBe(true);
+    expect(orientation.tilt).toBeCloseTo(40, 6);
+    expect(orientation.azimuth).toBeCloseTo(135, 6);
+    expect(calculateAngleOfIncidence(40, 135, orientation.tilt, orientation.azimuth)).toBeCloseTo(0, 4);
+  });
+
+  it('should clamp to the elevation limits', () => {
+    // Sun at 5° elevation, below the 10° minimum
+    const low = calculateDualAxisTracking(85, 180, DEFAULT_DUAL_AXIS_CONFIG);
+    expect(low.orientation.tilt).toBeCloseTo(80, 6);
+
+    const high = calculateDualAxisTracking(5, 180, { ...DEFAULT_DUAL_AXIS_CONFIG, maxElevation: 60 });
+    expect(high.orientation.tilt).toBeCloseTo(30, 6);
+  });
+
+  it('should clamp to the azimuth window around home', () => {
+    const config = { ...DEFAULT_DUAL_AXIS_CONFIG, azimuthRange: 180 };
+    expect(calculateDualAxisTracking(30, 30, config, 180).orientation.azimuth).toBeCloseTo(90, 6);
+    expect(calculateDualAxisTracking(30, 300, config, 180).orientation.azimuth).toBeCloseTo(270, 6);
+
+    // Window wraps through north for a north-facing home (southern hemisphere)
+    expect(calculateDualAxisTracking(30, 340, config, 0).orientation.azimuth).toBeCloseTo(340, 6);
+    expect(calculateDualAxisTracking(30, 150, config, 0).orientation.azimuth).toBeCloseTo(90, 6);
+  });
+
+  it('should stow in high wind', () => {
+    const result = calculateDualAxisTracking(40, 135, DEFAULT_DUAL_AXIS_CONFIG, 180, 20);
+    expect(result.stowed).toBe(true);
+    expect(result.tracking).toBe(false);
+    expect(result.orientation).toEqual({ tilt: DEFAULT_DUAL_AXIS_CONFIG.stowTilt, azimuth: 180 });
+  });
+
+  it('should rest without tracking at night', () => {
+    const result = calculateDualAxisTracking(100, 0, DEFAULT_DUAL_AXIS_CONFIG);
+    expect(result.stowed).toBe(false);
+    expect(result.tracking).toBe(false);
+  });
+});
+
+describe('applyTrackerLosses', () => {
+  const config = { ...DEFAULT_DUAL_AXIS_CONFIG, drivePower: 20, availability: 0.98 };
+
+  it('should take the downtime share and the drive power while tracking', () => {
+    const result = applyTrackerLosses(1000, config, true);
+    expect(result.availabilityLoss).toBeCloseTo(20, 6);
+    expect(result.driveLoss).toBe(20);
+    expect(result.acPower).toBeCloseTo(960, 6);
+  });
+
+  it('should leave the drives idle when stowed or at night', () => {
+    expect(applyTrackerLosses(1000, config, false).driveLoss).toBe(0);
+    expect(applyTrackerLosses(-5, config, false)).toEqual({ acPower: -5, availabilityLoss: 0, driveLoss: 0 });
+  });
+});
+
+describe('getSurfaceOrientation', () => {
+  it('should return the fixed orientation without a tracker', () => {
+    const fixed = { tilt: 30, azimuth: 180 };
+    expect(getSurfaceOrientation({ zenith: 40, azimuth: 120 }, fixed)).toEqual({ orientation: fixed });
+  });
+
+  it('should report the tracker rotation', () => {
+    const result = getSurfaceOrientation({ zenith: 30, azimuth: 90 }, { tilt: 30, azimuth: 180 }, trueTracking);
+    expect(result.trackerRotation).toBeCloseTo(-30, 6);
+    expect(result.orientation.azimuth).toBeCloseTo(90, 6);
+  });
+});
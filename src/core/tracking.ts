@@ -0,0 +1,263 @@
+/**
+ * Tracker Geometry
+ *
+ * Computes the rotation of a single-axis tracker from the solar position:
+ * - True-tracking: rotate to minimise the angle of incidence
+ * - Backtracking: reduce rotation so rows do not shade each other
+ * - Mechanical rotation limits
+ *
+ * Dual-axis (pole-mounted) trackers point straight at the sun within
+ * elevation and azimuth travel limits, and stow in high wind. Their drives
+ * draw power while tracking, and downtime costs a share of the output.
+ *
+ * The rotation angle is converted into an equivalent surface tilt and
+ * azimuth so the existing POA and angle-of-incidence models apply unchanged.
+ *
+ * References:
+ * - Lorenzo, Narvarte & Muñoz (2011): Tracking and back-tracking, Prog. Photovolt. 19:747-753
+ * - Marion & Dobos (2013): Rotation angle for the optimum tracking of one-axis trackers, NREL/TP-6A20-58891
+ */
+
+import { DualAxisConfig, PanelOrientation, SolarPosition, TrackerConfig, TrackerState } from './types';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Default horizontal single-axis tracker (N-S axis, ±60°, GCR 0.35)
+ */
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  axisAzimuth: 180,
+  axisTilt: 0,
+  maxRotation: 60,
+  gcr: 0.35,
+  backtrack: true,
+};
+
+/**
+ * Default pole-mounted dual-axis tracker (about 0.2 kWh/day of drive
+ * consumption, 99% availability)
+ */
+export const DEFAULT_DUAL_AXIS_CONFIG: DualAxisConfig = {
+  minElevation: 10,
+  maxElevation: 90,
+  azimuthRange: 270,
+  stowWindSpeed: 15,
+  stowTilt: 0,
+  drivePower: 20,
+  availability: 0.99,
+};
+
+// ============================================================
+// Single-Axis Tracking
+// ============================================================
+
+type Vector3 = [number, number, number];
+
+const dot = (a: Vector3, b: Vector3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const cross = (a: Vector3, b: Vector3): Vector3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+/**
+ * Build the tracker's reference frame in (east, north, up) coordinates
+ *
+ * The axis points toward axisAzimuth and dips by axisTilt, so at zero
+ * rotation the surface tilts toward axisAzimuth by axisTilt. Positive
+ * rotation turns the surface toward `side` (west for a N-S axis).
+ */
+function getTrackerFrame(tracker: TrackerConfig): { normal: Vector3; side: Vector3 } {
+  const axisAz = tracker.axisAzimuth * DEG_TO_RAD;
+  const axisTilt = tracker.axisTilt * DEG_TO_RAD;
+
+  const axis: Vector3 = [
+    Math.sin(axisAz) * Math.cos(axisTilt),
+    Math.cos(axisAz) * Math.cos(axisTilt),
+    -Math.sin(axisTilt),
+  ];
+  const normal: Vector3 = [
+    Math.sin(axisAz) * Math.sin(axisTilt),
+    Math.cos(axisAz) * Math.sin(axisTilt),
+    Math.cos(axisTilt),
+  ];
+
+  return { normal, side: cross(axis, normal) };
+}
+
+/**
+ * Calculate the surface orientation for a tracker rotation
+ *
+ * @param rotation - Tracker rotation angle (degrees)
+ * @param tracker - Tracker configuration
+ */
+export function calculateTrackerSurface(rotation: number, tracker: TrackerConfig): PanelOrientation {
+  const { normal, side } = getTrackerFrame(tracker);
+  const rotationRad = rotation * DEG_TO_RAD;
+
+  const surfaceNormal: Vector3 = [
+    normal[0] * Math.cos(rotationRad) + side[0] * Math.sin(rotationRad),
+    normal[1] * Math.cos(rotationRad) + side[1] * Math.sin(rotationRad),
+    normal[2] * Math.cos(rotationRad) + side[2] * Math.sin(rotationRad),
+  ];
+
+  const tilt = Math.acos(Math.max(-1, Math.min(1, surfaceNormal[2]))) * RAD_TO_DEG;
+
+  // A flat surface has no meaningful azimuth; keep the axis direction
+  const azimuth = tilt < 1e-6
+    ? tracker.axisAzimuth
+    : ((Math.atan2(surfaceNormal[0], surfaceNormal[1]) * RAD_TO_DEG) + 360) % 360;
+
+  return { tilt, azimuth };
+}
+
+/**
+ * Calculate single-axis tracker rotation and surface orientation
+ *
+ * At night the tracker stows flat (zero rotation).
+ *
+ * @param sunZenith - Solar zenith angle (degrees)
+ * @param sunAzimuth - Solar azimuth (degrees from north)
+ * @param tracker - Tracker configuration
+ */
+export function calculateSingleAxisTracking(
+  sunZenith: number,
+  sunAzimuth: number,
+  tracker: TrackerConfig
+): TrackerState {
+  if (sunZenith >= 90) {
+    const stow = calculateTrackerSurface(0, tracker);
+    return { rotation: 0, idealRotation: 0, surfaceTilt: stow.tilt, surfaceAzimuth: stow.azimuth };
+  }
+
+  const zenithRad = sunZenith * DEG_TO_RAD;
+  const azimuthRad = sunAzimuth * DEG_TO_RAD;
+  const sun: Vector3 = [
+    Math.sin(zenithRad) * Math.sin(azimuthRad),
+    Math.sin(zenithRad) * Math.cos(azimuthRad),
+    Math.cos(zenithRad),
+  ];
+
+  // True-tracking puts the sun in the plane containing the axis and surface normal
+  const { normal, side } = getTrackerFrame(tracker);
+  const idealRotation = Math.atan2(dot(sun, side), dot(sun, normal)) * RAD_TO_DEG;
+
+  let rotation = idealRotation;
+
+  if (tracker.backtrack && tracker.gcr > 0) {
+    // Rows shade each other once cos(rotation) < GCR; rotate back until they just clear
+    const temp = Math.min(1, Math.cos(idealRotation * DEG_TO_RAD) / tracker.gcr);
+    const correction = -Math.sign(idealRotation) * Math.acos(Math.max(-1, temp)) * RAD_TO_DEG;
+    rotation = idealRotation + correction;
+  }
+
+  rotation = Math.max(-tracker.maxRotation, Math.min(tracker.maxRotation, rotation));
+  const surface = calculateTrackerSurface(rotation, tracker);
+
+  return {
+    rotation,
+    idealRotation,
+    surfaceTilt: surface.tilt,
+    surfaceAzimuth: surface.azimuth,
+  };
+}
+
+// ============================================================
+// Dual-Axis Tracking
+// ============================================================
+
+/**
+ * Calculate dual-axis tracker orientation
+ *
+ * The surface normal follows the sun, clamped to the elevation limits and
+ * to an azimuth window centred on `homeAzimuth`. The tracker stows at
+ * `stowTilt` facing `homeAzimuth` in high wind and at night. `tracking`
+ * is true only while it follows the sun, when its drives draw power.
+ *
+ * @param sunZenith - Solar zenith angle (degrees)
+ * @param sunAzimuth - Solar azimuth (degrees from north)
+ * @param config - Dual-axis tracker limits
+ * @param homeAzimuth - Centre of azimuth travel (degrees from north)
+ * @param windSpeed - Wind speed (m/s)
+ */
+export function calculateDualAxisTracking(
+  sunZenith: number,
+  sunAzimuth: number,
+  config: DualAxisConfig,
+  homeAzimuth: number = 180,
+  windSpeed: number = 1
+): { orientation: PanelOrientation; stowed: boolean; tracking: boolean } {
+  const stowed = windSpeed >= config.stowWindSpeed;
+
+  if (stowed || sunZenith >= 90) {
+    return { orientation: { tilt: config.stowTilt, azimuth: homeAzimuth }, stowed, tracking: false };
+  }
+
+  const elevation = Math.max(config.minElevation, Math.min(config.maxElevation, 90 - sunZenith));
+
+  // Signed offset from the home azimuth in (-180, 180]
+  const halfRange = config.azimuthRange / 2;
+  const offset = ((sunAzimuth - homeAzimuth + 540) % 360) - 180;
+  const azimuth = (homeAzimuth + Math.max(-halfRange, Math.min(halfRange, offset)) + 360) % 360;
+
+  return { orientation: { tilt: 90 - elevation, azimuth }, stowed: false, tracking: true };
+}
+
+/**
+ * Apply dual-axis tracker losses to AC power
+ *
+ * Downtime removes a fixed share of the output; the drives and controller
+ * draw their power whenever the tracker follows the sun (not at night or
+ * in wind stow).
+ *
+ * @param acPower - AC power before tracker losses (W)
+ * @param config - Dual-axis tracker settings
+ * @param tracking - Whether the tracker is following the sun, from calculateDualAxisTracking
+ * @returns AC power after the losses, and the power each one took (W)
+ */
+export function applyTrackerLosses(
+  acPower: number,
+  config: DualAxisConfig,
+  tracking: boolean
+): { acPower: number; availabilityLoss: number; driveLoss: number } {
+  const availabilityLoss = acPower > 0 ? acPower * (1 - config.availability) : 0;
+  const driveLoss = tracking ? config.drivePower : 0;
+  return { acPower: acPower - availabilityLoss - driveLoss, availabilityLoss, driveLoss };
+}
+
+// ============================================================
+// Surface Orientation
+// ============================================================
+
+/**
+ * Get the surface orientation at a solar position
+ *
+ * Fixed mounts return their configured orientation; trackers rotate.
+ *
+ * @param position - Solar position
+ * @param orientation - Fixed orientation (used when no tracker is set; its
+ *   azimuth is the home direction for dual-axis trackers)
+ * @param tracker - Single-axis tracker configuration
+ * @param dualAxis - Dual-axis tracker configuration
+ * @param windSpeed - Wind speed (m/s), used for dual-axis stow
+ */
+export function getSurfaceOrientation(
+  position: Pick<SolarPosition, 'zenith' | 'azimuth'>,
+  orientation: PanelOrientation,
+  tracker: TrackerConfig | null = null,
+  dualAxis: DualAxisConfig | null = null,
+  windSpeed: number = 1
+): { orientation: PanelOrientation; trackerRotation?: number; stowed?: boolean; tracking?: boolean } {
+  if (dualAxis) {
+    return calculateDualAxisTracking(position.zenith, position.azimuth, dualAxis, orientation.azimuth, windSpeed);
+  }
+  if (!tracker) return { orientation };
+
+  const state = calculateSingleAxisTracking(position.zenith, position.azimuth, tracker);
+  return {
+    orientation: { tilt: state.surfaceTilt, azimuth: state.surfaceAzimuth },
+    trackerRotation: state.rotation,
+  };
+}
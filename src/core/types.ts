@@ -47,6 +47,81 @@ export interface POAIrradiance {
   reflected: number; // Ground-reflected component
   angleOfIncidence: number; // degrees
   effectiveIrradiance: number; // After IAM correction
+  rear?: number; // Rear-side irradiance (W/m²), bifacial arrays only
+  effectiveRear?: number; // Rear irradiance after rear mismatch and structural shading
+  shadedFraction?: number; // Fraction of the array in shadow from rows, terrain and obstacles (0-1)
+}
+
+// ============================================================
+// Weather Data
+// ============================================================
+
+export type WeatherFileFormat = 'epw' | 'tmy3';
+
+export interface WeatherRecord {
+  month: number; // 1-12
+  day: number; // 1-31
+  hour: number; // 1-24 (hour ending, local standard time)
+  ghi: number; // W/m² (hourly average)
+  dni: number; // W/m²
+  dhi: number; // W/m²
+  temperature: number; // Dry-bulb temperature (°C)
+  windSpeed: number; // m/s
+  relativeHumidity?: number; // %
+  pressure?: number; // Pa
+  precipitableWater?: number; // cm
+  precipitation?: number; // Liquid precipitation depth over the hour (mm)
+  snowDepth?: number; // cm
+  albedo?: number; // 0-1
+}
+
+export interface WeatherDataset {
+  id: string; // Stable identifier for caching
+  name: string; // Station or file name
+  format: WeatherFileFormat;
+  latitude: number;
+  longitude: number;
+  elevation: number; // meters
+  timezoneOffset: number; // hours from UTC (standard time)
+  records: WeatherRecord[];
+}
+
+export type IrradianceSource = 'clear-sky' | 'weather' | 'all-sky';
+
+export interface AmbientConditions {
+  irradiance: Irradiance;
+  ambientTemp: number; // °C
+  windSpeed: number; // m/s
+  precipitableWater?: number; // cm, from weather data when available
+}
+
+// ============================================================
+// All-Sky Decomposition
+// ============================================================
+
+export type DecompositionModel = 'erbs' | 'orgill-hollands' | 'disc' | 'dirint';
+
+export type AllSkySeriesKind = 'ghi' | 'clearness';
+
+export interface AllSkySeries {
+  id: string; // Stable identifier for caching
+  name: string; // File name
+  kind: AllSkySeriesKind; // Measured GHI or clearness index
+  resolution: 'daily' | 'hourly';
+  values: number[]; // 365 days (kWh/m² or KT) or 8760 hours (W/m² or kt), local standard time of a common year
+}
+
+export interface AllSkyConfig {
+  clearnessIndex: number; // Hourly kt applied to every daylight hour without a series (0-1)
+  model: DecompositionModel; // GHI → DNI/DHI split
+  series?: AllSkySeries | null; // Imported GHI or kt, replacing the constant kt
+}
+
+export interface SkyPreset {
+  id: string;
+  name: string;
+  description: string;
+  clearnessIndex: number;
 }
 
 // ============================================================
@@ -64,24 +139,112 @@ export interface SystemLosses {
   availability: number; // 0-1 (system uptime)
 }
 
+export interface StringConfig {
+  modulesPerString: number; // Modules wired in series
+  stringsPerMppt: number; // Strings in parallel on each tracker
+  mpptCount: number; // Independent MPP trackers in use
+}
+
+export interface InverterLimits {
+  maxDcVoltage: number; // V, absolute input limit
+  mpptVoltageMin: number; // V, lower end of the MPPT window
+  mpptVoltageMax: number; // V, upper end of the MPPT window
+  maxInputCurrent: number; // A per MPPT
+}
+
+export interface SandiaInverterParameters {
+  paco: number; // W, rated AC output
+  pdco: number; // W, DC input at rated AC output
+  vdco: number; // V, DC voltage at which Paco and Pdco are rated
+  pso: number; // W, DC input needed to start inverting (self-consumption)
+  c0: number; // 1/W, curvature of AC against DC power at Vdco
+  c1: number; // 1/V, Pdco variation with DC voltage
+  c2: number; // 1/V, Pso variation with DC voltage
+  c3: number; // 1/V, C0 variation with DC voltage
+  pnt: number; // W, AC power drawn at night
+}
+
+export interface InverterEfficiencyCurve {
+  efficiencies: number[]; // 0-1 at 10, 20, 30, 50, 75 and 100% of rated AC output
+  selfConsumption: number; // W, DC input below which the inverter stays off
+  nightTare: number; // W, AC power drawn at night
+}
+
 export interface InverterConfig {
   efficiency: number; // 0-1 (typically 0.96-0.98)
   acCapacity: number; // Watts (for clipping calculation)
   dcAcRatio: number; // Typical 1.1-1.3
+  strings?: StringConfig; // Series/parallel wiring; enables MPPT window limits
+  limits?: InverterLimits; // Input voltage and current limits
+  sandia?: SandiaInverterParameters; // Sandia/CEC model for each unit; replaces efficiency
+  efficiencyCurve?: InverterEfficiencyCurve; // Part-load curve; replaces efficiency
+  modulesPerInverter?: number; // Microinverters: modules on each unit (one inverter when unset)
 }
 
 export interface LossFactors {
   temperature: number; // Derating factor (0-1)
   incidenceAngle: number; // IAM factor (0-1)
-  spectral: number; // Spectral correction (typically ~1.0)
+  spectral: number; // Spectral correction (typically 0.95-1.05)
   systemTotal: number; // Combined system losses factor
   inverterClipping: number; // Power lost to inverter clipping
+  bifacialGain?: number; // Rear-side contribution relative to front (0 for monofacial)
+  lowLight?: number; // Efficiency at the operating irradiance relative to STC (single-diode model only)
+  mpptWindow?: number; // DC power kept when the inverter leaves the maximum power point (0-1)
+  inverterEfficiency?: number; // AC/DC conversion efficiency before clipping (inverter models only)
+  snow?: number; // DC power kept with snow on the modules (0-1, snow model only)
+}
+
+export type SpectralModel = 'none' | 'sandia' | 'first-solar';
+
+export type SnowSource = 'weather' | 'monthly';
+
+export interface SnowConfig {
+  source: SnowSource; // Snowfall from the imported weather file or from monthly totals
+  monthlySnowfall: number[]; // cm of snow per month (12 values)
+  monthlyTemperature: number[]; // Mean air temperature per month (°C), used with monthly snowfall and no weather file
+}
+
+export type SoilingSource = 'weather' | 'monthly';
+
+export interface SoilingConfig {
+  source: SoilingSource; // Rainfall from the imported weather file or from monthly totals
+  rate: number; // Soiling loss added per dry day (0-1, e.g. 0.0015)
+  maxLoss: number; // Soiling loss the build-up levels off at (0-1)
+  cleaningThreshold: number; // mm of rain in a day that washes the modules
+  gracePeriod: number; // Days after cleaning rain before dust sticks again
+  monthlyRainfall: number[]; // mm of rain per month (12 values)
+  washDays: number[]; // Scheduled manual washes, day of year (1-based)
+}
+
+export interface SpectralConfig {
+  model: SpectralModel;
+  precipitableWater: number | null; // cm; null uses weather data or a typical value
+}
+
+export type ThermalModel = 'noct' | 'sapm' | 'faiman' | 'pvsyst';
+
+export type ThermalMounting = 'open-rack' | 'close-roof' | 'insulated-back';
+
+export interface ThermalConfig {
+  model: ThermalModel;
+  mounting: ThermalMounting; // Selects the heat-loss coefficients
 }
 
 // ============================================================
 // Panel Configuration
 // ============================================================
 
+export type ModuleTechnology = 'mono-si' | 'poly-si' | 'cdte' | 'hit';
+
+export interface ModuleElectrical {
+  voc: number; // Open-circuit voltage at STC (V)
+  isc: number; // Short-circuit current at STC (A)
+  vmp: number; // Maximum power voltage at STC (V)
+  imp: number; // Maximum power current at STC (A)
+  tempCoefficientVoc: number; // %/°C (negative)
+  tempCoefficientIsc: number; // %/°C (small, positive)
+}
+
 export interface PanelConfig {
   width: number; // meters
   height: number; // meters
@@ -91,6 +254,16 @@ export interface PanelConfig {
   noct: number; // Nominal Operating Cell Temperature (°C)
   bifacial?: boolean;
   bifacialityFactor?: number; // 0-1 (typically 0.65-0.85)
+  technology?: ModuleTechnology; // Cell technology, selects spectral coefficients (default mono-si)
+  electrical?: ModuleElectrical; // Datasheet values; enables the single-diode model
+  degradation?: ModuleDegradation; // Ageing and power warranty for lifetime projections
+}
+
+export interface ModuleDegradation {
+  annualRate: number; // %/year expected power loss after the first year
+  warrantyYears: number; // Power warranty term
+  warrantyFirstYear: number; // % of nameplate guaranteed at the end of year 1
+  warrantyAnnual: number; // %/year guaranteed decline after year 1
 }
 
 export interface PanelOrientation {
@@ -98,7 +271,66 @@ export interface PanelOrientation {
   azimuth: number; // degrees from north, clockwise (180 = south-facing)
 }
 
-export type MountingType = 'roof' | 'ground' | 'tracking';
+export interface BifacialConfig {
+  groundClearance: number; // meters from the ground to the lower module edge
+  rowSpacing: number; // meters, row pitch (edge to edge of adjacent rows)
+  rearMismatch: number; // 0-1, loss from non-uniform rear irradiance
+  rearShading: number; // 0-1, rear shading by racking and torque tubes
+}
+
+export type ModuleLayout = 'portrait' | 'landscape';
+
+export interface RowShadingConfig {
+  rowSpacing: number; // meters, row pitch (edge to edge of adjacent rows)
+  modulesHigh: number; // Modules stacked up the slope of each row
+  layout: ModuleLayout; // Portrait: long side up the slope
+  bypassDiodes: number; // Bypass diodes (substrings) per module, typically 3
+}
+
+export interface ShadingFactors {
+  shadedFraction: number; // Geometric fraction of the array in shadow (0-1)
+  electricalFraction: number; // Fraction of beam power lost once bypassed substrings are counted (0-1)
+  diffuseFactor: number; // Sky diffuse remaining after rows and terrain block part of the sky (0-1)
+}
+
+export interface HorizonPoint {
+  azimuth: number; // degrees from north, clockwise
+  elevation: number; // degrees above the horizontal
+}
+
+export interface HorizonProfile {
+  id: string; // Stable identifier for caching
+  name: string; // File name or "Manual"
+  points: HorizonPoint[]; // Sorted by azimuth
+}
+
+export type ObstacleType = 'tree' | 'chimney' | 'building' | 'parapet';
+
+export type ObstacleShape = 'box' | 'cylinder';
+
+export interface Obstacle {
+  id: string;
+  type: ObstacleType;
+  shape: ObstacleShape;
+  east: number; // meters east of the array centre
+  north: number; // meters north of the array centre
+  width: number; // meters; box east-west extent before rotation, cylinder diameter
+  depth: number; // meters; box north-south extent before rotation (boxes only)
+  height: number; // meters above ground
+  rotation: number; // degrees clockwise from north (boxes only)
+}
+
+export interface ObstaclePreset {
+  type: ObstacleType;
+  name: string;
+  shape: ObstacleShape;
+  width: number;
+  depth: number;
+  height: number;
+  distance: number; // meters in front of the array when placed
+}
+
+export type MountingType = 'roof' | 'ground' | 'tracking' | 'dual-axis';
 
 export interface ArrayConfig {
   panelCount: number;
@@ -106,32 +338,115 @@ export interface ArrayConfig {
   mountingType: MountingType;
   rowSpacing?: number; // meters between rows (for ground mount)
   groundClearance?: number; // meters
+  tracker?: TrackerConfig; // Used when mountingType is 'tracking'
+  dualAxis?: DualAxisConfig; // Used when mountingType is 'dual-axis'
+}
+
+/**
+ * An extra array with its own panels and orientation (east-west roofs,
+ * a garage next to the house); the store holds these next to the main array
+ */
+export interface SubArrayConfig {
+  id: string;
+  name: string;
+  panelPresetId: string;
+  panelConfig: PanelConfig;
+  panelCount: number;
+  orientation: PanelOrientation;
+  mountingType: MountingType; // Trackers use the shared tracker settings
+  systemLosses: SystemLosses;
+  sharedInverter: boolean; // Wired to the main inverter; otherwise its own
+  inverterPresetId: string; // Own inverter when not shared
+  offset: { east: number; north: number }; // meters from the main array
+}
+
+/**
+ * Sub-array inputs resolved for the simulation pipelines
+ */
+export interface SubArraySimulation {
+  id: string;
+  name: string;
+  panelConfig: PanelConfig;
+  orientation: PanelOrientation;
+  panelCount: number;
+  systemLosses: SystemLosses;
+  inverterConfig: InverterConfig | null; // null shares the main inverter
+  tracker?: TrackerConfig | null;
+  dualAxis?: DualAxisConfig | null;
+  bifacial?: BifacialConfig | null;
+  obstacles?: Obstacle[] | null; // Positions relative to this sub-array
+}
+
+export interface TrackerConfig {
+  axisAzimuth: number; // degrees from north, direction the axis points (180 = N-S axis)
+  axisTilt: number; // degrees from horizontal (0 = horizontal axis)
+  maxRotation: number; // degrees either side of horizontal
+  gcr: number; // Ground coverage ratio: module width / row pitch (0-1)
+  backtrack: boolean; // Reduce rotation to avoid row-to-row shading
+}
+
+export interface DualAxisConfig {
+  minElevation: number; // degrees, lowest sun elevation the tracker follows
+  maxElevation: number; // degrees, highest sun elevation the tracker follows
+  azimuthRange: number; // degrees of azimuth travel, centred on the fixed orientation's azimuth
+  stowWindSpeed: number; // m/s, tracker stows at or above this wind speed
+  stowTilt: number; // degrees from horizontal while stowed
+  drivePower: number; // W drawn by the drives and controller while following the sun
+  availability: number; // Share of daylight output kept after tracker faults and maintenance (0-1)
+}
+
+export interface TrackerState {
+  rotation: number; // degrees, positive = rotated toward west for a N-S axis
+  idealRotation: number; // True-tracking angle before backtracking and limits
+  surfaceTilt: number; // degrees from horizontal
+  surfaceAzimuth: number; // degrees from north
 }
 
 // ============================================================
 // Power Output
 // ============================================================
 
+export type TimestepMinutes = 60 | 15 | 5 | 1;
+
 export interface HourlyData {
-  hour: number; // 0-23
+  hour: number; // 0-23 (hour containing the sample)
+  localHour: number; // 0-24 fractional local hour of the sample
   localTime: Date;
   solarPosition: SolarPosition;
+  trackerRotation?: number; // degrees, single-axis trackers only
+  stowed?: boolean; // Dual-axis tracker stowed for high wind
   irradiance: Irradiance;
   poaIrradiance: POAIrradiance;
   cellTemperature: number;
   dcPower: number; // Watts
   acPower: number; // Watts (after inverter)
   losses: LossFactors;
+  arrays?: ArrayPower[]; // Main array then each sub-array, when sub-arrays are set
+}
+
+export interface ArrayPower {
+  id: string;
+  dcPower: number; // Watts
+  acPower: number; // Watts; a shared inverter's output is split by DC input
+}
+
+export interface ArrayEnergy {
+  id: string;
+  name: string;
+  capacity: number; // Watts DC
+  energy: number; // Wh (AC)
 }
 
 export interface PowerOutput {
   instantPower: number; // Watts (current time)
   peakPower: number; // Watts (max for day)
-  peakHour: number; // Hour of peak
+  peakHour: number; // Local hour of peak (fractional for sub-hourly steps)
   dailyEnergy: number; // Wh
-  hourlyData: HourlyData[];
+  hourlyData: HourlyData[]; // One sample per timestep from 0:00 to 24:00
+  timestepMinutes: TimestepMinutes;
   capacityFactor: number; // actual / rated
   performanceRatio: number; // actual / theoretical
+  arrays?: ArrayEnergy[]; // Per-array energy when sub-arrays are set
 }
 
 export interface WeeklyData {
@@ -146,6 +461,281 @@ export interface WeeklyData {
   averageDailyEnergy: number;
 }
 
+export interface MonthlyEnergy {
+  month: number; // 0-11
+  days: number;
+  energy: number; // Wh (AC)
+  poaInsolation: number; // Wh/m² (plane-of-array)
+  snowLoss?: number; // Wh (DC) lost under snow cover, snow model only
+}
+
+export interface HourlyEnergy {
+  month: number; // 0-11
+  day: number; // Day of year (0-based, local)
+  hour: number; // Local clock hour (0-23)
+  weekday: number; // 0 = Sunday
+  acPower: number; // W averaged over the hour (Wh)
+}
+
+export interface AnnualOutput {
+  year: number;
+  monthly: MonthlyEnergy[];
+  hourly: HourlyEnergy[]; // Every hour of the year in order
+  annualEnergy: number; // Wh (AC)
+  poaInsolation: number; // Wh/m² (plane-of-array)
+  specificYield: number; // kWh/kWp
+  capacityFactor: number; // actual / rated
+  performanceRatio: number; // actual / theoretical
+  stowHours: number; // Daylight hours a tracker spent stowed for wind
+  trackerDriveEnergy?: number; // Wh (AC) drawn by the tracker drives, dual-axis only
+  trackerAvailabilityLoss?: number; // Wh (AC) lost to tracker downtime, dual-axis only
+  arrays?: ArrayEnergy[]; // Per-array energy when sub-arrays are set
+  rowShadingLoss?: number; // Share of the main array's effective front irradiance lost to rows (0-1), row shading only
+  obstacleShadingLoss?: number; // Share lost to near obstacles after the rows (0-1), obstacles only
+  snowLoss?: number; // Wh (DC) lost under snow cover, snow model only
+  snowLossFraction?: number; // Share of DC energy lost under snow (0-1), snow model only
+  soiling?: SoilingDay[]; // Daily soiling, soiling model only
+  soilingLoss?: number; // Wh (DC) lost to soiling, soiling model only
+  soilingLossFraction?: number; // Share of clean DC energy lost to soiling (0-1), soiling model only
+}
+
+export interface SoilingDay {
+  rainfall: number; // mm
+  loss: number; // Soiling loss through the day (0-1)
+  washed: boolean; // Cleaned by rain or a manual wash
+  dcEnergy: number; // Wh (DC) the clean array would have produced
+}
+
+export type DegradationModel = 'linear' | 'compound';
+
+export interface AvailabilityStep {
+  fromYear: number; // First operating year (1-based) the loss applies to
+  loss: number; // 0-1, replaces systemLosses.availability
+}
+
+export interface LifetimeConfig {
+  years: number; // Projection horizon
+  degradationModel: DegradationModel;
+  degradationRate: number | null; // %/year; null uses each module's rate
+  inverterReplacementYears: number[]; // Operating years (1-based) the inverter is swapped
+  replacementDowntimeDays: number; // Days offline for each replacement
+  availabilitySteps: AvailabilityStep[];
+}
+
+export interface LifetimeYear {
+  year: number; // Operating year (1-based)
+  degradation: number; // Module output relative to year 1 (0-1)
+  availabilityLoss: number; // 0-1, including inverter replacement downtime
+  inverterReplaced: boolean;
+  energy: number; // Wh (AC)
+  cumulativeEnergy: number; // Wh
+  warrantyEnergy: number | null; // Wh at the warranted module power; null outside the warranty
+}
+
+export interface LifetimeOutput {
+  years: LifetimeYear[];
+  totalEnergy: number; // Wh over the horizon
+  averageEnergy: number; // Wh/year
+  finalDegradation: number; // Module output in the last year relative to year 1
+}
+
+// ============================================================
+// Load & Battery Storage
+// ============================================================
+
+export type LoadArchetype = 'residential' | 'home-office' | 'electric-heating' | 'air-conditioning' | 'ev-charging';
+
+export interface LoadConfig {
+  annualConsumption: number; // kWh/year, synthetic profile
+  archetype: LoadArchetype; // Daily and seasonal shape of the synthetic profile
+}
+
+export type LoadProfileFormat = 'csv' | 'green-button';
+
+export interface LoadProfile {
+  id: string; // Stable identifier for caching
+  name: string; // File name
+  format: LoadProfileFormat;
+  hourly: number[]; // W for each hour of a common year (8760), local clock
+  annualConsumption: number; // kWh/year
+  coverage: number; // Share of the year's hours with readings (0-1); the rest is filled in
+}
+
+export interface EnergyBalance {
+  pvEnergy: number; // Wh (AC)
+  loadEnergy: number; // Wh
+  selfConsumed: number; // Wh of PV used on site
+  gridImport: number; // Wh
+  gridExport: number; // Wh
+  selfConsumption: number; // Share of PV used on site (0-1)
+  selfSufficiency: number; // Share of the load not bought from the grid (0-1)
+}
+
+export type DispatchStrategy = 'self-consumption' | 'time-of-use' | 'backup';
+
+export interface BatteryConfig {
+  capacity: number; // Nominal capacity (kWh)
+  depthOfDischarge: number; // Usable share of capacity (0-1)
+  roundTripEfficiency: number; // AC to AC (0-1)
+  maxChargePower: number; // kW (AC)
+  maxDischargePower: number; // kW (AC)
+  cycleLife: number; // Equivalent full cycles to 80% capacity
+  calendarFade: number; // Capacity lost to age (%/year)
+  strategy: DispatchStrategy;
+  peakStart: number; // Local hour the peak tariff starts (time-of-use)
+  peakEnd: number; // Local hour the peak tariff ends (time-of-use)
+  gridCharging: boolean; // Charge from the grid off-peak (time-of-use)
+  backupReserve: number; // Share of usable energy held for outages (backup)
+}
+
+export interface BatteryStep {
+  soc: number; // State of charge at the end of the step, share of nominal capacity (0-1)
+  pv: number; // W (AC)
+  load: number; // W
+  batteryPower: number; // W (AC), positive charging, negative discharging
+  gridImport: number; // W
+  gridExport: number; // W
+}
+
+export interface BatteryOutput extends EnergyBalance {
+  steps: BatteryStep[];
+  charged: number; // Wh (AC) into the battery
+  discharged: number; // Wh (AC) out of the battery
+  cycles: number; // Equivalent full cycles of usable capacity
+  health: number; // Capacity at the end relative to nominal (0-1)
+}
+
+// ============================================================
+// Electricity Tariff
+// ============================================================
+
+export type Currency = 'USD' | 'EUR' | 'GBP';
+
+export type ExportCompensation = 'net-metering' | 'net-billing' | 'feed-in';
+
+export interface TariffPeriod {
+  name: string;
+  rate: number; // Energy charge (currency/kWh)
+  months: number[]; // 0-11; empty for every month
+  weekdays: number[]; // 0 = Sunday; empty for every day
+  startHour: number; // Local hour (0-24)
+  endHour: number; // Local hour (0-24); windows ending before they start wrap past midnight
+}
+
+export interface TariffTier {
+  limit: number | null; // Monthly consumption the tier runs up to (kWh); null for the top tier
+  adder: number; // Added to the energy rate (currency/kWh)
+}
+
+export interface Tariff {
+  id: string;
+  name: string;
+  currency: Currency;
+  baseRate: number; // Energy charge outside every period (currency/kWh)
+  periods: TariffPeriod[]; // Time-of-use periods; the first match sets the rate
+  tiers: TariffTier[]; // Block rates, in order of limit; empty for none
+  fixedDailyCharge: number; // currency/day
+  exportCompensation: ExportCompensation;
+  exportRate: number; // Credit or payment for exports (currency/kWh); net metering uses the retail rate
+}
+
+export interface MonthlyBill {
+  energyCharge: number; // Imports at the energy rate, tiers included
+  fixedCharge: number;
+  exportCredit: number; // Earned this month
+  creditApplied: number; // Export credit and carried-over credit set against the energy charge
+  total: number; // Amount due
+}
+
+export interface TariffBill {
+  monthly: MonthlyBill[];
+  energyCharge: number;
+  fixedCharge: number;
+  exportCredit: number;
+  forfeitedCredit: number; // Credit left unused at the end of the year
+  total: number;
+  daily: number[]; // Charges less export credit for each day of the year, before carry-over
+}
+
+export interface TariffSavings {
+  baseline: TariffBill; // Bill without PV
+  bill: TariffBill; // Bill with PV (and the battery when enabled)
+  savings: number; // Per year (currency)
+  monthly: number[];
+  daily: number[];
+}
+
+// ============================================================
+// Grid Emissions
+// ============================================================
+
+export interface GridEmissionFactor {
+  region: string; // Country or grid region the factor belongs to
+  factor: number; // Average grid emissions (kg CO2/kWh)
+  source: string; // Data set and year
+}
+
+export interface MarginalEmissionProfile {
+  id: string; // Stable identifier for caching
+  name: string; // File name
+  hourly: number[]; // kg CO2/kWh for each hour of a common year (8760), local clock
+  average: number; // Mean of the hourly rates (kg CO2/kWh)
+}
+
+export type EmissionMethod = 'average' | 'override' | 'marginal';
+
+export interface EmissionsResult {
+  method: EmissionMethod;
+  factor: number; // Effective rate over the year's PV output (kg CO2/kWh)
+  basis: string; // What the figures are based on, for the report
+  annualOffset: number; // kg CO2 avoided per year
+  dailyOffset: number; // kg CO2 avoided on the selected day
+}
+
+// ============================================================
+// Project Finance
+// ============================================================
+
+export interface FinanceConfig {
+  installedCost: number; // currency/Wp
+  omCost: number; // Operation and maintenance (currency/kWp/year)
+  omEscalation: number; // %/year, also applied to inverter replacements
+  inverterCost: number; // Each inverter replacement (currency/Wp)
+  incentive: number; // Up-front rebate (currency)
+  taxCredit: number; // % of the installed cost less the rebate, received in the first year
+  loanShare: number; // Share of the net cost financed (0-1)
+  loanRate: number; // %/year
+  loanTerm: number; // years
+  discountRate: number; // %/year
+  priceEscalation: number; // Electricity price rise (%/year)
+}
+
+export interface FinanceYear {
+  year: number; // 0 = installation
+  energy: number; // Wh (AC)
+  savings: number; // Bill savings (currency)
+  omCost: number;
+  inverterCost: number;
+  incentives: number; // Rebate and tax credit
+  loanProceeds: number; // Loan drawn (year 0 only)
+  loanPayment: number; // Interest and principal repaid
+  netCashFlow: number;
+  cumulativeCashFlow: number;
+  discountedCashFlow: number;
+  cumulativeDiscountedCashFlow: number;
+}
+
+export interface FinanceOutput {
+  years: FinanceYear[];
+  netCost: number; // Installed cost less the rebate (currency)
+  equity: number; // Paid up front after the loan (currency)
+  npv: number; // currency
+  irr: number | null; // Fraction per year; null when the cash flows never change sign
+  simplePayback: number | null; // Years; null when not reached in the horizon
+  discountedPayback: number | null; // Years; null when not reached in the horizon
+  lcoe: number | null; // currency/kWh; null without energy
+}
+
 // ============================================================
 // Panel Presets
 // ============================================================
@@ -158,6 +748,17 @@ export interface PanelPreset {
   config: PanelConfig;
 }
 
+export type InverterType = 'string' | 'micro';
+
+export interface InverterPreset {
+  id: string;
+  name: string;
+  manufacturer: string;
+  model: string;
+  type: InverterType;
+  config: InverterConfig;
+}
+
 // ============================================================
 // Simulation State
 // ============================================================
@@ -177,6 +778,34 @@ export interface SimulatorState {
   inverterConfig: InverterConfig;
 }
 
+/**
+ * Inputs shared by the daily and annual simulation pipelines
+ */
+export interface SimulationConfig {
+  panelConfig: PanelConfig;
+  orientation: PanelOrientation;
+  panelCount: number;
+  ambientTemp: number;
+  albedo: number;
+  linkeTurbidity: number;
+  systemLosses: SystemLosses;
+  inverterConfig: InverterConfig;
+  weather?: WeatherDataset | null; // Replaces clear-sky irradiance and ambientTemp when set
+  allSky?: AllSkyConfig | null; // Replaces clear-sky irradiance when set (weather takes precedence)
+  tracker?: TrackerConfig | null; // Single-axis tracking replaces the fixed orientation when set
+  dualAxis?: DualAxisConfig | null; // Dual-axis tracking replaces the fixed orientation when set
+  bifacial?: BifacialConfig | null; // Rear-side geometry, used when the panel is bifacial
+  rowShading?: RowShadingConfig | null; // Geometric row-to-row shading; replaces systemLosses.shading when set
+  horizon?: HorizonProfile | null; // Far-horizon profile blocking low sun and part of the sky
+  obstacles?: Obstacle[] | null; // Near-shading obstacles around the array; replaces systemLosses.shading when set
+  spectral?: SpectralConfig | null; // Spectral mismatch correction (none when null)
+  thermal?: ThermalConfig | null; // Cell temperature model (open-rack NOCT when null)
+  windSpeed?: number; // m/s, used without weather data (default 1)
+  subArrays?: SubArraySimulation[] | null; // Extra arrays simulated alongside the main one
+  snow?: SnowConfig | null; // Snow cover on the modules (none when null; annual simulation only)
+  soiling?: SoilingConfig | null; // Daily soiling; replaces systemLosses.soiling when set (annual simulation only)
+}
+
 export interface CalculationResult {
   solarPosition: SolarPosition;
   irradiance: Irradiance;
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseEPW,
+  parseTMY3,
+  parseWeatherFile,
+  getWeatherAtTime,
+  calculateWeatherIrradiance,
+  getAmbientConditions,
+  getTemperatureRange,
+} from './weather';
+import { Location } from './types';
+
+// One day of synthetic hourly data: GHI ramps to a noon peak
+const ghiForHour = (hour: number) => Math.max(0, Math.round(800 * Math.sin(((hour - 6.5) / 12) * Math.PI)));
+
+function buildEPW(): string {
+  const header = [
+    'LOCATION,San Francisco Intl Ap,CA,USA,TMY3,724940,37.62,-122.40,-8.0,2.0',
+    'DESIGN CONDITIONS,0',
+    'TYPICAL/EXTREME PERIODS,0',
+    'GROUND TEMPERATURES,0',
+    'HOLIDAYS/DAYLIGHT SAVINGS,No,0,0,0',
+    'COMMENTS 1,Synthetic test data',
+    'COMMENTS 2,',
+    'DATA PERIODS,1,1,Data,Sunday, 1/ 1,12/31',
+  ];
+  const rows = Array.from({ length: 24 }, (_, i) => {
+    const hour = i + 1;
+    const fields = Array(35).fill('0');
+    fields[0] = '1999';
+    fields[1] = '1';
+    fields[2] = '1';
+    fields[3] = String(hour);
+    fields[4] = '60';
+    fields[6] = String(10 + hour * 0.5); // Dry bulb
+    fields[8] = '70';
+    fields[9] = '101300';
+    fields[13] = String(ghiForHour(hour));
+    fields[14] = String(ghiForHour(hour) * 0.8);
+    fields[15] = String(ghiForHour(hour) * 0.2);
+    fields[21] = hour === 5 ? '999' : '3'; // Missing wind at hour 5
+    fields[28] = '15'; // mm
+    fields[30] = '0';
+    fields[32] = '0.15';
+    fields[33] = '0';
+    return fields.join(',');
+  });
+  return [...header, ...rows].join('\n');
+}
+
+function buildTMY3(): string {
+  const rows = Array.from({ length: 24 }, (_, i) => {
+    const hour = i + 1;
+    const ghi = ghiForHour(hour);
+    return `01/01/1988,${String(hour).padStart(2, '0')}:00,${ghi},${ghi * 0.8},${ghi * 0.2},${5 + hour * 0.25},1013,2.5,1.2,0.18,0`;
+  });
+  return [
+    '724940,"SAN FRANCISCO INTL AP",CA,-8.0,37.617,-122.400,2',
+    'Date (MM/DD/YYYY),Time (HH:MM),GHI (W/m^2),DNI (W/m^2),DHI (W/m^2),Dry-bulb (C),Pressure (mbar),Wspd (m/s),Pwat (cm),Alb (unitless),Lprecip depth (mm)',
+    ...rows,
+  ].join('\n');
+}
+
+const sanFrancisco: Location = {
+  latitude: 37.7749,
+  longitude: -122.4194,
+  timezone: 'America/Los_Angeles',
+  address: 'San Francisco, CA',
+};
+
+describe('parseEPW', () => {
+  const dataset = parseEPW(buildEPW());
+
+  it('should read station metadata from the LOCATION header', () => {
+    expect(dataset.format).toBe('epw');
+    expect(dataset.name).toBe('San Francisco Intl Ap, CA, USA');
+    expect(dataset.latitude).toBeCloseTo(37.62, 2);
+    expect(dataset.longitude).toBeCloseTo(-122.4, 2);
+    expect(dataset.timezoneOffset).toBe(-8);
+    expect(dataset.elevation).toBe(2);
+  });
+
+  it('should parse hourly records with unit conversion', () => {
+    expect(dataset.records).toHaveLength(24);
+    const noon = dataset.records[11];
+    expect(noon.hour).toBe(12);
+    expect(noon.ghi).toBe(ghiForHour(12));
+    expect(noon.temperature).toBe(16);
+    expect(noon.precipitableWater).toBeCloseTo(1.5, 6);
+    expect(noon.albedo).toBeCloseTo(0.15, 6);
+  });
+
+  it('should carry the previous value forward for missing meteorology', () => {
+    expect(dataset.records[4].windSpeed).toBe(3);
+  });
+
+  it('should reject files without a LOCATION header', () => {
+    expect(() => parseEPW('not,an,epw')).toThrow('LOCATION');
+  });
+
+  it('should reject incomplete days', () => {
+    const truncated = buildEPW().split('\n').slice(0, 20).join('\n');
+    expect(() => parseEPW(truncated)).toThrow('complete days');
+  });
+});
+
+describe('parseTMY3', () => {
+  const dataset = parseTMY3(buildTMY3());
+
+  it('should read station metadata from the first line', () => {
+    expect(dataset.format).toBe('tmy3');
+    expect(dataset.name).toBe('SAN FRANCISCO INTL AP, CA');
+    expect(dataset.latitude).toBeCloseTo(37.617, 3);
+    expect(dataset.timezoneOffset).toBe(-8);
+  });
+
+  it('should map columns by header name', () => {
+    const noon = dataset.records[11];
+    expect(noon.month).toBe(1);
+    expect(noon.day).toBe(1);
+    expect(noon.hour).toBe(12);
+    expect(noon.dni).toBeCloseTo(ghiForHour(12) * 0.8, 6);
+    expect(noon.windSpeed).toBe(2.5);
+    expect(noon.pressure).toBe(101300);
+  });
+
+  it('should reject files missing required columns', () => {
+    const text = buildTMY3().replace('GHI (W/m^2)', 'Global');
+    expect(() => parseTMY3(text)).toThrow('required columns');
+  });
+});
+
+describe('parseWeatherFile', () => {
+  it('should detect the format from the contents', () => {
+    expect(parseWeatherFile(buildEPW(), 'station.csv').format).toBe('epw');
+    expect(parseWeatherFile(buildTMY3(), '724940TYA.CSV').format).toBe('tmy3');
+  });
+
+  it('should give identical files the same id', () => {
+    expect(parseWeatherFile(buildEPW()).id).toBe(parseWeatherFile(buildEPW()).id);
+    expect(parseWeatherFile(buildEPW()).id).not.toBe(parseWeatherFile(buildTMY3()).id);
+  });
+});
+
+describe('getWeatherAtTime', () => {
+  const dataset = parseEPW(buildEPW());
+
+  it('should return the record value at the centre of its hour', () => {
+    // 12:30 local standard time is the centre of the hour ending 13:00
+    const record = getWeatherAtTime(dataset, new Date('2024-01-01T20:30:00Z'));
+    expect(record?.ghi).toBeCloseTo(ghiForHour(13), 6);
+  });
+
+  it('should hold the first record before its centre', () => {
+    // 00:15 local standard time precedes the centre of the first hour
+    const record = getWeatherAtTime(dataset, new Date('2024-01-01T08:15:00Z'));
+    expect(record?.temperature).toBeCloseTo(10.5, 6);
+  });
+
+  it('should interpolate between hour centres', () => {
+    const record = getWeatherAtTime(dataset, new Date('2024-01-01T21:00:00Z'));
+    expect(record?.ghi).toBeCloseTo((ghiForHour(13) + ghiForHour(14)) / 2, 6);
+    expect(record?.temperature).toBeCloseTo(16.75, 6);
+  });
+
+  it('should map any year onto the typical-year day', () => {
+    const record = getWeatherAtTime(dataset, new Date('2030-01-01T20:30:00Z'));
+    expect(record?.ghi).toBeCloseTo(ghiForHour(13), 6);
+  });
+
+  it('should return null for days missing from the file', () => {
+    expect(getWeatherAtTime(dataset, new Date('2024-06-01T20:00:00Z'))).toBeNull();
+  });
+});
+
+describe('getTemperatureRange', () => {
+  it('should span the coldest and hottest hours', () => {
+    expect(getTemperatureRange(parseTMY3(buildTMY3()))).toEqual({ min: 5.25, max: 11 });
+  });
+
+  it('should return null for a file without records', () => {
+    expect(getTemperatureRange({ ...parseTMY3(buildTMY3()), records: [] })).toBeNull();
+  });
+});
+
+describe('calculateWeatherIrradiance', () => {
+  const dataset = parseEPW(buildEPW());
+  const record = dataset.records[11];
+
+  it('should pass through measured components', () => {
+    const irradiance = calculateWeatherIrradiance(record, new Date('2024-01-01T19:30:00Z'), 60);
+    expect(irradiance.ghi).toBe(record.ghi);
+    expect(irradiance.dni).toBe(record.dni);
+    expect(irradiance.dhi).toBe(record.dhi);
+    expect(irradiance.clearnessIndex).toBeGreaterThan(0);
+    expect(irradiance.clearnessIndex).toBeLessThanOrEqual(1);
+  });
+
+  it('should return zero irradiance below the horizon', () => {
+    const irradiance = calculateWeatherIrradiance(record, new Date('2024-01-01T19:30:00Z'), 95);
+    expect(irradiance.ghi).toBe(0);
+    expect(irradiance.dni).toBe(0);
+  });
+});
+
+describe('getAmbientConditions', () => {
+  const dataset = parseEPW(buildEPW());
+  const time = new Date('2024-01-01T20:30:00Z');
+
+  it('should use weather data when the file covers the day', () => {
+    const conditions = getAmbientConditions(time, 60, sanFrancisco, 3, 25, dataset);
+    expect(conditions.irradiance.ghi).toBeCloseTo(ghiForHour(13), 6);
+    expect(conditions.ambientTemp).toBeCloseTo(16.5, 6);
+    expect(conditions.windSpeed).toBe(3);
+  });
+
+  it('should fall back to clear-sky with the fixed ambient temperature', () => {
+    const conditions = getAmbientConditions(time, 60, sanFrancisco, 3, 25, null);
+    expect(conditions.ambientTemp).toBe(25);
+    expect(conditions.windSpeed).toBe(1);
+    expect(conditions.irradiance.ghi).toBeGreaterThan(0);
+  });
+
+  it('should read an all-sky series on local standard time', () => {
+    // 13:30 PDT on July 1 is 12:30 standard time, the centre of the 12:00 hour
+    const values = new Array(8760).fill(500);
+    values[181 * 24 + 12] = 700;
+    const series = { id: 'sky:test', name: 'ghi.csv', kind: 'ghi' as const, resolution: 'hourly' as const, values };
+    const conditions = getAmbientConditions(
+      new Date('2024-07-01T20:30:00Z'), 20, sanFrancisco, 3, 25, null, { clearnessIndex: 0.5, model: 'erbs', series }
+    );
+    expect(conditions.irradiance.ghi).toBeCloseTo(700, 6);
+  });
+});
@@ -0,0 +1,527 @@
+/**
+ * Weather File Import
+ *
+ * Parses typical-year weather files so measured irradiance and
+ * meteorology can replace the clear-sky model:
+ * - EnergyPlus Weather (EPW)
+ * - NREL TMY3 CSV
+ *
+ * Both formats store hourly averages labelled by the END of the hour in
+ * local standard time (no DST). Values between records are linearly
+ * interpolated between hour centres so sub-hourly timesteps stay smooth.
+ *
+ * References:
+ * - EnergyPlus Auxiliary Programs, "Weather Converter Program" (EPW format)
+ * - Wilcox & Marion (2008): Users Manual for TMY3 Data Sets, NREL/TP-581-43156
+ */
+
+import {
+  AllSkyConfig,
+  AmbientConditions,
+  Irradiance,
+  Location,
+  WeatherDataset,
+  WeatherFileFormat,
+  WeatherRecord,
+} from './types';
+import { calculateAirMass, calculateExtraterrestrialIrradiance, getDayOfYear } from './atmosphere';
+import { calculateIrradiance } from './irradiance';
+import { calculateAllSkyIrradiance } from './decomposition';
+import { calculateSolarPosition } from './solarPosition';
+import { getHourOfYear } from './load';
+import { getTimezoneOffset } from './timezone';
+
+const DEG_TO_RAD = Math.PI / 180;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// ============================================================
+// Parsing Helpers
+// ============================================================
+
+/**
+ * Split a CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+}
+
+/**
+ * Parse a numeric field, returning NaN for blanks and missing-value flags
+ */
+function parseField(value: string | undefined, missing?: number): number {
+  if (value === undefined || value === '') return NaN;
+  const parsed = parseFloat(value);
+  if (missing !== undefined && parsed >= missing) return NaN;
+  return parsed;
+}
+
+/**
+ * Replace missing values: irradiance becomes 0, meteorology carries the
+ * previous valid value forward
+ */
+function fillMissing(records: WeatherRecord[]): WeatherRecord[] {
+  let lastTemp = 20;
+  let lastWind = 1;
+
+  return records.map((record) => {
+    const temperature = Number.isFinite(record.temperature) ? record.temperature : lastTemp;
+    const windSpeed = Number.isFinite(record.windSpeed) ? record.windSpeed : lastWind;
+    lastTemp = temperature;
+    lastWind = windSpeed;
+
+    const filled: WeatherRecord = {
+      ...record,
+      ghi: Number.isFinite(record.ghi) ? Math.max(0, record.ghi) : 0,
+      dni: Number.isFinite(record.dni) ? Math.max(0, record.dni) : 0,
+      dhi: Number.isFinite(record.dhi) ? Math.max(0, record.dhi) : 0,
+      temperature,
+      windSpeed,
+    };
+
+    // Drop optional fields that were missing rather than storing NaN
+    for (const key of ['relativeHumidity', 'pressure', 'precipitableWater', 'precipitation', 'snowDepth', 'albedo'] as const) {
+      if (filled[key] === undefined || !Number.isFinite(filled[key])) {
+        delete filled[key];
+      }
+    }
+
+    return filled;
+  });
+}
+
+/**
+ * Build a stable identifier so large datasets can be cached by key
+ */
+function createDatasetId(
+  format: WeatherFileFormat,
+  name: string,
+  latitude: number,
+  longitude: number,
+  records: WeatherRecord[]
+): string {
+  const checksum = records.reduce((sum, r) => sum + Math.round(r.ghi) + Math.round(r.temperature * 10), 0);
+  return `${format}:${name}:${latitude.toFixed(3)}:${longitude.toFixed(3)}:${records.length}:${checksum}`;
+}
+
+/**
+ * Validate that records form complete hourly days
+ */
+function validateRecords(records: WeatherRecord[]): void {
+  if (records.length === 0) {
+    throw new Error('Weather file contains no data records');
+  }
+  if (records.length % 24 !== 0 || records.some((r, i) => r.hour !== (i % 24) + 1)) {
+    throw new Error('Only hourly weather files with complete days are supported');
+  }
+}
+
+// ============================================================
+// EPW Parser
+// ============================================================
+
+/**
+ * Parse an EnergyPlus Weather (EPW) file
+ *
+ * @param text - File contents
+ * @param fallbackName - Name used when the LOCATION header has none
+ */
+export function parseEPW(text: string, fallbackName: string = 'EPW'): WeatherDataset {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const header = splitCsvLine(lines[0] || '');
+
+  if (header[0]?.toUpperCase() !== 'LOCATION') {
+    throw new Error('Invalid EPW file: missing LOCATION header');
+  }
+
+  const latitude = parseFloat(header[6]);
+  const longitude = parseFloat(header[7]);
+  const timezoneOffset = parseFloat(header[8]);
+  const elevation = parseFloat(header[9]) || 0;
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !Number.isFinite(timezoneOffset)) {
+    throw new Error('Invalid EPW file: LOCATION header has no coordinates');
+  }
+
+  const name = [header[1], header[2], header[3]].filter((part) => part && part !== '-').join(', ') || fallbackName;
+
+  // Data rows start after the 8 header lines
+  const records: WeatherRecord[] = lines.slice(8).map((line) => {
+    const f = splitCsvLine(line);
+    return {
+      month: parseInt(f[1], 10),
+      day: parseInt(f[2], 10),
+      hour: parseInt(f[3], 10),
+      temperature: parseField(f[6], 99.9),
+      relativeHumidity: parseField(f[8], 999),
+      pressure: parseField(f[9], 999999),
+      ghi: parseField(f[13], 9999),
+      dni: parseField(f[14], 9999),
+      dhi: parseField(f[15], 9999),
+      windSpeed: parseField(f[21], 999),
+      precipitableWater: parseField(f[28], 999) / 10, // mm → cm
+      snowDepth: parseField(f[30], 999),
+      albedo: parseField(f[32], 999),
+      precipitation: parseField(f[33], 999),
+    };
+  });
+
+  validateRecords(records);
+  const filled = fillMissing(records);
+
+  return {
+    id: createDatasetId('epw', name, latitude, longitude, filled),
+    name,
+    format: 'epw',
+    latitude,
+    longitude,
+    elevation,
+    timezoneOffset,
+    records: filled,
+  };
+}
+
+// ============================================================
+// TMY3 Parser
+// ============================================================
+
+/**
+ * Parse an NREL TMY3 CSV file
+ *
+ * @param text - File contents
+ * @param fallbackName - Name used when the header has none
+ */
+export function parseTMY3(text: string, fallbackName: string = 'TMY3'): WeatherDataset {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 3) {
+    throw new Error('Invalid TMY3 file: missing header rows');
+  }
+
+  // Line 1: USAF, station name, state, timezone, latitude, longitude, elevation
+  const meta = splitCsvLine(lines[0]);
+  const timezoneOffset = parseFloat(meta[3]);
+  const latitude = parseFloat(meta[4]);
+  const longitude = parseFloat(meta[5]);
+  const elevation = parseFloat(meta[6]) || 0;
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !Number.isFinite(timezoneOffset)) {
+    throw new Error('Invalid TMY3 file: station header has no coordinates');
+  }
+
+  const name = [meta[1], meta[2]].filter(Boolean).join(', ') || fallbackName;
+
+  // Line 2: column headers, matched by name prefix
+  const columns = splitCsvLine(lines[1]);
+  const findColumn = (prefix: string) =>
+    columns.findIndex((column) => column.toLowerCase().startsWith(prefix.toLowerCase()));
+
+  const col = {
+    date: findColumn('Date'),
+    time: findColumn('Time'),
+    ghi: findColumn('GHI (W'),
+    dni: findColumn('DNI (W'),
+    dhi: findColumn('DHI (W'),
+    temperature: findColumn('Dry-bulb'),
+    relativeHumidity: findColumn('RHum'),
+    pressure: findColumn('Pressure'),
+    windSpeed: findColumn('Wspd'),
+    precipitableWater: findColumn('Pwat'),
+    albedo: findColumn('Alb ('),
+    precipitation: findColumn('Lprecip depth'),
+  };
+
+  if ([col.date, col.time, col.ghi, col.dni, col.dhi, col.temperature].some((index) => index < 0)) {
+    throw new Error('Invalid TMY3 file: required columns not found');
+  }
+
+  const optional = (fields: string[], index: number, scale: number = 1) =>
+    index >= 0 ? parseField(fields[index]) * scale : NaN;
+
+  const records: WeatherRecord[] = lines.slice(2).map((line) => {
+    const f = splitCsvLine(line);
+    const [month, day] = f[col.date].split('/').map((part) => parseInt(part, 10));
+    const hour = parseInt(f[col.time].split(':')[0], 10);
+    return {
+      month,
+      day,
+      hour,
+      ghi: parseField(f[col.ghi]),
+      dni: parseField(f[col.dni]),
+      dhi: parseField(f[col.dhi]),
+      temperature: parseField(f[col.temperature]),
+      windSpeed: optional(f, col.windSpeed),
+      relativeHumidity: optional(f, col.relativeHumidity),
+      pressure: optional(f, col.pressure, 100), // mbar → Pa
+      precipitableWater: optional(f, col.precipitableWater),
+      albedo: optional(f, col.albedo),
+      precipitation: optional(f, col.precipitation),
+    };
+  });
+
+  validateRecords(records);
+  const filled = fillMissing(records);
+
+  return {
+    id: createDatasetId('tmy3', name, latitude, longitude, filled),
+    name,
+    format: 'tmy3',
+    latitude,
+    longitude,
+    elevation,
+    timezoneOffset,
+    records: filled,
+  };
+}
+
+/**
+ * Parse a weather file, detecting the format from its name and contents
+ */
+export function parseWeatherFile(text: string, fileName: string = ''): WeatherDataset {
+  const baseName = fileName.replace(/\.[^.]+$/, '') || undefined;
+  if (fileName.toLowerCase().endsWith('.epw') || text.trimStart().toUpperCase().startsWith('LOCATION')) {
+    return parseEPW(text, baseName);
+  }
+  return parseTMY3(text, baseName);
+}
+
+// ============================================================
+// Record Lookup
+// ============================================================
+
+const dayIndexCache = new WeakMap<WeatherDataset, Map<string, number>>();
+
+/**
+ * Get (and cache) the index of the first record of each month/day
+ */
+function getDayIndex(dataset: WeatherDataset): Map<string, number> {
+  let index = dayIndexCache.get(dataset);
+  if (!index) {
+    index = new Map();
+    dataset.records.forEach((record, i) => {
+      const key = `${record.month}-${record.day}`;
+      if (!index!.has(key)) index!.set(key, i);
+    });
+    dayIndexCache.set(dataset, index);
+  }
+  return index;
+}
+
+/**
+ * Get the lowest and highest air temperature in a dataset
+ *
+ * @param dataset - Parsed weather dataset
+ * @returns Minimum and maximum dry-bulb temperature (°C), or null without records
+ */
+export function getTemperatureRange(dataset: WeatherDataset): { min: number; max: number } | null {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const record of dataset.records) {
+    min = Math.min(min, record.temperature);
+    max = Math.max(max, record.temperature);
+  }
+  return Number.isFinite(min) ? { min, max } : null;
+}
+
+/**
+ * Get weather conditions at an instant
+ *
+ * Irradiance, temperature and wind are interpolated between the centres
+ * of neighbouring hourly records; the remaining fields come from the
+ * record covering the instant. Returns null when the day is not in the file.
+ *
+ * @param dataset - Parsed weather dataset
+ * @param time - Instant (UTC)
+ */
+export function getWeatherAtTime(dataset: WeatherDataset, time: Date): WeatherRecord | null {
+  // Weather files use local standard time regardless of DST
+  const standardTime = new Date(time.getTime() + dataset.timezoneOffset * MS_PER_HOUR);
+  const month = standardTime.getUTCMonth() + 1;
+  let day = standardTime.getUTCDate();
+
+  const index = getDayIndex(dataset);
+  if (!index.has(`${month}-${day}`) && month === 2 && day === 29) {
+    day = 28;
+  }
+  const dayStart = index.get(`${month}-${day}`);
+  if (dayStart === undefined) return null;
+
+  const hourOfDay =
+    standardTime.getUTCHours() + standardTime.getUTCMinutes() / 60 + standardTime.getUTCSeconds() / 3600;
+
+  // Record i covers [i, i+1) hours from the day start and is centred at i + 0.5
+  const records = dataset.records;
+  const position = dayStart + hourOfDay - 0.5;
+  const i0 = Math.max(0, Math.min(records.length - 1, Math.floor(position)));
+  const i1 = Math.min(records.length - 1, i0 + 1);
+  // Before the first centre of the file there is nothing earlier to blend with
+  const frac = position < 0 ? 0 : Math.max(0, Math.min(1, position - Math.floor(position)));
+
+  const a = records[i0];
+  const b = records[i1];
+  const lerp = (x: number, y: number) => x + (y - x) * frac;
+  const covering = records[Math.min(records.length - 1, dayStart + Math.floor(hourOfDay))];
+
+  return {
+    ...covering,
+    ghi: lerp(a.ghi, b.ghi),
+    dni: lerp(a.dni, b.dni),
+    dhi: lerp(a.dhi, b.dhi),
+    temperature: lerp(a.temperature, b.temperature),
+    windSpeed: lerp(a.windSpeed, b.windSpeed),
+  };
+}
+
+// ============================================================
+// Irradiance From Weather
+// ============================================================
+
+/**
+ * Build irradiance components from a weather record
+ *
+ * @param record - Weather conditions at the instant
+ * @param date - Date/time (UTC)
+ * @param zenith - Solar zenith angle (degrees)
+ */
+export function calculateWeatherIrradiance(
+  record: WeatherRecord,
+  date: Date,
+  zenith: number
+): Irradiance {
+  const extraterrestrial = calculateExtraterrestrialIrradiance(getDayOfYear(date));
+
+  if (zenith >= 90) {
+    return {
+      ghi: 0,
+      dni: 0,
+      dhi: 0,
+      extraterrestrial,
+      airMass: Infinity,
+      clearnessIndex: 0,
+    };
+  }
+
+  const cosZenith = Math.cos(zenith * DEG_TO_RAD);
+  const extraterrestrialHorizontal = extraterrestrial * cosZenith;
+  const clearnessIndex = extraterrestrialHorizontal > 0 ? record.ghi / extraterrestrialHorizontal : 0;
+
+  return {
+    ghi: Math.max(0, record.ghi),
+    dni: Math.max(0, record.dni),
+    dhi: Math.max(0, record.dhi),
+    extraterrestrial,
+    airMass: calculateAirMass(zenith),
+    clearnessIndex: Math.min(1, Math.max(0, clearnessIndex)),
+  };
+}
+
+// ============================================================
+// Ambient Conditions
+// ============================================================
+
+const standardOffsetCache = new Map<string, number>();
+
+/**
+ * Hours since January 1 in local standard time, on a common-year clock
+ *
+ * Sky series, like weather files, ignore DST; February 29 reads February 28.
+ */
+function getStandardHourOfYear(time: Date, timezone: string): number {
+  const year = time.getUTCFullYear();
+  const key = `${timezone}:${year}`;
+  let offset = standardOffsetCache.get(key);
+  if (offset === undefined) {
+    offset = Math.min(
+      getTimezoneOffset(timezone, new Date(Date.UTC(year, 0, 1))),
+      getTimezoneOffset(timezone, new Date(Date.UTC(year, 6, 1)))
+    );
+    standardOffsetCache.set(key, offset);
+  }
+
+  const standardTime = new Date(time.getTime() + offset * 60000);
+  const hourOfDay =
+    standardTime.getUTCHours() + standardTime.getUTCMinutes() / 60 + standardTime.getUTCSeconds() / 3600;
+  return getHourOfYear(standardTime.getUTCMonth(), standardTime.getUTCDate(), 0) + hourOfDay;
+}
+
+/**
+ * Get irradiance, air temperature, wind and precipitable water at an instant
+ *
+ * Uses the weather dataset when one is supplied and covers the day,
+ * otherwise the all-sky or clear-sky model with a fixed ambient temperature
+ * and wind speed.
+ *
+ * @param time - Instant (UTC)
+ * @param zenith - Solar zenith angle (degrees)
+ * @param location - Site location (elevation used for clear-sky)
+ * @param linkeTurbidity - Linke turbidity for clear-sky
+ * @param ambientTemp - Fixed ambient temperature for clear-sky (°C)
+ * @param weather - Weather dataset, or null for modelled irradiance
+ * @param allSky - Clearness index or series and decomposition model, or null for clear-sky
+ * @param windSpeed - Fixed wind speed for modelled irradiance (m/s)
+ */
+export function getAmbientConditions(
+  time: Date,
+  zenith: number,
+  location: Location,
+  linkeTurbidity: number,
+  ambientTemp: number,
+  weather: WeatherDataset | null = null,
+  allSky: AllSkyConfig | null = null,
+  windSpeed: number = 1
+): AmbientConditions {
+  const record = weather ? getWeatherAtTime(weather, time) : null;
+
+  if (record) {
+    return {
+      irradiance: calculateWeatherIrradiance(record, time, zenith),
+      ambientTemp: record.temperature,
+      windSpeed: record.windSpeed,
+      precipitableWater: record.precipitableWater,
+    };
+  }
+
+  // DIRINT's stability term compares the hour with its neighbours
+  const neighbourZeniths = allSky?.model === 'dirint'
+    ? [-1, 1].map((hours) => calculateSolarPosition(
+        new Date(time.getTime() + hours * 3600000),
+        location.latitude,
+        location.longitude
+      ).zenith) as [number, number]
+    : null;
+
+  const hourOfYear = allSky?.series ? getStandardHourOfYear(time, location.timezone) : null;
+
+  const irradiance = allSky
+    ? calculateAllSkyIrradiance(
+        time,
+        zenith,
+        allSky,
+        linkeTurbidity,
+        location.elevation || 0,
+        neighbourZeniths,
+        hourOfYear,
+        location.latitude
+      )
+    : calculateIrradiance(time, zenith, linkeTurbidity, location.elevation || 0);
+
+  return {
+    irradiance,
+    ambientTemp,
+    windSpeed,
+  };
+}
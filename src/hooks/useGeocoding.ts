@@ -52,7 +52,7 @@ export function useGeocoding() {
           latitude: lat,
           longitude: lon,
           address: result.display_name,
-          timezone: estimateTimezone(lon),
+          timezone: estimateTimezone(lat, lon),
         };
       });
 
@@ -88,7 +88,7 @@ export function useGeocoding() {
         latitude: lat,
         longitude: lon,
         address: data.display_name || `${lat.toFixed(4)}, ${lon.toFixed(4)}`,
-        timezone: estimateTimezone(lon),
+        timezone: estimateTimezone(lat, lon),
       };
 
       setState((s) => ({ ...s, isLoading: false }));
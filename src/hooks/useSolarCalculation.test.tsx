@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { renderHook } from '@testing-library/react';
 import { useSolarCalculation } from './useSolarCalculation';
 import { useSimulatorStore } from '../store/simulatorStore';
-import { Irradiance, POAIrradiance, SolarPosition, LossFactors, HourlyData, PowerOutput } from '../core/types';
+import { Irradiance, POAIrradiance, SolarPosition, LossFactors, HourlyData, PowerOutput, AnnualOutput } from '../core/types';
 
 const initialState = useSimulatorStore.getState();
 
@@ -50,6 +50,7 @@ const baseLosses: LossFactors = {
 
 const hourlyData: HourlyData[] = Array.from({ length: 24 }, (_, hour) => ({
   hour,
+  localHour: hour,
   localTime: new Date('2024-01-15T00:00:00Z'),
   solarPosition: baseSolarPosition,
   irradiance: baseIrradiance,
@@ -66,10 +67,28 @@ const dailyOutput: PowerOutput = {
   peakHour: 12,
   dailyEnergy: 24000,
   hourlyData,
+  timestepMinutes: 60,
   capacityFactor: 0.5,
   performanceRatio: 0.8,
 };
 
+const annualOutput: AnnualOutput = {
+  year: 2024,
+  monthly: Array.from({ length: 12 }, (_, month) => ({
+    month,
+    days: 30,
+    energy: (month + 1) * 100000,
+    poaInsolation: (month + 1) * 150000,
+  })),
+  hourly: [],
+  annualEnergy: 7800000,
+  poaInsolation: 11700000,
+  specificYield: 1950,
+  capacityFactor: 0.22,
+  performanceRatio: 0.82,
+  stowHours: 0,
+};
+
 describe('useSolarCalculation', () => {
   beforeEach(() => {
     useSimulatorStore.setState(initialState, true);
@@ -83,8 +102,10 @@ describe('useSolarCalculation', () => {
         timezone: 'America/Los_Angeles',
         address: 'San Francisco, CA',
       },
+      date: new Date(2024, 5, 15, 12),
       solarPosition: baseSolarPosition,
       dailyOutput,
+      annualOutput,
       instantPower: 5000,
       currentTimeLocal: '12:00 PM',
     });
@@ -92,14 +113,23 @@ describe('useSolarCalculation', () => {
     const { result } = renderHook(() => useSolarCalculation());
 
     expect(result.current.summary?.dailyEnergy).toBe(24000);
-    expect(result.current.summary?.weeklyEnergy).toBe(24000 * 7);
-    expect(result.current.summary?.monthlyEnergy).toBe(24000 * 30);
-    expect(result.current.summary?.yearlyEnergy).toBe(24000 * 365);
-    expect(result.current.summary?.yearlySavings).toBeCloseTo((24000 * 365 / 1000) * 0.15, 2);
-    expect(result.current.summary?.yearlyCO2Offset).toBeCloseTo((24000 * 365 / 1000) * 0.42, 2);
+    expect(result.current.summary?.weeklyEnergy).toBeCloseTo((600000 / 30) * 7, 6);
+    expect(result.current.summary?.monthlyEnergy).toBe(600000);
+    expect(result.current.summary?.yearlyEnergy).toBe(7800000);
+    expect(result.current.summary?.yearlySavings).toBeCloseTo((7800000 / 1000) * 0.15, 2);
+    expect(result.current.summary?.yearlyCO2Offset).toBeCloseTo((7800000 / 1000) * 0.22, 2);
+    expect(result.current.summary?.co2Basis).toContain('CAMX');
+    expect(result.current.summary?.specificYield).toBe(1950);
+    expect(result.current.summary?.annualPerformanceRatio).toBe(0.82);
     expect(result.current.summary?.peakPower).toBe(1100);
   });
 
+  it('should return null summary until the annual simulation is available', () => {
+    useSimulatorStore.setState({ dailyOutput, annualOutput: null, solarPosition: baseSolarPosition });
+    const { result } = renderHook(() => useSolarCalculation());
+    expect(result.current.summary).toBeNull();
+  });
+
   it('should return null summary when dailyOutput missing', () => {
     useSimulatorStore.setState({ dailyOutput: null, solarPosition: baseSolarPosition });
     const { result } = renderHook(() => useSolarCalculation());
@@ -112,4 +142,52 @@ describe('useSolarCalculation', () => {
     expect(result.current.hourlyPowerData).toHaveLength(24);
     expect(result.current.cumulativeEnergyData).toHaveLength(24);
   });
+
+  it('should carry the annual snow loss into the loss breakdown', () => {
+    useSimulatorStore.setState({ currentLosses: baseLosses, annualOutput: null });
+    const { result, rerender } = renderHook(() => useSolarCalculation());
+    expect(result.current.lossBreakdown.find((loss) => loss.name === 'Snow')).toBeUndefined();
+
+    useSimulatorStore.setState({ annualOutput: { ...annualOutput, snowLoss: 400000, snowLossFraction: 0.05 } });
+    rerender();
+    expect(result.current.lossBreakdown.find((loss) => loss.name === 'Snow')?.percentage).toBeCloseTo(5, 6);
+  });
+
+  it('should report row shading in place of the flat shading it replaces', () => {
+    useSimulatorStore.setState({
+      currentLosses: baseLosses,
+      systemLosses: { ...useSimulatorStore.getState().systemLosses, shading: 0.04 },
+      annualOutput: { ...annualOutput, rowShadingLoss: 0.07 },
+    });
+    const { result, rerender } = renderHook(() => useSolarCalculation());
+    expect(result.current.lossBreakdown.find((loss) => loss.name === 'Shading')?.percentage).toBeCloseTo(4, 6);
+
+    useSimulatorStore.setState({ rowShadingEnabled: true, mountingType: 'ground' });
+    rerender();
+    expect(result.current.lossBreakdown.find((loss) => loss.name === 'Shading')).toBeUndefined();
+    expect(result.current.lossBreakdown.find((loss) => loss.name === 'Row Shading')?.percentage).toBeCloseTo(7, 6);
+  });
+
+  it('should report obstacle shading in place of the flat shading it replaces', () => {
+    const chimney = {
+      id: 'chimney',
+      type: 'chimney' as const,
+      shape: 'box' as const,
+      east: 0,
+      north: 3,
+      width: 1,
+      depth: 1,
+      height: 2,
+      rotation: 0,
+    };
+    useSimulatorStore.setState({
+      currentLosses: baseLosses,
+      systemLosses: { ...useSimulatorStore.getState().systemLosses, shading: 0.04 },
+      obstacles: [chimney],
+      annualOutput: { ...annualOutput, obstacleShadingLoss: 0.03 },
+    });
+    const { result } = renderHook(() => useSolarCalculation());
+    expect(result.current.lossBreakdown.find((loss) => loss.name === 'Shading')).toBeUndefined();
+    expect(result.current.lossBreakdown.find((loss) => loss.name === 'Obstacle Shading')?.percentage).toBeCloseTo(3, 6);
+  });
 });
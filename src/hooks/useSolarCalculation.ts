@@ -1,6 +1,16 @@
 import { useMemo } from 'react';
-import { useSimulatorStore, selectSystemSize, selectDaylightHours } from '../store/simulatorStore';
+import {
+  useSimulatorStore,
+  selectSystemSize,
+  selectDaylightHours,
+  selectActiveTariff,
+  selectAppliedLosses,
+} from '../store/simulatorStore';
 import { formatTimeInTimezone, getLocalHourFromUtc } from '../core/timezone';
+import { getLoadPower } from '../core/load';
+import { getLossBreakdown } from '../core/losses';
+import { describeEmissionFactor } from '../core/emissions';
+import { getGridEmissionFactor } from '../models/gridEmissions';
 
 export interface SolarSummary {
   // Current output
@@ -17,6 +27,9 @@ export interface SolarSummary {
   // Performance
   capacityFactor: number;
   performanceRatio: number;
+  specificYield: number; // kWh/kWp (annual)
+  annualPerformanceRatio: number;
+  annualCapacityFactor: number;
 
   // Sun times (formatted for display)
   sunriseLocal: string;
@@ -34,6 +47,7 @@ export interface SolarSummary {
   yearlySavings: number;
   dailyCO2Offset: number;
   yearlyCO2Offset: number;
+  co2Basis: string; // Grid factor or marginal profile behind the offset
 
   // System info
   systemSizeKW: number;
@@ -53,8 +67,30 @@ export function useSolarCalculation() {
     poaIrradiance,
     instantPower,
     dailyOutput,
+    annualOutput,
+    fixedAnnualOutput,
+    annualPending,
+    lifetimeOutput,
+    dailyEnergyBalance,
+    annualEnergyBalance,
+    dailyBattery,
+    annualBattery,
+    tariffSavings,
+    financeOutput,
+    emissions,
+    emissionOverride,
+    loadConfig,
+    loadProfile,
     currentLosses,
+    systemLosses,
+    rowShadingEnabled,
+    mountingType,
+    obstacles,
     cellTemperature,
+    currentAmbientTemp,
+    weatherData,
+    irradianceSource,
+    allSkyConfig,
     isNight,
     isTwilight,
     isOptimal,
@@ -63,25 +99,37 @@ export function useSolarCalculation() {
 
   const systemSize = useSimulatorStore(selectSystemSize);
   const daylightHours = useSimulatorStore(selectDaylightHours);
+  const tariff = useSimulatorStore(selectActiveTariff);
 
   const summary = useMemo((): SolarSummary | null => {
-    if (!dailyOutput || !solarPosition) {
+    if (!dailyOutput || !annualOutput || !solarPosition) {
       return null;
     }
 
-    const weeklyEnergy = dailyOutput.dailyEnergy * 7;
-    const monthlyEnergy = dailyOutput.dailyEnergy * 30;
-    const yearlyEnergy = dailyOutput.dailyEnergy * 365;
+    // Projections come from the hourly annual simulation; the week is an
+    // average week of the selected date's month
+    const month = annualOutput.monthly[date.getMonth()];
+    const monthlyEnergy = month.energy;
+    const weeklyEnergy = month.days > 0 ? (month.energy / month.days) * 7 : 0;
+    const yearlyEnergy = annualOutput.annualEnergy;
 
-    // Electricity cost savings (assuming $0.15/kWh)
-    const electricityRate = 0.15;
-    const dailySavings = (dailyOutput.dailyEnergy / 1000) * electricityRate;
-    const yearlySavings = (yearlyEnergy / 1000) * electricityRate;
+    // Bill savings under the active tariff; until the hourly bills are in,
+    // the energy is valued at the base rate
+    const dayOfYear = Math.round(
+      (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(date.getFullYear(), 0, 1)) / 86400000
+    );
+    const dailySavings = tariffSavings
+      ? tariffSavings.daily[dayOfYear] ?? 0
+      : (dailyOutput.dailyEnergy / 1000) * tariff.baseRate;
+    const yearlySavings = tariffSavings ? tariffSavings.savings : (yearlyEnergy / 1000) * tariff.baseRate;
 
-    // CO2 offset (assuming 0.42 kg CO2/kWh for US average)
-    const co2PerKwh = 0.42;
-    const dailyCO2Offset = (dailyOutput.dailyEnergy / 1000) * co2PerKwh;
-    const yearlyCO2Offset = (yearlyEnergy / 1000) * co2PerKwh;
+    // CO2 offset; until the hourly accounting is in, the energy is valued
+    // at the location's grid factor or the user's
+    const grid = getGridEmissionFactor(location);
+    const co2PerKwh = emissionOverride ?? grid.factor;
+    const dailyCO2Offset = emissions ? emissions.dailyOffset : (dailyOutput.dailyEnergy / 1000) * co2PerKwh;
+    const yearlyCO2Offset = emissions ? emissions.annualOffset : (yearlyEnergy / 1000) * co2PerKwh;
+    const co2Basis = emissions ? emissions.basis : describeEmissionFactor(grid, emissionOverride);
 
     // Format times for display
     const sunriseLocal = formatTimeInTimezone(solarPosition.sunrise, location.timezone, 'time');
@@ -103,6 +151,9 @@ export function useSolarCalculation() {
       peakHour: dailyOutput.peakHour,
       capacityFactor: dailyOutput.capacityFactor,
       performanceRatio: dailyOutput.performanceRatio,
+      specificYield: annualOutput.specificYield,
+      annualPerformanceRatio: annualOutput.performanceRatio,
+      annualCapacityFactor: annualOutput.capacityFactor,
       sunriseLocal,
       sunsetLocal,
       solarNoonLocal,
@@ -114,32 +165,49 @@ export function useSolarCalculation() {
       yearlySavings,
       dailyCO2Offset,
       yearlyCO2Offset,
+      co2Basis,
       systemSizeKW: systemSize,
       currentTimeLocal,
     };
-  }, [dailyOutput, solarPosition, instantPower, location.timezone, daylightHours, systemSize, currentTimeLocal]);
+  }, [dailyOutput, annualOutput, tariffSavings, tariff, emissions, emissionOverride, solarPosition, date, instantPower, location, daylightHours, systemSize, currentTimeLocal]);
 
-  // Hourly power data for charts
+  // Losses at the current time, with soiling, snow, shading and tracker losses taken over the simulated year
+  const lossBreakdown = useMemo(
+    () => (currentLosses
+      ? getLossBreakdown(
+          currentLosses,
+          selectAppliedLosses({ systemLosses, rowShadingEnabled, mountingType, obstacles }),
+          annualOutput
+        )
+      : []),
+    [currentLosses, systemLosses, rowShadingEnabled, mountingType, obstacles, annualOutput]
+  );
+
+  // Power data for charts (one point per simulation timestep)
   const hourlyPowerData = useMemo(() => {
     if (!dailyOutput) return [];
-    return dailyOutput.hourlyData.map((h, index) => ({
-      hour: index,
+    return dailyOutput.hourlyData.map((h) => ({
+      hour: h.localHour,
       power: h.acPower,
       dcPower: h.dcPower,
+      load: getLoadPower(loadConfig, h.localHour, date.getMonth(), date.getDate(), loadProfile),
       irradiance: h.poaIrradiance.total,
       temperature: h.cellTemperature,
       isNight: h.solarPosition.isNight,
     }));
-  }, [dailyOutput]);
+  }, [dailyOutput, loadConfig, loadProfile, date]);
 
-  // Cumulative energy data
+  // Cumulative energy data (trapezoidal integration between samples)
   const cumulativeEnergyData = useMemo(() => {
     if (!dailyOutput) return [];
     let cumulative = 0;
-    return dailyOutput.hourlyData.map((h, index) => {
-      cumulative += h.acPower;
+    return dailyOutput.hourlyData.map((h, index, samples) => {
+      if (index > 0) {
+        const prev = samples[index - 1];
+        cumulative += ((prev.acPower + h.acPower) / 2) * (h.localHour - prev.localHour);
+      }
       return {
-        hour: index,
+        hour: h.localHour,
         energy: cumulative,
       };
     });
@@ -160,8 +228,26 @@ export function useSolarCalculation() {
     poaIrradiance,
     instantPower,
     dailyOutput,
+    annualOutput,
+    fixedAnnualOutput,
+    annualPending,
+    lifetimeOutput,
+    dailyEnergyBalance,
+    annualEnergyBalance,
+    dailyBattery,
+    annualBattery,
+    tariffSavings,
+    tariff,
+    financeOutput,
+    emissions,
     currentLosses,
     cellTemperature,
+    currentAmbientTemp,
+
+    // Weather
+    weatherData,
+    irradianceSource,
+    allSkyConfig,
 
     // Derived state
     isNight,
@@ -173,6 +259,7 @@ export function useSolarCalculation() {
 
     // Summaries
     summary,
+    lossBreakdown,
     hourlyPowerData,
     cumulativeEnergyData,
   };
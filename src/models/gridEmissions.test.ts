@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AUSTRALIA_REGIONS,
+  CANADA_REGIONS,
+  EmissionRegion,
+  getCountryFromTimezone,
+  getGridEmissionFactor,
+  US_REGIONS,
+  WORLD_EMISSION_FACTOR,
+} from './gridEmissions';
+import { presetLocations } from './location';
+
+describe('grid emission factors', () => {
+  it('should map timezones to countries', () => {
+    expect(getCountryFromTimezone('Asia/Tokyo')).toBe('JP');
+    expect(getCountryFromTimezone('America/Indiana/Indianapolis')).toBe('US');
+    expect(getCountryFromTimezone('Australia/Perth')).toBe('AU');
+    expect(getCountryFromTimezone('Etc/GMT+8')).toBeNull();
+  });
+
+  it('should cover zones away from the capitals', () => {
+    expect(getCountryFromTimezone('America/Hermosillo')).toBe('MX');
+    expect(getCountryFromTimezone('America/Merida')).toBe('MX');
+    expect(getCountryFromTimezone('America/Chihuahua')).toBe('MX');
+    expect(getCountryFromTimezone('America/Belem')).toBe('BR');
+    expect(getCountryFromTimezone('America/Cuiaba')).toBe('BR');
+    expect(getCountryFromTimezone('Asia/Omsk')).toBe('RU');
+    expect(getCountryFromTimezone('Asia/Urumqi')).toBe('CN');
+    expect(getCountryFromTimezone('Europe/Kaliningrad')).toBe('RU');
+  });
+
+  it('should take the country from the zone at the coordinates', () => {
+    const at = (latitude: number, longitude: number) =>
+      getGridEmissionFactor({ latitude, longitude, timezone: 'UTC', address: '' }).region;
+    expect(at(29.07, -110.96)).toBe('Mexico'); // Hermosillo
+    expect(at(-15.6, -56.1)).toBe('Brazil'); // Cuiabá
+    expect(at(43.83, 87.62)).toBe('China'); // Ürümqi
+    expect(at(54.99, 73.37)).toBe('Russia'); // Omsk
+    expect(at(54.71, 20.51)).toBe('Russia'); // Kaliningrad
+  });
+
+  it('should pick eGRID subregions inside the US', () => {
+    const sanFrancisco = getGridEmissionFactor(presetLocations[0]);
+    expect(sanFrancisco.region).toContain('CAMX');
+    expect(sanFrancisco.source).toContain('eGRID');
+
+    const miami = getGridEmissionFactor(presetLocations[4]);
+    expect(miami.region).toContain('FRCC');
+  });
+
+  it('should pick the right subregion on either side of contested borders', () => {
+    const at = (latitude: number, longitude: number) =>
+      getGridEmissionFactor({ latitude, longitude, timezone: 'UTC', address: '' }).region.slice(0, 4);
+    expect(at(40.78, -73.97)).toBe('NYCW'); // Manhattan
+    expect(at(40.71, -73.62)).toBe('NYLI'); // Hempstead
+    expect(at(42.65, -73.76)).toBe('NYUP'); // Albany
+    expect(at(42.89, -78.88)).toBe('NYUP'); // Buffalo
+    expect(at(40.72, -74.07)).toBe('RFCE'); // Jersey City
+    expect(at(33.75, -84.39)).toBe('SRSO'); // Atlanta
+    expect(at(33.52, -86.81)).toBe('SRSO'); // Birmingham
+    expect(at(35.23, -80.84)).toBe('SRVC'); // Charlotte
+    expect(at(35.78, -78.64)).toBe('SRVC'); // Raleigh
+    expect(at(34.0, -81.03)).toBe('SRVC'); // Columbia
+    expect(at(36.16, -86.78)).toBe('SRTV'); // Nashville
+    expect(at(35.96, -83.92)).toBe('SRTV'); // Knoxville
+    expect(at(35.15, -90.05)).toBe('SRTV'); // Memphis
+    expect(at(44.98, -93.27)).toBe('MROW'); // Minneapolis
+    expect(at(41.59, -93.62)).toBe('MROW'); // Des Moines
+    expect(at(38.63, -90.2)).toBe('SRMW'); // St. Louis
+    expect(at(41.88, -87.63)).toBe('RFCW'); // Chicago
+    expect(at(43.04, -87.91)).toBe('MROE'); // Milwaukee
+    expect(at(38.58, -121.49)).toBe('CAMX'); // Sacramento
+    expect(at(34.05, -118.24)).toBe('CAMX'); // Los Angeles
+    expect(at(39.53, -119.81)).toBe('NWPP'); // Reno
+    expect(at(36.17, -115.14)).toBe('NWPP'); // Las Vegas
+    expect(at(45.52, -122.68)).toBe('NWPP'); // Portland
+    expect(at(40.76, -111.89)).toBe('NWPP'); // Salt Lake City
+    expect(at(39.74, -104.99)).toBe('RMPA'); // Denver
+    expect(at(33.45, -112.07)).toBe('AZNM'); // Phoenix
+    expect(at(21.31, -157.86)).toBe('HIOA'); // Honolulu
+    expect(at(19.72, -155.09)).toBe('HIMS'); // Hilo
+  });
+
+  it('should split Canadian provinces and Australian states at their borders', () => {
+    const at = (latitude: number, longitude: number) =>
+      getGridEmissionFactor({ latitude, longitude, timezone: 'UTC', address: '' }).region;
+    expect(at(45.42, -75.7)).toContain('Ontario'); // Ottawa
+    expect(at(45.5, -73.57)).toContain('Quebec'); // Montreal
+    expect(at(51.05, -114.07)).toContain('Alberta'); // Calgary
+    expect(at(49.28, -123.12)).toContain('British Columbia'); // Vancouver
+    expect(at(44.65, -63.57)).toContain('Nova Scotia'); // Halifax
+    expect(at(45.27, -66.06)).toContain('New Brunswick'); // Saint John
+    expect(at(48.95, -57.95)).toContain('Newfoundland'); // Corner Brook
+    expect(at(-35.28, 149.13)).toContain('New South Wales'); // Canberra
+    expect(at(-37.07, 149.9)).toContain('New South Wales'); // Eden
+    expect(at(-37.81, 144.96)).toContain('Victoria'); // Melbourne
+    expect(at(-36.12, 146.88)).toContain('Victoria'); // Wodonga
+    expect(at(-28.0, 153.43)).toContain('Queensland'); // Gold Coast
+  });
+
+  it('should never let region boxes overlap', () => {
+    const overlaps = (regions: EmissionRegion[]) =>
+      regions.flatMap((region, i) =>
+        regions.slice(i + 1).flatMap((other) =>
+          region.bounds.flatMap((a) =>
+            other.bounds
+              .filter((b) => a[0] < b[1] && b[0] < a[1] && a[2] < b[3] && b[2] < a[3])
+              .map(() => `${region.name} / ${other.name}`)
+          )
+        )
+      );
+    expect(overlaps(US_REGIONS)).toEqual([]);
+    expect(overlaps(CANADA_REGIONS)).toEqual([]);
+    expect(overlaps(AUSTRALIA_REGIONS)).toEqual([]);
+  });
+
+  it('should use national factors elsewhere', () => {
+    const tokyo = getGridEmissionFactor(presetLocations[1]);
+    const london = getGridEmissionFactor(presetLocations[2]);
+    expect(tokyo.region).toBe('Japan');
+    expect(london.region).toBe('United Kingdom');
+    expect(london.factor).toBeLessThan(tokyo.factor);
+  });
+
+  it('should fall back to regional boxes, then the world average', () => {
+    const quebec = getGridEmissionFactor({ latitude: 46.8, longitude: -71.2, timezone: 'Etc/GMT+5', address: '' });
+    expect(quebec.region).toContain('Quebec');
+    const ocean = getGridEmissionFactor({ latitude: -40, longitude: -30, timezone: 'Etc/GMT+2', address: '' });
+    expect(ocean).toEqual(WORLD_EMISSION_FACTOR);
+  });
+});
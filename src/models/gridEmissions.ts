@@ -0,0 +1,305 @@
+import { GridEmissionFactor, Location } from '../core/types';
+import { getTimezoneFromCoordinates } from '../core/timezone';
+import { TIMEZONE_COUNTRIES } from './timezoneCountries';
+
+/**
+ * Average grid emission factors, kg CO2 per kWh consumed
+ *
+ * Countries from Ember's yearly electricity data (2023 generation intensity).
+ * Sub-national grids where they differ widely from the national mix:
+ * - US: EPA eGRID2022 subregion output emission rates
+ * - Canada: National Inventory Report 2023, provincial consumption intensity
+ * - Australia: National Greenhouse Accounts Factors 2023, scope 2 by state
+ *
+ * Region boundaries are approximated by non-overlapping latitude/longitude
+ * boxes that step along state, province and utility lines. Points within
+ * a few kilometres of a border, or in utility territories that cross it,
+ * can still pick up the neighbouring region.
+ */
+
+export type Bounds = [minLat: number, maxLat: number, minLng: number, maxLng: number];
+
+export interface EmissionRegion {
+  name: string;
+  factor: number; // kg CO2/kWh
+  bounds: Bounds[];
+}
+
+interface CountryEmissions {
+  name: string;
+  factor: number; // kg CO2/kWh
+  regions?: EmissionRegion[];
+  regionSource?: string;
+}
+
+const COUNTRY_SOURCE = 'Ember 2023';
+
+export const WORLD_EMISSION_FACTOR: GridEmissionFactor = {
+  region: 'World average',
+  factor: 0.48,
+  source: COUNTRY_SOURCE,
+};
+
+// Boxes are half-open ([min, max)) and never overlap, so each point has one region
+export const US_REGIONS: EmissionRegion[] = [
+  { name: 'AKGD (Alaska Grid)', factor: 0.48, bounds: [[51, 72, -180, -129]] },
+  { name: 'HIOA (Oahu)', factor: 0.71, bounds: [[21.2, 21.75, -158.35, -157.6]] },
+  {
+    name: 'HIMS (Hawaii Islands)',
+    factor: 0.51,
+    bounds: [[21.7, 22.5, -160.5, -159], [18.5, 21.3, -157.35, -154.5]],
+  },
+  {
+    name: 'CAMX (California)',
+    factor: 0.22,
+    // West of the Nevada line, stepping down its diagonal to the Colorado River
+    bounds: [
+      [32.5, 42, -124.5, -120], [38, 39, -120, -119.3], [37, 38, -120, -118],
+      [36, 37, -120, -116.6], [35, 36, -120, -115.3], [32.5, 35, -120, -114.6],
+    ],
+  },
+  {
+    name: 'NWPP (Northwest)',
+    factor: 0.29,
+    // Pacific Northwest, Idaho, Montana, western Wyoming, Nevada and Utah
+    bounds: [
+      [42, 49.1, -125, -106], [45, 49.1, -106, -104.05], [41, 42, -109.05, -106],
+      [39, 42, -120, -109.05], [38, 39, -119.3, -109.05], [37, 38, -118, -109.05],
+      [36, 37, -116.6, -114.6], [35, 36, -115.3, -114.6],
+    ],
+  },
+  { name: 'AZNM (Southwest)', factor: 0.35, bounds: [[31.3, 37, -114.6, -103]] },
+  { name: 'RMPA (Rockies)', factor: 0.53, bounds: [[37, 41, -109.05, -102.05], [41, 45, -106, -102.05]] },
+  { name: 'ERCT (Texas)', factor: 0.37, bounds: [[25.8, 33.9, -103, -94.43]] },
+  { name: 'SPSO (Southern Plains)', factor: 0.42, bounds: [[33.9, 37, -103, -94.43]] },
+  { name: 'SPNO (Kansas)', factor: 0.52, bounds: [[37, 40, -102.05, -94.3]] },
+  {
+    name: 'MROW (Upper Midwest)',
+    factor: 0.46,
+    bounds: [[45, 49.4, -104.05, -102.05], [40, 49.4, -102.05, -94.6], [40.6, 49.4, -94.6, -90.5]],
+  },
+  { name: 'MROE (Eastern Wisconsin)', factor: 0.62, bounds: [[42.5, 47, -90.5, -87]] },
+  { name: 'SRMW (Midwest)', factor: 0.69, bounds: [[36.5, 38.2, -94.3, -89.5], [38.2, 40.6, -94.3, -87.5]] },
+  {
+    name: 'SRMV (Mississippi Valley)',
+    factor: 0.36,
+    bounds: [[29, 35, -94.43, -88.5], [35, 36.5, -94.43, -90.3]],
+  },
+  {
+    name: 'SRTV (Tennessee Valley)',
+    factor: 0.42,
+    // Tennessee, with Memphis west of the river, and most of Kentucky
+    bounds: [[35, 36.5, -90.3, -89.5], [35, 36.68, -89.5, -83.1], [36, 36.68, -83.1, -81.7], [36.68, 38.2, -89.5, -82.6]],
+  },
+  {
+    name: 'SRSO (Southeast)',
+    factor: 0.39,
+    // Georgia and Alabama, bounded by the Savannah River
+    bounds: [[30, 31, -88.5, -87.6], [31, 32.5, -88.5, -80.8], [32.5, 33.5, -88.5, -81.7], [33.5, 35, -88.5, -82.6]],
+  },
+  { name: 'FRCC (Florida)', factor: 0.38, bounds: [[24.4, 31, -87.6, -79.8]] },
+  {
+    name: 'SRVC (Virginia/Carolinas)',
+    factor: 0.29,
+    bounds: [
+      [32, 32.5, -80.8, -75.2], [32.5, 33.5, -81.7, -75.2], [33.5, 35, -82.6, -75.2], [35, 36, -83.1, -75.2],
+      [36, 36.55, -81.7, -75.2], [36.55, 37.9, -79.5, -75.2], [37.9, 38.8, -79.5, -76],
+    ],
+  },
+  {
+    name: 'RFCW (Ohio Valley)',
+    factor: 0.47,
+    // Northern Illinois, Indiana, Ohio, West Virginia, western Pennsylvania and Maryland
+    bounds: [
+      [40.6, 42.5, -90.5, -87.5], [38.2, 41.7, -87.5, -79.5], [38.8, 41.7, -79.5, -77.5],
+      [36.68, 38.2, -82.6, -79.5], [41.7, 42, -82.4, -77.5], [42, 42.3, -80.55, -79.76],
+    ],
+  },
+  { name: 'RFCM (Michigan)', factor: 0.53, bounds: [[41.7, 46, -87, -82.4]] },
+  {
+    name: 'RFCE (Mid-Atlantic)',
+    factor: 0.27,
+    // New Jersey, Delaware, eastern Maryland, DC and eastern Pennsylvania
+    bounds: [
+      [38.8, 40.49, -77.5, -73.9], [40.49, 41, -77.5, -74.26], [40.65, 41, -74.26, -74.02],
+      [41, 42, -77.5, -75], [37.9, 38.8, -76, -74.9],
+    ],
+  },
+  {
+    name: 'NYCW (New York City/Westchester)',
+    factor: 0.4,
+    bounds: [[40.49, 40.65, -74.26, -74.05], [40.55, 40.92, -74.02, -73.7], [40.92, 41.37, -73.95, -73.48]],
+  },
+  { name: 'NYLI (Long Island)', factor: 0.55, bounds: [[40.54, 40.92, -73.7, -71.8], [40.92, 41, -73.48, -71.8]] },
+  {
+    name: 'NYUP (Upstate New York)',
+    factor: 0.11,
+    bounds: [[42, 45.1, -79.76, -73.35], [41.37, 42, -75, -73.5], [41, 41.37, -74.75, -73.95]],
+  },
+  {
+    name: 'NEWE (New England)',
+    factor: 0.24,
+    bounds: [[41, 42, -73.48, -69.9], [42, 45.1, -73.35, -69.9], [45.1, 47.5, -71.1, -69.9], [43, 47.5, -69.9, -66.9]],
+  },
+];
+
+export const CANADA_REGIONS: EmissionRegion[] = [
+  {
+    name: 'British Columbia',
+    factor: 0.015,
+    // East of 120°W the border follows the Rockies south-east
+    bounds: [[48.2, 60, -139.1, -120], [52, 53.8, -120, -118.8], [50.5, 52, -120, -116.5], [49, 50.5, -120, -114.5]],
+  },
+  {
+    name: 'Alberta',
+    factor: 0.5,
+    bounds: [[53.8, 60, -120, -110], [52, 53.8, -118.8, -110], [50.5, 52, -116.5, -110], [49, 50.5, -114.5, -110]],
+  },
+  { name: 'Saskatchewan', factor: 0.64, bounds: [[49, 60, -110, -101.4]] },
+  {
+    name: 'Manitoba',
+    factor: 0.002,
+    bounds: [[49, 52.8, -101.4, -95.15], [52.8, 55, -101.4, -94.5], [55, 60, -101.4, -92]],
+  },
+  {
+    name: 'Ontario',
+    factor: 0.03,
+    // Ottawa lies south of the Ottawa River split at 45.55°N
+    bounds: [[41.6, 45.55, -95.15, -74.3], [45.55, 52.8, -95.15, -79.5], [52.8, 55, -94.5, -79.5], [55, 57, -92, -79.5]],
+  },
+  {
+    name: 'Quebec',
+    factor: 0.002,
+    bounds: [
+      [45, 45.55, -74.3, -70.5], [45.55, 48, -79.5, -69.1], [48, 51.4, -79.5, -59.5],
+      [51.4, 52, -79.5, -57], [52, 55, -79.5, -67], [55, 63, -79.5, -64.5],
+    ],
+  },
+  { name: 'New Brunswick', factor: 0.28, bounds: [[45, 48, -69.1, -63.7], [44.5, 45, -67.2, -66.4]] },
+  { name: 'Nova Scotia', factor: 0.64, bounds: [[43.3, 45, -66.4, -63.7], [43.3, 47.1, -63.7, -59.6]] },
+  {
+    name: 'Newfoundland and Labrador',
+    factor: 0.02,
+    bounds: [[46.5, 51.4, -59.5, -52.5], [52, 55, -67, -55.5], [55, 60.5, -64.5, -55.5]],
+  },
+];
+
+export const AUSTRALIA_REGIONS: EmissionRegion[] = [
+  { name: 'Tasmania', factor: 0.12, bounds: [[-44, -39.5, 143.5, 149]] },
+  {
+    name: 'Victoria',
+    factor: 0.79,
+    // North of Gippsland the Murray River is the border with New South Wales
+    bounds: [[-39.2, -37.5, 140.96, 150], [-37.5, -36.1, 140.96, 148.2], [-36.1, -34, 140.96, 142.5]],
+  },
+  { name: 'South Australia', factor: 0.25, bounds: [[-38.1, -26, 129, 140.96]] },
+  { name: 'Western Australia', factor: 0.51, bounds: [[-35.2, -13.7, 112.9, 129]] },
+  { name: 'Northern Territory', factor: 0.54, bounds: [[-26, -10.9, 129, 138]] },
+  {
+    name: 'New South Wales',
+    factor: 0.68,
+    // Including the ACT, which shares the NSW grid factor
+    bounds: [[-37.5, -36.1, 148.2, 150.1], [-36.1, -34, 142.5, 153.7], [-34, -29, 140.96, 153.7]],
+  },
+  { name: 'Queensland', factor: 0.73, bounds: [[-29, -26, 140.96, 154], [-26, -10, 138, 154]] },
+];
+
+const COUNTRY_EMISSIONS: Record<string, CountryEmissions> = {
+  US: { name: 'United States', factor: 0.37, regions: US_REGIONS, regionSource: 'EPA eGRID2022' },
+  CA: { name: 'Canada', factor: 0.13, regions: CANADA_REGIONS, regionSource: 'Canada NIR 2023' },
+  MX: { name: 'Mexico', factor: 0.42 },
+  BR: { name: 'Brazil', factor: 0.1 },
+  AR: { name: 'Argentina', factor: 0.33 },
+  CL: { name: 'Chile', factor: 0.29 },
+  CO: { name: 'Colombia', factor: 0.17 },
+  PE: { name: 'Peru', factor: 0.27 },
+  GB: { name: 'United Kingdom', factor: 0.24 },
+  IE: { name: 'Ireland', factor: 0.28 },
+  FR: { name: 'France', factor: 0.056 },
+  DE: { name: 'Germany', factor: 0.38 },
+  NL: { name: 'Netherlands', factor: 0.27 },
+  BE: { name: 'Belgium', factor: 0.14 },
+  ES: { name: 'Spain', factor: 0.17 },
+  PT: { name: 'Portugal', factor: 0.17 },
+  IT: { name: 'Italy', factor: 0.33 },
+  CH: { name: 'Switzerland', factor: 0.046 },
+  AT: { name: 'Austria', factor: 0.11 },
+  PL: { name: 'Poland', factor: 0.66 },
+  CZ: { name: 'Czechia', factor: 0.45 },
+  SE: { name: 'Sweden', factor: 0.041 },
+  NO: { name: 'Norway', factor: 0.03 },
+  DK: { name: 'Denmark', factor: 0.15 },
+  FI: { name: 'Finland', factor: 0.079 },
+  GR: { name: 'Greece', factor: 0.34 },
+  TR: { name: 'Turkey', factor: 0.46 },
+  RU: { name: 'Russia', factor: 0.44 },
+  UA: { name: 'Ukraine', factor: 0.26 },
+  JP: { name: 'Japan', factor: 0.49 },
+  CN: { name: 'China', factor: 0.58 },
+  IN: { name: 'India', factor: 0.71 },
+  KR: { name: 'South Korea', factor: 0.44 },
+  TW: { name: 'Taiwan', factor: 0.56 },
+  SG: { name: 'Singapore', factor: 0.47 },
+  TH: { name: 'Thailand', factor: 0.5 },
+  ID: { name: 'Indonesia', factor: 0.68 },
+  VN: { name: 'Vietnam', factor: 0.48 },
+  PH: { name: 'Philippines', factor: 0.61 },
+  MY: { name: 'Malaysia', factor: 0.6 },
+  AE: { name: 'United Arab Emirates', factor: 0.42 },
+  SA: { name: 'Saudi Arabia', factor: 0.7 },
+  IL: { name: 'Israel', factor: 0.52 },
+  AU: { name: 'Australia', factor: 0.55, regions: AUSTRALIA_REGIONS, regionSource: 'NGA Factors 2023' },
+  NZ: { name: 'New Zealand', factor: 0.11 },
+  ZA: { name: 'South Africa', factor: 0.71 },
+  EG: { name: 'Egypt', factor: 0.57 },
+  NG: { name: 'Nigeria', factor: 0.4 },
+  KE: { name: 'Kenya', factor: 0.07 },
+  MA: { name: 'Morocco', factor: 0.63 },
+};
+
+/**
+ * Country of an IANA timezone
+ *
+ * @returns ISO 3166 country code, or null for zones not in zone.tab (e.g. Etc/GMT+8)
+ */
+export function getCountryFromTimezone(timezone: string): string | null {
+  return TIMEZONE_COUNTRIES[timezone] ?? null;
+}
+
+function findRegion(regions: EmissionRegion[], latitude: number, longitude: number): EmissionRegion | undefined {
+  return regions.find((region) =>
+    region.bounds.some(([minLat, maxLat, minLng, maxLng]) =>
+      latitude >= minLat && latitude < maxLat && longitude >= minLng && longitude < maxLng
+    )
+  );
+}
+
+/**
+ * Average grid emission factor at a location
+ *
+ * The country comes from the timezone boundaries at the coordinates, or
+ * the location's own zone offshore; within countries that have
+ * sub-national data the coordinates pick the region. Points in no
+ * country fall back to the regional boxes, then to the world average.
+ */
+export function getGridEmissionFactor(location: Location): GridEmissionFactor {
+  const { latitude, longitude } = location;
+  const code = getCountryFromTimezone(getTimezoneFromCoordinates(latitude, longitude))
+    ?? getCountryFromTimezone(location.timezone);
+  const country = code ? COUNTRY_EMISSIONS[code] : undefined;
+
+  if (country) {
+    const region = country.regions && findRegion(country.regions, latitude, longitude);
+    return region
+      ? { region: `${region.name}, ${country.name}`, factor: region.factor, source: country.regionSource ?? COUNTRY_SOURCE }
+      : { region: country.name, factor: country.factor, source: COUNTRY_SOURCE };
+  }
+
+  for (const candidate of Object.values(COUNTRY_EMISSIONS)) {
+    const region = candidate.regions && findRegion(candidate.regions, latitude, longitude);
+    if (region) {
+      return { region: `${region.name}, ${candidate.name}`, factor: region.factor, source: candidate.regionSource ?? COUNTRY_SOURCE };
+    }
+  }
+  return WORLD_EMISSION_FACTOR;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { inverterPresets, getInverterPreset, getDefaultInverterPreset } from './inverterPresets';
+import { calculateSandiaInverterPower, calculateWeightedEfficiency } from '../core/inverter';
+import { DEFAULT_INVERTER_CONFIG } from '../core/losses';
+
+describe('inverter presets', () => {
+  it('should default to the flat-efficiency inverter', () => {
+    expect(getDefaultInverterPreset().config).toEqual(DEFAULT_INVERTER_CONFIG);
+  });
+
+  it('should find a preset by id', () => {
+    expect(getInverterPreset('enphase-iq8plus')?.type).toBe('micro');
+    expect(getInverterPreset('missing-id')).toBeUndefined();
+  });
+
+  it('should match the listed efficiency to the model', () => {
+    inverterPresets.forEach(({ config }) => {
+      if (config.sandia) {
+        const { pdco, vdco } = config.sandia;
+        expect(calculateSandiaInverterPower(pdco, vdco, config.sandia)).toBeCloseTo(config.sandia.paco, 6);
+        const threeQuarter = calculateSandiaInverterPower(0.75 * pdco, vdco, config.sandia) / (0.75 * pdco);
+        expect(Math.abs(threeQuarter - config.efficiency)).toBeLessThan(0.02);
+      }
+      if (config.efficiencyCurve) {
+        expect(calculateWeightedEfficiency(config.efficiencyCurve)).toBeCloseTo(config.efficiency, 2);
+      }
+    });
+  });
+
+  it('should give microinverters a module count and string inverters a voltage window', () => {
+    inverterPresets.forEach((preset) => {
+      if (preset.type === 'micro') {
+        expect(preset.config.modulesPerInverter).toBeGreaterThan(0);
+      } else {
+        expect(preset.config.modulesPerInverter).toBeUndefined();
+      }
+      if (preset.config.limits) {
+        expect(preset.config.limits.mpptVoltageMax).toBeLessThanOrEqual(preset.config.limits.maxDcVoltage);
+      }
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { InverterPreset } from '../core/types';
+
+// Sandia coefficients are representative of the CEC inverter list entries
+export const inverterPresets: InverterPreset[] = [
+  {
+    id: 'generic-flat',
+    name: 'Generic 96% (flat)',
+    manufacturer: 'Generic',
+    model: 'Flat efficiency',
+    type: 'string',
+    config: {
+      efficiency: 0.96,
+      acCapacity: 0,
+      dcAcRatio: 1.2,
+    },
+  },
+  {
+    id: 'generic-curve',
+    name: 'Generic string (CEC curve)',
+    manufacturer: 'Generic',
+    model: 'Part-load curve',
+    type: 'string',
+    config: {
+      efficiency: 0.965,
+      acCapacity: 0,
+      dcAcRatio: 1.2,
+      efficiencyCurve: {
+        efficiencies: [0.935, 0.955, 0.962, 0.968, 0.968, 0.965],
+        selfConsumption: 20,
+        nightTare: 1,
+      },
+    },
+  },
+  {
+    id: 'sma-sunny-boy-7.7',
+    name: 'SMA Sunny Boy 7.7',
+    manufacturer: 'SMA',
+    model: 'SB7.7-1SP-US-40',
+    type: 'string',
+    config: {
+      efficiency: 0.965,
+      acCapacity: 7680,
+      dcAcRatio: 1.2,
+      limits: {
+        maxDcVoltage: 600,
+        mpptVoltageMin: 270,
+        mpptVoltageMax: 480,
+        maxInputCurrent: 10,
+      },
+      sandia: {
+        paco: 7680,
+        pdco: 7943,
+        vdco: 380,
+        pso: 27.5,
+        c0: -2.4e-6,
+        c1: -1.5e-5,
+        c2: 1.9e-3,
+        c3: -9.1e-4,
+        pnt: 2.3,
+      },
+    },
+  },
+  {
+    id: 'fronius-primo-5.0',
+    name: 'Fronius Primo 5.0',
+    manufacturer: 'Fronius',
+    model: 'Primo 5.0-1',
+    type: 'string',
+    config: {
+      efficiency: 0.965,
+      acCapacity: 5000,
+      dcAcRatio: 1.2,
+      limits: {
+        maxDcVoltage: 600,
+        mpptVoltageMin: 240,
+        mpptVoltageMax: 480,
+        maxInputCurrent: 18,
+      },
+      sandia: {
+        paco: 5000,
+        pdco: 5170,
+        vdco: 420,
+        pso: 25,
+        c0: -3.4e-6,
+        c1: -1.8e-5,
+        c2: 2.0e-3,
+        c3: -1.2e-3,
+        pnt: 1.5,
+      },
+    },
+  },
+  {
+    // Power optimisers hold the string at a fixed voltage, so no MPPT window
+    id: 'solaredge-se7600h',
+    name: 'SolarEdge SE7600H',
+    manufacturer: 'SolarEdge',
+    model: 'SE7600H-US',
+    type: 'string',
+    config: {
+      efficiency: 0.99,
+      acCapacity: 7600,
+      dcAcRatio: 1.2,
+      sandia: {
+        paco: 7600,
+        pdco: 7680,
+        vdco: 380,
+        pso: 18,
+        c0: -1.1e-6,
+        c1: -1.0e-5,
+        c2: 8.0e-4,
+        c3: -4.0e-4,
+        pnt: 2.5,
+      },
+    },
+  },
+  {
+    id: 'enphase-iq8plus',
+    name: 'Enphase IQ8+',
+    manufacturer: 'Enphase',
+    model: 'IQ8PLUS-72-2-US',
+    type: 'micro',
+    config: {
+      efficiency: 0.97,
+      acCapacity: 0,
+      dcAcRatio: 1.2,
+      modulesPerInverter: 1,
+      sandia: {
+        paco: 290,
+        pdco: 299.4,
+        vdco: 37,
+        pso: 1.3,
+        c0: -4.5e-5,
+        c1: -1.9e-4,
+        c2: 2.6e-3,
+        c3: -2.3e-3,
+        pnt: 0.06,
+      },
+    },
+  },
+  {
+    id: 'apsystems-ds3',
+    name: 'APsystems DS3 (dual)',
+    manufacturer: 'APsystems',
+    model: 'DS3',
+    type: 'micro',
+    config: {
+      efficiency: 0.965,
+      acCapacity: 0,
+      dcAcRatio: 1.2,
+      modulesPerInverter: 2,
+      sandia: {
+        paco: 730,
+        pdco: 756,
+        vdco: 40,
+        pso: 3,
+        c0: -2.0e-5,
+        c1: -1.5e-4,
+        c2: 2.0e-3,
+        c3: -1.5e-3,
+        pnt: 0.2,
+      },
+    },
+  },
+];
+
+export function getInverterPreset(id: string): InverterPreset | undefined {
+  return inverterPresets.find((p) => p.id === id);
+}
+
+export function getDefaultInverterPreset(): InverterPreset {
+  return inverterPresets[0];
+}
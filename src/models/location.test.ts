@@ -11,9 +11,9 @@ describe('location models', () => {
     expect(presetLocations.length).toBeGreaterThan(3);
   });
 
-  it('should estimate timezone from longitude', () => {
-    expect(estimateTimezone(0)).toBe('UTC');
-    expect(estimateTimezone(30)).toBe('Etc/GMT-2');
-    expect(estimateTimezone(-30)).toBe('Etc/GMT+2');
+  it('should estimate timezone from the zone boundaries', () => {
+    expect(estimateTimezone(51.5074, -0.1278)).toBe('Europe/London');
+    expect(estimateTimezone(33.4484, -112.074)).toBe('America/Phoenix');
+    expect(estimateTimezone(0, -30)).toBe('Etc/GMT+2');
   });
 });
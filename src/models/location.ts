@@ -1,4 +1,5 @@
 import { Location } from '../core/types';
+import { getTimezoneFromCoordinates } from '../core/timezone';
 
 export const defaultLocation: Location = {
   latitude: 37.7749,
@@ -59,12 +60,9 @@ export const presetLocations: Location[] = [
 ];
 
 /**
- * Get timezone from coordinates using a simple approximation
- * For production, use a proper timezone API
+ * Get the IANA timezone for geocoded coordinates
+ * Offshore points get the nautical zone for their longitude
  */
-export function estimateTimezone(longitude: number): string {
-  const offset = Math.round(longitude / 15);
-  if (offset === 0) return 'UTC';
-  const sign = offset > 0 ? '+' : '-';
-  return `Etc/GMT${sign === '+' ? '-' : '+'}${Math.abs(offset)}`;
+export function estimateTimezone(latitude: number, longitude: number): string {
+  return getTimezoneFromCoordinates(latitude, longitude);
 }
@@ -0,0 +1,44 @@
+import { ObstaclePreset, ObstacleType } from '../core/types';
+
+export const obstaclePresets: ObstaclePreset[] = [
+  {
+    type: 'tree',
+    name: 'Tree',
+    shape: 'cylinder',
+    width: 4,
+    depth: 4,
+    height: 8,
+    distance: 8,
+  },
+  {
+    type: 'chimney',
+    name: 'Chimney',
+    shape: 'box',
+    width: 0.6,
+    depth: 0.6,
+    height: 2.5,
+    distance: 2,
+  },
+  {
+    type: 'building',
+    name: 'Building',
+    shape: 'box',
+    width: 10,
+    depth: 8,
+    height: 9,
+    distance: 15,
+  },
+  {
+    type: 'parapet',
+    name: 'Parapet',
+    shape: 'box',
+    width: 8,
+    depth: 0.3,
+    height: 1.5,
+    distance: 1.5,
+  },
+];
+
+export function getObstaclePreset(type: ObstacleType): ObstaclePreset {
+  return obstaclePresets.find((p) => p.type === type) ?? obstaclePresets[0];
+}
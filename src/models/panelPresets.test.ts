@@ -13,6 +13,42 @@ describe('panel presets', () => {
     expect(preset?.config.ratedPower).toBe(400);
   });
 
+  it('should include bifacial presets with a bifaciality factor', () => {
+    const bifacial = panelPresets.filter((preset) => preset.config.bifacial);
+    expect(bifacial.length).toBeGreaterThan(0);
+    bifacial.forEach((preset) => {
+      expect(preset.config.bifacialityFactor).toBeGreaterThan(0.5);
+      expect(preset.config.bifacialityFactor).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('should give every preset a cell technology', () => {
+    panelPresets.forEach((preset) => {
+      expect(['mono-si', 'poly-si', 'cdte', 'hit']).toContain(preset.config.technology);
+    });
+    expect(getPanelPreset('first-solar-series-7')?.config.technology).toBe('cdte');
+  });
+
+  it('should give every preset consistent datasheet electrical values', () => {
+    panelPresets.forEach(({ config }) => {
+      const electrical = config.electrical!;
+      expect(electrical.vmp).toBeLessThan(electrical.voc);
+      expect(electrical.imp).toBeLessThan(electrical.isc);
+      expect(electrical.vmp * electrical.imp / config.ratedPower).toBeCloseTo(1, 1);
+      expect(electrical.tempCoefficientVoc).toBeLessThan(0);
+    });
+  });
+
+  it('should give every preset a power warranty above its expected ageing', () => {
+    panelPresets.forEach(({ config }) => {
+      const degradation = config.degradation!;
+      expect(degradation.annualRate).toBeGreaterThan(0);
+      expect(degradation.annualRate).toBeLessThanOrEqual(degradation.warrantyAnnual);
+      expect(degradation.warrantyFirstYear).toBeLessThanOrEqual(100);
+      expect(degradation.warrantyYears).toBeGreaterThanOrEqual(25);
+    });
+  });
+
   it('should return undefined for unknown id', () => {
     expect(getPanelPreset('missing-id')).toBeUndefined();
   });
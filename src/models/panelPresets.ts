@@ -13,6 +13,21 @@ export const panelPresets: PanelPreset[] = [
       efficiency: 0.195,
       tempCoefficient: -0.35,
       noct: 45,
+      technology: 'mono-si',
+      electrical: {
+        voc: 49.3,
+        isc: 10.36,
+        vmp: 41.3,
+        imp: 9.69,
+        tempCoefficientVoc: -0.27,
+        tempCoefficientIsc: 0.048,
+      },
+      degradation: {
+        annualRate: 0.55,
+        warrantyYears: 25,
+        warrantyFirstYear: 98,
+        warrantyAnnual: 0.55,
+      },
     },
   },
   {
@@ -27,6 +42,21 @@ export const panelPresets: PanelPreset[] = [
       efficiency: 0.198,
       tempCoefficient: -0.30,
       noct: 44,
+      technology: 'mono-si',
+      electrical: {
+        voc: 37.8,
+        isc: 14.28,
+        vmp: 31.6,
+        imp: 13.45,
+        tempCoefficientVoc: -0.24,
+        tempCoefficientIsc: 0.04,
+      },
+      degradation: {
+        annualRate: 0.5,
+        warrantyYears: 25,
+        warrantyFirstYear: 98,
+        warrantyAnnual: 0.54,
+      },
     },
   },
   {
@@ -41,6 +71,21 @@ export const panelPresets: PanelPreset[] = [
       efficiency: 0.218,
       tempCoefficient: -0.33,
       noct: 44,
+      technology: 'mono-si',
+      electrical: {
+        voc: 41.9,
+        isc: 11.52,
+        vmp: 35.2,
+        imp: 10.8,
+        tempCoefficientVoc: -0.24,
+        tempCoefficientIsc: 0.03,
+      },
+      degradation: {
+        annualRate: 0.33,
+        warrantyYears: 25,
+        warrantyFirstYear: 98,
+        warrantyAnnual: 0.33,
+      },
     },
   },
   {
@@ -55,6 +100,21 @@ export const panelPresets: PanelPreset[] = [
       efficiency: 0.226,
       tempCoefficient: -0.29,
       noct: 41.5,
+      technology: 'mono-si',
+      electrical: {
+        voc: 75.6,
+        isc: 6.58,
+        vmp: 65.8,
+        imp: 6.08,
+        tempCoefficientVoc: -0.236,
+        tempCoefficientIsc: 0.057,
+      },
+      degradation: {
+        annualRate: 0.25,
+        warrantyYears: 40,
+        warrantyFirstYear: 98,
+        warrantyAnnual: 0.25,
+      },
     },
   },
   {
@@ -69,6 +129,21 @@ export const panelPresets: PanelPreset[] = [
       efficiency: 0.219,
       tempCoefficient: -0.26,
       noct: 44,
+      technology: 'hit',
+      electrical: {
+        voc: 48.3,
+        isc: 10.79,
+        vmp: 40.9,
+        imp: 9.91,
+        tempCoefficientVoc: -0.24,
+        tempCoefficientIsc: 0.04,
+      },
+      degradation: {
+        annualRate: 0.25,
+        warrantyYears: 25,
+        warrantyFirstYear: 98,
+        warrantyAnnual: 0.25,
+      },
     },
   },
   {
@@ -83,6 +158,21 @@ export const panelPresets: PanelPreset[] = [
       efficiency: 0.205,
       tempCoefficient: -0.34,
       noct: 45,
+      technology: 'mono-si',
+      electrical: {
+        voc: 37.4,
+        isc: 13.95,
+        vmp: 31.2,
+        imp: 13.15,
+        tempCoefficientVoc: -0.26,
+        tempCoefficientIsc: 0.05,
+      },
+      degradation: {
+        annualRate: 0.55,
+        warrantyYears: 25,
+        warrantyFirstYear: 97.5,
+        warrantyAnnual: 0.55,
+      },
     },
   },
   {
@@ -97,6 +187,172 @@ export const panelPresets: PanelPreset[] = [
       efficiency: 0.213,
       tempCoefficient: -0.30,
       noct: 45,
+      technology: 'mono-si',
+      electrical: {
+        voc: 39.28,
+        isc: 13.58,
+        vmp: 32.84,
+        imp: 12.94,
+        tempCoefficientVoc: -0.25,
+        tempCoefficientIsc: 0.045,
+      },
+      degradation: {
+        annualRate: 0.4,
+        warrantyYears: 30,
+        warrantyFirstYear: 99,
+        warrantyAnnual: 0.4,
+      },
+    },
+  },
+  {
+    id: 'canadian-solar-ku-poly',
+    name: 'Canadian Solar KuPower Poly',
+    manufacturer: 'Canadian Solar',
+    model: 'CS3U-350P',
+    config: {
+      width: 0.992,
+      height: 2.0,
+      ratedPower: 350,
+      efficiency: 0.1764,
+      tempCoefficient: -0.37,
+      noct: 42,
+      technology: 'poly-si',
+      electrical: {
+        voc: 46.6,
+        isc: 9.96,
+        vmp: 39.2,
+        imp: 8.93,
+        tempCoefficientVoc: -0.29,
+        tempCoefficientIsc: 0.05,
+      },
+      degradation: {
+        annualRate: 0.7,
+        warrantyYears: 25,
+        warrantyFirstYear: 97,
+        warrantyAnnual: 0.7,
+      },
+    },
+  },
+  {
+    id: 'first-solar-series-7',
+    name: 'First Solar Series 7',
+    manufacturer: 'First Solar',
+    model: 'FS-7550A-TR1',
+    config: {
+      width: 1.232,
+      height: 2.294,
+      ratedPower: 550,
+      efficiency: 0.195,
+      tempCoefficient: -0.32,
+      noct: 45,
+      technology: 'cdte',
+      electrical: {
+        voc: 229.5,
+        isc: 3.08,
+        vmp: 189.3,
+        imp: 2.906,
+        tempCoefficientVoc: -0.28,
+        tempCoefficientIsc: 0.04,
+      },
+      degradation: {
+        annualRate: 0.3,
+        warrantyYears: 30,
+        warrantyFirstYear: 98,
+        warrantyAnnual: 0.3,
+      },
+    },
+  },
+  {
+    id: 'jinko-tiger-neo-bifacial',
+    name: 'Jinko Tiger Neo Bifacial',
+    manufacturer: 'Jinko Solar',
+    model: 'JKM580N-72HL4-BDV',
+    config: {
+      width: 1.134,
+      height: 2.278,
+      ratedPower: 580,
+      efficiency: 0.2245,
+      tempCoefficient: -0.30,
+      noct: 45,
+      technology: 'mono-si',
+      bifacial: true,
+      bifacialityFactor: 0.8,
+      electrical: {
+        voc: 51.7,
+        isc: 14.27,
+        vmp: 42.61,
+        imp: 13.61,
+        tempCoefficientVoc: -0.25,
+        tempCoefficientIsc: 0.046,
+      },
+      degradation: {
+        annualRate: 0.4,
+        warrantyYears: 30,
+        warrantyFirstYear: 99,
+        warrantyAnnual: 0.4,
+      },
+    },
+  },
+  {
+    id: 'trina-vertex-n-bifacial',
+    name: 'Trina Vertex N Bifacial',
+    manufacturer: 'Trina Solar',
+    model: 'TSM-NEG21C.20',
+    config: {
+      width: 1.303,
+      height: 2.384,
+      ratedPower: 695,
+      efficiency: 0.224,
+      tempCoefficient: -0.29,
+      noct: 43,
+      technology: 'mono-si',
+      bifacial: true,
+      bifacialityFactor: 0.8,
+      electrical: {
+        voc: 48.3,
+        isc: 18.3,
+        vmp: 40.3,
+        imp: 17.25,
+        tempCoefficientVoc: -0.25,
+        tempCoefficientIsc: 0.04,
+      },
+      degradation: {
+        annualRate: 0.4,
+        warrantyYears: 30,
+        warrantyFirstYear: 99,
+        warrantyAnnual: 0.4,
+      },
+    },
+  },
+  {
+    id: 'canadian-solar-bihiku7',
+    name: 'Canadian Solar BiHiKu7',
+    manufacturer: 'Canadian Solar',
+    model: 'CS7N-665MB-AG',
+    config: {
+      width: 1.303,
+      height: 2.384,
+      ratedPower: 665,
+      efficiency: 0.214,
+      tempCoefficient: -0.34,
+      noct: 41,
+      technology: 'mono-si',
+      bifacial: true,
+      bifacialityFactor: 0.7,
+      electrical: {
+        voc: 45.7,
+        isc: 18.62,
+        vmp: 38.5,
+        imp: 17.28,
+        tempCoefficientVoc: -0.26,
+        tempCoefficientIsc: 0.05,
+      },
+      degradation: {
+        annualRate: 0.45,
+        warrantyYears: 30,
+        warrantyFirstYear: 98.5,
+        warrantyAnnual: 0.45,
+      },
     },
   },
 ];
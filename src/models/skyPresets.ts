@@ -0,0 +1,36 @@
+import { SkyPreset } from '../core/types';
+
+export const skyPresets: SkyPreset[] = [
+  {
+    id: 'clear',
+    name: 'Clear',
+    description: 'Cloudless sky',
+    clearnessIndex: 0.75,
+  },
+  {
+    id: 'partly-cloudy',
+    name: 'Partly Cloudy',
+    description: 'Scattered clouds, sun mostly visible',
+    clearnessIndex: 0.55,
+  },
+  {
+    id: 'mostly-cloudy',
+    name: 'Mostly Cloudy',
+    description: 'Broken clouds, sun often obscured',
+    clearnessIndex: 0.35,
+  },
+  {
+    id: 'overcast',
+    name: 'Overcast',
+    description: 'Full cloud cover, diffuse light only',
+    clearnessIndex: 0.15,
+  },
+];
+
+export function getSkyPreset(id: string): SkyPreset | undefined {
+  return skyPresets.find((p) => p.id === id);
+}
+
+export function getSkyPresetForClearness(clearnessIndex: number): SkyPreset | undefined {
+  return skyPresets.find((p) => Math.abs(p.clearnessIndex - clearnessIndex) < 0.005);
+}
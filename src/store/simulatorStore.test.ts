@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 const mockSolarPosition = {
   elevation: 10,
@@ -49,6 +49,7 @@ const mockDailyOutput = {
   dailyEnergy: 24000,
   hourlyData: Array.from({ length: 24 }, (_, hour) => ({
     hour,
+    localHour: hour,
     localTime: new Date('2024-01-15T00:00:00Z'),
     solarPosition: mockSolarPosition,
     irradiance: mockIrradiance,
@@ -58,6 +59,7 @@ const mockDailyOutput = {
     acPower: 1000,
     losses: mockLosses,
   })),
+  timestepMinutes: 60 as const,
   capacityFactor: 0.5,
   performanceRatio: 0.8,
 };
@@ -76,9 +78,39 @@ vi.mock('../core/panelOutput', () => ({
   calculatePOAIrradiance: vi.fn(() => mockPoa),
   calculatePanelPower: vi.fn(() => ({ acPower: 900, dcPower: 1000, cellTemp: 30, losses: mockLosses })),
   calculateDailyPowerOutput: vi.fn(() => ({ ...mockDailyOutput })),
+  calculateSubArrayPower: vi.fn((subArray: { orientation: unknown }) => ({
+    surfaceOrientation: subArray.orientation,
+    poaIrradiance: mockPoa,
+    cellTemp: 30,
+    dcPower: 500,
+    acPower: 0,
+    losses: mockLosses,
+  })),
+  combineArrayPower: vi.fn((main: { dcPower: number; acPower: number }, _p, _c, _i, subArrays: { id: string }[]) => ({
+    dcPower: main.dcPower + subArrays.length * 500,
+    acPower: main.acPower + subArrays.length * 450,
+    arrays: [main, ...subArrays.map(() => ({ dcPower: 500, acPower: 450 }))].map((power, i) => ({
+      id: i === 0 ? 'main' : subArrays[i - 1].id,
+      ...power,
+    })),
+    inverterClipping: null,
+  })),
+  getDailySampleHours: vi.fn(() => Array.from({ length: 25 }, (_, hour) => hour)),
   isOrientationOptimal: vi.fn(() => true),
 }));
 
+vi.mock('../core/annualSimulation', () => ({
+  calculateAnnualOutput: vi.fn(() => ({
+    year: 2024,
+    monthly: [],
+    annualEnergy: 6000000,
+    poaInsolation: 7200000,
+    specificYield: 1500,
+    capacityFactor: 0.17,
+    performanceRatio: 0.8,
+  })),
+}));
+
 vi.mock('../core/losses', () => ({
   DEFAULT_SYSTEM_LOSSES: {
     soiling: 0.02,
@@ -97,6 +129,7 @@ vi.mock('../core/timezone', () => ({
   getTimezoneFromCoordinates: vi.fn(() => 'America/Los_Angeles'),
   createLocalDateTime: vi.fn(() => new Date('2024-01-15T20:00:00Z')),
   formatLocalHour: vi.fn(() => '12:00 PM'),
+  getTimezoneOffset: vi.fn(() => -480),
 }));
 
 vi.mock('../models/panelPresets', () => ({
@@ -148,6 +181,11 @@ vi.mock('../models/location', () => ({
 describe('simulatorStore', () => {
   beforeEach(() => {
     vi.resetModules();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
   });
 
   it('should recalculate and populate outputs', async () => {
@@ -161,10 +199,59 @@ describe('simulatorStore', () => {
     expect(updated.irradiance).toBeTruthy();
     expect(updated.poaIrradiance).toBeTruthy();
     expect(updated.dailyOutput?.dailyEnergy).toBe(24000);
+    expect(updated.annualOutput?.annualEnergy).toBe(6000000);
     expect(updated.instantPower).toBe(900);
     expect(updated.currentTimeLocal).toBe('12:00 PM');
   });
 
+  it('should defer the annual run until input settles', async () => {
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { calculateDailyPowerOutput } = await import('../core/panelOutput');
+    const { useSimulatorStore, ANNUAL_DEBOUNCE_MS } = await import('./simulatorStore');
+
+    vi.mocked(calculateAnnualOutput).mockClear();
+    useSimulatorStore.getState().recalculate();
+    expect(vi.mocked(calculateAnnualOutput)).toHaveBeenCalledTimes(1);
+    const previous = useSimulatorStore.getState().annualOutput;
+
+    vi.mocked(calculateAnnualOutput).mockClear();
+    vi.mocked(calculateDailyPowerOutput).mockClear();
+    for (const tilt of [20, 25, 35]) {
+      useSimulatorStore.getState().setOrientation({ tilt });
+      vi.advanceTimersByTime(ANNUAL_DEBOUNCE_MS / 2);
+    }
+    // The day follows every change; the year keeps its last result
+    expect(vi.mocked(calculateDailyPowerOutput)).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(calculateAnnualOutput)).not.toHaveBeenCalled();
+    expect(useSimulatorStore.getState().annualOutput).toBe(previous);
+    expect(useSimulatorStore.getState().annualPending).toBe(true);
+
+    // Animation frames don't push the pending run back
+    useSimulatorStore.getState().setAnimationHour(13);
+    vi.advanceTimersByTime(ANNUAL_DEBOUNCE_MS / 2);
+    expect(vi.mocked(calculateAnnualOutput)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].orientation.tilt).toBe(35);
+    expect(useSimulatorStore.getState().annualPending).toBe(false);
+  });
+
+  it('should reuse the lifetime and finance results across animation frames', async () => {
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().recalculate(true);
+    const { lifetimeOutput, financeOutput } = useSimulatorStore.getState();
+    expect(lifetimeOutput).not.toBeNull();
+
+    useSimulatorStore.getState().setAnimationHour(9);
+    useSimulatorStore.getState().setAnimationHour(15);
+    expect(useSimulatorStore.getState().lifetimeOutput).toBe(lifetimeOutput);
+    expect(useSimulatorStore.getState().financeOutput).toBe(financeOutput);
+
+    useSimulatorStore.getState().setFinanceConfig({ installedCost: 3 });
+    vi.runAllTimers();
+    expect(useSimulatorStore.getState().lifetimeOutput).toBe(lifetimeOutput);
+    expect(useSimulatorStore.getState().financeOutput).not.toBe(financeOutput);
+  });
+
   it('should clamp panel count and compute selectors', async () => {
     const { useSimulatorStore, selectSystemSize, selectDaylightHours, selectHourlyPower } = await import('./simulatorStore');
     useSimulatorStore.setState({
@@ -209,6 +296,477 @@ describe('simulatorStore', () => {
     expect(useSimulatorStore.getState().animationHour).toBeCloseTo(23, 2);
   });
 
+  it('should pass the selected timestep to the daily pipeline', async () => {
+    const { calculateDailyPowerOutput } = await import('../core/panelOutput');
+    const { useSimulatorStore } = await import('./simulatorStore');
+    useSimulatorStore.getState().setTimestepMinutes(5);
+
+    expect(useSimulatorStore.getState().timestepMinutes).toBe(5);
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[10]).toBe(5);
+  });
+
+  it('should switch irradiance source with the loaded weather file', async () => {
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { useSimulatorStore } = await import('./simulatorStore');
+    const weather = {
+      id: 'epw:test',
+      name: 'Test Station',
+      format: 'epw' as const,
+      latitude: 37.62,
+      longitude: -122.4,
+      elevation: 2,
+      timezoneOffset: -8,
+      records: [],
+    };
+
+    useSimulatorStore.getState().setWeatherData(weather);
+    expect(useSimulatorStore.getState().irradianceSource).toBe('weather');
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].weather).toBe(weather);
+    expect(useSimulatorStore.getState().lastAnnualKey).toContain('epw:test');
+
+    useSimulatorStore.getState().setIrradianceSource('clear-sky');
+    vi.runAllTimers();
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].weather).toBeNull();
+
+    useSimulatorStore.getState().setWeatherData(null);
+    useSimulatorStore.getState().setIrradianceSource('weather');
+    expect(useSimulatorStore.getState().irradianceSource).toBe('clear-sky');
+  });
+
+  it('should pass the all-sky config only when all-sky is selected', async () => {
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().setAllSkyConfig({ clearnessIndex: 1.4, model: 'disc' });
+    expect(useSimulatorStore.getState().allSkyConfig).toEqual({ clearnessIndex: 1, model: 'disc' });
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].allSky).toBeNull();
+
+    useSimulatorStore.getState().setIrradianceSource('all-sky');
+    vi.runAllTimers();
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].allSky).toEqual({ clearnessIndex: 1, model: 'disc' });
+  });
+
+  it('should key an all-sky series by id', async () => {
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { useSimulatorStore } = await import('./simulatorStore');
+    const series = {
+      id: 'sky:kt.csv:clearness:8760:0.500000',
+      name: 'kt.csv',
+      kind: 'clearness' as const,
+      resolution: 'hourly' as const,
+      values: new Array(8760).fill(0.5),
+    };
+
+    useSimulatorStore.getState().setIrradianceSource('all-sky');
+    useSimulatorStore.getState().setAllSkyConfig({ series });
+    vi.runAllTimers();
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].allSky?.series).toBe(series);
+    expect(useSimulatorStore.getState().lastAnnualKey).toContain(series.id);
+    expect(useSimulatorStore.getState().lastAnnualKey).not.toContain('0.5,0.5');
+  });
+
+  it('should rotate the surface when single-axis tracking is selected', async () => {
+    const { calculateDailyPowerOutput } = await import('../core/panelOutput');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().setMountingType('tracking');
+    const state = useSimulatorStore.getState();
+    expect(state.trackerRotation).not.toBeNull();
+    expect(state.surfaceOrientation).not.toEqual(state.orientation);
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[12]).toEqual(state.trackerConfig);
+
+    useSimulatorStore.getState().setTrackerConfig({ gcr: 5, maxRotation: -10 });
+    expect(useSimulatorStore.getState().trackerConfig.gcr).toBe(1);
+    expect(useSimulatorStore.getState().trackerConfig.maxRotation).toBe(0);
+  });
+
+  it('should compare dual-axis tracking against the fixed orientation', async () => {
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { calculateDailyPowerOutput } = await import('../core/panelOutput');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().recalculate();
+    expect(useSimulatorStore.getState().fixedAnnualOutput).toBeNull();
+
+    vi.mocked(calculateAnnualOutput).mockClear();
+    useSimulatorStore.getState().setMountingType('dual-axis');
+    vi.runAllTimers();
+    const state = useSimulatorStore.getState();
+    expect(state.surfaceOrientation).toEqual({ tilt: 80, azimuth: 180 });
+    expect(state.fixedAnnualOutput).not.toBeNull();
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[13]).toEqual(state.dualAxisConfig);
+    // The fixed baseline reuses the previous fixed-mount result
+    expect(vi.mocked(calculateAnnualOutput)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].dualAxis).toEqual(state.dualAxisConfig);
+
+    useSimulatorStore.getState().setDualAxisConfig({ minElevation: 50, maxElevation: 30 });
+    expect(useSimulatorStore.getState().dualAxisConfig.maxElevation).toBe(50);
+
+    useSimulatorStore.getState().setDualAxisConfig({ drivePower: -10, availability: 1.2 });
+    expect(useSimulatorStore.getState().dualAxisConfig.drivePower).toBe(0);
+    expect(useSimulatorStore.getState().dualAxisConfig.availability).toBe(1);
+  });
+
+  it('should pass the bifacial geometry only for bifacial panels', async () => {
+    const { calculateDailyPowerOutput } = await import('../core/panelOutput');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().recalculate();
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[14]).toBeNull();
+
+    useSimulatorStore.getState().setPanelConfig({ bifacial: true, bifacialityFactor: 0.8 });
+    const { bifacialConfig, rowSpacing } = useSimulatorStore.getState();
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[14]).toEqual({ ...bifacialConfig, rowSpacing });
+
+    useSimulatorStore.getState().setBifacialConfig({ groundClearance: -1, rearShading: 0.9 });
+    expect(useSimulatorStore.getState().bifacialConfig.groundClearance).toBe(0);
+    expect(useSimulatorStore.getState().bifacialConfig.rearShading).toBe(0.5);
+  });
+
+  it('should apply row shading to fixed mounts only', async () => {
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().setRowShadingEnabled(true);
+    useSimulatorStore.getState().setRowSpacing(4);
+    vi.runAllTimers();
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].rowShading).toEqual({
+      ...useSimulatorStore.getState().rowShadingConfig,
+      rowSpacing: 4,
+    });
+
+    useSimulatorStore.getState().setMountingType('tracking');
+    vi.runAllTimers();
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].rowShading).toBeNull();
+
+    useSimulatorStore.getState().setRowShadingConfig({ modulesHigh: 9, bypassDiodes: 0 });
+    expect(useSimulatorStore.getState().rowShadingConfig.modulesHigh).toBe(4);
+    expect(useSimulatorStore.getState().rowShadingConfig.bypassDiodes).toBe(1);
+  });
+
+  it('should block the sun behind a horizon profile', async () => {
+    const { calculateDailyPowerOutput, calculatePOAIrradiance } = await import('../core/panelOutput');
+    const { createHorizonProfile } = await import('../core/horizon');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    // The mocked sun sits 10° above the southern horizon
+    const horizon = createHorizonProfile('Ridge', [{ azimuth: 90, elevation: 0 }, { azimuth: 180, elevation: 20 }]);
+    useSimulatorStore.getState().setHorizonProfile(horizon);
+
+    expect(useSimulatorStore.getState().sunBehindHorizon).toBe(true);
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[16]).toBe(horizon);
+    expect(vi.mocked(calculatePOAIrradiance).mock.lastCall?.[8]?.shadedFraction).toBe(1);
+
+    useSimulatorStore.getState().setHorizonProfile(null);
+    expect(useSimulatorStore.getState().sunBehindHorizon).toBe(false);
+  });
+
+  it('should add obstacles in front of the array and shade panels', async () => {
+    const { calculateDailyPowerOutput } = await import('../core/panelOutput');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().setOrientation({ azimuth: 180 });
+    useSimulatorStore.getState().addObstacle('building');
+    const [building] = useSimulatorStore.getState().obstacles;
+    expect(building.north).toBeLessThan(0);
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[17]).toEqual([building]);
+
+    // The mocked sun sits 10° up due south, just over a 9 m building 15 m away
+    useSimulatorStore.getState().updateObstacle(building.id, { height: 30, width: -1 });
+    const state = useSimulatorStore.getState();
+    expect(state.obstacles[0].width).toBe(0.1);
+    expect(state.panelShading).toHaveLength(state.panelCount);
+
+    useSimulatorStore.getState().updateObstacle(building.id, { width: 20 });
+    expect(Math.min(...useSimulatorStore.getState().panelShading)).toBe(1);
+
+    useSimulatorStore.getState().removeObstacle(building.id);
+    expect(useSimulatorStore.getState().obstacles).toEqual([]);
+    expect(useSimulatorStore.getState().panelShading).toEqual([]);
+  });
+
+  it('should apply spectral correction for the module technology', async () => {
+    const { calculateDailyPowerOutput, calculatePanelPower } = await import('../core/panelOutput');
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { calculateSandiaSpectralFactor } = await import('../core/spectral');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    // The mocked irradiance has an air mass of 2
+    expect(vi.mocked(calculatePanelPower).mock.lastCall?.[7]).toBe(calculateSandiaSpectralFactor(2, 'mono-si'));
+
+    useSimulatorStore.getState().setSpectralConfig({ model: 'first-solar', precipitableWater: 12 });
+    const { spectralConfig } = useSimulatorStore.getState();
+    expect(spectralConfig.precipitableWater).toBe(8);
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[18]).toEqual(spectralConfig);
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].spectral).toEqual(spectralConfig);
+
+    useSimulatorStore.getState().setSpectralConfig({ model: 'none', precipitableWater: null });
+    expect(useSimulatorStore.getState().spectralConfig.precipitableWater).toBeNull();
+    expect(vi.mocked(calculatePanelPower).mock.lastCall?.[7]).toBe(1);
+  });
+
+  it('should use the wind speed input and thermal model', async () => {
+    const { calculateDailyPowerOutput, calculatePanelPower } = await import('../core/panelOutput');
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { useSimulatorStore } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().setWindSpeed(40);
+    expect(useSimulatorStore.getState().windSpeed).toBe(30);
+    expect(useSimulatorStore.getState().currentWindSpeed).toBe(30);
+    expect(vi.mocked(calculatePanelPower).mock.lastCall?.[6]).toBe(30);
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].windSpeed).toBe(30);
+
+    useSimulatorStore.getState().setThermalConfig({ model: 'sapm', mounting: 'close-roof' });
+    vi.runAllTimers();
+    const { thermalConfig } = useSimulatorStore.getState();
+    expect(thermalConfig).toEqual({ model: 'sapm', mounting: 'close-roof' });
+    expect(vi.mocked(calculatePanelPower).mock.lastCall?.[8]).toEqual(thermalConfig);
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[19]).toEqual(thermalConfig);
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].thermal).toEqual(thermalConfig);
+  });
+
+  it('should size strings and limit the inverter MPPT window', async () => {
+    const { calculatePanelPower } = await import('../core/panelOutput');
+    const { useSimulatorStore } = await import('./simulatorStore');
+    expect(useSimulatorStore.getState().stringSizing).toBeNull();
+
+    useSimulatorStore.getState().setStringConfig({});
+    const { inverterConfig, stringSizing } = useSimulatorStore.getState();
+    expect(inverterConfig.strings).toEqual({ modulesPerString: 10, stringsPerMppt: 1, mpptCount: 1 });
+    expect(inverterConfig.limits).toBeDefined();
+    expect(stringSizing?.warnings.map((w) => w.code)).toEqual(['no-datasheet']); // mocked preset
+    expect(vi.mocked(calculatePanelPower).mock.lastCall?.[5]).toEqual(inverterConfig);
+
+    useSimulatorStore.getState().setStringConfig({ modulesPerString: 0.4 });
+    expect(useSimulatorStore.getState().inverterConfig.strings?.modulesPerString).toBe(1);
+    expect(useSimulatorStore.getState().stringSizing?.warnings.map((w) => w.code)).toContain('panel-count');
+
+    useSimulatorStore.getState().setStringConfig(null);
+    expect(useSimulatorStore.getState().inverterConfig.strings).toBeUndefined();
+    expect(useSimulatorStore.getState().stringSizing).toBeNull();
+  });
+
+  it('should switch inverter presets and keep the string layout', async () => {
+    const { calculatePanelPower } = await import('../core/panelOutput');
+    const { useSimulatorStore } = await import('./simulatorStore');
+    expect(useSimulatorStore.getState().inverterPresetId).toBe('generic-flat');
+
+    useSimulatorStore.getState().setStringConfig({ modulesPerString: 5, stringsPerMppt: 1, mpptCount: 2 });
+    useSimulatorStore.getState().setInverterPreset('fronius-primo-5.0');
+    const { inverterConfig, inverterPresetId } = useSimulatorStore.getState();
+    expect(inverterPresetId).toBe('fronius-primo-5.0');
+    expect(inverterConfig.sandia?.paco).toBe(5000);
+    expect(inverterConfig.limits?.mpptVoltageMin).toBe(240);
+    expect(inverterConfig.strings).toEqual({ modulesPerString: 5, stringsPerMppt: 1, mpptCount: 2 });
+    expect(vi.mocked(calculatePanelPower).mock.lastCall?.[5]).toEqual(inverterConfig);
+
+    useSimulatorStore.getState().setStringConfig(null);
+    expect(useSimulatorStore.getState().inverterConfig.limits?.mpptVoltageMin).toBe(240);
+
+    useSimulatorStore.getState().setInverterPreset('missing-id');
+    expect(useSimulatorStore.getState().inverterPresetId).toBe('fronius-primo-5.0');
+    useSimulatorStore.getState().setInverterConfig({ efficiency: 0.9 });
+    expect(useSimulatorStore.getState().inverterPresetId).toBe('custom');
+  });
+
+  it('should add, update and remove sub-arrays', async () => {
+    const { calculateDailyPowerOutput } = await import('../core/panelOutput');
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { useSimulatorStore, selectSystemSize } = await import('./simulatorStore');
+
+    useSimulatorStore.getState().addSubArray();
+    const [garage] = useSimulatorStore.getState().subArrays;
+    expect(garage.panelCount).toBe(10);
+    expect(garage.sharedInverter).toBe(true);
+    expect(garage.offset.east).toBeLessThan(0);
+    expect(selectSystemSize(useSimulatorStore.getState())).toBeCloseTo(8, 9);
+
+    useSimulatorStore.getState().updateSubArray(garage.id, {
+      name: 'Garage',
+      orientation: { tilt: 120, azimuth: -90 },
+      panelCount: 4.4,
+    });
+    useSimulatorStore.getState().setSubArrayPreset(garage.id, 'preset-1');
+    vi.runAllTimers();
+    const [updated] = useSimulatorStore.getState().subArrays;
+    expect(updated.orientation).toEqual({ tilt: 90, azimuth: 270 });
+    expect(updated.panelCount).toBe(4);
+    expect(updated.panelConfig.ratedPower).toBe(500);
+
+    const [resolved] = vi.mocked(calculateDailyPowerOutput).mock.lastCall![20]!;
+    expect(resolved).toMatchObject({ id: garage.id, name: 'Garage', panelCount: 4, inverterConfig: null });
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].subArrays).toEqual([resolved]);
+    const state = useSimulatorStore.getState();
+    expect(state.instantPower).toBe(900 + 450);
+    expect(state.subArrayResults[0]).toMatchObject({ id: garage.id, dcPower: 500, acPower: 450 });
+
+    // Own inverter from the preset
+    useSimulatorStore.getState().updateSubArray(garage.id, { sharedInverter: false, inverterPresetId: 'enphase-iq8plus' });
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall![20]![0].inverterConfig?.modulesPerInverter).toBe(1);
+
+    useSimulatorStore.getState().removeSubArray(garage.id);
+    expect(useSimulatorStore.getState().subArrays).toEqual([]);
+    expect(useSimulatorStore.getState().subArrayResults).toEqual([]);
+    expect(vi.mocked(calculateDailyPowerOutput).mock.lastCall?.[20]).toBeNull();
+  });
+
+  it('should project lifetime production from the simulated year', async () => {
+    const { useSimulatorStore } = await import('./simulatorStore');
+    useSimulatorStore.getState().recalculate();
+    const { lifetimeOutput } = useSimulatorStore.getState();
+    expect(lifetimeOutput?.years).toHaveLength(25);
+    expect(lifetimeOutput?.years[0].energy).toBeCloseTo(6000000, 3);
+    expect(lifetimeOutput?.finalDegradation).toBeLessThan(1);
+
+    useSimulatorStore.getState().setLifetimeConfig({
+      years: 80,
+      degradationRate: 0,
+      inverterReplacementYears: [15, 15, 99],
+    });
+    const state = useSimulatorStore.getState();
+    expect(state.lifetimeConfig.years).toBe(50);
+    expect(state.lifetimeConfig.inverterReplacementYears).toEqual([15, 50]);
+    expect(state.lifetimeOutput?.years).toHaveLength(50);
+    expect(state.lifetimeOutput?.years[14].inverterReplaced).toBe(true);
+    expect(state.lifetimeOutput?.finalDegradation).toBe(1);
+  });
+
+  it('should pass the snow model to the annual simulation only when enabled', async () => {
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { useSimulatorStore } = await import('./simulatorStore');
+    useSimulatorStore.getState().recalculate();
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].snow).toBeNull();
+
+    useSimulatorStore.getState().setSnowEnabled(true);
+    useSimulatorStore.getState().setSnowConfig({ monthlySnowfall: [-5, ...Array(11).fill(10)] });
+    vi.runAllTimers();
+    const snow = vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].snow;
+    expect(snow?.source).toBe('monthly');
+    expect(snow?.monthlySnowfall[0]).toBe(0);
+    expect(snow?.monthlySnowfall[1]).toBe(10);
+  });
+
+  it('should pass the soiling model to the annual simulation only when enabled', async () => {
+    const { calculateAnnualOutput } = await import('../core/annualSimulation');
+    const { useSimulatorStore } = await import('./simulatorStore');
+    useSimulatorStore.getState().recalculate();
+    expect(vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].soiling).toBeNull();
+
+    useSimulatorStore.getState().setSoilingEnabled(true);
+    useSimulatorStore.getState().setSoilingConfig({ rate: -1, maxLoss: 2, washDays: [200, 0, 90, 200, 400] });
+    vi.runAllTimers();
+    const soiling = vi.mocked(calculateAnnualOutput).mock.lastCall?.[2].soiling;
+    expect(soiling?.rate).toBe(0);
+    expect(soiling?.maxLoss).toBe(0.9);
+    expect(soiling?.washDays).toEqual([90, 200]);
+  });
+
+  it('should net the imported load profile against the day in place of the synthetic load', async () => {
+    const { useSimulatorStore } = await import('./simulatorStore');
+    useSimulatorStore.getState().recalculate();
+    const synthetic = useSimulatorStore.getState().dailyEnergyBalance;
+    expect(synthetic?.loadEnergy).toBeGreaterThan(0);
+
+    useSimulatorStore.getState().setLoadProfile({
+      id: 'csv:flat',
+      name: 'flat',
+      format: 'csv',
+      hourly: Array(8760).fill(2000),
+      annualConsumption: 17520,
+      coverage: 1,
+    });
+    const imported = useSimulatorStore.getState().dailyEnergyBalance;
+    expect(imported?.loadEnergy).toBeCloseTo(2000 * 23, 6);
+    expect(imported?.loadEnergy).not.toBeCloseTo(synthetic!.loadEnergy, 0);
+  });
+
+  it('should dispatch the battery over the selected day only when enabled', async () => {
+    const { useSimulatorStore } = await import('./simulatorStore');
+    useSimulatorStore.getState().recalculate();
+    expect(useSimulatorStore.getState().dailyBattery).toBeNull();
+
+    useSimulatorStore.getState().setBatteryEnabled(true);
+    useSimulatorStore.getState().setBatteryConfig({ capacity: -5, roundTripEfficiency: 2, peakEnd: 30 });
+    const state = useSimulatorStore.getState();
+    expect(state.batteryConfig.capacity).toBe(0);
+    expect(state.batteryConfig.roundTripEfficiency).toBe(1);
+    expect(state.batteryConfig.peakEnd).toBe(24);
+    // One step between each pair of samples
+    expect(state.dailyBattery?.steps).toHaveLength(23);
+    expect(state.dailyBattery?.loadEnergy).toBeGreaterThan(0);
+  });
+
+  it('should save, switch and remove tariffs', async () => {
+    const { useSimulatorStore, selectActiveTariff } = await import('./simulatorStore');
+    const original = useSimulatorStore.getState().activeTariffId;
+
+    useSimulatorStore.getState().addTariff();
+    const copy = useSimulatorStore.getState().activeTariffId;
+    expect(copy).not.toBe(original);
+    useSimulatorStore.getState().updateTariff(copy, {
+      baseRate: -1,
+      tiers: [{ limit: null, adder: 0.1 }, { limit: 200, adder: 0 }],
+      periods: [{ name: 'Peak', rate: 0.4, months: [13, 6, 6], weekdays: [], startHour: 16, endHour: 30 }],
+    });
+    const tariff = selectActiveTariff(useSimulatorStore.getState());
+    expect(tariff.baseRate).toBe(0);
+    expect(tariff.tiers.map((tier) => tier.limit)).toEqual([200, null]);
+    expect(tariff.periods[0].months).toEqual([6]);
+    expect(tariff.periods[0].endHour).toBe(24);
+
+    useSimulatorStore.getState().setActiveTariff(original);
+    expect(selectActiveTariff(useSimulatorStore.getState()).baseRate).toBeGreaterThan(0);
+
+    useSimulatorStore.getState().removeTariff(original);
+    expect(useSimulatorStore.getState().activeTariffId).toBe(copy);
+    useSimulatorStore.getState().removeTariff(copy);
+    expect(useSimulatorStore.getState().tariffs).toHaveLength(1);
+  });
+
+  it('should project cash flows over the lifetime and clamp finance inputs', async () => {
+    const { useSimulatorStore } = await import('./simulatorStore');
+    useSimulatorStore.getState().setFinanceConfig({ loanShare: 2, loanTerm: 7.6, installedCost: -1 });
+    const state = useSimulatorStore.getState();
+    expect(state.financeConfig.loanShare).toBe(1);
+    expect(state.financeConfig.loanTerm).toBe(8);
+    expect(state.financeConfig.installedCost).toBe(0);
+    expect(state.financeOutput?.years).toHaveLength((state.lifetimeOutput?.years.length ?? 0) + 1);
+  });
+
+  it('should look up the grid factor from the location and clamp overrides', async () => {
+    const { useSimulatorStore } = await import('./simulatorStore');
+    expect(useSimulatorStore.getState().gridEmissionFactor.region).toContain('CAMX');
+
+    useSimulatorStore.getState().setEmissionOverride(5);
+    expect(useSimulatorStore.getState().emissionOverride).toBe(2);
+    useSimulatorStore.getState().setEmissionOverride(-1);
+    expect(useSimulatorStore.getState().emissionOverride).toBe(0);
+    useSimulatorStore.getState().setEmissionOverride(null);
+    expect(useSimulatorStore.getState().emissionOverride).toBeNull();
+  });
+
+  it('should take the record temperatures from the loaded weather file', async () => {
+    const { useSimulatorStore } = await import('./simulatorStore');
+    const record = { month: 1, day: 1, hour: 1, ghi: 0, dni: 0, dhi: 0, temperature: 0, windSpeed: 1 };
+    const weather = {
+      id: 'epw:test',
+      name: 'Test Station',
+      format: 'epw' as const,
+      latitude: 37.62,
+      longitude: -122.4,
+      elevation: 2,
+      timezoneOffset: -8,
+      records: [{ ...record, temperature: -4 }, { ...record, temperature: 31 }],
+    };
+
+    useSimulatorStore.getState().setRecordLowTemp(-80);
+    expect(useSimulatorStore.getState().recordLowTemp).toBe(-60);
+
+    useSimulatorStore.getState().setWeatherData(weather);
+    expect(useSimulatorStore.getState().recordLowTemp).toBe(-4);
+    expect(useSimulatorStore.getState().recordHighTemp).toBe(31);
+  });
+
   it('should reset config to defaults', async () => {
     const { useSimulatorStore } = await import('./simulatorStore');
     useSimulatorStore.setState({
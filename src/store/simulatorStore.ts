@@ -11,24 +11,107 @@ import {
   InverterConfig,
   LossFactors,
   HourlyData,
+  AnnualOutput,
+  TimestepMinutes,
+  WeatherDataset,
+  IrradianceSource,
+  AllSkyConfig,
+  MountingType,
+  TrackerConfig,
+  DualAxisConfig,
+  BifacialConfig,
+  RowShadingConfig,
+  HorizonProfile,
+  Obstacle,
+  ObstacleType,
+  SnowConfig,
+  SoilingConfig,
+  SpectralConfig,
+  ThermalConfig,
+  StringConfig,
+  InverterLimits,
+  SimulationConfig,
+  SubArrayConfig,
+  SubArraySimulation,
+  LifetimeConfig,
+  LifetimeOutput,
+  LoadConfig,
+  LoadProfile,
+  EnergyBalance,
+  BatteryConfig,
+  BatteryOutput,
+  Tariff,
+  TariffSavings,
+  FinanceConfig,
+  FinanceOutput,
+  GridEmissionFactor,
+  MarginalEmissionProfile,
+  EmissionsResult,
 } from '../core/types';
 import { calculateSolarPosition, calculateOptimalTilt, calculateOptimalAzimuth } from '../core/solarPosition';
-import { calculateIrradiance } from '../core/irradiance';
+import { getAmbientConditions, getTemperatureRange } from '../core/weather';
+import { isSunBehindHorizon } from '../core/horizon';
+import { calculateObstacleShading, getArrayGrid, PANEL_GAP } from '../core/obstacles';
 import {
   calculatePOAIrradiance,
   calculatePanelPower,
   calculateDailyPowerOutput,
+  calculateSubArrayPower,
+  combineArrayPower,
+  getDailySampleHours,
   isOrientationOptimal,
 } from '../core/panelOutput';
+import { calculateAnnualOutput } from '../core/annualSimulation';
+import { applyTrackerLosses, getSurfaceOrientation, DEFAULT_TRACKER_CONFIG, DEFAULT_DUAL_AXIS_CONFIG } from '../core/tracking';
+import { DEFAULT_BIFACIAL_CONFIG } from '../core/bifacial';
+import { calculateShadingFactors, DEFAULT_ROW_SHADING_CONFIG } from '../core/shading';
 import { DEFAULT_SYSTEM_LOSSES, DEFAULT_INVERTER_CONFIG } from '../core/losses';
+import { calculateSpectralFactor, DEFAULT_SPECTRAL_CONFIG } from '../core/spectral';
+import { DEFAULT_THERMAL_CONFIG } from '../core/thermal';
+import { DEFAULT_SNOW_CONFIG } from '../core/snow';
+import {
+  DEFAULT_SOILING_CONFIG,
+  DEFAULT_WASH_COSTS,
+  evaluateWashSchedule,
+  optimizeWashSchedule,
+  WashCosts,
+  WashScheduleResult,
+} from '../core/soiling';
+import { calculateLifetimeOutput, DEFAULT_LIFETIME_CONFIG } from '../core/degradation';
+import { calculateEnergyBalance, DEFAULT_LOAD_CONFIG, getAnnualLoad, getLoadPower } from '../core/load';
+import { DEFAULT_BATTERY_CONFIG, dispatchBattery, dispatchBatteryDay } from '../core/battery';
+import { calculateTariffSavings, DEFAULT_TARIFF } from '../core/tariff';
+import { calculateFinancials, DEFAULT_FINANCE_CONFIG } from '../core/finance';
+import { calculateDailyEmissions, calculateEmissions } from '../core/emissions';
+import { getDayOfYear } from '../core/atmosphere';
+import {
+  validateStringSizing,
+  suggestStringConfig,
+  StringSizingResult,
+  DEFAULT_INVERTER_LIMITS,
+  DEFAULT_RECORD_LOW_TEMP,
+  DEFAULT_RECORD_HIGH_TEMP,
+} from '../core/stringSizing';
 import { defaultLocation } from '../models/location';
+import { getGridEmissionFactor } from '../models/gridEmissions';
 import { getDefaultPreset, getPanelPreset } from '../models/panelPresets';
+import { getDefaultInverterPreset, getInverterPreset } from '../models/inverterPresets';
+import { getObstaclePreset } from '../models/obstaclePresets';
 import { getTimezoneFromCoordinates, createLocalDateTime, formatLocalHour } from '../core/timezone';
 
 // ============================================================
 // Store Interface
 // ============================================================
 
+export interface SubArrayResult {
+  id: string;
+  surfaceOrientation: PanelOrientation; // Current plane orientation (rotates with trackers)
+  poaIrradiance: POAIrradiance;
+  dcPower: number; // Watts
+  acPower: number; // Watts, share of the main inverter when wired to it
+  panelShading: number[]; // Obstacle-shaded fraction of each panel (0-1)
+}
+
 interface SimulatorStore {
   // Location
   location: Location;
@@ -43,6 +126,8 @@ interface SimulatorStore {
   setIsAnimating: (isAnimating: boolean) => void;
   animationSpeed: number;
   setAnimationSpeed: (speed: number) => void;
+  timestepMinutes: TimestepMinutes;
+  setTimestepMinutes: (minutes: TimestepMinutes) => void;
 
   // Panel configuration
   panelPresetId: string;
@@ -53,31 +138,145 @@ interface SimulatorStore {
   setOrientation: (orientation: Partial<PanelOrientation>) => void;
   panelCount: number;
   setPanelCount: (count: number) => void;
+  mountingType: MountingType;
+  setMountingType: (type: MountingType) => void;
+  trackerConfig: TrackerConfig;
+  setTrackerConfig: (config: Partial<TrackerConfig>) => void;
+  dualAxisConfig: DualAxisConfig;
+  setDualAxisConfig: (config: Partial<DualAxisConfig>) => void;
+  rowSpacing: number; // meters, shared by the bifacial and row shading models
+  setRowSpacing: (spacing: number) => void;
+  bifacialConfig: Omit<BifacialConfig, 'rowSpacing'>;
+  setBifacialConfig: (config: Partial<Omit<BifacialConfig, 'rowSpacing'>>) => void;
+  rowShadingEnabled: boolean; // Fixed mounts only; replaces systemLosses.shading
+  setRowShadingEnabled: (enabled: boolean) => void;
+  rowShadingConfig: Omit<RowShadingConfig, 'rowSpacing'>;
+  setRowShadingConfig: (config: Partial<Omit<RowShadingConfig, 'rowSpacing'>>) => void;
+
+  // Sub-arrays (the top-level panel settings are the main array)
+  subArrays: SubArrayConfig[];
+  addSubArray: () => void;
+  updateSubArray: (id: string, changes: Partial<Omit<SubArrayConfig, 'id'>>) => void;
+  setSubArrayPreset: (id: string, presetId: string) => void;
+  removeSubArray: (id: string) => void;
 
   // Environment
   ambientTemp: number;
   setAmbientTemp: (temp: number) => void;
+  windSpeed: number; // m/s; weather data supplies its own
+  setWindSpeed: (speed: number) => void;
+  recordLowTemp: number; // °C, cold-weather Voc check; set from weather data on import
+  setRecordLowTemp: (temp: number) => void;
+  recordHighTemp: number; // °C, hot-weather Vmp check; set from weather data on import
+  setRecordHighTemp: (temp: number) => void;
   albedo: number;
   setAlbedo: (albedo: number) => void;
   linkeTurbidity: number;
   setLinkeTurbidity: (turbidity: number) => void;
+  horizonProfile: HorizonProfile | null; // Terrain and skyline; null for an open horizon
+  setHorizonProfile: (profile: HorizonProfile | null) => void;
+  obstacles: Obstacle[]; // Near-shading obstacles; replace systemLosses.shading when any are set
+  addObstacle: (type: ObstacleType) => void;
+  updateObstacle: (id: string, obstacle: Partial<Omit<Obstacle, 'id'>>) => void;
+  removeObstacle: (id: string) => void;
+
+  // Weather data
+  weatherData: WeatherDataset | null;
+  setWeatherData: (weather: WeatherDataset | null) => void;
+  irradianceSource: IrradianceSource;
+  setIrradianceSource: (source: IrradianceSource) => void;
+  allSkyConfig: AllSkyConfig;
+  setAllSkyConfig: (config: Partial<AllSkyConfig>) => void;
 
   // Loss models
   systemLosses: SystemLosses;
   setSystemLosses: (losses: Partial<SystemLosses>) => void;
+  inverterPresetId: string;
+  setInverterPreset: (id: string) => void; // Keeps the string layout
   inverterConfig: InverterConfig;
   setInverterConfig: (config: Partial<InverterConfig>) => void;
+  setStringConfig: (config: Partial<StringConfig> | null) => void; // null removes the string layout
+  setInverterLimits: (limits: Partial<InverterLimits>) => void;
+  spectralConfig: SpectralConfig;
+  setSpectralConfig: (config: Partial<SpectralConfig>) => void;
+  thermalConfig: ThermalConfig;
+  setThermalConfig: (config: Partial<ThermalConfig>) => void;
+  snowEnabled: boolean; // Annual simulation only
+  setSnowEnabled: (enabled: boolean) => void;
+  snowConfig: SnowConfig;
+  setSnowConfig: (config: Partial<SnowConfig>) => void;
+  soilingEnabled: boolean; // Annual simulation only; replaces systemLosses.soiling
+  setSoilingEnabled: (enabled: boolean) => void;
+  soilingConfig: SoilingConfig;
+  setSoilingConfig: (config: Partial<SoilingConfig>) => void;
+  washCosts: WashCosts;
+  setWashCosts: (costs: Partial<WashCosts>) => void;
+  applyOptimalWashSchedule: () => void;
   showAdvancedLosses: boolean;
   setShowAdvancedLosses: (show: boolean) => void;
 
+  // Lifetime projection
+  lifetimeConfig: LifetimeConfig;
+  setLifetimeConfig: (config: Partial<LifetimeConfig>) => void;
+
+  // Household load and battery storage
+  loadConfig: LoadConfig;
+  setLoadConfig: (config: Partial<LoadConfig>) => void;
+  loadProfile: LoadProfile | null; // Imported profile; replaces the synthetic load while loaded
+  setLoadProfile: (profile: LoadProfile | null) => void;
+  batteryEnabled: boolean;
+  setBatteryEnabled: (enabled: boolean) => void;
+  batteryConfig: BatteryConfig;
+  setBatteryConfig: (config: Partial<BatteryConfig>) => void;
+
+  // Electricity tariffs (saved between sessions)
+  tariffs: Tariff[];
+  activeTariffId: string;
+  setActiveTariff: (id: string) => void;
+  addTariff: () => void; // Copies the active tariff and switches to it
+  updateTariff: (id: string, changes: Partial<Omit<Tariff, 'id'>>) => void;
+  removeTariff: (id: string) => void; // The last tariff stays
+
+  // Project finance
+  financeConfig: FinanceConfig;
+  setFinanceConfig: (config: Partial<FinanceConfig>) => void;
+
+  // Grid emissions
+  emissionOverride: number | null; // kg CO2/kWh; replaces the regional factor when set
+  setEmissionOverride: (factor: number | null) => void;
+  emissionProfile: MarginalEmissionProfile | null; // Imported hourly marginal rates
+  setEmissionProfile: (profile: MarginalEmissionProfile | null) => void;
+
   // Computed values
   solarPosition: SolarPosition | null;
   irradiance: Irradiance | null;
   poaIrradiance: POAIrradiance | null;
   instantPower: number;
   dailyOutput: PowerOutput | null;
+  annualOutput: AnnualOutput | null;
+  fixedAnnualOutput: AnnualOutput | null; // Fixed-tilt baseline while a tracker is selected
+  annualPending: boolean; // Year-long results are stale until the deferred run lands
+  lifetimeOutput: LifetimeOutput | null;
+  washSchedule: { current: WashScheduleResult; optimal: WashScheduleResult } | null; // Soiling model only
+  dailyEnergyBalance: EnergyBalance | null; // Selected day, without the battery
+  annualEnergyBalance: EnergyBalance | null; // Every hour of the year, without the battery
+  dailyBattery: BatteryOutput | null; // Selected day, battery only
+  annualBattery: BatteryOutput | null; // Every hour of the year, battery only
+  tariffSavings: TariffSavings | null; // Bills for every hour of the year under the active tariff, battery included
+  financeOutput: FinanceOutput | null; // Cash flows over the lifetime projection
+  gridEmissionFactor: GridEmissionFactor; // Regional average at the current location
+  emissions: EmissionsResult | null; // CO2 avoided, from the factor or profile in use
   currentLosses: LossFactors | null;
   cellTemperature: number;
+  surfaceOrientation: PanelOrientation | null; // Current plane orientation (rotates with trackers)
+  trackerRotation: number | null;
+  trackerStowed: boolean;
+  sunBehindHorizon: boolean;
+  panelShading: number[]; // Obstacle-shaded fraction of each panel (0-1)
+  stringSizing: StringSizingResult | null; // Null without a string layout
+  subArrayResults: SubArrayResult[];
+  currentAmbientTemp: number;
+  currentWindSpeed: number;
 
   // Derived state
   isNight: boolean;
@@ -87,12 +286,21 @@ interface SimulatorStore {
   currentTimeLocal: string;
 
   // Actions
-  recalculate: () => void;
+  recalculate: (immediate?: boolean) => void; // immediate skips the annual debounce
   setOptimalOrientation: () => void;
   resetConfig: () => void;
 
   // Caching
   lastCalculationKey: string;
+  lastAnnualKey: string;
+  lastFixedAnnualKey: string;
+  lastWashKey: string;
+  lastLoadKey: string;
+  lastBatteryKey: string;
+  lastTariffKey: string;
+  lastLifetimeKey: string;
+  lastFinanceKey: string;
+  lastEmissionsKey: string;
 }
 
 // ============================================================
@@ -103,6 +311,116 @@ const defaultPreset = getDefaultPreset();
 const defaultDate = new Date();
 defaultDate.setHours(12, 0, 0, 0);
 
+let nextObstacleId = 1;
+let nextSubArrayId = 1;
+
+// The annual simulation and the battery, tariff and finance runs built on
+// it wait this long after the last input change
+export const ANNUAL_DEBOUNCE_MS = 250;
+let annualTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingAnnualKey = '';
+
+// Saved tariffs (versioned)
+const TARIFF_STORAGE_KEY = 'solar-sim-tariffs-v1';
+
+interface TariffState {
+  version: number;
+  tariffs: Tariff[];
+  activeTariffId: string;
+}
+
+function loadTariffState(): TariffState {
+  try {
+    const stored = localStorage.getItem(TARIFF_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed.version === 1 && Array.isArray(parsed.tariffs) && parsed.tariffs.length > 0) {
+        return parsed;
+      }
+    }
+  } catch (e) {
+    if (import.meta.env.DEV) {
+      console.warn('[Tariffs] Failed to load saved tariffs:', e);
+    }
+  }
+  return { version: 1, tariffs: [DEFAULT_TARIFF], activeTariffId: DEFAULT_TARIFF.id };
+}
+
+function saveTariffState(tariffs: Tariff[], activeTariffId: string) {
+  try {
+    localStorage.setItem(TARIFF_STORAGE_KEY, JSON.stringify({ version: 1, tariffs, activeTariffId }));
+  } catch (e) {
+    if (import.meta.env.DEV) {
+      console.warn('[Tariffs] Failed to save tariffs:', e);
+    }
+  }
+}
+
+const initialTariffState = loadTariffState();
+let nextTariffId = initialTariffState.tariffs.length;
+
+/**
+ * Keep a tariff's rates, hours and tiers in range
+ */
+function clampTariff(tariff: Tariff): Tariff {
+  const clampRate = (rate: number) => Math.max(0, Math.min(10, rate));
+  const clampHour = (hour: number) => Math.max(0, Math.min(24, hour));
+  return {
+    ...tariff,
+    baseRate: clampRate(tariff.baseRate),
+    periods: tariff.periods.map((period) => ({
+      ...period,
+      rate: clampRate(period.rate),
+      months: [...new Set(period.months)].filter((month) => month >= 0 && month < 12).sort((a, b) => a - b),
+      weekdays: [...new Set(period.weekdays)].filter((day) => day >= 0 && day < 7).sort((a, b) => a - b),
+      startHour: clampHour(period.startHour),
+      endHour: clampHour(period.endHour),
+    })),
+    tiers: tariff.tiers
+      .map((tier) => ({ limit: tier.limit === null ? null : Math.max(0, tier.limit), adder: Math.max(-10, Math.min(10, tier.adder)) }))
+      .sort((a, b) => (a.limit ?? Infinity) - (b.limit ?? Infinity)),
+    fixedDailyCharge: Math.max(0, Math.min(100, tariff.fixedDailyCharge)),
+    exportRate: clampRate(tariff.exportRate),
+  };
+}
+
+// Row pitch is held once and merged into the bifacial and row shading configs
+const { rowSpacing: defaultRowSpacing, ...defaultRowLayout } = DEFAULT_ROW_SHADING_CONFIG;
+const { rowSpacing: _bifacialRowSpacing, ...defaultBifacialConfig } = DEFAULT_BIFACIAL_CONFIG;
+
+/**
+ * Resolve a sub-array's inputs for the simulation pipelines
+ *
+ * Trackers and bifacial geometry use the shared settings; obstacles are
+ * moved into the sub-array's frame.
+ */
+function resolveSubArray(
+  subArray: SubArrayConfig,
+  state: Pick<SimulatorStore, 'trackerConfig' | 'dualAxisConfig' | 'bifacialConfig' | 'rowSpacing'>,
+  obstacles: Obstacle[] | null
+): SubArraySimulation {
+  const { panelConfig, mountingType } = subArray;
+  return {
+    id: subArray.id,
+    name: subArray.name,
+    panelConfig,
+    orientation: subArray.orientation,
+    panelCount: subArray.panelCount,
+    systemLosses: subArray.systemLosses,
+    inverterConfig: subArray.sharedInverter
+      ? null
+      : (getInverterPreset(subArray.inverterPresetId) ?? getDefaultInverterPreset()).config,
+    tracker: mountingType === 'tracking' ? state.trackerConfig : null,
+    dualAxis: mountingType === 'dual-axis' ? state.dualAxisConfig : null,
+    bifacial: panelConfig.bifacial ? { ...state.bifacialConfig, rowSpacing: state.rowSpacing } : null,
+    obstacles: obstacles?.map((obstacle) => ({
+      ...obstacle,
+      east: obstacle.east - subArray.offset.east,
+      north: obstacle.north - subArray.offset.north,
+    })) ?? null,
+  };
+}
+
 // ============================================================
 // Store Implementation
 // ============================================================
@@ -134,6 +452,11 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
   setIsAnimating: (isAnimating) => set({ isAnimating }),
   animationSpeed: 1,
   setAnimationSpeed: (speed) => set({ animationSpeed: speed }),
+  timestepMinutes: 60,
+  setTimestepMinutes: (minutes) => {
+    set({ timestepMinutes: minutes });
+    get().recalculate();
+  },
 
   // ============ Panel Configuration ============
   panelPresetId: defaultPreset.id,
@@ -167,6 +490,141 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
     set({ panelCount: Math.max(1, Math.min(1000, count)) });
     get().recalculate();
   },
+  mountingType: 'roof',
+  setMountingType: (type) => {
+    set({ mountingType: type });
+    get().recalculate();
+  },
+  trackerConfig: DEFAULT_TRACKER_CONFIG,
+  setTrackerConfig: (config) => {
+    set((state) => {
+      const trackerConfig = { ...state.trackerConfig, ...config };
+      return {
+        trackerConfig: {
+          ...trackerConfig,
+          maxRotation: Math.max(0, Math.min(90, trackerConfig.maxRotation)),
+          gcr: Math.max(0.01, Math.min(1, trackerConfig.gcr)),
+        },
+      };
+    });
+    get().recalculate();
+  },
+  dualAxisConfig: DEFAULT_DUAL_AXIS_CONFIG,
+  setDualAxisConfig: (config) => {
+    set((state) => {
+      const dualAxisConfig = { ...state.dualAxisConfig, ...config };
+      const minElevation = Math.max(0, Math.min(90, dualAxisConfig.minElevation));
+      return {
+        dualAxisConfig: {
+          ...dualAxisConfig,
+          minElevation,
+          maxElevation: Math.max(minElevation, Math.min(90, dualAxisConfig.maxElevation)),
+          azimuthRange: Math.max(0, Math.min(360, dualAxisConfig.azimuthRange)),
+          stowTilt: Math.max(0, Math.min(90, dualAxisConfig.stowTilt)),
+          drivePower: Math.max(0, dualAxisConfig.drivePower),
+          availability: Math.max(0, Math.min(1, dualAxisConfig.availability)),
+        },
+      };
+    });
+    get().recalculate();
+  },
+  rowSpacing: defaultRowSpacing,
+  setRowSpacing: (spacing) => {
+    set({ rowSpacing: Math.max(0.5, Math.min(50, spacing)) });
+    get().recalculate();
+  },
+  bifacialConfig: defaultBifacialConfig,
+  setBifacialConfig: (config) => {
+    set((state) => {
+      const bifacialConfig = { ...state.bifacialConfig, ...config };
+      return {
+        bifacialConfig: {
+          groundClearance: Math.max(0, Math.min(5, bifacialConfig.groundClearance)),
+          rearMismatch: Math.max(0, Math.min(0.5, bifacialConfig.rearMismatch)),
+          rearShading: Math.max(0, Math.min(0.5, bifacialConfig.rearShading)),
+        },
+      };
+    });
+    get().recalculate();
+  },
+  rowShadingEnabled: false,
+  setRowShadingEnabled: (enabled) => {
+    set({ rowShadingEnabled: enabled });
+    get().recalculate();
+  },
+  rowShadingConfig: defaultRowLayout,
+  setRowShadingConfig: (config) => {
+    set((state) => {
+      const rowShadingConfig = { ...state.rowShadingConfig, ...config };
+      return {
+        rowShadingConfig: {
+          ...rowShadingConfig,
+          modulesHigh: Math.max(1, Math.min(4, Math.round(rowShadingConfig.modulesHigh))),
+          bypassDiodes: Math.max(1, Math.min(6, Math.round(rowShadingConfig.bypassDiodes))),
+        },
+      };
+    });
+    get().recalculate();
+  },
+
+  // ============ Sub-Arrays ============
+  subArrays: [],
+  addSubArray: () => {
+    // Start from the main array, placed beside the previous one
+    const state = get();
+    const arrayWidth = (config: PanelConfig, count: number) =>
+      getArrayGrid(count).cols * (config.width + PANEL_GAP);
+    const last = state.subArrays[state.subArrays.length - 1];
+    const east = last
+      ? last.offset.east - arrayWidth(last.panelConfig, last.panelCount) - 1
+      : -arrayWidth(state.panelConfig, state.panelCount) - 1;
+    const id = nextSubArrayId++;
+    const subArray: SubArrayConfig = {
+      id: `array-${id}`,
+      name: `Array ${id + 1}`,
+      panelPresetId: state.panelPresetId,
+      panelConfig: state.panelConfig,
+      panelCount: state.panelCount,
+      orientation: state.orientation,
+      mountingType: state.mountingType,
+      systemLosses: state.systemLosses,
+      sharedInverter: true,
+      inverterPresetId: state.inverterPresetId === 'custom' ? getDefaultInverterPreset().id : state.inverterPresetId,
+      offset: { east: Math.round(east * 10) / 10, north: 0 },
+    };
+    set((state) => ({ subArrays: [...state.subArrays, subArray] }));
+    get().recalculate();
+  },
+  updateSubArray: (id, changes) => {
+    set((state) => ({
+      subArrays: state.subArrays.map((subArray) => {
+        if (subArray.id !== id) return subArray;
+        const updated = { ...subArray, ...changes };
+        return {
+          ...updated,
+          panelCount: Math.max(1, Math.min(1000, Math.round(updated.panelCount))),
+          orientation: {
+            tilt: Math.max(0, Math.min(90, updated.orientation.tilt)),
+            azimuth: ((updated.orientation.azimuth % 360) + 360) % 360,
+          },
+          offset: {
+            east: Math.max(-50, Math.min(50, updated.offset.east)),
+            north: Math.max(-50, Math.min(50, updated.offset.north)),
+          },
+        };
+      }),
+    }));
+    get().recalculate();
+  },
+  setSubArrayPreset: (id, presetId) => {
+    const preset = getPanelPreset(presetId);
+    if (!preset) return;
+    get().updateSubArray(id, { panelPresetId: presetId, panelConfig: preset.config });
+  },
+  removeSubArray: (id) => {
+    set((state) => ({ subArrays: state.subArrays.filter((subArray) => subArray.id !== id) }));
+    get().recalculate();
+  },
 
   // ============ Environment ============
   ambientTemp: 25,
@@ -174,6 +632,21 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
     set({ ambientTemp: temp });
     get().recalculate();
   },
+  windSpeed: 1,
+  setWindSpeed: (speed) => {
+    set({ windSpeed: Math.max(0, Math.min(30, speed)) });
+    get().recalculate();
+  },
+  recordLowTemp: DEFAULT_RECORD_LOW_TEMP,
+  setRecordLowTemp: (temp) => {
+    set({ recordLowTemp: Math.max(-60, Math.min(40, temp)) });
+    get().recalculate();
+  },
+  recordHighTemp: DEFAULT_RECORD_HIGH_TEMP,
+  setRecordHighTemp: (temp) => {
+    set({ recordHighTemp: Math.max(0, Math.min(60, temp)) });
+    get().recalculate();
+  },
   albedo: 0.2,
   setAlbedo: (albedo) => {
     set({ albedo: Math.max(0, Math.min(1, albedo)) });
@@ -184,6 +657,85 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
     set({ linkeTurbidity: Math.max(1, Math.min(7, turbidity)) });
     get().recalculate();
   },
+  horizonProfile: null,
+  setHorizonProfile: (profile) => {
+    set({ horizonProfile: profile });
+    get().recalculate();
+  },
+  obstacles: [],
+  addObstacle: (type) => {
+    // Place new obstacles in front of the array, facing it
+    const preset = getObstaclePreset(type);
+    const azimuthRad = get().orientation.azimuth * Math.PI / 180;
+    const obstacle: Obstacle = {
+      id: `obstacle-${nextObstacleId++}`,
+      type,
+      shape: preset.shape,
+      east: Math.round(Math.sin(azimuthRad) * preset.distance * 10) / 10,
+      north: Math.round(Math.cos(azimuthRad) * preset.distance * 10) / 10,
+      width: preset.width,
+      depth: preset.depth,
+      height: preset.height,
+      rotation: (get().orientation.azimuth + 180) % 360,
+    };
+    set((state) => ({ obstacles: [...state.obstacles, obstacle] }));
+    get().recalculate();
+  },
+  updateObstacle: (id, changes) => {
+    set((state) => ({
+      obstacles: state.obstacles.map((obstacle) => {
+        if (obstacle.id !== id) return obstacle;
+        const updated = { ...obstacle, ...changes };
+        return {
+          ...updated,
+          east: Math.max(-50, Math.min(50, updated.east)),
+          north: Math.max(-50, Math.min(50, updated.north)),
+          width: Math.max(0.1, Math.min(50, updated.width)),
+          depth: Math.max(0.1, Math.min(50, updated.depth)),
+          height: Math.max(0.1, Math.min(50, updated.height)),
+          rotation: ((updated.rotation % 360) + 360) % 360,
+        };
+      }),
+    }));
+    get().recalculate();
+  },
+  removeObstacle: (id) => {
+    set((state) => ({ obstacles: state.obstacles.filter((obstacle) => obstacle.id !== id) }));
+    get().recalculate();
+  },
+
+  // ============ Weather Data ============
+  weatherData: null,
+  setWeatherData: (weather) => {
+    // A newly loaded file becomes the active source and sets the design temperatures
+    const range = weather && getTemperatureRange(weather);
+    set((state) => ({
+      weatherData: weather,
+      irradianceSource: weather
+        ? 'weather'
+        : state.irradianceSource === 'weather' ? 'clear-sky' : state.irradianceSource,
+      recordLowTemp: range ? range.min : state.recordLowTemp,
+      recordHighTemp: range ? range.max : state.recordHighTemp,
+    }));
+    get().recalculate();
+  },
+  irradianceSource: 'clear-sky',
+  setIrradianceSource: (source) => {
+    if (source === 'weather' && !get().weatherData) return;
+    set({ irradianceSource: source });
+    get().recalculate();
+  },
+  allSkyConfig: { clearnessIndex: 0.55, model: 'erbs' },
+  setAllSkyConfig: (config) => {
+    set((state) => ({
+      allSkyConfig: {
+        ...state.allSkyConfig,
+        ...config,
+        clearnessIndex: Math.max(0, Math.min(1, config.clearnessIndex ?? state.allSkyConfig.clearnessIndex)),
+      },
+    }));
+    get().recalculate();
+  },
 
   // ============ Loss Models ============
   systemLosses: DEFAULT_SYSTEM_LOSSES,
@@ -193,24 +745,352 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
     }));
     get().recalculate();
   },
+  inverterPresetId: getDefaultInverterPreset().id,
+  setInverterPreset: (id) => {
+    const preset = getInverterPreset(id);
+    if (!preset) return;
+    set((state) => {
+      const { strings, limits } = state.inverterConfig;
+      const inverterConfig = { ...preset.config };
+      // The wiring stays with the array; datasheet limits come with the inverter
+      if (strings) {
+        inverterConfig.strings = strings;
+        inverterConfig.limits = preset.config.limits ?? limits;
+      }
+      return { inverterPresetId: id, inverterConfig };
+    });
+    get().recalculate();
+  },
   inverterConfig: DEFAULT_INVERTER_CONFIG,
   setInverterConfig: (config) => {
     set((state) => ({
       inverterConfig: { ...state.inverterConfig, ...config },
+      inverterPresetId: 'custom',
     }));
     get().recalculate();
   },
+  setStringConfig: (config) => {
+    set((state) => {
+      if (config === null) {
+        // Keep the selected inverter's datasheet limits
+        const { strings: _strings, limits: _limits, ...inverterConfig } = state.inverterConfig;
+        const presetLimits = getInverterPreset(state.inverterPresetId)?.config.limits;
+        return { inverterConfig: presetLimits ? { ...inverterConfig, limits: presetLimits } : inverterConfig };
+      }
+
+      const limits = state.inverterConfig.limits ?? DEFAULT_INVERTER_LIMITS;
+      const current = state.inverterConfig.strings
+        ?? suggestStringConfig(state.panelConfig, state.panelCount, limits, state.recordLowTemp);
+      const merged = { ...current, ...config };
+      const count = (value: number, max: number) => Math.max(1, Math.min(max, Math.round(value)));
+      return {
+        inverterConfig: {
+          ...state.inverterConfig,
+          limits,
+          strings: {
+            modulesPerString: count(merged.modulesPerString, 100),
+            stringsPerMppt: count(merged.stringsPerMppt, 20),
+            mpptCount: count(merged.mpptCount, 12),
+          },
+        },
+      };
+    });
+    get().recalculate();
+  },
+  setInverterLimits: (limits) => {
+    set((state) => {
+      const merged = { ...(state.inverterConfig.limits ?? DEFAULT_INVERTER_LIMITS), ...limits };
+      return {
+        inverterConfig: {
+          ...state.inverterConfig,
+          limits: {
+            maxDcVoltage: Math.max(0, merged.maxDcVoltage),
+            mpptVoltageMin: Math.max(0, merged.mpptVoltageMin),
+            mpptVoltageMax: Math.max(0, merged.mpptVoltageMax),
+            maxInputCurrent: Math.max(0, merged.maxInputCurrent),
+          },
+        },
+      };
+    });
+    get().recalculate();
+  },
+  spectralConfig: DEFAULT_SPECTRAL_CONFIG,
+  setSpectralConfig: (config) => {
+    set((state) => {
+      const precipitableWater = config.precipitableWater === undefined
+        ? state.spectralConfig.precipitableWater
+        : config.precipitableWater;
+      return {
+        spectralConfig: {
+          ...state.spectralConfig,
+          ...config,
+          // null uses weather data or a typical value
+          precipitableWater: precipitableWater === null || !Number.isFinite(precipitableWater)
+            ? null
+            : Math.max(0, Math.min(8, precipitableWater)),
+        },
+      };
+    });
+    get().recalculate();
+  },
+  thermalConfig: DEFAULT_THERMAL_CONFIG,
+  setThermalConfig: (config) => {
+    set((state) => ({
+      thermalConfig: { ...state.thermalConfig, ...config },
+    }));
+    get().recalculate();
+  },
+  snowEnabled: false,
+  setSnowEnabled: (enabled) => {
+    set({ snowEnabled: enabled });
+    get().recalculate();
+  },
+  snowConfig: DEFAULT_SNOW_CONFIG,
+  setSnowConfig: (config) => {
+    set((state) => {
+      const merged = { ...state.snowConfig, ...config };
+      return {
+        snowConfig: {
+          ...merged,
+          monthlySnowfall: merged.monthlySnowfall.slice(0, 12).map((snowfall) => Math.max(0, Math.min(500, snowfall))),
+          monthlyTemperature: merged.monthlyTemperature.slice(0, 12).map((temp) => Math.max(-50, Math.min(50, temp))),
+        },
+      };
+    });
+    get().recalculate();
+  },
+  soilingEnabled: false,
+  setSoilingEnabled: (enabled) => {
+    set({ soilingEnabled: enabled });
+    get().recalculate();
+  },
+  soilingConfig: DEFAULT_SOILING_CONFIG,
+  setSoilingConfig: (config) => {
+    set((state) => {
+      const merged = { ...state.soilingConfig, ...config };
+      return {
+        soilingConfig: {
+          ...merged,
+          rate: Math.max(0, Math.min(0.05, merged.rate)),
+          maxLoss: Math.max(0, Math.min(0.9, merged.maxLoss)),
+          cleaningThreshold: Math.max(0, merged.cleaningThreshold),
+          gracePeriod: Math.max(0, Math.min(60, Math.round(merged.gracePeriod))),
+          monthlyRainfall: merged.monthlyRainfall.slice(0, 12).map((rain) => Math.max(0, Math.min(1000, rain))),
+          washDays: [...new Set(merged.washDays.map(Math.round))]
+            .filter((day) => day >= 1 && day <= 366)
+            .sort((a, b) => a - b),
+        },
+      };
+    });
+    get().recalculate();
+  },
+  washCosts: DEFAULT_WASH_COSTS,
+  setWashCosts: (costs) => {
+    set((state) => {
+      const merged = { ...state.washCosts, ...costs };
+      return {
+        washCosts: {
+          washCost: Math.max(0, merged.washCost),
+          energyPrice: Math.max(0, merged.energyPrice),
+        },
+      };
+    });
+    get().recalculate();
+  },
+  applyOptimalWashSchedule: () => {
+    const { washSchedule, setSoilingConfig } = get();
+    if (washSchedule) setSoilingConfig({ washDays: washSchedule.optimal.washDays });
+  },
   showAdvancedLosses: false,
   setShowAdvancedLosses: (show) => set({ showAdvancedLosses: show }),
 
+  // ============ Lifetime Projection ============
+  lifetimeConfig: DEFAULT_LIFETIME_CONFIG,
+  setLifetimeConfig: (config) => {
+    set((state) => {
+      const merged = { ...state.lifetimeConfig, ...config };
+      const years = Math.max(1, Math.min(50, Math.round(merged.years)));
+      const operatingYear = (year: number) => Math.max(1, Math.min(years, Math.round(year)));
+      return {
+        lifetimeConfig: {
+          ...merged,
+          years,
+          degradationRate: merged.degradationRate === null || !Number.isFinite(merged.degradationRate)
+            ? null
+            : Math.max(0, Math.min(5, merged.degradationRate)),
+          inverterReplacementYears: [...new Set(merged.inverterReplacementYears.map(operatingYear))]
+            .sort((a, b) => a - b),
+          replacementDowntimeDays: Math.max(0, Math.min(365, merged.replacementDowntimeDays)),
+          availabilitySteps: merged.availabilitySteps.map((step) => ({
+            fromYear: operatingYear(step.fromYear),
+            loss: Math.max(0, Math.min(1, step.loss)),
+          })),
+        },
+      };
+    });
+    get().recalculate();
+  },
+
+  // ============ Load & Battery ============
+  loadConfig: DEFAULT_LOAD_CONFIG,
+  setLoadConfig: (config) => {
+    set((state) => {
+      const merged = { ...state.loadConfig, ...config };
+      return {
+        loadConfig: {
+          ...merged,
+          annualConsumption: Math.max(0, Math.min(100000, merged.annualConsumption)),
+        },
+      };
+    });
+    get().recalculate();
+  },
+  loadProfile: null,
+  setLoadProfile: (profile) => {
+    set({ loadProfile: profile });
+    get().recalculate();
+  },
+  batteryEnabled: false,
+  setBatteryEnabled: (enabled) => {
+    set({ batteryEnabled: enabled });
+    get().recalculate();
+  },
+  batteryConfig: DEFAULT_BATTERY_CONFIG,
+  setBatteryConfig: (config) => {
+    set((state) => {
+      const merged = { ...state.batteryConfig, ...config };
+      const clampHour = (hour: number) => Math.max(0, Math.min(24, hour));
+      return {
+        batteryConfig: {
+          ...merged,
+          capacity: Math.max(0, Math.min(1000, merged.capacity)),
+          depthOfDischarge: Math.max(0, Math.min(1, merged.depthOfDischarge)),
+          roundTripEfficiency: Math.max(0.5, Math.min(1, merged.roundTripEfficiency)),
+          maxChargePower: Math.max(0, Math.min(500, merged.maxChargePower)),
+          maxDischargePower: Math.max(0, Math.min(500, merged.maxDischargePower)),
+          cycleLife: Math.max(0, Math.round(merged.cycleLife)),
+          calendarFade: Math.max(0, Math.min(10, merged.calendarFade)),
+          peakStart: clampHour(merged.peakStart),
+          peakEnd: clampHour(merged.peakEnd),
+          backupReserve: Math.max(0, Math.min(1, merged.backupReserve)),
+        },
+      };
+    });
+    get().recalculate();
+  },
+
+  // ============ Tariffs ============
+  tariffs: initialTariffState.tariffs,
+  activeTariffId: initialTariffState.activeTariffId,
+  setActiveTariff: (id) => {
+    if (!get().tariffs.some((tariff) => tariff.id === id)) return;
+    set({ activeTariffId: id });
+    saveTariffState(get().tariffs, id);
+    get().recalculate();
+  },
+  addTariff: () => {
+    const state = get();
+    const id = `tariff-${nextTariffId++}`;
+    const tariff: Tariff = {
+      ...selectActiveTariff(state),
+      id,
+      name: `Tariff ${state.tariffs.length + 1}`,
+    };
+    set({ tariffs: [...state.tariffs, tariff], activeTariffId: id });
+    saveTariffState(get().tariffs, id);
+    get().recalculate();
+  },
+  updateTariff: (id, changes) => {
+    set((state) => ({
+      tariffs: state.tariffs.map((tariff) => (tariff.id === id ? clampTariff({ ...tariff, ...changes }) : tariff)),
+    }));
+    saveTariffState(get().tariffs, get().activeTariffId);
+    // The name and currency only label the bills
+    if (Object.keys(changes).some((key) => key !== 'name' && key !== 'currency')) {
+      get().recalculate();
+    }
+  },
+  removeTariff: (id) => {
+    set((state) => {
+      if (state.tariffs.length <= 1) return {};
+      const tariffs = state.tariffs.filter((tariff) => tariff.id !== id);
+      return {
+        tariffs,
+        activeTariffId: state.activeTariffId === id ? tariffs[0].id : state.activeTariffId,
+      };
+    });
+    saveTariffState(get().tariffs, get().activeTariffId);
+    get().recalculate();
+  },
+
+  // ============ Project Finance ============
+  financeConfig: DEFAULT_FINANCE_CONFIG,
+  setFinanceConfig: (config) => {
+    set((state) => {
+      const merged = { ...state.financeConfig, ...config };
+      const clampPercent = (value: number) => Math.max(-50, Math.min(100, value));
+      return {
+        financeConfig: {
+          ...merged,
+          installedCost: Math.max(0, Math.min(20, merged.installedCost)),
+          omCost: Math.max(0, Math.min(1000, merged.omCost)),
+          omEscalation: clampPercent(merged.omEscalation),
+          inverterCost: Math.max(0, Math.min(5, merged.inverterCost)),
+          incentive: Math.max(0, merged.incentive),
+          taxCredit: Math.max(0, Math.min(100, merged.taxCredit)),
+          loanShare: Math.max(0, Math.min(1, merged.loanShare)),
+          loanRate: Math.max(0, Math.min(50, merged.loanRate)),
+          loanTerm: Math.max(1, Math.min(40, Math.round(merged.loanTerm))),
+          discountRate: Math.max(0, Math.min(50, merged.discountRate)),
+          priceEscalation: clampPercent(merged.priceEscalation),
+        },
+      };
+    });
+    get().recalculate();
+  },
+
+  // ============ Grid Emissions ============
+  emissionOverride: null,
+  setEmissionOverride: (factor) => {
+    set({ emissionOverride: factor === null ? null : Math.max(0, Math.min(2, factor)) });
+    get().recalculate();
+  },
+  emissionProfile: null,
+  setEmissionProfile: (profile) => {
+    set({ emissionProfile: profile });
+    get().recalculate();
+  },
+
   // ============ Computed Values ============
   solarPosition: null,
   irradiance: null,
   poaIrradiance: null,
   instantPower: 0,
   dailyOutput: null,
+  annualOutput: null,
+  fixedAnnualOutput: null,
+  annualPending: false,
+  lifetimeOutput: null,
+  washSchedule: null,
+  dailyEnergyBalance: null,
+  annualEnergyBalance: null,
+  dailyBattery: null,
+  annualBattery: null,
+  tariffSavings: null,
+  financeOutput: null,
+  gridEmissionFactor: getGridEmissionFactor(defaultLocation),
+  emissions: null,
   currentLosses: null,
   cellTemperature: 25,
+  surfaceOrientation: null,
+  trackerRotation: null,
+  trackerStowed: false,
+  sunBehindHorizon: false,
+  panelShading: [],
+  stringSizing: null,
+  subArrayResults: [],
+  currentAmbientTemp: 25,
+  currentWindSpeed: 1,
 
   // ============ Derived State ============
   isNight: false,
@@ -221,24 +1101,88 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
 
   // ============ Cache ============
   lastCalculationKey: '',
+  lastAnnualKey: '',
+  lastFixedAnnualKey: '',
+  lastWashKey: '',
+  lastLoadKey: '',
+  lastBatteryKey: '',
+  lastTariffKey: '',
+  lastLifetimeKey: '',
+  lastFinanceKey: '',
+  lastEmissionsKey: '',
 
   // ============ Actions ============
-  recalculate: () => {
+  recalculate: (immediate = false) => {
     const state = get();
     const {
       location,
       date,
       animationHour,
+      timestepMinutes,
       panelConfig,
       orientation,
       panelCount,
       ambientTemp,
+      windSpeed,
       albedo,
       linkeTurbidity,
       systemLosses,
       inverterConfig,
+      weatherData,
+      irradianceSource,
+      allSkyConfig,
+      mountingType,
+      trackerConfig,
+      dualAxisConfig,
+      rowSpacing,
+      bifacialConfig,
+      rowShadingEnabled,
+      rowShadingConfig,
+      horizonProfile,
+      obstacles,
+      spectralConfig,
+      thermalConfig,
+      snowEnabled,
+      snowConfig,
+      soilingEnabled,
+      soilingConfig,
+      washCosts,
+      recordLowTemp,
+      recordHighTemp,
+      subArrays,
+      lifetimeConfig,
+      loadConfig,
+      loadProfile,
+      batteryEnabled,
+      batteryConfig,
+      financeConfig,
+      emissionOverride,
+      emissionProfile,
     } = state;
 
+    const weather = irradianceSource === 'weather' ? weatherData : null;
+    const allSky = irradianceSource === 'all-sky' ? allSkyConfig : null;
+    const tracker = mountingType === 'tracking' ? trackerConfig : null;
+    const dualAxis = mountingType === 'dual-axis' ? dualAxisConfig : null;
+    const bifacial = panelConfig.bifacial ? { ...bifacialConfig, rowSpacing } : null;
+    // Trackers set their own row geometry, so row shading applies to fixed mounts
+    const rowShading = rowShadingEnabled && (mountingType === 'roof' || mountingType === 'ground')
+      ? { ...rowShadingConfig, rowSpacing }
+      : null;
+    const activeObstacles = obstacles.length > 0 ? obstacles : null;
+    const snow = snowEnabled ? snowConfig : null;
+    const soiling = soilingEnabled ? soilingConfig : null;
+    const battery = batteryEnabled ? batteryConfig : null;
+    const tariff = selectActiveTariff(state);
+    const appliedLosses = selectAppliedLosses(state);
+    // Datasets are keyed by id; stringifying 8760 records would defeat the cache
+    const weatherId = weather?.id ?? null;
+    const horizonId = horizonProfile?.id ?? null;
+    const allSkyKey = allSky && { ...allSky, series: allSky.series?.id ?? null };
+    const activeSubArrays = subArrays.length > 0
+      ? subArrays.map((subArray) => resolveSubArray(subArray, state, activeObstacles))
+      : null;
+
     const calculationKey = JSON.stringify({
       location: {
         latitude: location.latitude,
@@ -248,17 +1192,43 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
       },
       date: date.toISOString().split('T')[0],
       animationHour,
+      timestepMinutes,
       panelConfig,
       orientation,
       panelCount,
       ambientTemp,
+      windSpeed,
       albedo,
       linkeTurbidity,
       systemLosses,
       inverterConfig,
+      weatherId,
+      allSky: allSkyKey,
+      tracker,
+      dualAxis,
+      bifacial,
+      rowShading,
+      horizonId,
+      obstacles: activeObstacles,
+      spectralConfig,
+      thermalConfig,
+      snow,
+      soiling,
+      washCosts,
+      recordLowTemp,
+      recordHighTemp,
+      subArrays: activeSubArrays,
+      lifetimeConfig,
+      loadConfig,
+      loadProfile: loadProfile?.id ?? null,
+      battery,
+      tariff,
+      financeConfig,
+      emissionOverride,
+      emissionProfile: emissionProfile?.id ?? null,
     });
 
-    if (calculationKey === state.lastCalculationKey) {
+    if (calculationKey === state.lastCalculationKey && !immediate) {
       return;
     }
 
@@ -272,12 +1242,26 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
       location.longitude
     );
 
-    // Calculate irradiance (with altitude if available)
-    const irradiance = calculateIrradiance(
+    // Calculate irradiance from weather data or clear-sky (with altitude if available)
+    const conditions = getAmbientConditions(
       currentTimeUTC,
       solarPosition.zenith,
+      location,
       linkeTurbidity,
-      location.elevation || 0
+      ambientTemp,
+      weather,
+      allSky,
+      windSpeed
+    );
+    const irradiance = conditions.irradiance;
+
+    // Trackers rotate the plane with the sun; fixed mounts keep their orientation
+    const surface = getSurfaceOrientation(
+      solarPosition,
+      orientation,
+      tracker,
+      dualAxis,
+      conditions.windSpeed
     );
 
     // Calculate POA irradiance
@@ -285,37 +1269,115 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
       irradiance,
       solarPosition.zenith,
       solarPosition.azimuth,
-      orientation.tilt,
-      orientation.azimuth,
-      albedo
+      surface.orientation.tilt,
+      surface.orientation.azimuth,
+      albedo,
+      bifacial,
+      panelConfig.height,
+      calculateShadingFactors(
+        solarPosition.zenith,
+        solarPosition.azimuth,
+        surface.orientation.tilt,
+        surface.orientation.azimuth,
+        panelConfig,
+        rowShading,
+        horizonProfile,
+        activeObstacles,
+        panelCount
+      )
     );
 
     // Calculate instant power with full loss model
     const powerResult = calculatePanelPower(
       poaIrradiance,
       panelConfig,
-      ambientTemp,
+      conditions.ambientTemp,
       panelCount,
-      systemLosses,
-      inverterConfig
+      appliedLosses,
+      inverterConfig,
+      conditions.windSpeed,
+      calculateSpectralFactor(
+        irradiance.airMass,
+        panelConfig.technology,
+        spectralConfig,
+        conditions.precipitableWater
+      ),
+      thermalConfig
     );
 
-    // Calculate daily output
-    const hourlyIrradiance: Irradiance[] = [];
-    const hourlyPositions: SolarPosition[] = [];
+    // Sub-arrays sharing the main inverter clip together with it
+    const subPowers = (activeSubArrays ?? []).map((subArray) => calculateSubArrayPower(
+      subArray,
+      irradiance,
+      solarPosition,
+      conditions,
+      albedo,
+      horizonProfile,
+      spectralConfig,
+      thermalConfig
+    ));
+    const combinedPower = activeSubArrays
+      ? combineArrayPower(powerResult, panelConfig, panelCount, inverterConfig, activeSubArrays, subPowers)
+      : null;
+    const subArrayResults: SubArrayResult[] = (activeSubArrays ?? []).map((subArray, i) => ({
+      id: subArray.id,
+      surfaceOrientation: subPowers[i].surfaceOrientation,
+      poaIrradiance: subPowers[i].poaIrradiance,
+      dcPower: subPowers[i].dcPower,
+      acPower: combinedPower!.arrays[i + 1].acPower,
+      panelShading: subArray.obstacles?.length
+        ? calculateObstacleShading(
+            solarPosition.zenith,
+            solarPosition.azimuth,
+            subPowers[i].surfaceOrientation.tilt,
+            subPowers[i].surfaceOrientation.azimuth,
+            subArray.panelConfig,
+            subArray.panelCount,
+            subArray.obstacles
+          ).panelFractions
+        : [],
+    }));
+    const arrayPower = combinedPower?.acPower ?? powerResult.acPower;
+    const instantPower = dualAxis
+      ? applyTrackerLosses(arrayPower, dualAxis, surface.tracking ?? false).acPower
+      : arrayPower;
+
+    // Calculate daily output at the selected timestep
+    // UTC anchors per local hour keep DST days correct without a
+    // timezone lookup for every sub-hourly sample
+    const hourStartsUTC = Array.from({ length: 25 }, (_, hour) =>
+      createLocalDateTime(date, hour, location.timezone).getTime()
+    );
+    const sampleIrradiance: Irradiance[] = [];
+    const samplePositions: SolarPosition[] = [];
+    const sampleConditions: { ambientTemp: number; windSpeed: number; precipitableWater?: number }[] = [];
 
-    for (let hour = 0; hour < 24; hour++) {
-      const hourTimeUTC = createLocalDateTime(date, hour + 0.5, location.timezone);
-      const pos = calculateSolarPosition(hourTimeUTC, location.latitude, location.longitude);
-      hourlyPositions.push(pos);
-      hourlyIrradiance.push(
-        calculateIrradiance(hourTimeUTC, pos.zenith, linkeTurbidity, location.elevation || 0)
+    for (const localHour of getDailySampleHours(timestepMinutes)) {
+      const hour = Math.min(24, Math.floor(localHour));
+      const sampleTimeUTC = new Date(hourStartsUTC[hour] + (localHour - hour) * 3600000);
+      const pos = calculateSolarPosition(sampleTimeUTC, location.latitude, location.longitude);
+      const sample = getAmbientConditions(
+        sampleTimeUTC,
+        pos.zenith,
+        location,
+        linkeTurbidity,
+        ambientTemp,
+        weather,
+        allSky,
+        windSpeed
       );
+      samplePositions.push(pos);
+      sampleIrradiance.push(sample.irradiance);
+      sampleConditions.push({
+        ambientTemp: sample.ambientTemp,
+        windSpeed: sample.windSpeed,
+        precipitableWater: sample.precipitableWater,
+      });
     }
 
     const dailyOutput = calculateDailyPowerOutput(
-      hourlyIrradiance,
-      hourlyPositions,
+      sampleIrradiance,
+      samplePositions,
       panelConfig,
       orientation,
       panelCount,
@@ -323,11 +1385,35 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
       albedo,
       systemLosses,
       inverterConfig,
-      location.timezone
+      location.timezone,
+      timestepMinutes,
+      sampleConditions,
+      tracker,
+      dualAxis,
+      bifacial,
+      rowShading,
+      horizonProfile,
+      activeObstacles,
+      spectralConfig,
+      thermalConfig,
+      activeSubArrays
     );
 
     // Set instant power from current calculation
-    dailyOutput.instantPower = powerResult.acPower;
+    dailyOutput.instantPower = instantPower;
+
+    // Household load netted against PV for the selected day at the chart timestep
+    const samples = dailyOutput.hourlyData;
+    const dayInputs = samples.slice(1).map((sample, i) => {
+      const hour = (samples[i].localHour + sample.localHour) / 2;
+      return {
+        pv: Math.max(0, (samples[i].acPower + sample.acPower) / 2),
+        load: getLoadPower(loadConfig, hour, date.getMonth(), date.getDate(), loadProfile),
+        hour,
+      };
+    });
+    const dailyEnergyBalance = calculateEnergyBalance(dayInputs, timestepMinutes / 60);
+    const dailyBattery = battery ? dispatchBatteryDay(dayInputs, battery, timestepMinutes / 60) : null;
 
     // Check if orientation is optimal
     const isOptimal = isOrientationOptimal(
@@ -347,20 +1433,284 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
     // This is the SINGLE SOURCE OF TRUTH for displayed simulation time
     const currentTimeLocal = formatLocalHour(animationHour);
 
-    set({
+    // Everything that follows the selected moment and day
+    const instantState = {
       solarPosition,
       irradiance,
       poaIrradiance,
-      instantPower: powerResult.acPower,
+      instantPower,
       dailyOutput,
+      dailyEnergyBalance,
+      dailyBattery,
       currentLosses: powerResult.losses,
       cellTemperature: powerResult.cellTemp,
+      surfaceOrientation: surface.orientation,
+      trackerRotation: surface.trackerRotation ?? null,
+      trackerStowed: surface.stowed ?? false,
+      sunBehindHorizon: !isNight && horizonProfile !== null &&
+        isSunBehindHorizon(horizonProfile, solarPosition.zenith, solarPosition.azimuth),
+      stringSizing: validateStringSizing(
+        panelConfig,
+        panelCount,
+        inverterConfig,
+        recordLowTemp,
+        recordHighTemp,
+        thermalConfig
+      ),
+      panelShading: activeObstacles
+        ? calculateObstacleShading(
+            solarPosition.zenith,
+            solarPosition.azimuth,
+            surface.orientation.tilt,
+            surface.orientation.azimuth,
+            panelConfig,
+            panelCount,
+            activeObstacles
+          ).panelFractions
+        : [],
+      subArrayResults,
+      currentAmbientTemp: conditions.ambientTemp,
+      currentWindSpeed: conditions.windSpeed,
       isNight,
       isTwilight,
       isOptimal,
       currentTimeUTC,
       currentTimeLocal,
+    };
+
+    // Annual simulation only depends on the year and system config,
+    // so skip it while the animation hour or day changes
+    const year = date.getFullYear();
+    const simulationConfig: SimulationConfig = {
+      panelConfig,
+      orientation,
+      panelCount,
+      ambientTemp,
+      albedo,
+      linkeTurbidity,
+      systemLosses,
+      inverterConfig,
+      weather,
+      allSky,
+      tracker,
+      dualAxis,
+      bifacial,
+      rowShading,
+      horizon: horizonProfile,
+      obstacles: activeObstacles,
+      spectral: spectralConfig,
+      thermal: thermalConfig,
+      windSpeed,
+      subArrays: activeSubArrays,
+      snow,
+      soiling,
+    };
+    const getAnnualKey = (config: SimulationConfig) => JSON.stringify({
+      location: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        elevation: location.elevation || 0,
+        timezone: location.timezone,
+      },
+      year,
+      ...config,
+      weather: weatherId,
+      allSky: allSkyKey,
+      horizon: horizonId,
+    });
+    const annualKey = getAnnualKey(simulationConfig);
+    const isTracking = tracker !== null || dualAxis !== null;
+    const fixedConfig = { ...simulationConfig, tracker: null, dualAxis: null };
+    const fixedAnnualKey = isTracking ? getAnnualKey(fixedConfig) : '';
+    const washKey = soiling ? `${annualKey}|${JSON.stringify(washCosts)}` : '';
+    const loadKey = `${annualKey}|${JSON.stringify({ loadConfig, loadProfile: loadProfile?.id ?? null })}`;
+    const batteryKey = battery ? `${loadKey}|${JSON.stringify(battery)}` : '';
+    const tariffKey = `${battery ? batteryKey : loadKey}|${JSON.stringify(tariff)}`;
+
+    // The year-long runs wait until slider input settles; the previous
+    // results stay on screen meanwhile. The first run is never deferred.
+    const previous = state.annualOutput;
+    const yearStale = previous !== null && (
+      annualKey !== state.lastAnnualKey ||
+      (isTracking && fixedAnnualKey !== state.lastFixedAnnualKey && fixedAnnualKey !== state.lastAnnualKey) ||
+      washKey !== state.lastWashKey ||
+      (previous.hourly && (
+        loadKey !== state.lastLoadKey ||
+        tariffKey !== state.lastTariffKey ||
+        batteryKey !== state.lastBatteryKey
+      ))
+    );
+    if (yearStale && !immediate) {
+      const pendingKey = [annualKey, fixedAnnualKey, washKey, tariffKey].join('\n');
+      if (annualTimer === null || pendingKey !== pendingAnnualKey) {
+        if (annualTimer !== null) clearTimeout(annualTimer);
+        pendingAnnualKey = pendingKey;
+        annualTimer = setTimeout(() => {
+          annualTimer = null;
+          get().recalculate(true);
+        }, ANNUAL_DEBOUNCE_MS);
+      }
+      set({ ...instantState, annualPending: true, lastCalculationKey: calculationKey });
+      return;
+    }
+    if (annualTimer !== null) {
+      clearTimeout(annualTimer);
+      annualTimer = null;
+    }
+
+    const annualOutput = annualKey === state.lastAnnualKey && previous
+      ? previous
+      : calculateAnnualOutput(location, year, simulationConfig);
+
+    // Fixed-tilt baseline so tracker gains can be compared side by side;
+    // reuse the previous result when switching over from a fixed mount
+    let fixedAnnualOutput: AnnualOutput | null = null;
+    if (isTracking) {
+      if (fixedAnnualKey === state.lastFixedAnnualKey && state.fixedAnnualOutput) {
+        fixedAnnualOutput = state.fixedAnnualOutput;
+      } else if (fixedAnnualKey === state.lastAnnualKey && previous) {
+        fixedAnnualOutput = previous;
+      } else {
+        fixedAnnualOutput = calculateAnnualOutput(location, year, fixedConfig);
+      }
+    }
+
+    // Each array ages with its own modules
+    const arrayPanels = [panelConfig, ...subArrays.map((subArray) => subArray.panelConfig)];
+    const lifetimeKey = `${annualKey}|${JSON.stringify({
+      systemLosses,
+      lifetimeConfig,
+      degradation: arrayPanels.map((panel) => panel.degradation),
+    })}`;
+    const lifetimeOutput = lifetimeKey === state.lastLifetimeKey && state.lifetimeOutput
+      ? state.lifetimeOutput
+      : calculateLifetimeOutput(
+          annualOutput.arrays
+            ? annualOutput.arrays.map((array, i) => ({ energy: array.energy, degradation: arrayPanels[i]?.degradation }))
+            : [{ energy: annualOutput.annualEnergy, degradation: panelConfig.degradation }],
+          systemLosses,
+          lifetimeConfig
+        );
+
+    // Wash schedule against the simulated rain and clean-array energy
+    let washSchedule: SimulatorStore['washSchedule'] = null;
+    if (soiling && annualOutput.soiling) {
+      washSchedule = washKey === state.lastWashKey && state.washSchedule
+        ? state.washSchedule
+        : {
+            current: evaluateWashSchedule(annualOutput.soiling, soiling, washCosts),
+            optimal: optimizeWashSchedule(annualOutput.soiling, soiling, washCosts),
+          };
+    }
+
+    // Household load netted against PV hour by hour over the year
+    const yearChanged = loadKey !== state.lastLoadKey;
+    const tariffChanged = tariffKey !== state.lastTariffKey;
+    let yearInputs: { pv: number; load: number; hour: number }[] | null = null;
+    if ((yearChanged || tariffChanged || (battery && batteryKey !== state.lastBatteryKey)) && annualOutput.hourly) {
+      const yearLoad = getAnnualLoad(annualOutput.hourly, annualOutput.year, loadConfig, loadProfile);
+      yearInputs = annualOutput.hourly.map((h, i) => ({ pv: Math.max(0, h.acPower), load: yearLoad[i], hour: h.hour + 0.5 }));
+    }
+    const annualEnergyBalance = !yearChanged && state.annualEnergyBalance
+      ? state.annualEnergyBalance
+      : yearInputs && calculateEnergyBalance(yearInputs);
+
+    // Battery dispatch against the same load
+    let annualBattery: BatteryOutput | null = null;
+    if (battery) {
+      annualBattery = batteryKey === state.lastBatteryKey && state.annualBattery
+        ? state.annualBattery
+        : yearInputs && dispatchBattery(yearInputs, battery);
+    }
+
+    // Bills with and without PV, using the battery's grid flows when fitted
+    let tariffSavings = !tariffChanged ? state.tariffSavings : null;
+    if (!tariffSavings && yearInputs && annualOutput.hourly) {
+      const inputs = yearInputs;
+      tariffSavings = calculateTariffSavings(annualOutput.hourly.map((h, i) => {
+        const step = annualBattery?.steps[i];
+        const net = inputs[i].load - inputs[i].pv;
+        return {
+          month: h.month,
+          day: h.day,
+          weekday: h.weekday,
+          hour: h.hour,
+          load: inputs[i].load,
+          gridImport: step ? step.gridImport : Math.max(0, net),
+          gridExport: step ? step.gridExport : Math.max(0, -net),
+        };
+      }), tariff);
+    }
+
+    // Investment cash flows; without the hourly bills the energy is valued at the base rate
+    const systemSize = selectSystemSize(state);
+    const financeKey = `${lifetimeKey}|${tariffKey}|${JSON.stringify({ systemSize, financeConfig })}`;
+    const financeOutput = financeKey === state.lastFinanceKey && state.financeOutput
+      ? state.financeOutput
+      : calculateFinancials(
+          lifetimeOutput.years,
+          tariffSavings ? tariffSavings.savings : (annualOutput.annualEnergy / 1000) * tariff.baseRate,
+          systemSize,
+          financeConfig
+        );
+
+    // CO2 avoided at the location's grid factor, the user's factor or the marginal profile;
+    // only the daily figure follows the selected date
+    const gridEmissionFactor = getGridEmissionFactor(location);
+    const emissionsKey = `${annualKey}|${JSON.stringify({
+      gridEmissionFactor,
+      emissionOverride,
+      emissionProfile: emissionProfile?.id ?? null,
+    })}`;
+    const dayOfYear = getDayOfYear(date) - 1;
+    let emissions: EmissionsResult | null = null;
+    if (annualOutput.hourly) {
+      if (emissionsKey !== state.lastEmissionsKey || !state.emissions) {
+        emissions = calculateEmissions(
+          annualOutput.hourly,
+          annualOutput.year,
+          dayOfYear,
+          dailyOutput.dailyEnergy,
+          gridEmissionFactor,
+          emissionOverride,
+          emissionProfile
+        );
+      } else {
+        const dailyOffset = calculateDailyEmissions(
+          annualOutput.hourly,
+          annualOutput.year,
+          dayOfYear,
+          dailyOutput.dailyEnergy,
+          state.emissions.factor,
+          emissionProfile
+        );
+        emissions = dailyOffset === state.emissions.dailyOffset ? state.emissions : { ...state.emissions, dailyOffset };
+      }
+    }
+
+    set({
+      ...instantState,
+      annualOutput,
+      fixedAnnualOutput,
+      lifetimeOutput,
+      washSchedule,
+      annualEnergyBalance,
+      annualBattery,
+      tariffSavings,
+      financeOutput,
+      gridEmissionFactor,
+      emissions,
+      annualPending: false,
       lastCalculationKey: calculationKey,
+      lastAnnualKey: annualKey,
+      lastFixedAnnualKey: fixedAnnualKey,
+      lastWashKey: washKey,
+      lastLoadKey: annualEnergyBalance ? loadKey : '',
+      lastBatteryKey: annualBattery ? batteryKey : '',
+      lastTariffKey: tariffSavings ? tariffKey : '',
+      lastLifetimeKey: lifetimeKey,
+      lastFinanceKey: financeKey,
+      lastEmissionsKey: emissions ? emissionsKey : '',
     });
   },
 
@@ -382,15 +1732,38 @@ export const useSimulatorStore = create<SimulatorStore>((set, get) => ({
       panelPresetId: defaultPreset.id,
       panelConfig: defaultPreset.config,
       panelCount: 10,
+      mountingType: 'roof',
+      trackerConfig: DEFAULT_TRACKER_CONFIG,
+      dualAxisConfig: DEFAULT_DUAL_AXIS_CONFIG,
+      rowSpacing: defaultRowSpacing,
+      bifacialConfig: defaultBifacialConfig,
+      rowShadingEnabled: false,
+      rowShadingConfig: defaultRowLayout,
+      subArrays: [],
       orientation: {
         tilt: calculateOptimalTilt(location.latitude),
         azimuth: calculateOptimalAzimuth(location.latitude),
       },
       ambientTemp: 25,
+      windSpeed: 1,
       albedo: 0.2,
       linkeTurbidity: 3.0,
       systemLosses: DEFAULT_SYSTEM_LOSSES,
+      inverterPresetId: getDefaultInverterPreset().id,
       inverterConfig: DEFAULT_INVERTER_CONFIG,
+      spectralConfig: DEFAULT_SPECTRAL_CONFIG,
+      thermalConfig: DEFAULT_THERMAL_CONFIG,
+      snowEnabled: false,
+      snowConfig: DEFAULT_SNOW_CONFIG,
+      soilingEnabled: false,
+      soilingConfig: DEFAULT_SOILING_CONFIG,
+      washCosts: DEFAULT_WASH_COSTS,
+      lifetimeConfig: DEFAULT_LIFETIME_CONFIG,
+      loadConfig: DEFAULT_LOAD_CONFIG,
+      batteryEnabled: false,
+      batteryConfig: DEFAULT_BATTERY_CONFIG,
+      financeConfig: DEFAULT_FINANCE_CONFIG,
+      emissionOverride: null,
     });
     get().recalculate();
   },
@@ -411,7 +1784,10 @@ if (typeof window !== 'undefined') {
 // ============================================================
 
 export const selectSystemSize = (state: SimulatorStore): number =>
-  (state.panelConfig.ratedPower * state.panelCount) / 1000; // kW
+  state.subArrays.reduce(
+    (sum, subArray) => sum + subArray.panelConfig.ratedPower * subArray.panelCount,
+    state.panelConfig.ratedPower * state.panelCount
+  ) / 1000; // kW, including sub-arrays
 
 export const selectDaylightHours = (state: SimulatorStore): number => {
   if (!state.solarPosition) return 0;
@@ -421,6 +1797,18 @@ export const selectDaylightHours = (state: SimulatorStore): number => {
   );
 };
 
+export const selectActiveTariff = (state: Pick<SimulatorStore, 'tariffs' | 'activeTariffId'>): Tariff =>
+  state.tariffs.find((tariff) => tariff.id === state.activeTariffId) ?? state.tariffs[0] ?? DEFAULT_TARIFF;
+
+// Geometric row or obstacle shading replaces the flat shading percentage
+export const selectAppliedLosses = (
+  state: Pick<SimulatorStore, 'systemLosses' | 'rowShadingEnabled' | 'mountingType' | 'obstacles'>
+): SystemLosses =>
+  (state.rowShadingEnabled && (state.mountingType === 'roof' || state.mountingType === 'ground')) ||
+  state.obstacles.length > 0
+    ? { ...state.systemLosses, shading: 0 }
+    : state.systemLosses;
+
 export const selectOptimalTilt = (state: SimulatorStore): number =>
   calculateOptimalTilt(state.location.latitude);
 
@@ -434,6 +1822,6 @@ export const selectHourlyPower = (state: SimulatorStore): number[] => {
 
 export const selectCurrentHourData = (state: SimulatorStore): HourlyData | null => {
   if (!state.dailyOutput) return null;
-  const hourIndex = Math.floor(state.animationHour);
-  return state.dailyOutput.hourlyData[hourIndex] || null;
+  const sampleIndex = Math.round((state.animationHour * 60) / state.dailyOutput.timestepMinutes);
+  return state.dailyOutput.hourlyData[sampleIndex] || null;
 };